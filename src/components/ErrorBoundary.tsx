@@ -7,6 +7,7 @@ import React, { Component, type ErrorInfo, type ReactNode } from 'react';
 import { View, Text } from '@tarojs/components';
 import { cn } from '@/lib/utils';
 import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { isProduction } from '@/utils/env';
 
 /**
  * 错误边界属性
@@ -62,7 +63,7 @@ export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySt
    * 发送错误报告
    */
   private reportError(error: Error, errorInfo: ErrorInfo): void {
-    if (process.env.NODE_ENV === 'production') {
+    if (isProduction()) {
       const errorReport = {
         message: error.message,
         stack: error.stack,
@@ -0,0 +1,70 @@
+/**
+ * 年龄段升级提示组件
+ * 微学宝盒 - 孩子过生日进入新的年龄段后，请家长确认是否切换
+ */
+
+import React from 'react';
+import { View, Text } from '@tarojs/components';
+import { cn } from '@/lib/utils';
+import { Cake } from 'lucide-react';
+import { useAppState } from '@/hooks/useAppState';
+import { useChildAge } from '@/hooks/useChildAge';
+import { ageRecommendationEngine } from '@/services/AgeRecommendationEngine';
+
+/**
+ * 年龄段升级提示组件属性
+ */
+export interface AgeProgressionPromptProps {
+  /** 自定义类名 */
+  className?: string;
+}
+
+/**
+ * 年龄段升级提示组件
+ * 没有待确认的升级时不渲染
+ *
+ * @example
+ * ```tsx
+ * <AgeProgressionPrompt />
+ * ```
+ */
+export const AgeProgressionPrompt: React.FC<AgeProgressionPromptProps> = ({ className }) => {
+  const { state } = useAppState();
+  const { ageLabel, progression, confirmProgression, dismissProgression } = useChildAge();
+
+  if (!progression) {
+    return null;
+  }
+
+  const fromLabel = ageRecommendationEngine.getAgeLabel(progression.from);
+  const toLabel = ageRecommendationEngine.getAgeLabel(progression.to);
+
+  return (
+    <View
+      className={cn(
+        'age-progression-prompt',
+        'flex items-center gap-3 px-4 py-3 rounded-xl',
+        'bg-amber-50',
+        className
+      )}
+    >
+      <Cake size={20} className="text-amber-500 flex-shrink-0" />
+      <View className="flex-1">
+        <Text className="block text-sm text-gray-800">
+          {state.activeProfile.name}已经{ageLabel}啦
+        </Text>
+        <Text className="block text-xs text-gray-500 mt-0.5">
+          是否从 {fromLabel} 切换到 {toLabel}？
+        </Text>
+      </View>
+      <Text className="text-sm text-gray-400 cursor-pointer" onClick={dismissProgression}>
+        暂不
+      </Text>
+      <Text className="text-sm font-medium text-amber-600 cursor-pointer" onClick={confirmProgression}>
+        切换
+      </Text>
+    </View>
+  );
+};
+
+export default AgeProgressionPrompt;
@@ -7,8 +7,15 @@ import React, { useState, useCallback, useEffect } from 'react';
 import { View, Text } from '@tarojs/components';
 import { cn } from '@/lib/utils';
 import { ageRecommendationEngine } from '@/services/AgeRecommendationEngine';
-import { AGE_GROUPS } from '@/types/game';
-import type { UserHistory } from '@/types/game';
+import { useAgeGroups } from '@/hooks/useAgeGroups';
+import type { UserHistory, AgeRecommendation, AgeGroup } from '@/types/game';
+
+/**
+ * 比较两个年龄段是否相同
+ */
+function isSameRange(a: [number, number], b: [number, number]): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
 
 /**
  * 年龄段选择器属性
@@ -44,13 +51,15 @@ export const AgeSelector: React.FC<AgeSelectorProps> = ({
   showRecommendation = true,
   className
 }) => {
+  const { groups } = useAgeGroups();
+
   // 内部状态
   const [selectedAge, setSelectedAge] = useState<[number, number]>(
     propSelectedAge || ageRecommendationEngine.recommendAge(userHistory)
   );
 
-  // 推荐年龄段
-  const [recommendedAge, setRecommendedAge] = useState<[number, number] | null>(null);
+  // 推荐结果
+  const [recommendation, setRecommendation] = useState<AgeRecommendation | null>(null);
 
   // 同步外部属性
   useEffect(() => {
@@ -59,40 +68,37 @@ export const AgeSelector: React.FC<AgeSelectorProps> = ({
     }
   }, [propSelectedAge]);
 
-  // 计算推荐年龄段
+  // 计算推荐年龄段，没有任何记录时不标注推荐
   useEffect(() => {
     if (showRecommendation && userHistory) {
-      const recommended = ageRecommendationEngine.recommendAge(userHistory);
-      setRecommendedAge(recommended);
+      const result = ageRecommendationEngine.recommend(userHistory);
+      setRecommendation(result.source === 'default' ? null : result);
+    } else {
+      setRecommendation(null);
     }
   }, [userHistory, showRecommendation]);
 
   /**
    * 处理年龄段选择
    */
-  const handleAgeSelect = useCallback((ageKey: string) => {
-    const ageRange = ageRecommendationEngine.parseAgeRange(ageKey);
-    if (ageRange) {
-      setSelectedAge(ageRange);
-      onAgeChange?.(ageRange);
-    }
+  const handleAgeSelect = useCallback((group: AgeGroup) => {
+    setSelectedAge(group.ageRange);
+    onAgeChange?.(group.ageRange);
   }, [onAgeChange]);
 
   /**
    * 检查是否为推荐年龄段
    */
-  const isRecommended = useCallback((ageKey: string): boolean => {
-    if (!recommendedAge) return false;
-    const key = `${recommendedAge[0]}-${recommendedAge[1]}`;
-    return key === ageKey;
-  }, [recommendedAge]);
+  const isRecommended = useCallback((group: AgeGroup): boolean => {
+    if (!recommendation) return false;
+    return isSameRange(group.ageRange, recommendation.ageRange);
+  }, [recommendation]);
 
   /**
    * 检查是否选中
    */
-  const isSelected = useCallback((ageKey: string): boolean => {
-    const key = `${selectedAge[0]}-${selectedAge[1]}`;
-    return key === ageKey;
+  const isSelected = useCallback((group: AgeGroup): boolean => {
+    return isSameRange(group.ageRange, selectedAge);
   }, [selectedAge]);
 
   return (
@@ -103,13 +109,13 @@ export const AgeSelector: React.FC<AgeSelectorProps> = ({
         className
       )}
     >
-      {Object.entries(AGE_GROUPS).map(([key, config]) => {
-        const selected = isSelected(key);
-        const recommended = isRecommended(key);
+      {groups.map((group) => {
+        const selected = isSelected(group);
+        const recommended = isRecommended(group);
 
         return (
           <View
-            key={key}
+            key={group.id}
             className={cn(
               'age-option',
               'relative px-4 py-2 rounded-full cursor-pointer',
@@ -121,15 +127,15 @@ export const AgeSelector: React.FC<AgeSelectorProps> = ({
               recommended && !selected && 'ring-2 ring-offset-1'
             )}
             style={{
-              backgroundColor: selected ? config.color : 'white',
-              borderColor: selected ? config.color : undefined,
-              '--ring-color': config.color
+              backgroundColor: selected ? group.color : 'white',
+              borderColor: selected ? group.color : undefined,
+              '--ring-color': group.color
             } as React.CSSProperties}
-            onClick={() => handleAgeSelect(key)}
+            onClick={() => handleAgeSelect(group)}
           >
             {/* 年龄段标签 */}
             <Text className="text-sm font-medium">
-              {config.label}
+              {group.label}
             </Text>
 
             {/* 推荐标识 */}
@@ -141,7 +147,7 @@ export const AgeSelector: React.FC<AgeSelectorProps> = ({
                   'px-1.5 py-0.5 rounded-full',
                   'text-[10px] font-bold text-white'
                 )}
-                style={{ backgroundColor: config.color }}
+                style={{ backgroundColor: group.color }}
               >
                 推荐
               </View>
@@ -159,7 +165,7 @@ export const AgeSelector: React.FC<AgeSelectorProps> = ({
               >
                 <Text 
                   className="text-[10px]"
-                  style={{ color: config.color }}
+                  style={{ color: group.color }}
                 >
                   ✓
                 </Text>
@@ -168,6 +174,16 @@ export const AgeSelector: React.FC<AgeSelectorProps> = ({
           </View>
         );
       })}
+
+      {/* 推荐依据 */}
+      {recommendation && showRecommendation && (
+        <Text className="w-full text-xs text-gray-400" data-testid="age-recommendation">
+          {recommendation.source === 'behavior'
+            ? `根据最近 ${recommendation.playCount} 次游戏推荐`
+            : '根据上次选择推荐'}
+          {`，推荐把握 ${Math.round(recommendation.confidence * 100)}%`}
+        </Text>
+      )}
     </View>
   );
 };
@@ -193,8 +209,9 @@ export const AgeGroupTab: React.FC<AgeGroupTabProps> = ({
   onAgeChange,
   className
 }) => {
+  const { groups, defaultGroup } = useAgeGroups();
   const [selectedAge, setSelectedAge] = useState<[number, number]>(
-    propSelectedAge || [6, 9]
+    propSelectedAge || defaultGroup.ageRange
   );
 
   useEffect(() => {
@@ -203,17 +220,13 @@ export const AgeGroupTab: React.FC<AgeGroupTabProps> = ({
     }
   }, [propSelectedAge]);
 
-  const handleAgeSelect = useCallback((ageKey: string) => {
-    const ageRange = ageRecommendationEngine.parseAgeRange(ageKey);
-    if (ageRange) {
-      setSelectedAge(ageRange);
-      onAgeChange?.(ageRange);
-    }
+  const handleAgeSelect = useCallback((group: AgeGroup) => {
+    setSelectedAge(group.ageRange);
+    onAgeChange?.(group.ageRange);
   }, [onAgeChange]);
 
-  const isSelected = useCallback((ageKey: string): boolean => {
-    const key = `${selectedAge[0]}-${selectedAge[1]}`;
-    return key === ageKey;
+  const isSelected = useCallback((group: AgeGroup): boolean => {
+    return isSameRange(group.ageRange, selectedAge);
   }, [selectedAge]);
 
   return (
@@ -225,12 +238,12 @@ export const AgeGroupTab: React.FC<AgeGroupTabProps> = ({
         className
       )}
     >
-      {Object.entries(AGE_GROUPS).map(([key, config]) => {
-        const selected = isSelected(key);
+      {groups.map((group) => {
+        const selected = isSelected(group);
 
         return (
           <View
-            key={key}
+            key={group.id}
             className={cn(
               'tab-item',
               'flex-1 px-3 py-2 rounded-lg cursor-pointer',
@@ -240,7 +253,7 @@ export const AgeGroupTab: React.FC<AgeGroupTabProps> = ({
                 ? 'bg-white shadow-sm' 
                 : 'text-gray-500 hover:text-gray-700'
             )}
-            onClick={() => handleAgeSelect(key)}
+            onClick={() => handleAgeSelect(group)}
           >
             <Text 
               className={cn(
@@ -248,7 +261,7 @@ export const AgeGroupTab: React.FC<AgeGroupTabProps> = ({
                 selected && 'text-gray-900'
               )}
             >
-              {config.label}
+              {group.label}
             </Text>
           </View>
         );
@@ -3,13 +3,18 @@
  * 微学宝盒 - 展示游戏内容的核心卡片组件，支持翻转动画和收藏功能
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
+import Taro from '@tarojs/taro';
 import { View, Text, Image } from '@tarojs/components';
 import { cn } from '@/lib/utils';
 import { VerifiedBadge, ParentRating } from './TrustBadge';
-import { Star, Clock, Play, Heart } from 'lucide-react';
+import { Star, Clock, Play, Heart, EyeOff } from 'lucide-react';
 import type { GameCard as GameCardType } from '@/types/game';
-import { ageRecommendationEngine } from '@/services/AgeRecommendationEngine';
+import { ageRecommendationEngine, AGE_FIT_TEXT } from '@/services/AgeRecommendationEngine';
+import { useGameList } from '@/hooks/useGameList';
+import { useTrustFilter } from '@/hooks/useTrustFilter';
+import { TRUST_EXCLUSION_TEXT } from '@/services/TrustFilter';
+import type { GameListFilter } from '@/services/GameCatalog';
 
 /**
  * 游戏卡片组件属性
@@ -25,6 +30,8 @@ export interface GameCardProps {
   onStartGame?: (gameId: string) => void;
   /** 是否已翻转 */
   isFlipped?: boolean;
+  /** 孩子月龄，传入时按实际年龄标注是否适龄 */
+  childAgeInMonths?: number | null;
   /** 自定义类名 */
   className?: string;
 }
@@ -48,6 +55,7 @@ export const GameCard: React.FC<GameCardProps> = ({
   onFavorite,
   onStartGame,
   isFlipped: propIsFlipped,
+  childAgeInMonths,
   className
 }) => {
   // 内部翻转状态
@@ -98,6 +106,11 @@ export const GameCard: React.FC<GameCardProps> = ({
     return ageRecommendationEngine.getAgeColor(game.ageRange);
   };
 
+  // 按孩子实际月龄判断是否适龄
+  const ageFit = childAgeInMonths == null
+    ? null
+    : ageRecommendationEngine.getAgeFit(game.ageRange, childAgeInMonths);
+
   return (
     <View
       className={cn(
@@ -153,16 +166,30 @@ export const GameCard: React.FC<GameCardProps> = ({
             )}
 
             {/* 年龄段标签 */}
-            <View 
-              className={cn(
-                'absolute top-2 left-2',
-                'px-2 py-0.5 rounded-full'
+            <View className="absolute top-2 left-2 flex items-center gap-1">
+              <View
+                className="px-2 py-0.5 rounded-full"
+                style={{ backgroundColor: getAgeColor() }}
+              >
+                <Text className="text-xs font-medium text-white">
+                  {ageRecommendationEngine.getAgeLabel(game.ageRange)}
+                </Text>
+              </View>
+
+              {/* 适龄标识 */}
+              {ageFit && (
+                <View
+                  className={cn(
+                    'px-2 py-0.5 rounded-full',
+                    ageFit === 'fit' ? 'bg-green-500/90' : 'bg-amber-500/90'
+                  )}
+                  data-testid="age-fit"
+                >
+                  <Text className="text-xs font-medium text-white">
+                    {AGE_FIT_TEXT[ageFit]}
+                  </Text>
+                </View>
               )}
-              style={{ backgroundColor: getAgeColor() }}
-            >
-              <Text className="text-xs font-medium text-white">
-                {ageRecommendationEngine.getAgeLabel(game.ageRange)}
-              </Text>
             </View>
 
             {/* 收藏按钮 */}
@@ -344,10 +371,19 @@ export interface GameCardListProps {
   loading?: boolean;
   /** 是否有更多数据 */
   hasMore?: boolean;
+  /** 是否按家长信任偏好过滤，默认开启 */
+  applyTrustFilter?: boolean;
+  /** 孩子月龄，传入时每张卡片标注是否适龄 */
+  childAgeInMonths?: number | null;
   /** 自定义类名 */
   className?: string;
 }
 
+/**
+ * 列表底部哨兵节点的序号，保证同一页面多个列表的选择器不冲突
+ */
+let sentinelSeq = 0;
+
 /**
  * 游戏卡片列表组件
  */
@@ -359,19 +395,76 @@ export const GameCardList: React.FC<GameCardListProps> = ({
   onLoadMore,
   loading = false,
   hasMore = false,
+  applyTrustFilter = true,
+  childAgeInMonths,
   className
 }) => {
+  const [sentinelId] = useState(() => `game-list-sentinel-${++sentinelSeq}`);
+  const [showHidden, setShowHidden] = useState(false);
+  const { allowed, excluded, hiddenCount } = useTrustFilter(games);
+  const visibleGames = applyTrustFilter ? allowed : games;
+  const hiddenGames = applyTrustFilter ? excluded : [];
+
+  // 滚动到列表底部时自动加载下一页，取不到页面实例时保留按钮加载
+  useEffect(() => {
+    if (!hasMore || loading || !onLoadMore) return;
+    const page = Taro.getCurrentInstance().page;
+    if (!page) return;
+
+    const observer = Taro.createIntersectionObserver(page);
+    observer.relativeToViewport({ bottom: 200 }).observe(`#${sentinelId}`, (res) => {
+      if ((res.intersectionRatio ?? 0) > 0) {
+        observer.disconnect();
+        onLoadMore();
+      }
+    });
+
+    return () => observer.disconnect();
+  }, [sentinelId, hasMore, loading, onLoadMore, games.length]);
+
   return (
     <View className={cn('game-card-list', className)}>
+      {/* 已隐藏提示 */}
+      {applyTrustFilter && hiddenCount > 0 && (
+        <View className="mb-4 px-4 py-3 rounded-xl bg-amber-50">
+          <View
+            className="flex items-center justify-between"
+            onClick={() => setShowHidden(!showHidden)}
+          >
+            <View className="flex items-center gap-2">
+              <EyeOff size={16} className="text-amber-600" />
+              <Text className="text-sm text-amber-700">已根据您的设置隐藏 {hiddenCount} 个游戏</Text>
+            </View>
+            <Text className="text-sm font-medium text-amber-700">
+              {showHidden ? '收起' : '查看原因'}
+            </Text>
+          </View>
+
+          {showHidden && (
+            <View className="mt-2 space-y-1">
+              {hiddenGames.map(({ game, reasons }) => (
+                <View key={game.id} className="flex items-start justify-between gap-3 text-xs">
+                  <Text className="text-gray-700 truncate">{game.title}</Text>
+                  <Text className="text-amber-600 flex-shrink-0">
+                    {reasons.map(reason => TRUST_EXCLUSION_TEXT[reason]).join('、')}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+      )}
+
       {/* 卡片网格 */}
       <View className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-        {games.map((game) => (
+        {visibleGames.map((game) => (
           <GameCard
             key={game.id}
             game={game}
             onFlip={onFlip}
             onFavorite={onFavorite}
             onStartGame={onStartGame}
+            childAgeInMonths={childAgeInMonths}
           />
         ))}
       </View>
@@ -379,6 +472,7 @@ export const GameCardList: React.FC<GameCardListProps> = ({
       {/* 加载更多 */}
       {hasMore && (
         <View className="mt-6 text-center">
+          <View id={sentinelId} />
           <View
             className={cn(
               'inline-flex items-center gap-2',
@@ -403,7 +497,7 @@ export const GameCardList: React.FC<GameCardListProps> = ({
       )}
 
       {/* 空状态 */}
-      {games.length === 0 && !loading && (
+      {visibleGames.length === 0 && !loading && (
         <View className="py-12 text-center">
           <View className="w-16 h-16 mx-auto mb-4 rounded-full bg-gray-100 flex items-center justify-center">
             <Star size={24} className="text-gray-400" />
@@ -415,4 +509,49 @@ export const GameCardList: React.FC<GameCardListProps> = ({
   );
 };
 
+/**
+ * 目录游戏列表组件属性
+ */
+export interface GameCatalogListProps extends Omit<GameCardListProps, 'games' | 'onLoadMore' | 'loading' | 'hasMore'> {
+  /** 筛选条件 */
+  filter?: GameListFilter;
+}
+
+/**
+ * 目录游戏列表组件
+ * 从游戏目录分页加载并自动滚动加载更多
+ *
+ * @example
+ * ```tsx
+ * <GameCatalogList filter={{ ageRange: [6, 9], sortBy: 'trust' }} onStartGame={handleStart} />
+ * ```
+ */
+export const GameCatalogList: React.FC<GameCatalogListProps> = ({
+  filter,
+  ...listProps
+}) => {
+  const { games, hasMore, loading, error, loadMore, refresh } = useGameList(filter);
+
+  return (
+    <View className="game-catalog-list">
+      {error && (
+        <View className="mb-4 px-4 py-3 rounded-xl bg-red-50 flex items-center justify-between">
+          <Text className="text-sm text-red-600">加载失败，请检查网络</Text>
+          <Text className="text-sm font-medium text-red-600" onClick={() => (games.length > 0 ? loadMore() : refresh())}>
+            重试
+          </Text>
+        </View>
+      )}
+
+      <GameCardList
+        {...listProps}
+        games={games}
+        hasMore={hasMore && !error}
+        loading={loading}
+        onLoadMore={loadMore}
+      />
+    </View>
+  );
+};
+
 export default GameCard;
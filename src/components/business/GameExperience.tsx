@@ -15,9 +15,19 @@ import {
   ChevronLeft,
   AlertTriangle,
   Check,
-  Info
+  Info,
+  Clock,
+  Lock,
+  Coffee
 } from 'lucide-react';
 import type { Feedback } from '@/types/game';
+import { storageManager } from '@/services/StorageManager';
+import { ageRecommendationEngine } from '@/services/AgeRecommendationEngine';
+import { SCREEN_TIME_BLOCK_TEXT, type ScreenTimeStatus } from '@/services/ScreenTimeManager';
+import { useScreenTime } from '@/hooks/useScreenTime';
+import { useParentalGate } from '@/hooks/useParentalGate';
+import { useGameSession } from '@/hooks/useGameSession';
+import { ParentalGateModal } from '@/components/business/ParentalGate';
 
 /**
  * 游戏体验组件属性
@@ -29,6 +39,14 @@ export interface GameExperienceProps {
   gameUrl: string;
   /** 游戏标题 */
   gameTitle?: string;
+  /** 游戏适龄范围，传入时记入游戏记录用于年龄段推荐 */
+  ageRange?: [number, number];
+  /** 预计时长（分钟），玩到八成即视为玩完 */
+  estimatedDuration?: number;
+  /** 游戏技能，记入游戏日志用于家长周报 */
+  skills?: string[];
+  /** 从控制条退出游戏是否需要家长验证，时间用完或休息时仍可直接退出 */
+  exitRequiresParent?: boolean;
   /** 退出回调 */
   onExit?: () => void;
   /** 举报回调 */
@@ -56,6 +74,10 @@ export const GameExperience: React.FC<GameExperienceProps> = ({
   gameId,
   gameUrl,
   gameTitle,
+  ageRange,
+  estimatedDuration,
+  skills,
+  exitRequiresParent = false,
   onExit,
   onReport,
   onFeedbackSubmit,
@@ -67,21 +89,34 @@ export const GameExperience: React.FC<GameExperienceProps> = ({
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControlBar, setShowControlBar] = useState(true);
   const [showExitFeedback, setShowExitFeedback] = useState(false);
-  const [sessionStartTime, setSessionStartTime] = useState<number>(0);
   const [isLoading, setIsLoading] = useState(true);
 
   const controlBarTimerRef = useRef<NodeJS.Timeout | null>(null);
   const iframeRef = useRef<HTMLIFrameElement>(null);
 
+  // 游戏时间限制：确认风险提示后开始计时，退出反馈时停止
+  const { status: screenTime, windingDown, restDue, dismissRest, unlock } = useScreenTime(
+    hasSeenRisk && !showExitFeedback
+  );
+  const isLocked = !screenTime.allowed || restDue;
+
+  // 游戏会话：游戏加载后开始，只在游戏可操作时计时
+  const { start: startSession, end: endSession, getActiveMs } = useGameSession(
+    gameId,
+    hasSeenRisk && !showExitFeedback && !isLocked,
+    { title: gameTitle, skills }
+  );
+
+  // 家长验证：“不再提示”、放宽时间限制、退出游戏
+  const { guard, request: parentalRequest } = useParentalGate();
+
   /**
    * 检查风险提示历史
    */
   useEffect(() => {
     const checkRiskAlertHistory = () => {
       try {
-        const key = `risk_alert_${gameId}`;
-        const seen = localStorage.getItem(key);
-        const seenTime = seen ? parseInt(seen, 10) : 0;
+        const seenTime = storageManager.getRiskAlertSeenAt(gameId) || 0;
         const now = Date.now();
         
         // 24小时内不再提示
@@ -96,56 +131,98 @@ export const GameExperience: React.FC<GameExperienceProps> = ({
     };
 
     checkRiskAlertHistory();
-    setSessionStartTime(Date.now());
   }, [gameId]);
 
   /**
    * 处理风险提示确认
    */
   const handleRiskConfirm = useCallback((rememberChoice: boolean) => {
+    const confirm = () => {
+      setShowRiskAlert(false);
+      setHasSeenRisk(true);
+    };
+
+    // 跳过之后的安全提醒需要家长确认
     if (rememberChoice) {
-      try {
-        const key = `risk_alert_${gameId}`;
-        localStorage.setItem(key, Date.now().toString());
-      } catch (error) {
-        console.warn('保存风险提示状态失败:', error);
-      }
+      guard(() => {
+        storageManager.setRiskAlertSeenAt(gameId);
+        confirm();
+      }, '24小时内不再提示');
+    } else {
+      confirm();
     }
-    
-    setShowRiskAlert(false);
-    setHasSeenRisk(true);
-  }, [gameId]);
+  }, [gameId, guard]);
+
+  /**
+   * 结束游戏会话并记入游戏记录
+   */
+  const recordPlay = useCallback((feedback?: Feedback) => {
+    const session = endSession(feedback);
+    if (!ageRange || !session) return;
+
+    const { duration } = session;
+    storageManager.setUserHistory(
+      ageRecommendationEngine.recordPlay(storageManager.getUserHistory(), {
+        gameId,
+        ageRange,
+        playedAt: session.startTime,
+        duration,
+        completed: estimatedDuration ? duration >= estimatedDuration * 60000 * 0.8 : undefined,
+        feedback: feedback?.type,
+        reason: feedback?.reason
+      })
+    );
+  }, [gameId, ageRange, estimatedDuration, endSession]);
 
   /**
    * 处理退出游戏
    */
   const handleExit = useCallback(() => {
-    const duration = Date.now() - sessionStartTime;
-    
     // 游戏时长大于30秒才显示反馈
-    if (duration > 30000) {
+    if (getActiveMs() > 30000) {
       setShowExitFeedback(true);
     } else {
+      recordPlay();
       onExit?.();
     }
-  }, [sessionStartTime, onExit]);
+  }, [getActiveMs, recordPlay, onExit]);
+
+  /**
+   * 处理控制条上的退出
+   */
+  const handleExitClick = useCallback(() => {
+    if (exitRequiresParent) {
+      guard(handleExit, '退出游戏');
+    } else {
+      handleExit();
+    }
+  }, [exitRequiresParent, guard, handleExit]);
+
+  /**
+   * 处理家长放宽时间限制
+   */
+  const handleUnlock = useCallback(() => {
+    guard(() => unlock(), '再玩15分钟');
+  }, [guard, unlock]);
 
   /**
    * 处理反馈提交
    */
   const handleFeedbackSubmit = useCallback((feedback: Feedback) => {
+    recordPlay(feedback);
     onFeedbackSubmit?.(feedback);
     setShowExitFeedback(false);
     onExit?.();
-  }, [onFeedbackSubmit, onExit]);
+  }, [recordPlay, onFeedbackSubmit, onExit]);
 
   /**
    * 处理反馈跳过
    */
   const handleFeedbackSkip = useCallback(() => {
+    recordPlay();
     setShowExitFeedback(false);
     onExit?.();
-  }, [onExit]);
+  }, [recordPlay, onExit]);
 
   /**
    * 处理全屏切换
@@ -203,11 +280,45 @@ export const GameExperience: React.FC<GameExperienceProps> = ({
         />
       )}
 
+      {/* 时间限制锁定 */}
+      {hasSeenRisk && !showExitFeedback && !screenTime.allowed && (
+        <ScreenTimeLock
+          status={screenTime}
+          onUnlock={handleUnlock}
+          onExit={handleExit}
+        />
+      )}
+
+      {/* 休息提醒 */}
+      {hasSeenRisk && !showExitFeedback && screenTime.allowed && restDue && (
+        <RestReminder onContinue={dismissRest} onExit={handleExit} />
+      )}
+
+      {/* 结束前倒计时 */}
+      {hasSeenRisk && windingDown && screenTime.remainingMs !== null && (
+        <View
+          className={cn(
+            'wind-down-banner',
+            'absolute top-16 left-1/2 -translate-x-1/2 z-20',
+            'flex items-center gap-2 px-4 py-2 rounded-full',
+            'bg-amber-500/90 text-white shadow-lg'
+          )}
+        >
+          <Clock size={14} />
+          <Text className="text-sm font-medium">
+            还可以玩 {Math.ceil(screenTime.remainingMs / 1000)} 秒，准备说再见吧
+          </Text>
+        </View>
+      )}
+
+      {/* 家长验证 */}
+      {parentalRequest && <ParentalGateModal {...parentalRequest} />}
+
       {/* 退出反馈弹窗 */}
       {showExitFeedback && (
         <ExitFeedbackModal
           gameId={gameId}
-          playDuration={Date.now() - sessionStartTime}
+          playDuration={getActiveMs()}
           onSubmit={handleFeedbackSubmit}
           onSkip={handleFeedbackSkip}
         />
@@ -235,7 +346,7 @@ export const GameExperience: React.FC<GameExperienceProps> = ({
                   'transition-all duration-200',
                   'hover:bg-white/30 active:scale-95'
                 )}
-                onClick={handleExit}
+                onClick={handleExitClick}
               >
                 <ChevronLeft size={20} className="text-white" />
               </View>
@@ -313,9 +424,15 @@ export const GameExperience: React.FC<GameExperienceProps> = ({
               isLoading ? 'opacity-0' : 'opacity-100'
             )}
             style={{
-              borderRadius: isFullscreen ? 0 : '12px'
+              borderRadius: isFullscreen ? 0 : '12px',
+              // 锁定时游戏不再响应操作
+              pointerEvents: isLocked ? 'none' : undefined,
+              filter: isLocked ? 'blur(6px)' : undefined
+            }}
+            onLoad={() => {
+              setIsLoading(false);
+              startSession();
             }}
-            onLoad={() => setIsLoading(false)}
           />
         )}
       </View>
@@ -444,6 +561,110 @@ const RiskAlert: React.FC<RiskAlertProps> = ({
   );
 };
 
+/**
+ * 时间限制锁定组件属性
+ */
+interface ScreenTimeLockProps {
+  status: ScreenTimeStatus;
+  onUnlock: () => void;
+  onExit: () => void;
+}
+
+/**
+ * 时间限制锁定组件
+ * 到达限制后遮住游戏，家长验证后可再玩一会儿
+ */
+const ScreenTimeLock: React.FC<ScreenTimeLockProps> = ({
+  status,
+  onUnlock,
+  onExit
+}) => (
+  <View
+    className={cn(
+      'screen-time-lock',
+      'absolute inset-0 z-40',
+      'flex items-center justify-center',
+      'bg-black/60 backdrop-blur-sm'
+    )}
+  >
+    <View className="w-full max-w-sm mx-4 bg-white rounded-2xl shadow-2xl p-6 text-center">
+      <View className="w-14 h-14 mx-auto rounded-full bg-amber-50 flex items-center justify-center">
+        <Clock size={28} className="text-amber-500" />
+      </View>
+
+      <Text className="block mt-4 text-xl font-bold text-gray-900">
+        {status.reason ? SCREEN_TIME_BLOCK_TEXT[status.reason] : '休息一下吧'}
+      </Text>
+      {status.resumeAt && (
+        <Text className="block mt-1 text-sm text-gray-500">
+          {status.resumeAt} 以后再来玩吧
+        </Text>
+      )}
+
+      <View className="mt-6 space-y-3">
+        <View
+          className="w-full py-3 rounded-xl bg-blue-500 text-white font-medium"
+          onClick={onExit}
+        >
+          好的，退出游戏
+        </View>
+        <View
+          className="flex items-center justify-center gap-1 py-2 text-sm text-gray-400 cursor-pointer"
+          onClick={onUnlock}
+        >
+          <Lock size={14} />
+          <Text>家长解锁，再玩15分钟</Text>
+        </View>
+      </View>
+    </View>
+  </View>
+);
+
+/**
+ * 休息提醒组件属性
+ */
+interface RestReminderProps {
+  onContinue: () => void;
+  onExit: () => void;
+}
+
+/**
+ * 休息提醒组件
+ */
+const RestReminder: React.FC<RestReminderProps> = ({ onContinue, onExit }) => (
+  <View
+    className={cn(
+      'rest-reminder',
+      'absolute inset-0 z-40',
+      'flex items-center justify-center',
+      'bg-black/50'
+    )}
+  >
+    <View className="w-full max-w-sm mx-4 bg-white rounded-2xl shadow-2xl p-6 text-center">
+      <View className="w-14 h-14 mx-auto rounded-full bg-green-50 flex items-center justify-center">
+        <Coffee size={28} className="text-green-500" />
+      </View>
+      <Text className="block mt-4 text-xl font-bold text-gray-900">休息一下眼睛吧</Text>
+      <Text className="block mt-1 text-sm text-gray-500">看看远处，喝口水，再回来继续</Text>
+
+      <View className="mt-6 flex gap-3">
+        <View
+          className="flex-1 py-3 rounded-xl bg-gray-100 text-gray-700 font-medium"
+          onClick={onExit}
+        >
+          退出游戏
+        </View>
+        <View
+          className="flex-1 py-3 rounded-xl bg-green-500 text-white font-medium"
+          onClick={onContinue}
+        >
+          休息好了
+        </View>
+      </View>
+    </View>
+  </View>
+);
+
 /**
  * 退出反馈弹窗组件属性
  */
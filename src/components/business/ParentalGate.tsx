@@ -0,0 +1,273 @@
+/**
+ * 家长验证组件
+ * 微学宝盒 - 家长密码/算术题验证弹窗，以及首次使用时设置家长密码
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, Input } from '@tarojs/components';
+import { cn } from '@/lib/utils';
+import { Lock, ShieldCheck } from 'lucide-react';
+import { parentalGate, type ParentalChallenge } from '@/services/ParentalGate';
+import { useParentalGate } from '@/hooks/useParentalGate';
+
+/**
+ * 家长验证弹窗属性
+ */
+export interface ParentalGateModalProps {
+  /** 弹窗标题，说明要做什么 */
+  title?: string;
+  /** 验证通过 */
+  onVerified: () => void;
+  /** 取消 */
+  onCancel: () => void;
+  /** 自定义类名 */
+  className?: string;
+}
+
+/**
+ * 家长验证弹窗
+ * 设置了家长密码时输入密码，否则回答一道算术题；连续失败过多会锁定一段时间
+ *
+ * @example
+ * ```tsx
+ * const { guard, request } = useParentalGate();
+ *
+ * {request && <ParentalGateModal {...request} />}
+ * ```
+ */
+export const ParentalGateModal: React.FC<ParentalGateModalProps> = ({
+  title = '请家长验证',
+  onVerified,
+  onCancel,
+  className
+}) => {
+  const [hasPin] = useState(() => parentalGate.hasPin());
+  const [challenge, setChallenge] = useState<ParentalChallenge | null>(() => hasPin ? null : parentalGate.createChallenge());
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [lockoutMs, setLockoutMs] = useState(() => parentalGate.getLockoutRemaining());
+  const lockedOut = lockoutMs > 0;
+
+  // 锁定倒计时
+  useEffect(() => {
+    if (!lockedOut) return;
+
+    const timer = setInterval(() => {
+      setLockoutMs(parentalGate.getLockoutRemaining());
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [lockedOut]);
+
+  const handleSubmit = () => {
+    if (lockedOut || !value) return;
+
+    const result = parentalGate.verify(challenge ? { challengeId: challenge.id, answer: value } : { pin: value });
+    if (result.success) {
+      onVerified();
+      return;
+    }
+
+    setValue('');
+    setLockoutMs(result.lockoutMs);
+    setError(result.lockoutMs > 0 ? null : `${hasPin ? '密码' : '答案'}不正确，还可以尝试 ${result.attemptsLeft} 次`);
+
+    // 算术题只能作答一次，答错换一道
+    if (challenge) {
+      setChallenge(parentalGate.createChallenge());
+    }
+  };
+
+  return (
+    <View
+      className={cn(
+        'parental-gate-overlay',
+        'fixed inset-0 z-50',
+        'flex items-center justify-center',
+        'bg-black/60 backdrop-blur-sm',
+        className
+      )}
+      data-testid="parental-gate"
+    >
+      <View className="w-full max-w-sm mx-4 bg-white rounded-2xl shadow-2xl p-6 text-center">
+        <View className="w-14 h-14 mx-auto rounded-full bg-blue-50 flex items-center justify-center">
+          <Lock size={28} className="text-blue-500" />
+        </View>
+
+        <Text className="block mt-4 text-xl font-bold text-gray-900">{title}</Text>
+        <Text className="block mt-1 text-sm text-gray-500">
+          {challenge ? `请回答：${challenge.question}` : '请输入家长密码'}
+        </Text>
+
+        {lockedOut ? (
+          <Text className="block mt-5 text-sm text-red-500">
+            验证失败次数过多，请 {Math.ceil(lockoutMs / 60000)} 分钟后再试
+          </Text>
+        ) : (
+          <View className="mt-5">
+            <Input
+              className={cn(
+                'w-full px-4 py-3 rounded-xl border-2 text-center text-lg tracking-widest',
+                error ? 'border-red-300' : 'border-gray-200'
+              )}
+              type="number"
+              password={hasPin}
+              maxlength={6}
+              value={value}
+              placeholder={hasPin ? '家长密码' : '答案'}
+              onInput={(e: { detail: { value: string } }) => {
+                setValue(e.detail.value);
+                setError(null);
+              }}
+            />
+            {error && (
+              <Text className="block mt-2 text-sm text-red-500">{error}</Text>
+            )}
+          </View>
+        )}
+
+        <View className="mt-4 flex gap-3">
+          <View
+            className="flex-1 py-3 rounded-xl bg-gray-100 text-gray-700 font-medium"
+            onClick={onCancel}
+          >
+            取消
+          </View>
+          <View
+            className={cn(
+              'flex-1 py-3 rounded-xl bg-blue-500 text-white font-medium',
+              (lockedOut || !value) && 'opacity-50'
+            )}
+            onClick={handleSubmit}
+            data-testid="parental-gate-submit"
+          >
+            确认
+          </View>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+/**
+ * 设置家长密码组件属性
+ */
+export interface ParentPinSetupProps {
+  /** 设置完成 */
+  onDone: () => void;
+  /** 跳过，不传时不显示跳过按钮 */
+  onSkip?: () => void;
+  /** 自定义类名 */
+  className?: string;
+}
+
+/**
+ * 设置家长密码组件
+ * 首次使用时引导家长设置，提交前先回答算术题；已设置过密码时需要先输入原密码
+ *
+ * @example
+ * ```tsx
+ * <ParentPinSetup onDone={goNext} onSkip={goNext} />
+ * ```
+ */
+export const ParentPinSetup: React.FC<ParentPinSetupProps> = ({
+  onDone,
+  onSkip,
+  className
+}) => {
+  const [hasPin] = useState(() => parentalGate.hasPin());
+  const [currentPin, setCurrentPin] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const { guard, request } = useParentalGate();
+
+  const savePin = () => {
+    if (!parentalGate.setPin(pin, hasPin ? currentPin : undefined)) {
+      const lockoutMs = parentalGate.getLockoutRemaining();
+      setError(lockoutMs > 0 ? `验证失败次数过多，请 ${Math.ceil(lockoutMs / 60000)} 分钟后再试` : '原密码不正确');
+      setCurrentPin('');
+      return;
+    }
+
+    onDone();
+  };
+
+  const handleSubmit = () => {
+    if (!/^\d{4,6}$/.test(pin)) {
+      setError('请输入4-6位数字');
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError('两次输入的密码不一致');
+      return;
+    }
+
+    // 原密码即是验证；首次设置先回答算术题
+    if (hasPin) {
+      savePin();
+    } else {
+      guard(savePin, '设置家长密码');
+    }
+  };
+
+  const fields = [
+    ...(hasPin ? [{ value: currentPin, onChange: setCurrentPin, placeholder: '原密码' }] : []),
+    { value: pin, onChange: setPin, placeholder: '4-6位数字密码' },
+    { value: confirmPin, onChange: setConfirmPin, placeholder: '再次输入密码' }
+  ];
+
+  return (
+    <View className={cn('parent-pin-setup', 'p-6 text-center', className)}>
+      <View className="w-14 h-14 mx-auto rounded-full bg-blue-50 flex items-center justify-center">
+        <ShieldCheck size={28} className="text-blue-500" />
+      </View>
+
+      <Text className="block mt-4 text-xl font-bold text-gray-900">
+        {hasPin ? '修改家长密码' : '设置家长密码'}
+      </Text>
+      <Text className="block mt-1 text-sm text-gray-500">
+        修改设置、清空收藏、延长游戏时间时需要输入
+      </Text>
+
+      <View className="mt-5 space-y-3">
+        {fields.map(field => (
+          <Input
+            key={field.placeholder}
+            className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 text-center text-lg tracking-widest"
+            type="number"
+            password
+            maxlength={6}
+            value={field.value}
+            placeholder={field.placeholder}
+            onInput={(e: { detail: { value: string } }) => {
+              field.onChange(e.detail.value);
+              setError(null);
+            }}
+          />
+        ))}
+      </View>
+      {error && (
+        <Text className="block mt-2 text-sm text-red-500">{error}</Text>
+      )}
+
+      <View className="mt-6 space-y-3">
+        <View
+          className="w-full py-3 rounded-xl bg-blue-500 text-white font-medium"
+          onClick={handleSubmit}
+        >
+          完成
+        </View>
+        {onSkip && (
+          <Text className="block text-sm text-gray-400 cursor-pointer" onClick={onSkip}>
+            暂不设置，用算术题验证
+          </Text>
+        )}
+      </View>
+
+      {request && <ParentalGateModal {...request} />}
+    </View>
+  );
+};
+
+export default ParentalGateModal;
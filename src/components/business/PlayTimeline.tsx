@@ -0,0 +1,118 @@
+/**
+ * 游戏记录时间线组件
+ * 微学宝盒 - 按天列出孩子玩过的游戏、时长和退出时的反馈
+ */
+
+import React from 'react';
+import { View, Text } from '@tarojs/components';
+import { cn } from '@/lib/utils';
+import { ThumbsUp, ThumbsDown, Meh } from 'lucide-react';
+import { usePlayHistory } from '@/hooks/usePlayHistory';
+import type { FeedbackType, PlayLogEntry } from '@/types/game';
+
+/**
+ * 游戏记录时间线组件属性
+ */
+export interface PlayTimelineProps {
+  /** 最多显示几条 */
+  limit?: number;
+  /** 点击某条记录 */
+  onEntryClick?: (entry: PlayLogEntry) => void;
+  /** 自定义类名 */
+  className?: string;
+}
+
+const FEEDBACK_ICON: Record<FeedbackType, React.ReactNode> = {
+  positive: <ThumbsUp size={14} className="text-green-500" />,
+  neutral: <Meh size={14} className="text-gray-400" />,
+  negative: <ThumbsDown size={14} className="text-red-400" />
+};
+
+/**
+ * 日期标题：今天、昨天或"10月19日"
+ */
+function formatDay(time: number, now: number): string {
+  const date = new Date(time);
+  const today = new Date(now);
+  const days = Math.round(
+    (new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()
+      - new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()) / 86400000
+  );
+  if (days === 0) return '今天';
+  if (days === 1) return '昨天';
+  return `${date.getMonth() + 1}月${date.getDate()}日`;
+}
+
+/**
+ * 游戏记录时间线组件
+ *
+ * @example
+ * ```tsx
+ * <PlayTimeline limit={20} />
+ * ```
+ */
+export const PlayTimeline: React.FC<PlayTimelineProps> = ({
+  limit = 50,
+  onEntryClick,
+  className
+}) => {
+  const { entries } = usePlayHistory();
+  const now = Date.now();
+
+  if (entries.length === 0) {
+    return (
+      <View className={cn('play-timeline', 'py-8 text-center', className)}>
+        <Text className="text-sm text-gray-400">还没有游戏记录</Text>
+      </View>
+    );
+  }
+
+  // 按天分组，日志本身已按时间倒序
+  const days: Array<{ label: string; entries: PlayLogEntry[] }> = [];
+  entries.slice(0, limit).forEach(entry => {
+    const label = formatDay(entry.startTime, now);
+    const last = days[days.length - 1];
+    if (last?.label === label) {
+      last.entries.push(entry);
+    } else {
+      days.push({ label, entries: [entry] });
+    }
+  });
+
+  return (
+    <View className={cn('play-timeline', 'space-y-4', className)} data-testid="play-timeline">
+      {days.map(day => (
+        <View key={day.label}>
+          <Text className="block mb-2 text-xs font-medium text-gray-500">{day.label}</Text>
+          <View className="border-l-2 border-gray-100 pl-4 space-y-3">
+            {day.entries.map(entry => {
+              const start = new Date(entry.startTime);
+
+              return (
+                <View
+                  key={entry.id}
+                  className={cn('flex items-center gap-3', onEntryClick && 'cursor-pointer')}
+                  onClick={() => onEntryClick?.(entry)}
+                >
+                  <Text className="w-10 text-xs text-gray-400">
+                    {String(start.getHours()).padStart(2, '0')}:{String(start.getMinutes()).padStart(2, '0')}
+                  </Text>
+                  <View className="flex-1 min-w-0">
+                    <Text className="block text-sm text-gray-800 truncate">{entry.title ?? entry.gameId}</Text>
+                    {entry.skills && entry.skills.length > 0 && (
+                      <Text className="block text-xs text-gray-400 truncate">{entry.skills.join(' · ')}</Text>
+                    )}
+                  </View>
+                  <Text className="text-xs text-gray-500">{Math.max(1, Math.round(entry.duration / 60000))}分钟</Text>
+                  {entry.feedback && FEEDBACK_ICON[entry.feedback]}
+                </View>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+export default PlayTimeline;
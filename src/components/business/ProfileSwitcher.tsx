@@ -0,0 +1,92 @@
+/**
+ * 孩子档案切换组件
+ * 微学宝盒 - 在多个孩子之间切换，年龄段、收藏和历史随之切换
+ */
+
+import React from 'react';
+import { View, Text, Image } from '@tarojs/components';
+import { cn } from '@/lib/utils';
+import { Plus } from 'lucide-react';
+import { useProfiles } from '@/hooks/useProfiles';
+import { MAX_CHILD_PROFILES } from '@/services/ProfileManager';
+
+/**
+ * 孩子档案切换组件属性
+ */
+export interface ProfileSwitcherProps {
+  /** 点击新建档案 */
+  onAddProfile?: () => void;
+  /** 切换后回调 */
+  onSwitch?: (profileId: string) => void;
+  /** 自定义类名 */
+  className?: string;
+}
+
+/**
+ * 孩子档案切换组件
+ *
+ * @example
+ * ```tsx
+ * <ProfileSwitcher onAddProfile={() => Taro.navigateTo({ url: '/pages/profile/edit' })} />
+ * ```
+ */
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  onAddProfile,
+  onSwitch,
+  className
+}) => {
+  const { profiles, activeProfile, switchProfile } = useProfiles();
+
+  const handleSwitch = (profileId: string) => {
+    if (profileId === activeProfile.id) return;
+    if (switchProfile(profileId)) {
+      onSwitch?.(profileId);
+    }
+  };
+
+  return (
+    <View className={cn('profile-switcher', 'flex items-center gap-3 overflow-x-auto', className)}>
+      {profiles.map(profile => {
+        const active = profile.id === activeProfile.id;
+
+        return (
+          <View
+            key={profile.id}
+            className="flex flex-col items-center gap-1 cursor-pointer"
+            onClick={() => handleSwitch(profile.id)}
+          >
+            <View
+              className={cn(
+                'w-12 h-12 rounded-full overflow-hidden flex items-center justify-center',
+                'border-2 transition-all duration-200',
+                active ? 'border-blue-500 scale-105' : 'border-transparent opacity-70'
+              )}
+            >
+              {profile.avatar ? (
+                <Image src={profile.avatar} className="w-full h-full" mode="aspectFill" />
+              ) : (
+                <View className="w-full h-full bg-blue-100 text-blue-600 flex items-center justify-center">
+                  <Text className="text-lg font-medium">{profile.name.slice(0, 1)}</Text>
+                </View>
+              )}
+            </View>
+            <Text className={cn('text-xs', active ? 'text-blue-600 font-medium' : 'text-gray-500')}>
+              {profile.name}
+            </Text>
+          </View>
+        );
+      })}
+
+      {onAddProfile && profiles.length < MAX_CHILD_PROFILES && (
+        <View className="flex flex-col items-center gap-1 cursor-pointer" onClick={onAddProfile}>
+          <View className="w-12 h-12 rounded-full border-2 border-dashed border-gray-300 flex items-center justify-center text-gray-400">
+            <Plus size={20} />
+          </View>
+          <Text className="text-xs text-gray-400">添加</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default ProfileSwitcher;
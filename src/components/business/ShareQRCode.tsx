@@ -0,0 +1,86 @@
+/**
+ * 分享二维码组件
+ * 微学宝盒 - 用普通 View 绘制二维码，H5 和小程序都不依赖 canvas
+ */
+
+import React, { useMemo } from 'react';
+import { View } from '@tarojs/components';
+import { cn } from '@/lib/utils';
+import { groupShare } from '@/services/GroupShare';
+
+/**
+ * 分享二维码组件属性
+ */
+export interface ShareQRCodeProps {
+  /** 二维码内容，一般为分享链接 */
+  value: string;
+  /** 边长（像素） */
+  size?: number;
+  /** 深色模块颜色 */
+  color?: string;
+  /** 自定义类名 */
+  className?: string;
+}
+
+/**
+ * 分享二维码组件
+ * 同一行中相邻的深色模块合并为一个色块，减少节点数量
+ *
+ * @example
+ * ```tsx
+ * const link = await groupShare.createShare(groupId);
+ * <ShareQRCode value={link.url} size={200} />
+ * ```
+ */
+export const ShareQRCode: React.FC<ShareQRCodeProps> = ({
+  value,
+  size = 200,
+  color = '#111827',
+  className
+}) => {
+  const matrix = useMemo(() => groupShare.getQRCodeMatrix(value), [value]);
+
+  // 四周保留 2 个模块的留白，便于扫码
+  const quietZone = 2;
+  const moduleSize = size / (matrix.size + quietZone * 2);
+
+  const runs = useMemo(() => {
+    const result: Array<{ row: number; col: number; length: number }> = [];
+
+    matrix.modules.forEach((cells, row) => {
+      let start = -1;
+      cells.forEach((dark, col) => {
+        if (dark && start < 0) start = col;
+        if ((!dark || col === cells.length - 1) && start >= 0) {
+          result.push({ row, col: start, length: (dark ? col + 1 : col) - start });
+          start = -1;
+        }
+      });
+    });
+
+    return result;
+  }, [matrix]);
+
+  return (
+    <View
+      className={cn('share-qrcode', 'relative bg-white', className)}
+      style={{ width: `${size}px`, height: `${size}px` }}
+    >
+      {runs.map(run => (
+        <View
+          key={`${run.row}-${run.col}`}
+          className="absolute"
+          style={{
+            left: `${(run.col + quietZone) * moduleSize}px`,
+            top: `${(run.row + quietZone) * moduleSize}px`,
+            width: `${run.length * moduleSize}px`,
+            height: `${moduleSize}px`,
+            backgroundColor: color
+          }}
+        />
+      ))}
+    </View>
+  );
+};
+
+export default ShareQRCode;
@@ -0,0 +1,101 @@
+/**
+ * 同步状态组件
+ * 微学宝盒 - 展示收藏、反馈等离线操作的同步状态
+ */
+
+import React from 'react';
+import { View, Text } from '@tarojs/components';
+import { cn } from '@/lib/utils';
+import { CloudOff, RefreshCw, AlertTriangle, Check } from 'lucide-react';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+
+/**
+ * 同步状态组件属性
+ */
+export interface SyncStatusProps {
+  /** 全部同步后是否仍显示 */
+  showWhenSynced?: boolean;
+  /** 自定义类名 */
+  className?: string;
+}
+
+/**
+ * 同步状态组件
+ * 离线、同步中、有失败条目时提示，失败时可点击重试或放弃
+ *
+ * @example
+ * ```tsx
+ * <SyncStatus />
+ * ```
+ */
+export const SyncStatus: React.FC<SyncStatusProps> = ({
+  showWhenSynced = false,
+  className
+}) => {
+  const { pending, failed, syncing, online, synced, retry, discardFailed } = useSyncStatus();
+
+  if (synced && !showWhenSynced) {
+    return null;
+  }
+
+  if (failed > 0) {
+    return (
+      <View
+        className={cn(
+          'sync-status',
+          'flex items-center gap-2 px-3 py-2 rounded-lg',
+          'bg-red-50 text-red-600 text-sm',
+          className
+        )}
+      >
+        <AlertTriangle size={14} />
+        <Text className="flex-1">{failed} 项操作同步失败</Text>
+        <View className="flex items-center gap-1 cursor-pointer" onClick={() => retry()}>
+          <RefreshCw size={14} />
+          <Text>重试</Text>
+        </View>
+        <Text className="text-red-400 cursor-pointer" onClick={discardFailed}>
+          放弃
+        </Text>
+      </View>
+    );
+  }
+
+  if (pending > 0) {
+    return (
+      <View
+        className={cn(
+          'sync-status',
+          'flex items-center gap-2 px-3 py-2 rounded-lg',
+          'bg-amber-50 text-amber-700 text-sm',
+          className
+        )}
+      >
+        {online ? (
+          <RefreshCw size={14} className={cn(syncing && 'animate-spin')} />
+        ) : (
+          <CloudOff size={14} />
+        )}
+        <Text>
+          {online ? `${pending} 项操作同步中` : `离线中，${pending} 项操作将在联网后同步`}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View
+      className={cn(
+        'sync-status',
+        'flex items-center gap-2 px-3 py-2 rounded-lg',
+        'bg-green-50 text-green-600 text-sm',
+        className
+      )}
+    >
+      <Check size={14} />
+      <Text>已全部同步</Text>
+    </View>
+  );
+};
+
+export default SyncStatus;
@@ -0,0 +1,125 @@
+/**
+ * 家长周报组件
+ * 微学宝盒 - 最近7天的游戏时长、技能分布、新游戏、收藏和反馈
+ */
+
+import React from 'react';
+import { View, Text } from '@tarojs/components';
+import { cn } from '@/lib/utils';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Clock, Sparkles, Star, MessageCircle } from 'lucide-react';
+import { usePlayHistory } from '@/hooks/usePlayHistory';
+
+/**
+ * 家长周报组件属性
+ */
+export interface WeeklyReportProps {
+  /** 技能最多显示几项 */
+  maxSkills?: number;
+  /** 自定义类名 */
+  className?: string;
+}
+
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+
+/**
+ * 毫秒转为"1小时5分钟"这样的文本
+ */
+function formatPlayTime(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}分钟`;
+
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours}小时` : `${hours}小时${minutes % 60}分钟`;
+}
+
+/**
+ * 家长周报组件
+ *
+ * @example
+ * ```tsx
+ * <WeeklyReport />
+ * ```
+ */
+export const WeeklyReport: React.FC<WeeklyReportProps> = ({
+  maxSkills = 6,
+  className
+}) => {
+  const { weeklyReport: report } = usePlayHistory();
+
+  // 图表按分钟显示
+  const dailyData = report.daily.map(({ date, ms }) => ({
+    label: `周${WEEKDAYS[new Date(`${date}T00:00:00`).getDay()]}`,
+    minutes: Math.round(ms / 60000)
+  }));
+  const skillData = report.skills.slice(0, maxSkills).map(({ skill, ms }) => ({
+    skill,
+    minutes: Math.round(ms / 60000)
+  }));
+  const feedbackCount = report.feedback.positive + report.feedback.neutral + report.feedback.negative;
+
+  const summary = [
+    { icon: Clock, label: '游戏时长', value: formatPlayTime(report.totalMs), detail: `共 ${report.sessionCount} 次` },
+    { icon: Sparkles, label: '新游戏', value: `${report.newGames.length} 个`, detail: report.newGames.map(game => game.title ?? game.gameId).slice(0, 2).join('、') },
+    { icon: Star, label: '新收藏', value: `${report.favoritesAdded.length} 个`, detail: '' },
+    { icon: MessageCircle, label: '反馈', value: `${feedbackCount} 条`, detail: feedbackCount > 0 ? `喜欢 ${report.feedback.positive} · 一般 ${report.feedback.neutral} · 不喜欢 ${report.feedback.negative}` : '' }
+  ];
+
+  return (
+    <View className={cn('weekly-report', 'bg-white rounded-2xl p-4 space-y-5', className)} data-testid="weekly-report">
+      <Text className="block text-lg font-bold text-gray-900">最近7天</Text>
+
+      {/* 概览 */}
+      <View className="grid grid-cols-2 gap-3">
+        {summary.map(({ icon: Icon, label, value, detail }) => (
+          <View key={label} className="p-3 rounded-xl bg-gray-50">
+            <View className="flex items-center gap-1 text-gray-500">
+              <Icon size={14} />
+              <Text className="text-xs">{label}</Text>
+            </View>
+            <Text className="block mt-1 text-base font-semibold text-gray-900">{value}</Text>
+            {detail && (
+              <Text className="block mt-0.5 text-xs text-gray-400 truncate">{detail}</Text>
+            )}
+          </View>
+        ))}
+      </View>
+
+      {/* 每天游戏时长 */}
+      <View>
+        <Text className="block mb-2 text-sm font-medium text-gray-700">每天游戏时长（分钟）</Text>
+        <View style={{ height: 160 }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={dailyData} margin={{ top: 4, right: 4, bottom: 0, left: -24 }}>
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+              <Tooltip formatter={(value: number) => [`${value} 分钟`, '游戏时长']} />
+              <Bar dataKey="minutes" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </View>
+      </View>
+
+      {/* 技能分布 */}
+      <View>
+        <Text className="block mb-2 text-sm font-medium text-gray-700">练习的能力（分钟）</Text>
+        {skillData.length > 0 ? (
+          <View style={{ height: skillData.length * 32 + 8 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={skillData} layout="vertical" margin={{ top: 0, right: 8, bottom: 0, left: 8 }}>
+                <XAxis type="number" hide />
+                <YAxis type="category" dataKey="skill" width={72} tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+                <Tooltip formatter={(value: number) => [`${value} 分钟`, '游戏时长']} />
+                <Bar dataKey="minutes" fill="#10b981" radius={[0, 4, 4, 0]} barSize={16} />
+              </BarChart>
+            </ResponsiveContainer>
+          </View>
+        ) : (
+          <Text className="block text-sm text-gray-400">这周还没有玩游戏</Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+export default WeeklyReport;
@@ -0,0 +1,47 @@
+/**
+ * 年龄段配置Hook
+ * 微学宝盒 - 读取当前年龄段划分，配置更新后自动刷新
+ */
+
+import { useState, useEffect } from 'react';
+import { ageGroupConfig } from '@/services/AgeGroupConfig';
+import type { AgeGroup } from '@/types/game';
+
+/**
+ * 年龄段配置Hook返回值
+ */
+export interface UseAgeGroupsReturn {
+  /** 全部年龄段（按最小年龄升序） */
+  groups: AgeGroup[];
+  /** 默认年龄段 */
+  defaultGroup: AgeGroup;
+}
+
+/**
+ * 年龄段配置Hook
+ *
+ * @example
+ * ```tsx
+ * const { groups } = useAgeGroups();
+ *
+ * return groups.map(group => <Text key={group.id}>{group.label}</Text>);
+ * ```
+ */
+export function useAgeGroups(): UseAgeGroupsReturn {
+  const [groups, setGroups] = useState<AgeGroup[]>(() => ageGroupConfig.getGroups());
+
+  // 订阅配置变化，首次使用时拉取服务端配置
+  useEffect(() => {
+    const unsubscribe = ageGroupConfig.subscribe(setGroups);
+    ageGroupConfig.load();
+
+    return unsubscribe;
+  }, []);
+
+  return {
+    groups,
+    defaultGroup: groups.find(group => group.default) ?? groups[0]
+  };
+}
+
+export default useAgeGroups;
@@ -5,14 +5,19 @@
 
 import { useReducer, useCallback, useEffect, useContext, createContext } from 'react';
 import { storageManager } from '@/services/StorageManager';
+import { trustFilter } from '@/services/TrustFilter';
+import { favoriteManager } from '@/services/FavoriteManager';
+import { profileManager } from '@/services/ProfileManager';
+import { ageRecommendationEngine } from '@/services/AgeRecommendationEngine';
 import type { User, UserPreferences, TrustPreferences } from '@/types/user';
 import type { AppState, AppAction } from '@/types/user';
 
 // 初始状态
 const initialState: AppState = {
   user: null,
+  activeProfile: profileManager.getActiveProfile(),
   currentAge: storageManager.getAgeSelection(),
-  favorites: storageManager.getFavorites(),
+  favorites: favoriteManager.getFavorites(),
   recentGames: storageManager.getRecentGames(),
   trustPreferences: storageManager.getTrustPreferences()
 };
@@ -21,32 +26,29 @@ const initialState: AppState = {
 function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     case 'SET_USER':
+      storageManager.setUserInfo({ ...action.payload });
       return { ...state, user: action.payload };
     
+    case 'SET_PROFILE':
+      return {
+        ...state,
+        activeProfile: action.payload.profile,
+        currentAge: action.payload.currentAge,
+        favorites: action.payload.favorites,
+        recentGames: action.payload.recentGames
+      };
+
     case 'SET_AGE':
-      storageManager.setAgeSelection(action.payload);
       return { ...state, currentAge: action.payload };
     
-    case 'ADD_FAVORITE':
-      if (!state.favorites.includes(action.payload)) {
-        const newFavorites = [...state.favorites, action.payload];
-        storageManager.setFavorites(newFavorites);
-        return { ...state, favorites: newFavorites };
-      }
-      return state;
-    
-    case 'REMOVE_FAVORITE':
-      const filteredFavorites = state.favorites.filter(id => id !== action.payload);
-      storageManager.setFavorites(filteredFavorites);
-      return { ...state, favorites: filteredFavorites };
+    case 'SET_FAVORITES':
+      return { ...state, favorites: action.payload };
     
     case 'SET_RECENT':
       return { ...state, recentGames: action.payload };
     
     case 'UPDATE_TRUST_PREFERENCES':
-      const newTrustPrefs = { ...state.trustPreferences, ...action.payload };
-      storageManager.setTrustPreferences(newTrustPrefs);
-      return { ...state, trustPreferences: newTrustPrefs };
+      return { ...state, trustPreferences: { ...state.trustPreferences, ...action.payload } };
     
     default:
       return state;
@@ -65,6 +67,32 @@ const AppStateContext = createContext<{
 export const AppStateProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(appReducer, initialState);
 
+  // 收藏以 FavoriteManager 为准，其他组件或标签页的修改都会同步到这里
+  useEffect(() => {
+    const unsubscribe = favoriteManager.subscribe((favorites) => {
+      dispatch({ type: 'SET_FAVORITES', payload: favorites });
+    });
+
+    return unsubscribe;
+  }, []);
+
+  // 切换孩子档案后，年龄段、收藏和最近游戏都换成该档案的数据
+  useEffect(() => {
+    const unsubscribe = profileManager.subscribe((profile) => {
+      dispatch({
+        type: 'SET_PROFILE',
+        payload: {
+          profile,
+          currentAge: storageManager.getAgeSelection(),
+          favorites: favoriteManager.getFavorites(),
+          recentGames: storageManager.getRecentGames()
+        }
+      });
+    });
+
+    return unsubscribe;
+  }, []);
+
   return (
     <AppStateContext.Provider value={{ state, dispatch }}>
       {children}
@@ -92,26 +120,41 @@ export function useAppState() {
   // Actions
   const setUser = useCallback((user: User) => {
     dispatch({ type: 'SET_USER', payload: user });
+    // 登录后与服务端合并收藏，首次登录时并入本地匿名收藏
+    favoriteManager.syncWithServer();
   }, [dispatch]);
 
+  const switchProfile = useCallback((profileId: string) => {
+    return profileManager.switchProfile(profileId);
+  }, []);
+
   const setAge = useCallback((age: [number, number]) => {
+    storageManager.setAgeSelection(age);
+    // 记入当前档案的历史，用于年龄段推荐
+    storageManager.setUserHistory(
+      ageRecommendationEngine.recordAgeSelection(storageManager.getUserHistory(), age)
+    );
     dispatch({ type: 'SET_AGE', payload: age });
   }, [dispatch]);
 
   const addFavorite = useCallback((gameId: string) => {
-    dispatch({ type: 'ADD_FAVORITE', payload: gameId });
-  }, [dispatch]);
+    return favoriteManager.addToFavorites(gameId);
+  }, []);
 
   const removeFavorite = useCallback((gameId: string) => {
-    dispatch({ type: 'REMOVE_FAVORITE', payload: gameId });
-  }, [dispatch]);
+    return favoriteManager.removeFromFavorites(gameId);
+  }, []);
 
   const setRecent = useCallback((games: string[]) => {
     dispatch({ type: 'SET_RECENT', payload: games });
   }, [dispatch]);
 
-  const updateTrustPreferences = useCallback((prefs: Partial<TrustPreferences>) => {
+  // 修改信任偏好需要先通过家长验证，未验证时返回 false
+  const updateTrustPreferences = useCallback((prefs: Partial<TrustPreferences>): boolean => {
+    if (!trustFilter.setTrustPreferences(prefs)) return false;
+
     dispatch({ type: 'UPDATE_TRUST_PREFERENCES', payload: prefs });
+    return true;
   }, [dispatch]);
 
   // 添加最近游戏
@@ -127,6 +170,10 @@ export function useAppState() {
     user: state.user,
     setUser,
     isLoggedIn: !!state.user,
+
+    // 孩子档案
+    activeProfile: state.activeProfile,
+    switchProfile,
     
     // 年龄段
     currentAge: state.currentAge,
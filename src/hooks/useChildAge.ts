@@ -0,0 +1,85 @@
+/**
+ * 孩子年龄Hook
+ * 微学宝盒 - 按出生年月计算月龄，生日后提示升级年龄段
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAppState } from '@/hooks/useAppState';
+import { profileManager, type AgeProgression } from '@/services/ProfileManager';
+import { ageRecommendationEngine, type AgeFit } from '@/services/AgeRecommendationEngine';
+
+/**
+ * 孩子年龄Hook返回值
+ */
+export interface UseChildAgeReturn {
+  /** 当前档案的月龄，未填写出生年月时为 null */
+  ageInMonths: number | null;
+  /** 年龄显示文本，如 "5岁3个月" */
+  ageLabel: string | null;
+  /** 待确认的年龄段升级提示 */
+  progression: AgeProgression | null;
+  /** 确认升级到推荐年龄段 */
+  confirmProgression: () => void;
+  /** 暂不升级 */
+  dismissProgression: () => void;
+  /** 按月龄判断游戏是否适龄，未填写出生年月时返回 null */
+  getAgeFit: (gameAgeRange: [number, number]) => AgeFit | null;
+}
+
+/**
+ * 孩子年龄Hook
+ *
+ * @example
+ * ```tsx
+ * const { ageLabel, progression, confirmProgression } = useChildAge();
+ *
+ * return progression && (
+ *   <Button onClick={confirmProgression}>{ageLabel}，切换到新的年龄段</Button>
+ * );
+ * ```
+ */
+export function useChildAge(): UseChildAgeReturn {
+  const { state, setAge } = useAppState();
+  const { activeProfile, currentAge } = state;
+  const [progression, setProgression] = useState<AgeProgression | null>(null);
+
+  const ageInMonths = useMemo(
+    () => profileManager.getAgeInMonths(activeProfile),
+    [activeProfile]
+  );
+
+  // 切换档案、修改出生年月或年龄段后重新检查
+  useEffect(() => {
+    setProgression(profileManager.getAgeProgression());
+  }, [activeProfile, currentAge]);
+
+  const confirmProgression = useCallback(() => {
+    if (!progression) return;
+
+    profileManager.resolveAgeProgression(progression);
+    setAge(progression.to);
+    setProgression(null);
+  }, [progression, setAge]);
+
+  const dismissProgression = useCallback(() => {
+    if (!progression) return;
+
+    profileManager.resolveAgeProgression(progression);
+    setProgression(null);
+  }, [progression]);
+
+  const getAgeFit = useCallback((gameAgeRange: [number, number]): AgeFit | null => {
+    return ageInMonths === null ? null : ageRecommendationEngine.getAgeFit(gameAgeRange, ageInMonths);
+  }, [ageInMonths]);
+
+  return {
+    ageInMonths,
+    ageLabel: ageInMonths === null ? null : ageRecommendationEngine.formatAge(ageInMonths),
+    progression,
+    confirmProgression,
+    dismissProgression,
+    getAgeFit
+  };
+}
+
+export default useChildAge;
@@ -22,7 +22,7 @@ export interface UseFavoriteReturn {
   removeFavorite: (gameId: string) => Promise<void>;
   /** 切换收藏状态 */
   toggleFavorite: (gameId: string) => Promise<boolean>;
-  /** 清空收藏 */
+  /** 清空收藏，未通过家长验证时抛出 ParentalGateError */
   clearFavorites: () => Promise<void>;
   /** 是否加载中 */
   loading: boolean;
@@ -43,7 +43,7 @@ export interface UseFavoriteReturn {
  * ```
  */
 export function useFavorite(): UseFavoriteReturn {
-  const [favorites, setFavorites] = useState<string[]>([]);
+  const [favorites, setFavorites] = useState<string[]>(() => favoriteManager.getFavorites());
   const [loading, setLoading] = useState(false);
 
   // 订阅收藏变化
@@ -0,0 +1,92 @@
+/**
+ * 游戏列表Hook
+ * 微学宝盒 - 提供分页游戏列表的React Hook
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { gameCatalog } from '@/services/GameCatalog';
+import type { GameListFilter, GameListState } from '@/services/GameCatalog';
+import type { GameCard } from '@/types/game';
+
+/**
+ * 游戏列表Hook返回值
+ */
+export interface UseGameListReturn {
+  /** 已加载的游戏 */
+  games: GameCard[];
+  /** 服务端总数 */
+  total: number;
+  /** 是否还有更多 */
+  hasMore: boolean;
+  /** 是否加载中 */
+  loading: boolean;
+  /** 是否正在后台刷新 */
+  revalidating: boolean;
+  /** 最近一次错误 */
+  error: Error | null;
+  /** 加载下一页 */
+  loadMore: () => Promise<void>;
+  /** 强制刷新 */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * 游戏列表Hook
+ *
+ * @example
+ * ```tsx
+ * const { games, hasMore, loading, loadMore } = useGameList({ ageRange: [6, 9] });
+ *
+ * return (
+ *   <GameCardList games={games} hasMore={hasMore} loading={loading} onLoadMore={loadMore} />
+ * );
+ * ```
+ */
+export function useGameList(filter: GameListFilter = {}): UseGameListReturn {
+  const [minAge, maxAge] = filter.ageRange ?? [];
+  const { category, sortBy } = filter;
+
+  // 按原始值重建筛选条件，避免调用方每次渲染传入新对象导致重复请求
+  const stableFilter = useMemo<GameListFilter>(() => ({
+    ageRange: minAge !== undefined && maxAge !== undefined ? [minAge, maxAge] : undefined,
+    category,
+    sortBy
+  }), [minAge, maxAge, category, sortBy]);
+
+  const [state, setState] = useState<GameListState>(() => gameCatalog.getState(stableFilter));
+
+  // 订阅列表变化并加载首屏
+  useEffect(() => {
+    const unsubscribe = gameCatalog.subscribe(stableFilter, setState);
+    gameCatalog.load(stableFilter);
+
+    return unsubscribe;
+  }, [stableFilter]);
+
+  /**
+   * 加载下一页
+   */
+  const loadMore = useCallback((): Promise<void> => {
+    return gameCatalog.loadMore(stableFilter);
+  }, [stableFilter]);
+
+  /**
+   * 强制刷新
+   */
+  const refresh = useCallback((): Promise<void> => {
+    return gameCatalog.refresh(stableFilter);
+  }, [stableFilter]);
+
+  return {
+    games: state.games,
+    total: state.total,
+    hasMore: state.hasMore,
+    loading: state.loading,
+    revalidating: state.revalidating,
+    error: state.error,
+    loadMore,
+    refresh
+  };
+}
+
+export default useGameList;
@@ -0,0 +1,113 @@
+/**
+ * 游戏搜索Hook
+ * 微学宝盒 - 提供即时搜索和输入联想的React Hook
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { gameCatalog } from '@/services/GameCatalog';
+import { gameSearchIndex } from '@/services/GameSearchIndex';
+import type { SearchSuggestion } from '@/services/GameSearchIndex';
+import type { GameCard } from '@/types/game';
+
+/**
+ * 游戏搜索Hook配置
+ */
+export interface UseGameSearchOptions {
+  /** 发起在线搜索前的防抖时间（毫秒） */
+  debounce?: number;
+  /** 每页数量 */
+  pageSize?: number;
+  /** 联想数量 */
+  suggestionLimit?: number;
+}
+
+/**
+ * 游戏搜索Hook返回值
+ */
+export interface UseGameSearchReturn {
+  /** 搜索结果（先显示本地结果，在线结果返回后替换） */
+  results: GameCard[];
+  /** 结果总数 */
+  total: number;
+  /** 输入联想 */
+  suggestions: SearchSuggestion[];
+  /** 是否正在在线搜索 */
+  loading: boolean;
+  /** 最近一次错误 */
+  error: Error | null;
+}
+
+/**
+ * 游戏搜索Hook
+ *
+ * @example
+ * ```tsx
+ * const [keyword, setKeyword] = useState('');
+ * const { results, suggestions } = useGameSearch(keyword);
+ * ```
+ */
+export function useGameSearch(keyword: string, options: UseGameSearchOptions = {}): UseGameSearchReturn {
+  const { debounce = 250, pageSize = 20, suggestionLimit = 8 } = options;
+  const query = keyword.trim();
+
+  // 本地结果和联想同步计算，输入时即时响应
+  const localResults = useMemo(
+    () => gameSearchIndex.search(query, pageSize).map(result => result.game),
+    [query, pageSize]
+  );
+  const suggestions = useMemo(
+    () => gameSearchIndex.suggest(query, suggestionLimit),
+    [query, suggestionLimit]
+  );
+
+  const [remote, setRemote] = useState<{ query: string; list: GameCard[]; total: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // 防抖后在线搜索
+  useEffect(() => {
+    if (!query) {
+      setRemote(null);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await gameCatalog.searchGames(query, { page: 1, pageSize });
+        if (!cancelled) {
+          setRemote({ query, list: response.list, total: response.total });
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err : new Error('搜索失败'));
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }, debounce);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, pageSize, debounce]);
+
+  const useRemote = remote !== null && remote.query === query;
+
+  return {
+    results: useRemote ? remote.list : localResults,
+    total: useRemote ? remote.total : localResults.length,
+    suggestions,
+    loading,
+    error
+  };
+}
+
+export default useGameSearch;
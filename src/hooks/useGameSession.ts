@@ -0,0 +1,69 @@
+/**
+ * 游戏会话Hook
+ * 微学宝盒 - 游戏加载后开始会话，退出时结束并上报前台游戏时长
+ */
+
+import { useEffect, useCallback, useRef } from 'react';
+import { gameSessionTracker, type EndedGameSession, type GameSessionDetails } from '@/services/GameSessionTracker';
+import type { Feedback } from '@/types/game';
+
+/**
+ * 游戏会话Hook返回值
+ */
+export interface UseGameSessionReturn {
+  /** 开始会话，刷新页面前未结束的同一游戏会话会继续计时 */
+  start: () => void;
+  /** 结束会话并附上退出反馈，没有进行中的会话时返回 null */
+  end: (feedback?: Feedback) => EndedGameSession | null;
+  /** 当前会话的前台时长（毫秒） */
+  getActiveMs: () => number;
+}
+
+/**
+ * 游戏会话Hook
+ * active 为 false 时（如弹窗遮挡游戏）暂停计时；组件卸载时结束本游戏的会话
+ * details 中的标题、技能记入游戏日志
+ *
+ * @example
+ * ```tsx
+ * const { start, end } = useGameSession(gameId, !showModal, { title: game.title, skills: game.skills });
+ *
+ * <iframe onLoad={start} />
+ * ```
+ */
+export function useGameSession(gameId: string, active: boolean, details: GameSessionDetails = {}): UseGameSessionReturn {
+  const detailsRef = useRef(details);
+  detailsRef.current = details;
+
+  useEffect(() => {
+    gameSessionTracker.setActive(active);
+  }, [active]);
+
+  // 离开页面时结束会话；刷新页面不会触发，会话在重新加载后继续
+  useEffect(() => {
+    return () => {
+      if (gameSessionTracker.getCurrent()?.gameId === gameId) {
+        gameSessionTracker.end();
+      }
+      gameSessionTracker.setActive(true);
+    };
+  }, [gameId]);
+
+  const start = useCallback(() => {
+    gameSessionTracker.start(gameId, detailsRef.current);
+  }, [gameId]);
+
+  const end = useCallback((feedback?: Feedback) => {
+    return gameSessionTracker.end(feedback);
+  }, []);
+
+  const getActiveMs = useCallback(() => gameSessionTracker.getActiveMs(), []);
+
+  return {
+    start,
+    end,
+    getActiveMs
+  };
+}
+
+export default useGameSession;
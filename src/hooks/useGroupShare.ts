@@ -0,0 +1,139 @@
+/**
+ * 分组分享Hook
+ * 微学宝盒 - 导出分组分享链接，预览并导入别人分享的分组
+ */
+
+import { useState, useCallback } from 'react';
+import {
+  groupShare,
+  GroupShareError,
+  type GroupShareImportOptions,
+  type GroupShareLink,
+  type GroupSharePreview
+} from '@/services/GroupShare';
+import type { Group } from '@/types/game';
+
+/**
+ * 分组分享Hook返回值
+ */
+export interface UseGroupShareReturn {
+  /** 生成分组分享链接，失败时返回 null 并设置 error */
+  createShare: (groupId: string) => Promise<GroupShareLink | null>;
+  /** 当前导入预览 */
+  preview: GroupSharePreview | null;
+  /** 解析链接并预览 */
+  loadPreview: (input: string) => Promise<GroupSharePreview | null>;
+  /** 将当前预览保存为新分组 */
+  importPreview: (options?: GroupShareImportOptions) => Promise<Group | null>;
+  /** 清除预览和错误 */
+  reset: () => void;
+  /** 是否加载中 */
+  loading: boolean;
+  /** 错误信息 */
+  error: string | null;
+}
+
+/**
+ * 获取错误提示
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof GroupShareError ? error.message : fallback;
+}
+
+/**
+ * 分组分享Hook
+ *
+ * @example
+ * ```tsx
+ * const { loadPreview, preview, importPreview } = useGroupShare();
+ *
+ * useEffect(() => { loadPreview(router.params.s ?? ''); }, []);
+ *
+ * return preview && (
+ *   <Button onClick={() => importPreview()}>
+ *     保存 {preview.allowedCount} 款游戏
+ *   </Button>
+ * );
+ * ```
+ */
+export function useGroupShare(): UseGroupShareReturn {
+  const [preview, setPreview] = useState<GroupSharePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 生成分享链接
+   */
+  const createShare = useCallback(async (groupId: string): Promise<GroupShareLink | null> => {
+    setLoading(true);
+    setError(null);
+    try {
+      return await groupShare.createShare(groupId);
+    } catch (err) {
+      console.warn('生成分享链接失败:', err);
+      setError(getErrorMessage(err, '生成分享链接失败'));
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * 解析链接并预览
+   */
+  const loadPreview = useCallback(async (input: string): Promise<GroupSharePreview | null> => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await groupShare.preview(input);
+      setPreview(result);
+      return result;
+    } catch (err) {
+      console.warn('解析分享链接失败:', err);
+      setPreview(null);
+      setError(getErrorMessage(err, '解析分享链接失败'));
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * 保存为新分组
+   */
+  const importPreview = useCallback(async (options?: GroupShareImportOptions): Promise<Group | null> => {
+    if (!preview) return null;
+
+    setLoading(true);
+    setError(null);
+    try {
+      return await groupShare.importShare(preview, options);
+    } catch (err) {
+      console.warn('导入分享分组失败:', err);
+      setError('导入分享分组失败');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [preview]);
+
+  /**
+   * 清除预览和错误
+   */
+  const reset = useCallback(() => {
+    setPreview(null);
+    setError(null);
+  }, []);
+
+  return {
+    createShare,
+    preview,
+    loadPreview,
+    importPreview,
+    reset,
+    loading,
+    error
+  };
+}
+
+export default useGroupShare;
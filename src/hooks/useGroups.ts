@@ -0,0 +1,124 @@
+/**
+ * 分组Hook
+ * 微学宝盒 - 提供分组管理功能的React Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { favoriteManager } from '@/services/FavoriteManager';
+import type { GameCard, Group, GroupSortOrder } from '@/types/game';
+
+/**
+ * 分组Hook返回值
+ */
+export interface UseGroupsReturn {
+  /** 分组列表（按展示顺序，含系统分组） */
+  groups: Group[];
+  /** 获取分组 */
+  getGroup: (groupId: string) => Group | undefined;
+  /** 获取分组中的游戏（按分组排序方式排列） */
+  getGamesInGroup: (groupId: string, allGames: GameCard[]) => GameCard[];
+  /** 创建分组 */
+  createGroup: (name: string, options?: { icon?: string; color?: string }) => Promise<Group>;
+  /** 修改分组名称、图标或颜色 */
+  updateGroup: (groupId: string, changes: Partial<Pick<Group, 'name' | 'icon' | 'color'>>) => boolean;
+  /** 删除分组，可同时取消收藏分组中的游戏 */
+  deleteGroup: (groupId: string, options?: { unfavorite?: boolean }) => Promise<boolean>;
+  /** 调整分组顺序 */
+  reorderGroups: (groupIds: string[]) => void;
+  /** 移动分组位置（拖拽排序） */
+  moveGroup: (fromIndex: number, toIndex: number) => void;
+  /** 添加游戏到分组 */
+  addGameToGroup: (groupId: string, gameId: string) => Promise<void>;
+  /** 从分组移除游戏 */
+  removeGameFromGroup: (groupId: string, gameId: string) => Promise<void>;
+  /** 将游戏移到另一个分组 */
+  moveGameToGroup: (gameId: string, fromGroupId: string, toGroupId: string) => boolean;
+  /** 调整分组内游戏顺序 */
+  reorderGamesInGroup: (groupId: string, gameIds: string[]) => void;
+  /** 设置分组内游戏的排序方式 */
+  setGroupSortOrder: (groupId: string, sortOrder: GroupSortOrder) => void;
+  /** 是否为系统分组 */
+  isSystemGroup: (groupId: string) => boolean;
+}
+
+/**
+ * 不依赖组件状态的分组操作，绑定一次以保持引用稳定
+ */
+const updateGroup = favoriteManager.updateGroup.bind(favoriteManager);
+const deleteGroup = favoriteManager.deleteGroup.bind(favoriteManager);
+const reorderGroups = favoriteManager.reorderGroups.bind(favoriteManager);
+const moveGroup = favoriteManager.moveGroup.bind(favoriteManager);
+const addGameToGroup = favoriteManager.addGameToGroup.bind(favoriteManager);
+const removeGameFromGroup = favoriteManager.removeGameFromGroup.bind(favoriteManager);
+const moveGameToGroup = favoriteManager.moveGameToGroup.bind(favoriteManager);
+const reorderGamesInGroup = favoriteManager.reorderGamesInGroup.bind(favoriteManager);
+const setGroupSortOrder = favoriteManager.setGroupSortOrder.bind(favoriteManager);
+const isSystemGroup = favoriteManager.isSystemGroup.bind(favoriteManager);
+
+/**
+ * 分组Hook
+ *
+ * @example
+ * ```tsx
+ * const { groups, createGroup, moveGroup } = useGroups();
+ *
+ * return groups.map(group => (
+ *   <GroupCard key={group.id} group={group} deletable={!group.system} />
+ * ));
+ * ```
+ */
+export function useGroups(): UseGroupsReturn {
+  const [groups, setGroups] = useState<Group[]>(() => favoriteManager.getGroups());
+
+  // 订阅分组变化
+  useEffect(() => {
+    const unsubscribe = favoriteManager.subscribeGroups((newGroups) => {
+      setGroups(newGroups);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  /**
+   * 获取分组
+   */
+  const getGroup = useCallback((groupId: string): Group | undefined => {
+    return groups.find(group => group.id === groupId);
+  }, [groups]);
+
+  /**
+   * 获取分组中的游戏
+   */
+  const getGamesInGroup = useCallback((groupId: string, allGames: GameCard[]): GameCard[] => {
+    return favoriteManager.getGamesInGroup(groupId, allGames);
+  }, []);
+
+  /**
+   * 创建分组
+   */
+  const createGroup = useCallback(async (
+    name: string,
+    options: { icon?: string; color?: string } = {}
+  ): Promise<Group> => {
+    return favoriteManager.createGroup({ name: name.trim(), gameIds: [], ...options });
+  }, []);
+
+  return {
+    groups,
+    getGroup,
+    getGamesInGroup,
+    createGroup,
+    updateGroup,
+    deleteGroup,
+    reorderGroups,
+    moveGroup,
+    addGameToGroup,
+    removeGameFromGroup,
+    moveGameToGroup,
+    reorderGamesInGroup,
+    setGroupSortOrder,
+    isSystemGroup
+  };
+}
+
+export default useGroups;
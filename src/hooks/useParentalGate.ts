@@ -0,0 +1,97 @@
+/**
+ * 家长验证Hook
+ * 微学宝盒 - 受保护操作前弹出家长验证，通过后继续执行
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { parentalGate } from '@/services/ParentalGate';
+
+/**
+ * 家长验证弹窗属性，由 useParentalGate 生成
+ */
+export interface ParentalGateRequest {
+  /** 弹窗标题，说明要做什么 */
+  title: string;
+  /** 验证通过 */
+  onVerified: () => void;
+  /** 取消 */
+  onCancel: () => void;
+}
+
+/**
+ * 家长验证Hook返回值
+ */
+export interface UseParentalGateReturn {
+  /** 是否处于验证有效期内 */
+  isUnlocked: boolean;
+  /** 是否已设置家长密码 */
+  hasPin: boolean;
+  /** 验证通过后执行操作，已在有效期内时直接执行 */
+  guard: (action: () => void, title?: string) => void;
+  /** 待验证的请求，为 null 时不显示验证弹窗 */
+  request: ParentalGateRequest | null;
+}
+
+/**
+ * 家长验证Hook
+ *
+ * @example
+ * ```tsx
+ * const { guard, request } = useParentalGate();
+ *
+ * <View onClick={() => guard(() => setStrictMode(false), '关闭严格模式')} />
+ * {request && <ParentalGateModal {...request} />}
+ * ```
+ */
+export function useParentalGate(): UseParentalGateReturn {
+  const [isUnlocked, setIsUnlocked] = useState(() => parentalGate.isUnlocked());
+  const [hasPin, setHasPin] = useState(() => parentalGate.hasPin());
+  const [pending, setPending] = useState<{ action: () => void; title: string } | null>(null);
+
+  // 本页或其他标签页验证、设置密码后刷新
+  useEffect(() => {
+    return parentalGate.subscribe(() => {
+      setIsUnlocked(parentalGate.isUnlocked());
+      setHasPin(parentalGate.hasPin());
+    });
+  }, []);
+
+  // 有效期到期后恢复为未验证
+  useEffect(() => {
+    if (!isUnlocked) return;
+
+    const timer = setInterval(() => {
+      if (!parentalGate.isUnlocked()) {
+        setIsUnlocked(false);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [isUnlocked]);
+
+  const guard = useCallback((action: () => void, title: string = '请家长验证') => {
+    if (parentalGate.isUnlocked()) {
+      action();
+    } else {
+      setPending({ action, title });
+    }
+  }, []);
+
+  const request: ParentalGateRequest | null = pending && {
+    title: pending.title,
+    onVerified: () => {
+      setPending(null);
+      pending.action();
+    },
+    onCancel: () => setPending(null)
+  };
+
+  return {
+    isUnlocked,
+    hasPin,
+    guard,
+    request
+  };
+}
+
+export default useParentalGate;
@@ -0,0 +1,46 @@
+/**
+ * 游戏日志Hook
+ * 微学宝盒 - 读取当前孩子的游戏日志和周报，游戏结束或切换档案后自动刷新
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { playHistory, type WeeklyReport } from '@/services/PlayHistory';
+import type { PlayLog, PlayLogEntry } from '@/types/game';
+
+/**
+ * 游戏日志Hook返回值
+ */
+export interface UsePlayHistoryReturn {
+  /** 游戏会话，最近的在前 */
+  entries: PlayLogEntry[];
+  /** 最近7天的周报 */
+  weeklyReport: WeeklyReport;
+}
+
+/**
+ * 游戏日志Hook
+ *
+ * @example
+ * ```tsx
+ * const { entries, weeklyReport } = usePlayHistory();
+ *
+ * return <WeeklyReportCard report={weeklyReport} />;
+ * ```
+ */
+export function usePlayHistory(): UsePlayHistoryReturn {
+  const [log, setLog] = useState<PlayLog>(() => playHistory.getLog());
+
+  // 订阅日志变化
+  useEffect(() => {
+    return playHistory.subscribe(setLog);
+  }, []);
+
+  const weeklyReport = useMemo(() => playHistory.getWeeklyReport(), [log]);
+
+  return {
+    entries: log.entries,
+    weeklyReport
+  };
+}
+
+export default usePlayHistory;
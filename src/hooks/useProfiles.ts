@@ -0,0 +1,82 @@
+/**
+ * 孩子档案Hook
+ * 微学宝盒 - 提供孩子档案的查看、新建、修改和切换
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { profileManager, type ChildProfileInput } from '@/services/ProfileManager';
+import type { ChildProfile } from '@/types/user';
+
+/**
+ * 孩子档案Hook返回值
+ */
+export interface UseProfilesReturn {
+  /** 全部档案 */
+  profiles: ChildProfile[];
+  /** 当前档案 */
+  activeProfile: ChildProfile;
+  /** 切换档案 */
+  switchProfile: (profileId: string) => boolean;
+  /** 新建档案，达到数量上限时返回 null */
+  createProfile: (input: ChildProfileInput) => ChildProfile | null;
+  /** 修改档案 */
+  updateProfile: (profileId: string, changes: Partial<ChildProfileInput>) => ChildProfile | null;
+  /** 删除档案及其数据 */
+  deleteProfile: (profileId: string) => boolean;
+}
+
+/**
+ * 孩子档案Hook
+ *
+ * @example
+ * ```tsx
+ * const { profiles, activeProfile, switchProfile } = useProfiles();
+ *
+ * return profiles.map(profile => (
+ *   <View key={profile.id} onClick={() => switchProfile(profile.id)}>
+ *     {profile.name}
+ *   </View>
+ * ));
+ * ```
+ */
+export function useProfiles(): UseProfilesReturn {
+  const [profiles, setProfiles] = useState<ChildProfile[]>(() => profileManager.getProfiles());
+  const [activeProfile, setActiveProfile] = useState<ChildProfile>(() => profileManager.getActiveProfile());
+
+  // 订阅档案变化
+  useEffect(() => {
+    const unsubscribe = profileManager.subscribe((profile, allProfiles) => {
+      setActiveProfile(profile);
+      setProfiles(allProfiles);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  const switchProfile = useCallback((profileId: string): boolean => {
+    return profileManager.switchProfile(profileId);
+  }, []);
+
+  const createProfile = useCallback((input: ChildProfileInput): ChildProfile | null => {
+    return profileManager.createProfile(input);
+  }, []);
+
+  const updateProfile = useCallback((profileId: string, changes: Partial<ChildProfileInput>): ChildProfile | null => {
+    return profileManager.updateProfile(profileId, changes);
+  }, []);
+
+  const deleteProfile = useCallback((profileId: string): boolean => {
+    return profileManager.deleteProfile(profileId);
+  }, []);
+
+  return {
+    profiles,
+    activeProfile,
+    switchProfile,
+    createProfile,
+    updateProfile,
+    deleteProfile
+  };
+}
+
+export default useProfiles;
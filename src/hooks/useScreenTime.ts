@@ -0,0 +1,141 @@
+/**
+ * 游戏时间Hook
+ * 微学宝盒 - 游戏过程中累计时长、检查时间限制并提醒休息
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { screenTimeManager, type ScreenTimeStatus } from '@/services/ScreenTimeManager';
+import type { ScreenTimeSession, ScreenTimeSettings } from '@/types/user';
+
+/**
+ * 游戏时间Hook返回值
+ */
+export interface UseScreenTimeReturn {
+  /** 当前状态 */
+  status: ScreenTimeStatus;
+  /** 当前档案的时间限制 */
+  settings: ScreenTimeSettings;
+  /** 本次已玩时长（毫秒），换游戏、刷新页面后继续累计 */
+  sessionMs: number;
+  /** 是否进入结束前倒计时 */
+  windingDown: boolean;
+  /** 是否该休息了 */
+  restDue: boolean;
+  /** 休息完毕，重新开始计算休息提醒 */
+  dismissRest: () => void;
+  /** 家长验证后临时放宽限制，未验证时返回 false */
+  unlock: (minutes?: number) => boolean;
+}
+
+/** 计时间隔 */
+const TICK_MS = 1000;
+
+/** 写入时长记录的间隔，刷新页面最多丢失这么久 */
+const FLUSH_MS = 15 * 1000;
+
+/**
+ * 游戏时间Hook
+ * 只在 counting 为 true、页面可见、未被限制且不需要休息时累计时长
+ * 本次已玩时长按档案保存，换游戏、刷新页面后继续累计
+ *
+ * @example
+ * ```tsx
+ * const { status, windingDown } = useScreenTime(isPlaying);
+ *
+ * if (!status.allowed) return <Text>{SCREEN_TIME_BLOCK_TEXT[status.reason!]}</Text>;
+ * ```
+ */
+export function useScreenTime(counting: boolean): UseScreenTimeReturn {
+  const [session, setSession] = useState<ScreenTimeSession>(() => screenTimeManager.getSession());
+  const [settings, setSettings] = useState<ScreenTimeSettings>(() => screenTimeManager.getSettings());
+  const [status, setStatus] = useState<ScreenTimeStatus>(() => screenTimeManager.getStatus(session.usedMs));
+
+  const pendingRef = useRef(0);
+  const lastTickRef = useRef(Date.now());
+  const allowedRef = useRef(status.allowed);
+
+  /**
+   * 写入尚未保存的时长
+   */
+  const flush = useCallback(() => {
+    if (pendingRef.current > 0) {
+      screenTimeManager.addUsage(pendingRef.current);
+      pendingRef.current = 0;
+    }
+  }, []);
+
+  /**
+   * 按已保存和尚未写入的时长刷新状态
+   */
+  const refresh = useCallback((now: number = Date.now()) => {
+    const saved = screenTimeManager.getSession(now);
+    const next = screenTimeManager.getStatus(saved.usedMs + pendingRef.current, now, pendingRef.current);
+    allowedRef.current = next.allowed;
+    setSession({ ...saved, usedMs: saved.usedMs + pendingRef.current });
+    setStatus(next);
+  }, []);
+
+  // 设置修改、切换档案后刷新
+  useEffect(() => {
+    return screenTimeManager.subscribe(() => {
+      setSettings(screenTimeManager.getSettings());
+      refresh();
+    });
+  }, [refresh]);
+
+  // 计时
+  useEffect(() => {
+    lastTickRef.current = Date.now();
+
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const elapsed = now - lastTickRef.current;
+      lastTickRef.current = now;
+
+      const saved = screenTimeManager.getSession(now);
+      const visible = typeof document === 'undefined' || document.visibilityState !== 'hidden';
+      // 该休息时暂停计时，休息完毕后继续
+      const resting = screenTimeManager.isRestDue(saved.usedMs + pendingRef.current, saved.restAtMs);
+      if (counting && visible && allowedRef.current && !resting) {
+        pendingRef.current += elapsed;
+
+        if (pendingRef.current >= FLUSH_MS) {
+          flush();
+        }
+      }
+
+      // 尚未写入的时长也计入今天和本次
+      refresh(now);
+    }, TICK_MS);
+
+    return () => {
+      clearInterval(timer);
+      flush();
+    };
+  }, [counting, flush, refresh]);
+
+  const dismissRest = useCallback(() => {
+    flush();
+    screenTimeManager.markRest();
+  }, [flush]);
+
+  const unlock = useCallback((minutes?: number): boolean => {
+    const granted = screenTimeManager.grantOverride(minutes);
+    if (granted) {
+      refresh();
+    }
+    return granted;
+  }, [refresh]);
+
+  return {
+    status,
+    settings,
+    sessionMs: session.usedMs,
+    windingDown: status.allowed && status.remainingMs !== null && status.remainingMs <= settings.windDownSeconds * 1000,
+    restDue: status.allowed && counting && screenTimeManager.isRestDue(session.usedMs, session.restAtMs),
+    dismissRest,
+    unlock
+  };
+}
+
+export default useScreenTime;
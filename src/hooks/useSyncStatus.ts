@@ -0,0 +1,54 @@
+/**
+ * 同步状态Hook
+ * 微学宝盒 - 展示离线写操作同步进度的React Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { syncOutbox } from '@/services/SyncOutbox';
+import type { SyncState } from '@/services/SyncOutbox';
+
+/**
+ * 同步状态Hook返回值
+ */
+export interface UseSyncStatusReturn extends SyncState {
+  /** 是否全部已同步 */
+  synced: boolean;
+  /** 立即同步（包括重试失败的条目） */
+  retry: () => Promise<void>;
+  /** 丢弃失败的条目 */
+  discardFailed: () => void;
+}
+
+/**
+ * 同步状态Hook
+ *
+ * @example
+ * ```tsx
+ * const { pending, failed, retry } = useSyncStatus();
+ * ```
+ */
+export function useSyncStatus(): UseSyncStatusReturn {
+  const [state, setState] = useState<SyncState>(() => syncOutbox.getState());
+
+  // 订阅同步状态变化
+  useEffect(() => {
+    const unsubscribe = syncOutbox.subscribe(setState);
+
+    return unsubscribe;
+  }, []);
+
+  const retry = useCallback(() => syncOutbox.retryFailed(), []);
+
+  const discardFailed = useCallback(() => {
+    syncOutbox.discardFailed();
+  }, []);
+
+  return {
+    ...state,
+    synced: state.pending === 0 && state.failed === 0,
+    retry,
+    discardFailed
+  };
+}
+
+export default useSyncStatus;
@@ -0,0 +1,52 @@
+/**
+ * 信任过滤Hook
+ * 微学宝盒 - 按家长信任偏好过滤游戏列表的React Hook
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { trustFilter } from '@/services/TrustFilter';
+import type { TrustFilterOptions, TrustExclusion } from '@/services/TrustFilter';
+import type { GameCard } from '@/types/game';
+
+/**
+ * 信任过滤Hook返回值
+ */
+export interface UseTrustFilterReturn {
+  /** 允许展示的游戏 */
+  allowed: GameCard[];
+  /** 被隐藏的游戏及原因 */
+  excluded: TrustExclusion[];
+  /** 被隐藏的数量 */
+  hiddenCount: number;
+  /** 当前过滤条件 */
+  options: TrustFilterOptions;
+}
+
+/**
+ * 信任过滤Hook
+ * 偏好设置变化时自动重新过滤
+ *
+ * @example
+ * ```tsx
+ * const { allowed, hiddenCount } = useTrustFilter(games);
+ * ```
+ */
+export function useTrustFilter(games: GameCard[]): UseTrustFilterReturn {
+  const [options, setOptions] = useState<TrustFilterOptions>(() => trustFilter.getOptions());
+
+  // 订阅偏好变化
+  useEffect(() => {
+    const unsubscribe = trustFilter.subscribe(setOptions);
+
+    return unsubscribe;
+  }, []);
+
+  const result = useMemo(() => trustFilter.filter(games, options), [games, options]);
+
+  return {
+    ...result,
+    options
+  };
+}
+
+export default useTrustFilter;
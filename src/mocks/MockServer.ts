@@ -0,0 +1,757 @@
+/**
+ * 模拟后端
+ * 微学宝盒 - 在内存数据上实现 API_ENDPOINTS 中的全部接口
+ */
+
+import { API_ENDPOINTS } from '@/types/api';
+import type { ApiResponse, PaginationResponse } from '@/types/api';
+import type {
+  GameCard,
+  Group,
+  Feedback,
+  FeedbackStats,
+  GameSubmission,
+  GameStatus,
+  GameAnalysis
+} from '@/types/game';
+import { DEFAULT_AGE_GROUP_TAXONOMY } from '@/types/game';
+import type { User, UserPreferences } from '@/types/user';
+import {
+  MOCK_SEED,
+  FIXTURE_NOW,
+  MOCK_SKILLS,
+  MOCK_DESCRIPTIONS,
+  MOCK_AGE_RANGES,
+  createMockDatabase,
+  createSeededRandom,
+  hashString,
+  pick,
+  type MockDatabase
+} from '@/mocks/fixtures';
+import { base64UrlEncode, hmacSha256, utf8Encode } from '@/utils/crypto';
+
+/**
+ * 分享签名密钥，只保存在服务端
+ */
+const SHARE_SIGNING_KEY = utf8Encode('mock-share-signing-key');
+
+/**
+ * 分享签名截取长度（字节）
+ */
+const SHARE_SIGNATURE_BYTES = 16;
+
+/**
+ * 模拟响应
+ */
+export interface MockResponse {
+  status: number;
+  body: ApiResponse<unknown> | { code: number; message: string; details?: Record<string, string[]> };
+}
+
+/**
+ * 路由处理上下文
+ */
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+}
+
+/**
+ * 路由定义
+ */
+interface MockRoute {
+  method: string;
+  path: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: (context: RouteContext) => unknown;
+}
+
+/**
+ * 模拟HTTP错误
+ */
+export class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: Record<string, string[]>
+  ) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+/**
+ * 模拟后端类
+ * 路由路径直接由 API_ENDPOINTS 生成，保证与客户端一致
+ * 写入的时间戳取自时钟，默认固定为 FIXTURE_NOW，相同请求总是得到相同的数据
+ */
+export class MockServer {
+  private db: MockDatabase;
+  private readonly routes: MockRoute[];
+  private tokenCounter = 0;
+  /** 按幂等键记录的写操作响应 */
+  private idempotentResponses: Map<string, MockResponse> = new Map();
+
+  /**
+   * @param seed 随机种子
+   * @param now 时钟
+   */
+  constructor(private seed: number = MOCK_SEED, private now: () => number = () => FIXTURE_NOW) {
+    this.db = createMockDatabase(seed);
+    this.routes = this.createRoutes();
+  }
+
+  /**
+   * 重置为初始数据
+   * @param seed 随机种子，默认沿用当前种子
+   */
+  reset(seed: number = this.seed): void {
+    this.seed = seed;
+    this.db = createMockDatabase(seed);
+    this.tokenCounter = 0;
+    this.idempotentResponses.clear();
+  }
+
+  /**
+   * 获取内存数据（用于测试断言）
+   */
+  getDatabase(): MockDatabase {
+    return this.db;
+  }
+
+  /**
+   * 获取全部已注册的路由
+   */
+  getRoutes(): Array<{ method: string; path: string }> {
+    return this.routes.map(({ method, path }) => ({ method, path }));
+  }
+
+  /**
+   * 处理请求
+   * @param method 请求方法
+   * @param url 请求地址（含查询参数）
+   * @param body 请求体
+   * @param idempotencyKey 幂等键，重复的写操作直接返回首次的响应
+   * @returns 模拟响应
+   */
+  handle(method: string, url: string, body?: unknown, idempotencyKey?: string): MockResponse {
+    const [pathname, search = ''] = url.split('?');
+    const upperMethod = method.toUpperCase();
+
+    if (!idempotencyKey || upperMethod === 'GET') {
+      return this.dispatch(upperMethod, pathname, search, body);
+    }
+
+    const cacheKey = `${upperMethod} ${pathname} ${idempotencyKey}`;
+    const cached = this.idempotentResponses.get(cacheKey);
+    if (cached) return cached;
+
+    const response = this.dispatch(upperMethod, pathname, search, body);
+    // 失败的请求允许使用同一个键重试
+    if (response.status < 500) {
+      this.idempotentResponses.set(cacheKey, response);
+    }
+    return response;
+  }
+
+  /**
+   * 匹配路由并执行
+   */
+  private dispatch(upperMethod: string, pathname: string, search: string, body?: unknown): MockResponse {
+
+    for (const route of this.routes) {
+      if (route.method !== upperMethod) continue;
+
+      const match = route.pattern.exec(pathname);
+      if (!match) continue;
+
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((name, index) => {
+        params[name] = decodeURIComponent(match[index + 1]);
+      });
+
+      try {
+        const data = route.handler({
+          params,
+          query: new URLSearchParams(search),
+          body: (body ?? {}) as Record<string, unknown>
+        });
+        return this.ok(data);
+      } catch (error) {
+        if (error instanceof MockHttpError) {
+          return {
+            status: error.status,
+            body: { code: error.status, message: error.message, details: error.details }
+          };
+        }
+        throw error;
+      }
+    }
+
+    return {
+      status: 404,
+      body: { code: 404, message: `未实现的模拟接口: ${upperMethod} ${pathname}` }
+    };
+  }
+
+  /**
+   * 包装成功响应
+   */
+  private ok(data: unknown): MockResponse {
+    return {
+      status: 200,
+      body: {
+        code: 0,
+        message: 'ok',
+        data: data === undefined ? null : data,
+        timestamp: this.now()
+      }
+    };
+  }
+
+  /**
+   * 注册路由
+   * @param method 请求方法
+   * @param path 路径，参数以 :name 表示
+   * @param handler 处理函数
+   */
+  private route(method: string, path: string, handler: MockRoute['handler']): MockRoute {
+    const paramNames: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, name: string) => {
+      paramNames.push(name);
+      return '([^/]+)';
+    });
+
+    return {
+      method,
+      path,
+      pattern: new RegExp(`^${source}$`),
+      paramNames,
+      handler
+    };
+  }
+
+  /**
+   * 创建路由表
+   * 固定路径需排在带参数的路径之前（如 /api/games/search 先于 /api/games/:id）
+   */
+  private createRoutes(): MockRoute[] {
+    const r = this.route.bind(this);
+
+    return [
+      // 游戏相关
+      r('GET', API_ENDPOINTS.GAMES, ({ query }) => this.listGames(query)),
+      r('GET', API_ENDPOINTS.GAME_SEARCH, ({ query }) => this.searchGames(query)),
+      r('GET', API_ENDPOINTS.GAME_RECOMMENDED, ({ query }) => this.recommendGames(query)),
+      r('GET', API_ENDPOINTS.GAME_DETAIL(':id'), ({ params }) => this.findGame(params.id)),
+      r('GET', API_ENDPOINTS.GAME_TRUST(':id'), ({ params }) => this.findGame(params.id).trustBadge),
+      r('POST', API_ENDPOINTS.GAME_FEEDBACK(':id'), ({ params, body }) => {
+        this.findGame(params.id);
+        this.saveFeedback([{ ...(body as unknown as Feedback), gameId: params.id }]);
+      }),
+      r('GET', API_ENDPOINTS.GAME_FEEDBACK_STATS(':id'), ({ params }) => this.getFeedbackStats(params.id)),
+      r('POST', API_ENDPOINTS.GAME_RATINGS(':id'), ({ params, body }) => {
+        const rating = Number(body.rating);
+        if (!(rating >= 1 && rating <= 5)) {
+          throw new MockHttpError(422, '评分无效', { rating: ['评分需在1-5之间'] });
+        }
+        this.findGame(params.id);
+        this.db.ratings.push({
+          gameId: params.id,
+          rating,
+          comment: body.comment as string | undefined,
+          createdAt: this.now()
+        });
+      }),
+      r('POST', API_ENDPOINTS.GAME_REPORTS(':id'), ({ params, body }) => {
+        if (!body.reason) {
+          throw new MockHttpError(422, '缺少举报原因', { reason: ['举报原因不能为空'] });
+        }
+        this.findGame(params.id);
+        this.db.reports.push({
+          gameId: params.id,
+          reason: String(body.reason),
+          details: body.details as string | undefined,
+          createdAt: this.now()
+        });
+      }),
+      r('POST', API_ENDPOINTS.GAME_SESSION, ({ body }) => {
+        const session = {
+          id: `session_${this.db.sessions.length + 1}`,
+          gameId: String(body.gameId),
+          userId: this.db.users[0].id,
+          startTime: this.now()
+        };
+        this.db.sessions.push(session);
+        return session;
+      }),
+      r('POST', API_ENDPOINTS.GAME_SESSION_END(':id'), ({ params, body }) => {
+        const session = this.db.sessions.find(s => s.id === params.id);
+        if (!session) {
+          throw new MockHttpError(404, '会话不存在');
+        }
+        const duration = Number(body.duration);
+        if (!(duration >= 0)) {
+          throw new MockHttpError(422, '时长无效', { duration: ['时长需为非负数'] });
+        }
+
+        const feedback = body.feedback as Feedback | undefined;
+        Object.assign(session, { endTime: this.now(), duration, feedback });
+        if (feedback) {
+          this.saveFeedback([{ ...feedback, gameId: session.gameId }]);
+        }
+        this.updatePlayTime(session.gameId);
+      }),
+
+      // 配置相关
+      r('GET', API_ENDPOINTS.CONFIG_AGE_GROUPS, () => DEFAULT_AGE_GROUP_TAXONOMY),
+
+      // 信任相关
+      r('GET', API_ENDPOINTS.TRUST_RANKING, ({ query }) => {
+        const limit = Number(query.get('limit') || 10);
+        return this.filterByAgeGroup(query.get('ageGroup'))
+          .sort((a, b) => b.trustScore - a.trustScore)
+          .slice(0, limit);
+      }),
+
+      // 反馈相关
+      r('POST', API_ENDPOINTS.FEEDBACK_BATCH, ({ body }) => {
+        this.saveFeedback((body.feedbacks as Feedback[]) || []);
+      }),
+
+      // 用户相关
+      r('GET', API_ENDPOINTS.USERS, () => this.db.users),
+      r('GET', API_ENDPOINTS.USER_DETAIL(':id'), ({ params }) => this.findUser(params.id)),
+      r('PATCH', API_ENDPOINTS.USER_DETAIL(':id'), ({ params, body }) => {
+        const user = this.findUser(params.id);
+        Object.assign(user, body, { id: user.id });
+        return user;
+      }),
+      r('GET', API_ENDPOINTS.USER_FAVORITES(':id'), ({ params, query }) => (
+        this.db.favorites[this.profileKey(params.id, query)] || []
+      )),
+      r('POST', API_ENDPOINTS.USER_FAVORITES(':id'), ({ params, query, body }) => {
+        const gameId = String(body.gameId);
+        this.findGame(gameId);
+        const key = this.profileKey(params.id, query);
+        const favorites = this.db.favorites[key] || [];
+        if (!favorites.includes(gameId)) {
+          this.db.favorites[key] = [...favorites, gameId];
+        }
+      }),
+      r('DELETE', API_ENDPOINTS.USER_FAVORITE(':id', ':gameId'), ({ params, query }) => {
+        const key = this.profileKey(params.id, query);
+        this.db.favorites[key] = (this.db.favorites[key] || []).filter(id => id !== params.gameId);
+      }),
+      r('GET', API_ENDPOINTS.USER_GROUPS(':id'), ({ params, query }) => (
+        this.db.groups[this.profileKey(params.id, query)] || []
+      )),
+      r('POST', API_ENDPOINTS.USER_GROUPS(':id'), ({ params, query, body }) => {
+        const key = this.profileKey(params.id, query);
+        const groups = this.db.groups[key] || [];
+        // 删除过分组后数量会变少，跳过仍在使用的ID
+        let next = groups.length + 1;
+        while (groups.some(g => g.id === `group_${next}`)) next++;
+        const group: Group = {
+          ...(body as unknown as Omit<Group, 'id' | 'createdAt'>),
+          id: `group_${next}`,
+          createdAt: this.now()
+        };
+        this.db.groups[key] = [...groups, group];
+        return group;
+      }),
+      r('PUT', API_ENDPOINTS.USER_GROUPS_ORDER(':id'), ({ params, query, body }) => {
+        const key = this.profileKey(params.id, query);
+        const groups = this.db.groups[key] || [];
+        this.db.groups[key] = this.applyOrder(groups.map(g => g.id), body.groupIds)
+          .map(id => groups.find(g => g.id === id)!);
+      }),
+      r('PATCH', API_ENDPOINTS.USER_GROUP(':id', ':groupId'), ({ params, query, body }) => {
+        const group = this.findGroup(this.profileKey(params.id, query), params.groupId);
+        Object.assign(group, body, { id: group.id, gameIds: group.gameIds, createdAt: group.createdAt });
+        return group;
+      }),
+      r('DELETE', API_ENDPOINTS.USER_GROUP(':id', ':groupId'), ({ params, query }) => {
+        const key = this.profileKey(params.id, query);
+        this.findGroup(key, params.groupId);
+        this.db.groups[key] = this.db.groups[key].filter(g => g.id !== params.groupId);
+      }),
+      r('POST', API_ENDPOINTS.USER_GROUP_GAMES(':id', ':groupId'), ({ params, query, body }) => {
+        const group = this.findGroup(this.profileKey(params.id, query), params.groupId);
+        const gameId = String(body.gameId);
+        this.findGame(gameId);
+        if (!group.gameIds.includes(gameId)) {
+          group.gameIds = [...group.gameIds, gameId];
+        }
+      }),
+      r('DELETE', API_ENDPOINTS.USER_GROUP_GAME(':id', ':groupId', ':gameId'), ({ params, query }) => {
+        const group = this.findGroup(this.profileKey(params.id, query), params.groupId);
+        group.gameIds = group.gameIds.filter(id => id !== params.gameId);
+      }),
+      r('PUT', API_ENDPOINTS.USER_GROUP_ORDER(':id', ':groupId'), ({ params, query, body }) => {
+        const group = this.findGroup(this.profileKey(params.id, query), params.groupId);
+        group.gameIds = this.applyOrder(group.gameIds, body.gameIds);
+      }),
+      r('GET', API_ENDPOINTS.USER_PREFERENCES(':id'), ({ params }) => this.getPreferences(params.id)),
+      r('PUT', API_ENDPOINTS.USER_PREFERENCES(':id'), ({ params, body }) => {
+        this.findUser(params.id);
+        this.db.preferences[params.id] = body as unknown as UserPreferences;
+      }),
+      r('GET', API_ENDPOINTS.USER_HISTORY(':id'), ({ params }) => (
+        this.db.sessions.filter(session => session.userId === params.id)
+      )),
+      r('GET', API_ENDPOINTS.USER_FEEDBACK(':id'), () => this.db.feedback),
+      r('GET', API_ENDPOINTS.USER_GAMES(':id'), ({ params }) => (
+        this.db.submissions.filter(submission => submission.creatorId === params.id)
+      )),
+
+      // 认证相关
+      r('POST', API_ENDPOINTS.AUTH_LOGIN, ({ body }) => {
+        if (!body.code) {
+          throw new MockHttpError(422, '缺少登录凭证', { code: ['登录凭证不能为空'] });
+        }
+        return this.issueTokens(this.db.users[0]);
+      }),
+      r('POST', API_ENDPOINTS.AUTH_REFRESH, ({ body }) => {
+        const userId = this.db.refreshTokens[String(body.refreshToken)];
+        if (!userId) {
+          throw new MockHttpError(401, '刷新凭证无效');
+        }
+        delete this.db.refreshTokens[String(body.refreshToken)];
+        const { token, refreshToken } = this.issueTokens(this.findUser(userId));
+        return { token, refreshToken };
+      }),
+
+      // 分享相关
+      r('POST', API_ENDPOINTS.SHARE_SIGN, ({ body }) => ({
+        signature: this.signShare(this.getShareContent(body))
+      })),
+      r('POST', API_ENDPOINTS.SHARE_VERIFY, ({ body }) => ({
+        valid: this.signShare(this.getShareContent(body)) === String(body.signature ?? '')
+      })),
+
+      // 发布相关
+      r('POST', API_ENDPOINTS.PUBLISH, ({ body }) => {
+        const submission = body as unknown as GameSubmission;
+        if (!submission.title || !submission.url) {
+          throw new MockHttpError(422, '提交信息不完整', {
+            title: submission.title ? [] : ['请填写游戏名称'],
+            url: submission.url ? [] : ['请填写游戏链接']
+          });
+        }
+        const created: GameSubmission = {
+          ...submission,
+          id: `submission_${String(this.db.submissions.length + 1).padStart(3, '0')}`,
+          status: 'pending',
+          createdAt: this.now()
+        };
+        this.db.submissions.push(created);
+        return created;
+      }),
+      r('PATCH', API_ENDPOINTS.PUBLISH_DETAIL(':id'), ({ params, body }) => {
+        const submission = this.findSubmission(params.id);
+        Object.assign(submission, body, { id: submission.id });
+        return submission;
+      }),
+      r('DELETE', API_ENDPOINTS.PUBLISH_DETAIL(':id'), ({ params }) => {
+        this.findSubmission(params.id);
+        this.db.submissions = this.db.submissions.filter(s => s.id !== params.id);
+      }),
+      r('GET', API_ENDPOINTS.PUBLISH_STATUS(':id'), ({ params }) => this.getSubmissionStatus(params.id)),
+      r('POST', API_ENDPOINTS.AI_CRAWL, ({ body }) => this.crawlGame(String(body.url))),
+      r('POST', API_ENDPOINTS.AI_ANALYZE, ({ body }) => this.analyzeGame(String(body.url))),
+      r('POST', API_ENDPOINTS.AI_VALIDATE_URL, ({ body }) => (
+        /^https?:\/\/.+/.test(String(body.url))
+          ? { valid: true }
+          : { valid: false, message: 'URL格式不正确，请以http://或https://开头' }
+      )),
+
+      // 监控相关
+      r('POST', API_ENDPOINTS.MONITORING_ERRORS, () => undefined),
+      r('POST', API_ENDPOINTS.MONITORING_PERFORMANCE, () => undefined),
+      r('POST', API_ENDPOINTS.MONITORING_ANALYTICS, () => undefined)
+    ];
+  }
+
+  // ==================== 游戏 ====================
+
+  private findGame(gameId: string): MockDatabase['games'][number] {
+    const game = this.db.games.find(g => g.id === gameId);
+    if (!game) {
+      throw new MockHttpError(404, '游戏不存在');
+    }
+    return game;
+  }
+
+  private listGames(query: URLSearchParams): PaginationResponse<GameCard> {
+    const minAge = query.get('minAge');
+    const maxAge = query.get('maxAge');
+    const category = query.get('category');
+    const sortBy = query.get('sortBy') || 'trust';
+
+    let games = [...this.db.games];
+
+    if (minAge !== null && maxAge !== null) {
+      games = games.filter(g => g.ageRange[0] <= Number(maxAge) && g.ageRange[1] >= Number(minAge));
+    }
+    if (category) {
+      games = games.filter(g => g.category === category);
+    }
+
+    games.sort((a, b) => {
+      switch (sortBy) {
+        case 'recent':
+          return b.createdAt - a.createdAt;
+        case 'popular':
+          return b.stats.opens - a.stats.opens;
+        case 'trust':
+        default:
+          return b.trustScore - a.trustScore;
+      }
+    });
+
+    return this.paginate(games, query);
+  }
+
+  private searchGames(query: URLSearchParams): PaginationResponse<GameCard> {
+    const keyword = (query.get('keyword') || '').trim().toLowerCase();
+    const games = keyword
+      ? this.db.games.filter(g => (
+        g.title.toLowerCase().includes(keyword)
+        || g.description.toLowerCase().includes(keyword)
+        || g.skills.some(skill => skill.includes(keyword))
+        || g.creator.name.toLowerCase().includes(keyword)
+      ))
+      : [];
+
+    return this.paginate(games, query);
+  }
+
+  private recommendGames(query: URLSearchParams): GameCard[] {
+    const limit = Number(query.get('limit') || 10);
+    const userId = query.get('userId') || '';
+    const favorites = this.db.favorites[userId] || [];
+
+    return this.db.games
+      .filter(g => !favorites.includes(g.id))
+      .sort((a, b) => b.trustScore - a.trustScore)
+      .slice(0, limit);
+  }
+
+  private filterByAgeGroup(ageGroup: string | null): MockDatabase['games'] {
+    if (!ageGroup) return [...this.db.games];
+
+    const [min, max] = ageGroup.replace('+', '-99').split('-').map(Number);
+    return this.db.games.filter(g => g.ageRange[0] <= max && g.ageRange[1] >= min);
+  }
+
+  private paginate<T>(items: T[], query: URLSearchParams): PaginationResponse<T> {
+    const page = Math.max(1, Number(query.get('page') || 1));
+    const pageSize = Math.max(1, Number(query.get('pageSize') || 10));
+    const start = (page - 1) * pageSize;
+
+    return {
+      list: items.slice(start, start + pageSize),
+      total: items.length,
+      page,
+      pageSize,
+      hasMore: start + pageSize < items.length
+    };
+  }
+
+  // ==================== 反馈 ====================
+
+  /**
+   * 按已结束的会话重新计算平均游戏时长（分钟）
+   */
+  private updatePlayTime(gameId: string): void {
+    const game = this.db.games.find(g => g.id === gameId);
+    const durations = this.db.sessions
+      .filter(session => session.gameId === gameId && session.duration !== undefined)
+      .map(session => session.duration!);
+    if (!game || durations.length === 0) return;
+
+    const average = durations.reduce((sum, duration) => sum + duration, 0) / durations.length;
+    game.stats.avgPlayTime = Math.round(average / 6000) / 10;
+  }
+
+  private saveFeedback(feedbacks: Feedback[]): void {
+    feedbacks.forEach(feedback => {
+      // 按ID幂等写入
+      if (feedback.id && this.db.feedback.some(f => f.id === feedback.id)) return;
+      this.db.feedback.push({ ...feedback, status: 'synced', syncedAt: this.now() });
+    });
+  }
+
+  private getFeedbackStats(gameId: string): FeedbackStats {
+    this.findGame(gameId);
+    const feedbacks = this.db.feedback.filter(f => f.gameId === gameId);
+    const ratings = this.db.ratings.filter(r => r.gameId === gameId);
+    const reasonCounts = new Map<string, number>();
+
+    feedbacks.forEach(f => {
+      if (f.reason) {
+        reasonCounts.set(f.reason, (reasonCounts.get(f.reason) || 0) + 1);
+      }
+    });
+
+    return {
+      total: feedbacks.length,
+      positive: feedbacks.filter(f => f.type === 'positive').length,
+      neutral: feedbacks.filter(f => f.type === 'neutral').length,
+      negative: feedbacks.filter(f => f.type === 'negative').length,
+      avgRating: ratings.length > 0
+        ? ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length
+        : 0,
+      topReasons: Array.from(reasonCounts.entries())
+        .map(([reason, count]) => ({ reason, count }))
+        .sort((a, b) => b.count - a.count)
+    };
+  }
+
+  // ==================== 用户 ====================
+
+  /**
+   * 收藏和分组按孩子档案存放，未指定档案时为账号的默认档案
+   */
+  private profileKey(userId: string, query: URLSearchParams): string {
+    const profileId = query.get('profileId');
+    return profileId ? `${userId}:${profileId}` : userId;
+  }
+
+  private findUser(userId: string): User {
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user) {
+      throw new MockHttpError(404, '用户不存在');
+    }
+    return user;
+  }
+
+  private findGroup(profileKey: string, groupId: string): Group {
+    const group = (this.db.groups[profileKey] || []).find(g => g.id === groupId);
+    if (!group) {
+      throw new MockHttpError(404, '分组不存在');
+    }
+    return group;
+  }
+
+  /**
+   * 按指定顺序排列ID
+   * 只调整顺序：不存在的ID忽略，未列出的ID保持原有相对顺序排在末尾
+   */
+  private applyOrder(ids: string[], order: unknown): string[] {
+    const listed = Array.isArray(order) ? order.filter((id): id is string => ids.includes(id)) : [];
+    const unique = listed.filter((id, index) => listed.indexOf(id) === index);
+    return [...unique, ...ids.filter(id => !unique.includes(id))];
+  }
+
+  private getPreferences(userId: string): UserPreferences {
+    this.findUser(userId);
+    return this.db.preferences[userId];
+  }
+
+  private issueTokens(user: User): { token: string; refreshToken: string; user: User } {
+    this.tokenCounter++;
+    const refreshToken = `mock_refresh_${user.id}_${this.tokenCounter}`;
+    this.db.refreshTokens[refreshToken] = user.id;
+
+    return {
+      token: `mock_token_${user.id}_${this.tokenCounter}`,
+      refreshToken,
+      user
+    };
+  }
+
+  // ==================== 分享 ====================
+
+  private getShareContent(body: Record<string, unknown>): string {
+    if (typeof body.content !== 'string' || !body.content) {
+      throw new MockHttpError(422, '缺少分享内容', { content: ['分享内容不能为空'] });
+    }
+    return body.content;
+  }
+
+  private signShare(content: string): string {
+    return base64UrlEncode(hmacSha256(SHARE_SIGNING_KEY, utf8Encode(content)).slice(0, SHARE_SIGNATURE_BYTES));
+  }
+
+  // ==================== 发布 ====================
+
+  private findSubmission(submissionId: string): GameSubmission {
+    const submission = this.db.submissions.find(s => s.id === submissionId);
+    if (!submission) {
+      throw new MockHttpError(404, '提交记录不存在');
+    }
+    return submission;
+  }
+
+  private getSubmissionStatus(submissionId: string): GameStatus {
+    const submission = this.findSubmission(submissionId);
+
+    return {
+      id: submission.id!,
+      status: submission.status,
+      reviewProgress: {
+        current: submission.status === 'pending' ? 1 : 3,
+        total: 3
+      },
+      estimatedCompletion: submission.status === 'pending'
+        ? (submission.createdAt || 0) + 24 * 60 * 60 * 1000
+        : undefined,
+      previewUrl: submission.status === 'approved'
+        ? `https://preview.example.com/${submission.id}`
+        : undefined
+    };
+  }
+
+  /**
+   * 模拟AI抓取，结果由URL决定
+   */
+  private crawlGame(url: string): Partial<GameSubmission> {
+    const analysis = this.analyzeGame(url);
+
+    return {
+      ...analysis,
+      url,
+      coverImage: `https://via.placeholder.com/400x300/3B82F6/FFFFFF?text=${encodeURIComponent(analysis.title)}`
+    };
+  }
+
+  /**
+   * 模拟AI分析，结果由URL决定
+   */
+  private analyzeGame(url: string): GameAnalysis {
+    const random = createSeededRandom(hashString(url));
+    const skillCount = 3 + Math.floor(random() * 3);
+    const skills = [...MOCK_SKILLS]
+      .map(skill => ({ skill, order: random() }))
+      .sort((a, b) => a.order - b.order)
+      .slice(0, skillCount)
+      .map(item => item.skill);
+
+    return {
+      title: this.extractTitle(url),
+      description: pick(random, MOCK_DESCRIPTIONS),
+      estimatedDuration: pick(random, [5, 10, 15, 20, 30]),
+      ageRecommendation: pick(random, MOCK_AGE_RANGES),
+      skills
+    };
+  }
+
+  private extractTitle(url: string): string {
+    try {
+      const hostname = new URL(url).hostname.replace(/^www\./, '');
+      const domain = hostname.split('.')[0];
+      return domain.charAt(0).toUpperCase() + domain.slice(1) + ' 游戏';
+    } catch {
+      throw new MockHttpError(422, 'URL格式不正确', { url: ['无法解析该URL'] });
+    }
+  }
+}
+
+// 默认实例
+export const mockServer = new MockServer();
+
+export default mockServer;
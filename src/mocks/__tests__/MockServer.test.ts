@@ -0,0 +1,106 @@
+/**
+ * 模拟后端测试
+ * 微学宝盒 - 路由覆盖全部接口，幂等键重放返回首次响应，时间戳取自注入的时钟
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FIXTURE_NOW, MockServer } from '@/mocks';
+import { API_ENDPOINTS } from '@/types/api';
+
+/**
+ * 把路径参数统一成占位符，只比较路径结构
+ */
+function normalizePath(path: string): string {
+  return path.replace(/:\w+/g, ':param');
+}
+
+describe('MockServer', () => {
+  let server: MockServer;
+
+  beforeEach(() => {
+    server = new MockServer();
+  });
+
+  it('API_ENDPOINTS 中的每个接口都有对应路由', () => {
+    const routePaths = new Set(server.getRoutes().map(route => normalizePath(route.path)));
+
+    const missing = Object.entries(API_ENDPOINTS)
+      .map(([name, endpoint]) => {
+        const path = typeof endpoint === 'function'
+          ? (endpoint as (...args: string[]) => string)(
+              ...Array.from({ length: endpoint.length }, () => ':param')
+            )
+          : endpoint;
+        return { name, path: normalizePath(path) };
+      })
+      .filter(({ path }) => !routePaths.has(path))
+      .map(({ name }) => name);
+
+    expect(missing).toEqual([]);
+  });
+
+  it('未注册的接口返回404', () => {
+    const response = server.handle('GET', '/api/unknown');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('重放同一幂等键返回首次的响应，不重复写入', () => {
+    const url = API_ENDPOINTS.GAME_RATINGS('game_001');
+
+    const first = server.handle('POST', url, { rating: 5 }, 'key-1');
+    const replay = server.handle('POST', url, { rating: 3 }, 'key-1');
+
+    expect(first.status).toBe(200);
+    expect(replay).toBe(first);
+    expect(server.getDatabase().ratings).toHaveLength(1);
+    expect(server.getDatabase().ratings[0].rating).toBe(5);
+  });
+
+  it('不同幂等键或没有幂等键时各自执行', () => {
+    const url = API_ENDPOINTS.GAME_RATINGS('game_001');
+
+    server.handle('POST', url, { rating: 5 }, 'key-1');
+    server.handle('POST', url, { rating: 4 }, 'key-2');
+    server.handle('POST', url, { rating: 3 });
+    server.handle('POST', url, { rating: 2 });
+
+    expect(server.getDatabase().ratings.map(rating => rating.rating)).toEqual([5, 4, 3, 2]);
+  });
+
+  it('默认时钟固定为 FIXTURE_NOW', () => {
+    const response = server.handle('POST', API_ENDPOINTS.GAME_RATINGS('game_001'), { rating: 5 });
+
+    expect(response.body).toMatchObject({ timestamp: FIXTURE_NOW });
+    expect(server.getDatabase().ratings[0].createdAt).toBe(FIXTURE_NOW);
+  });
+
+  it('响应和写入的数据使用注入的时钟', () => {
+    let now = FIXTURE_NOW + 1000;
+    server = new MockServer(undefined, () => now);
+
+    server.handle('POST', API_ENDPOINTS.GAME_REPORTS('game_001'), { reason: 'boring' });
+    now += 1000;
+    server.handle('POST', API_ENDPOINTS.FEEDBACK_BATCH, {
+      feedbacks: [{ gameId: 'game_001', type: 'positive' }]
+    });
+    now += 1000;
+    const session = server.handle('POST', API_ENDPOINTS.GAME_SESSION, { gameId: 'game_001' });
+
+    const db = server.getDatabase();
+    expect(db.reports.at(-1)!.createdAt).toBe(FIXTURE_NOW + 1000);
+    expect(db.feedback.at(-1)!.syncedAt).toBe(FIXTURE_NOW + 2000);
+    expect(session.body).toMatchObject({ timestamp: FIXTURE_NOW + 3000, data: { startTime: FIXTURE_NOW + 3000 } });
+  });
+
+  it('重置后清空幂等记录', () => {
+    const url = API_ENDPOINTS.GAME_RATINGS('game_001');
+
+    server.handle('POST', url, { rating: 5 }, 'key-1');
+    server.reset();
+    server.handle('POST', url, { rating: 4 }, 'key-1');
+
+    expect(server.getDatabase().ratings).toHaveLength(1);
+    expect(server.getDatabase().ratings[0].rating).toBe(4);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * 模拟后端请求拦截测试
+ * 微学宝盒 - fetch 请求转发到模拟后端，并带上幂等键
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MockServer, installMockBackend } from '@/mocks';
+import { API_ENDPOINTS } from '@/types/api';
+
+describe('installMockBackend', () => {
+  let server: MockServer;
+  let uninstall: () => void;
+
+  beforeEach(() => {
+    server = new MockServer();
+    uninstall = installMockBackend({ server });
+  });
+
+  afterEach(() => {
+    uninstall();
+  });
+
+  const postRating = (rating: number, idempotencyKey?: string) => fetch(API_ENDPOINTS.GAME_RATINGS('game_001'), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {})
+    },
+    body: JSON.stringify({ rating })
+  });
+
+  it('API 请求返回模拟后端的响应', async () => {
+    const response = await fetch(API_ENDPOINTS.GAME_DETAIL('game_001'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data.id).toBe('game_001');
+  });
+
+  it('HTTP 错误保留状态码和错误信息', async () => {
+    const response = await fetch(API_ENDPOINTS.GAME_DETAIL('missing'));
+    const body = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(body.code).toBe(404);
+  });
+
+  it('带同一 Idempotency-Key 重发时返回缓存的响应', async () => {
+    const first = await (await postRating(5, 'retry-1')).json();
+    const replay = await (await postRating(3, 'retry-1')).json();
+
+    expect(replay).toEqual(first);
+    expect(server.getDatabase().ratings).toHaveLength(1);
+    expect(server.getDatabase().ratings[0].rating).toBe(5);
+  });
+
+  it('没有 Idempotency-Key 时每次都执行', async () => {
+    await postRating(5);
+    await postRating(3);
+
+    expect(server.getDatabase().ratings).toHaveLength(2);
+  });
+
+  it('卸载后恢复原始 fetch', () => {
+    const installed = globalThis.fetch;
+    uninstall();
+
+    expect(globalThis.fetch).not.toBe(installed);
+    uninstall = installMockBackend({ server });
+  });
+});
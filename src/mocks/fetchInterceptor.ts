@@ -0,0 +1,102 @@
+/**
+ * 模拟后端请求拦截
+ * 微学宝盒 - 将 /api/ 请求转发到内存中的模拟后端
+ */
+
+import { mockServer, type MockServer } from '@/mocks/MockServer';
+
+/**
+ * 拦截选项
+ */
+export interface MockBackendOptions {
+  /** 模拟后端实例 */
+  server?: MockServer;
+  /** 模拟网络延迟（毫秒） */
+  latency?: number;
+}
+
+/**
+ * 获取请求地址
+ */
+function getRequestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+/**
+ * 判断是否为本站 API 请求
+ */
+function resolveApiPath(url: string): string | null {
+  const origin = typeof window !== 'undefined' ? window.location.origin : 'http://localhost';
+  const parsed = new URL(url, origin);
+
+  if (parsed.origin !== origin || !parsed.pathname.startsWith('/api/')) {
+    return null;
+  }
+
+  return parsed.pathname + parsed.search;
+}
+
+/**
+ * 读取请求头
+ */
+function getRequestHeader(input: RequestInfo | URL, init: RequestInit | undefined, name: string): string | undefined {
+  const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+  return headers.get(name) ?? undefined;
+}
+
+/**
+ * 解析请求体
+ */
+function parseRequestBody(body: BodyInit | null | undefined): unknown {
+  if (typeof body !== 'string' || !body) return undefined;
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 安装模拟后端
+ * 替换全局 fetch，非 API 请求仍交给原始实现
+ * @param options 拦截选项
+ * @returns 卸载函数
+ */
+export function installMockBackend(options: MockBackendOptions = {}): () => void {
+  const { server = mockServer, latency = 0 } = options;
+  const originalFetch = globalThis.fetch;
+
+  globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const path = resolveApiPath(getRequestUrl(input));
+
+    if (!path) {
+      return originalFetch(input, init);
+    }
+
+    const method = init?.method || (input instanceof Request ? input.method : 'GET');
+    const result = server.handle(
+      method,
+      path,
+      parseRequestBody(init?.body),
+      getRequestHeader(input, init, 'Idempotency-Key')
+    );
+
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency));
+    }
+
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  };
+
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+}
+
+export default installMockBackend;
@@ -0,0 +1,278 @@
+/**
+ * 模拟数据
+ * 微学宝盒 - 基于固定种子生成的内存数据，开发环境和测试共用
+ */
+
+import type {
+  GameCard,
+  Group,
+  Feedback,
+  GameSubmission,
+  GameSession,
+  TrustLevel
+} from '@/types/game';
+import { DEFAULT_GROUPS } from '@/types/game';
+import type { User, UserPreferences } from '@/types/user';
+import { DEFAULT_USER_PREFERENCES } from '@/types/user';
+
+/**
+ * 默认随机种子
+ */
+export const MOCK_SEED = 20240601;
+
+/**
+ * 模拟数据的基准时间（固定值，保证每次生成结果一致）
+ */
+export const FIXTURE_NOW = Date.UTC(2025, 0, 1);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 创建可复现的伪随机数生成器（mulberry32）
+ * @param seed 种子
+ * @returns 返回 [0, 1) 区间随机数的函数
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 字符串哈希，用于从输入派生稳定的种子
+ * @param input 输入字符串
+ * @returns 32位无符号整数
+ */
+export function hashString(input: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 从数组中按随机数取一项
+ */
+export function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * 技能标签
+ */
+export const MOCK_SKILLS = [
+  '逻辑思维', '数学', '创造力', '观察力', '记忆力',
+  '手眼协调', '问题解决', '空间想象', '语言表达', '科学探索'
+] as const;
+
+/**
+ * 游戏描述
+ */
+export const MOCK_DESCRIPTIONS = [
+  '这是一款有趣的益智游戏，可以帮助孩子提高逻辑思维能力和问题解决能力。',
+  '通过互动式学习，让孩子在游戏中掌握数学基础知识，寓教于乐。',
+  '专为儿童设计的创意游戏，激发想象力和创造力，培养艺术天赋。',
+  '科学探索类游戏，带领孩子发现自然界的奥秘，培养科学兴趣。',
+  '语言学习游戏，通过趣味互动帮助孩子提高词汇量和语言表达能力。'
+] as const;
+
+/**
+ * 年龄段
+ */
+export const MOCK_AGE_RANGES: [number, number][] = [
+  [3, 6],
+  [6, 9],
+  [9, 12],
+  [12, 99]
+];
+
+/**
+ * 游戏模板
+ */
+const GAME_TEMPLATES: Array<{ title: string; category: string; skills: string[] }> = [
+  { title: '数学大冒险', category: 'math', skills: ['数学', '逻辑思维'] },
+  { title: '拼音小火车', category: 'language', skills: ['语言表达', '记忆力'] },
+  { title: '七巧板工坊', category: 'puzzle', skills: ['空间想象', '创造力'] },
+  { title: '星空探索家', category: 'science', skills: ['科学探索', '观察力'] },
+  { title: '找不同侦探', category: 'puzzle', skills: ['观察力', '记忆力'] },
+  { title: '口算闯关王', category: 'math', skills: ['数学', '问题解决'] },
+  { title: '汉字积木', category: 'language', skills: ['语言表达', '空间想象'] },
+  { title: '小小编程师', category: 'coding', skills: ['逻辑思维', '问题解决'] },
+  { title: '恐龙博物馆', category: 'science', skills: ['科学探索', '记忆力'] },
+  { title: '色彩涂鸦板', category: 'art', skills: ['创造力', '手眼协调'] },
+  { title: '节奏小鼓手', category: 'music', skills: ['手眼协调', '记忆力'] },
+  { title: '英语单词消消乐', category: 'language', skills: ['语言表达', '观察力'] },
+  { title: '时钟认读营', category: 'math', skills: ['数学', '观察力'] },
+  { title: '植物成长日记', category: 'science', skills: ['科学探索', '观察力'] },
+  { title: '迷宫寻宝', category: 'puzzle', skills: ['空间想象', '问题解决'] },
+  { title: '古诗配画', category: 'language', skills: ['语言表达', '创造力'] },
+  { title: '分数披萨店', category: 'math', skills: ['数学', '问题解决'] },
+  { title: '地球小卫士', category: 'science', skills: ['科学探索', '问题解决'] },
+  { title: '数独入门', category: 'puzzle', skills: ['逻辑思维', '数学'] },
+  { title: '乐高建筑师', category: 'art', skills: ['空间想象', '创造力'] },
+  { title: '交通规则小课堂', category: 'life', skills: ['观察力', '语言表达'] },
+  { title: '人体奥秘', category: 'science', skills: ['科学探索', '记忆力'] },
+  { title: '钱币小当家', category: 'math', skills: ['数学', '问题解决'] },
+  { title: '成语接龙', category: 'language', skills: ['语言表达', '记忆力'] }
+];
+
+/**
+ * 创作者
+ */
+const CREATORS = [
+  { id: 'creator_1', name: '王老师' },
+  { id: 'creator_2', name: '小鹿工作室' },
+  { id: 'creator_3', name: '启蒙实验室' },
+  { id: 'creator_4', name: '李妈妈' }
+];
+
+/**
+ * 模拟数据库
+ */
+export interface MockDatabase {
+  games: Array<GameCard & { category: string; createdAt: number }>;
+  users: User[];
+  /** 键为用户ID（默认档案）或 `用户ID:档案ID` */
+  favorites: Record<string, string[]>;
+  groups: Record<string, Group[]>;
+  preferences: Record<string, UserPreferences>;
+  feedback: Feedback[];
+  ratings: Array<{ gameId: string; rating: number; comment?: string; createdAt: number }>;
+  reports: Array<{ gameId: string; reason: string; details?: string; createdAt: number }>;
+  submissions: GameSubmission[];
+  sessions: GameSession[];
+  refreshTokens: Record<string, string>;
+}
+
+/**
+ * 生成模拟游戏
+ */
+function createGames(random: () => number): MockDatabase['games'] {
+  const levels: TrustLevel[] = ['verified', 'featured', 'hall'];
+
+  return GAME_TEMPLATES.map((template, index) => {
+    const id = `game_${String(index + 1).padStart(3, '0')}`;
+    const opens = 50 + Math.floor(random() * 2000);
+    const totalRatings = Math.floor(random() * 300);
+    const parentRating = Math.round((3 + random() * 2) * 10) / 10;
+    const hasAds = random() < 0.15;
+    const hasTracking = random() < 0.1;
+    const extraSkill = pick(random, MOCK_SKILLS);
+
+    return {
+      id,
+      title: template.title,
+      category: template.category,
+      coverUrl: `https://cdn.example.com/covers/${id}.png`,
+      description: pick(random, MOCK_DESCRIPTIONS),
+      ageRange: MOCK_AGE_RANGES[index % MOCK_AGE_RANGES.length],
+      skills: template.skills.includes(extraSkill) ? template.skills : [...template.skills, extraSkill],
+      trustScore: parentRating,
+      trustBadge: {
+        level: pick(random, levels),
+        verifiedAt: FIXTURE_NOW - Math.floor(random() * 180) * DAY,
+        parentRating,
+        totalRatings,
+        securityCheck: {
+          hasAds,
+          hasTracking,
+          hasExternalLinks: random() < 0.2,
+          contentModerated: random() > 0.05
+        }
+      },
+      estimatedDuration: pick(random, [5, 10, 15, 20, 30]),
+      creator: pick(random, CREATORS),
+      stats: {
+        likes: Math.floor(opens * (0.2 + random() * 0.5)),
+        opens,
+        reports: Math.floor(random() * 5),
+        avgPlayTime: 3 + Math.floor(random() * 25)
+      },
+      gameUrl: `https://games.example.com/${id}/index.html`,
+      isFavorited: false,
+      createdAt: FIXTURE_NOW - index * DAY
+    };
+  });
+}
+
+/**
+ * 创建模拟数据库
+ * 相同种子总是生成相同的数据
+ * @param seed 随机种子
+ * @returns 模拟数据库
+ */
+export function createMockDatabase(seed: number = MOCK_SEED): MockDatabase {
+  const random = createSeededRandom(seed);
+  const games = createGames(random);
+
+  const user: User = {
+    id: 'user_demo',
+    nickname: '示例家长',
+    createdAt: FIXTURE_NOW - 90 * DAY,
+    lastLoginAt: FIXTURE_NOW
+  };
+
+  return {
+    games,
+    users: [user],
+    favorites: {
+      [user.id]: [games[0].id, games[2].id]
+    },
+    groups: {
+      [user.id]: DEFAULT_GROUPS.map(group => ({
+        ...group,
+        createdAt: user.createdAt,
+        gameIds: group.id === 'favorites' ? [games[0].id, games[2].id] : []
+      }))
+    },
+    preferences: {
+      [user.id]: { ...DEFAULT_USER_PREFERENCES }
+    },
+    feedback: [
+      {
+        id: 'feedback_001',
+        gameId: games[0].id,
+        type: 'positive',
+        timestamp: FIXTURE_NOW - 2 * DAY,
+        status: 'synced',
+        syncedAt: FIXTURE_NOW - 2 * DAY
+      },
+      {
+        id: 'feedback_002',
+        gameId: games[1].id,
+        type: 'negative',
+        reason: 'too-hard',
+        timestamp: FIXTURE_NOW - DAY,
+        status: 'synced',
+        syncedAt: FIXTURE_NOW - DAY
+      }
+    ],
+    ratings: [],
+    reports: [],
+    submissions: [
+      {
+        id: 'submission_001',
+        title: '分类垃圾桶',
+        description: MOCK_DESCRIPTIONS[3],
+        url: 'https://games.example.com/recycle/index.html',
+        ageRecommendation: [6, 9],
+        skills: ['科学探索', '观察力'],
+        estimatedDuration: 10,
+        uploadMethod: 'link',
+        isOriginal: true,
+        creatorId: user.id,
+        status: 'approved',
+        createdAt: FIXTURE_NOW - 10 * DAY
+      }
+    ],
+    sessions: [],
+    refreshTokens: {}
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * 模拟后端入口
+ * 微学宝盒 - 开发环境、vitest 和 playwright 共用的模拟数据与接口
+ */
+
+export { MockServer, MockHttpError, mockServer } from '@/mocks/MockServer';
+export type { MockResponse } from '@/mocks/MockServer';
+export { installMockBackend } from '@/mocks/fetchInterceptor';
+export type { MockBackendOptions } from '@/mocks/fetchInterceptor';
+export { createMockDatabase, createSeededRandom, MOCK_SEED, FIXTURE_NOW } from '@/mocks/fixtures';
+export type { MockDatabase } from '@/mocks/fixtures';
@@ -0,0 +1,36 @@
+/**
+ * 接口响应数据结构
+ * 微学宝盒 - ApiResponse 外层包装和分页响应的运行时校验
+ */
+
+import { z } from 'zod';
+import { lenientArray } from '@/schemas/common';
+
+/**
+ * ApiResponse 外层包装
+ * data 由各接口各自校验，错误响应可以没有 data
+ */
+export const ApiResponseSchema = z.object({
+  code: z.number().int(),
+  message: z.string().default(''),
+  data: z.unknown().optional(),
+  timestamp: z.number().optional(),
+  /** 错误响应中的字段校验详情 */
+  details: z.record(z.string(), z.array(z.string())).optional()
+});
+
+/**
+ * 分页响应
+ * 列表条目逐条校验，不合法的条目被丢弃
+ * @param itemSchema 条目结构
+ * @param key 上报时使用的接口地址
+ */
+export function paginationResponseSchema<S extends z.ZodType>(itemSchema: S, key: string) {
+  return z.object({
+    list: lenientArray(itemSchema, key),
+    total: z.number().int().nonnegative(),
+    page: z.number().int().positive(),
+    pageSize: z.number().int().positive(),
+    hasMore: z.boolean()
+  });
+}
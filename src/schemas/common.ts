@@ -0,0 +1,116 @@
+/**
+ * 数据结构公共工具
+ * 微学宝盒 - 各数据结构共用的基础结构、错误格式化和修复方法
+ */
+
+import { z } from 'zod';
+import { reportValidationIssue } from '@/utils/validation';
+
+/**
+ * 年龄段 [最小, 最大]
+ */
+export const AgeRangeSchema = z
+  .tuple([z.number().min(0), z.number().min(0)])
+  .refine(([min, max]) => min <= max, { message: '最小年龄不能大于最大年龄' });
+
+/**
+ * ID列表
+ */
+export const IdListSchema = z.array(z.string().min(1));
+
+/**
+ * 把校验错误转换为字段错误详情
+ * 格式与 ApiError.details 一致，键为字段路径
+ * @param error 校验错误
+ * @returns 字段路径到错误信息的映射
+ */
+export function toFieldErrors(error: z.ZodError): Record<string, string[]> {
+  const details: Record<string, string[]> = {};
+
+  error.issues.forEach(issue => {
+    const path = issue.path.map(String).join('.') || '(root)';
+    (details[path] ||= []).push(issue.message);
+  });
+
+  return details;
+}
+
+/**
+ * 宽松列表结构
+ * 逐条校验，不合法的条目被丢弃并上报，不影响其余条目
+ * @param itemSchema 条目结构
+ * @param key 上报时使用的接口地址或键名
+ */
+export function lenientArray<S extends z.ZodType>(itemSchema: S, key: string) {
+  return z.array(z.unknown()).transform(items => items.flatMap(item => {
+    const result = itemSchema.safeParse(item);
+    if (result.success) {
+      return [result.data as z.output<S>];
+    }
+
+    reportValidationIssue({
+      source: 'network',
+      key,
+      action: 'dropped',
+      issues: toFieldErrors(result.error)
+    });
+    return [];
+  }));
+}
+
+// ==================== 修复方法 ====================
+
+/**
+ * 修复ID列表
+ * 去除非字符串和重复项；兼容旧格式 { [id]: true }
+ * @param value 原始数据
+ * @returns 修复后的数据，无法修复时返回 undefined
+ */
+export function repairIdList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return Array.from(new Set(value.filter((id): id is string => typeof id === 'string' && id.length > 0)));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value)
+      .filter(([id, enabled]) => id.length > 0 && Boolean(enabled))
+      .map(([id]) => id);
+  }
+
+  return undefined;
+}
+
+/**
+ * 创建列表修复方法：保留合法条目
+ * @param itemSchema 条目结构
+ */
+export function repairArray<S extends z.ZodType>(itemSchema: S) {
+  return (value: unknown): unknown[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    return value.filter(item => itemSchema.safeParse(item).success);
+  };
+}
+
+/**
+ * 创建对象修复方法：逐字段校验，不合法或缺失的字段使用默认值
+ * @param schema 对象结构
+ * @param defaults 默认值
+ */
+export function repairObject<S extends z.ZodObject>(schema: S, defaults: z.output<S>) {
+  return (value: unknown): Record<string, unknown> | undefined => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return undefined;
+    }
+
+    const raw = value as Record<string, unknown>;
+    const shape = schema.shape as Record<string, z.ZodType>;
+    const fallback = defaults as Record<string, unknown>;
+
+    return Object.fromEntries(
+      Object.keys(shape).map(field => [
+        field,
+        shape[field].safeParse(raw[field]).success ? raw[field] : fallback[field]
+      ])
+    );
+  };
+}
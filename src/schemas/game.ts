@@ -0,0 +1,301 @@
+/**
+ * 游戏相关数据结构
+ * 微学宝盒 - 游戏卡片、反馈、分组和收藏同步状态的运行时校验
+ */
+
+import { z } from 'zod';
+import { AgeRangeSchema, IdListSchema } from '@/schemas/common';
+import { VersionedTrustBadgeSchema } from '@/schemas/trustBadge';
+
+/**
+ * 创作者
+ */
+export const CreatorSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  avatar: z.string().optional()
+});
+
+/**
+ * 游戏统计
+ */
+export const GameStatsSchema = z.object({
+  likes: z.number().nonnegative(),
+  opens: z.number().nonnegative(),
+  reports: z.number().nonnegative(),
+  avgPlayTime: z.number().nonnegative()
+});
+
+/**
+ * 游戏卡片
+ * 保留服务端返回的额外字段（如分类、创建时间）
+ */
+export const GameCardSchema = z.looseObject({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  coverUrl: z.string(),
+  description: z.string().default(''),
+  ageRange: AgeRangeSchema,
+  skills: z.array(z.string()).default([]),
+  trustScore: z.number().min(0).max(5),
+  trustBadge: VersionedTrustBadgeSchema,
+  estimatedDuration: z.number().nonnegative(),
+  creator: CreatorSchema,
+  stats: GameStatsSchema,
+  gameUrl: z.string().min(1),
+  isFavorited: z.boolean().default(false),
+  lastPlayed: z.number().optional()
+});
+
+/**
+ * 反馈
+ */
+export const FeedbackSchema = z.object({
+  id: z.string().optional(),
+  gameId: z.string().min(1),
+  type: z.enum(['positive', 'neutral', 'negative']),
+  rating: z.number().min(0).max(5).optional(),
+  reason: z.string().optional(),
+  details: z.string().optional(),
+  timestamp: z.number().optional(),
+  status: z.enum(['pending', 'synced']).optional(),
+  syncedAt: z.number().optional()
+});
+
+/**
+ * 反馈统计
+ */
+export const FeedbackStatsSchema = z.object({
+  total: z.number().int().nonnegative(),
+  positive: z.number().int().nonnegative(),
+  neutral: z.number().int().nonnegative(),
+  negative: z.number().int().nonnegative(),
+  avgRating: z.number().min(0).max(5),
+  topReasons: z.array(z.object({
+    reason: z.string(),
+    count: z.number().int().nonnegative()
+  }))
+});
+
+/**
+ * 游戏会话
+ */
+export const GameSessionSchema = z.object({
+  id: z.string().min(1),
+  gameId: z.string().min(1),
+  userId: z.string(),
+  startTime: z.number(),
+  endTime: z.number().optional(),
+  duration: z.number().nonnegative().optional(),
+  feedback: FeedbackSchema.optional()
+});
+
+/**
+ * 进行中的游戏会话
+ */
+export const ActiveGameSessionSchema = z.object({
+  localId: z.string().min(1),
+  sessionId: z.string().optional(),
+  gameId: z.string().min(1),
+  startTime: z.number(),
+  activeMs: z.number().nonnegative(),
+  lastSeenAt: z.number(),
+  title: z.string().optional(),
+  skills: z.array(z.string()).optional()
+});
+
+/**
+ * 游戏日志条目
+ */
+export const PlayLogEntrySchema = z.object({
+  id: z.string().min(1),
+  gameId: z.string().min(1),
+  title: z.string().optional(),
+  skills: z.array(z.string()).optional(),
+  startTime: z.number(),
+  duration: z.number().nonnegative(),
+  feedback: z.enum(['positive', 'neutral', 'negative']).optional()
+});
+
+/**
+ * 游戏日志
+ */
+export const PlayLogSchema = z.object({
+  entries: z.array(PlayLogEntrySchema),
+  favoritesAdded: z.array(z.object({
+    gameId: z.string().min(1),
+    addedAt: z.number()
+  }))
+});
+
+/**
+ * 分组
+ */
+export const GroupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  gameIds: IdListSchema,
+  createdAt: z.number(),
+  icon: z.string().optional(),
+  color: z.string().optional(),
+  sortOrder: z.enum(['manual', 'title', 'trust']).optional()
+});
+
+/**
+ * 游戏提交
+ */
+export const GameSubmissionSchema = z.object({
+  id: z.string().min(1).optional(),
+  title: z.string(),
+  description: z.string(),
+  url: z.string(),
+  coverImage: z.string().optional(),
+  ageRecommendation: AgeRangeSchema,
+  skills: z.array(z.string()),
+  estimatedDuration: z.number().nonnegative(),
+  uploadMethod: z.enum(['link', 'file']),
+  isOriginal: z.boolean(),
+  creatorId: z.string(),
+  status: z.enum(['draft', 'pending', 'approved', 'rejected']),
+  createdAt: z.number().optional()
+});
+
+/**
+ * 游戏审核状态
+ */
+export const GameStatusSchema = z.object({
+  id: z.string().min(1),
+  status: GameSubmissionSchema.shape.status,
+  reviewProgress: z.object({
+    current: z.number().int().nonnegative(),
+    total: z.number().int().nonnegative()
+  }).optional(),
+  estimatedCompletion: z.number().optional(),
+  rejectionReason: z.string().optional(),
+  previewUrl: z.string().optional()
+});
+
+/**
+ * 年龄段
+ */
+export const AgeGroupSchema = z.object({
+  id: z.string().min(1),
+  ageRange: AgeRangeSchema,
+  label: z.string().min(1),
+  color: z.string().min(1),
+  default: z.boolean().optional()
+});
+
+/**
+ * 检查年龄段划分
+ * 要求按最小年龄升序、相邻年龄段首尾相接（不重叠、不留空档）、ID不重复、有且只有一个默认年龄段
+ * @returns 问题描述列表，为空表示通过
+ */
+export function getAgeGroupIssues(groups: z.infer<typeof AgeGroupSchema>[]): string[] {
+  const issues: string[] = [];
+  if (groups.length === 0) {
+    return ['至少需要一个年龄段'];
+  }
+
+  const ids = new Set<string>();
+  groups.forEach(group => {
+    if (ids.has(group.id)) issues.push(`年龄段ID重复：${group.id}`);
+    ids.add(group.id);
+
+    if (group.ageRange[0] >= group.ageRange[1]) issues.push(`年龄段 ${group.label} 的范围为空`);
+  });
+
+  for (let i = 1; i < groups.length; i++) {
+    const prev = groups[i - 1];
+    const next = groups[i];
+
+    if (next.ageRange[0] <= prev.ageRange[0]) {
+      issues.push(`年龄段 ${next.label} 应排在 ${prev.label} 之前`);
+    } else if (next.ageRange[0] < prev.ageRange[1]) {
+      issues.push(`年龄段 ${prev.label} 与 ${next.label} 重叠`);
+    } else if (next.ageRange[0] > prev.ageRange[1]) {
+      issues.push(`年龄段 ${prev.label} 与 ${next.label} 之间缺少 ${prev.ageRange[1]}-${next.ageRange[0]}岁`);
+    }
+  }
+
+  const defaults = groups.filter(group => group.default).length;
+  if (defaults !== 1) {
+    issues.push(defaults === 0 ? '缺少默认年龄段' : '默认年龄段只能有一个');
+  }
+
+  return issues;
+}
+
+/**
+ * 年龄段划分
+ */
+export const AgeGroupTaxonomySchema = z
+  .object({
+    version: z.number().int().nonnegative(),
+    groups: z.array(AgeGroupSchema)
+  })
+  .superRefine((taxonomy, ctx) => {
+    getAgeGroupIssues(taxonomy.groups).forEach(message => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['groups'], message });
+    });
+  });
+
+/**
+ * 游戏记录
+ */
+export const PlayRecordSchema = z.object({
+  gameId: z.string().min(1),
+  ageRange: AgeRangeSchema,
+  playedAt: z.number(),
+  duration: z.number().nonnegative().optional(),
+  completed: z.boolean().optional(),
+  feedback: z.enum(['positive', 'neutral', 'negative']).optional(),
+  reason: z.string().optional()
+});
+
+/**
+ * 年龄段选择记录
+ */
+export const AgeSelectionRecordSchema = z.object({
+  ageRange: AgeRangeSchema,
+  selectedAt: z.number()
+});
+
+/**
+ * 用户历史
+ * 早期版本把年龄段选择记成 gameId 为 age-selection 的游戏记录，读取时拆到 ageSelections
+ */
+export const UserHistorySchema = z.preprocess(
+  value => {
+    if (!value || typeof value !== 'object' || !Array.isArray((value as { recentGames?: unknown }).recentGames)) {
+      return value;
+    }
+    const { recentGames, ...rest } = value as { recentGames: Array<Record<string, unknown>> } & Record<string, unknown>;
+    const legacy = recentGames.filter(entry => entry?.gameId === 'age-selection');
+    if (legacy.length === 0) return value;
+
+    return {
+      ...rest,
+      recentGames: recentGames.filter(entry => entry?.gameId !== 'age-selection'),
+      ageSelections: rest.ageSelections ?? legacy.map(entry => ({ ageRange: entry.ageRange, selectedAt: entry.playedAt }))
+    };
+  },
+  z.object({
+    recentGames: z.array(PlayRecordSchema),
+    ageSelections: z.array(AgeSelectionRecordSchema).optional(),
+    preferredAge: AgeRangeSchema.optional()
+  })
+);
+
+/**
+ * 收藏同步状态
+ * 记录上次从服务端观察到的收藏和分组，用于三方合并
+ */
+export const FavoriteSyncStateSchema = z.object({
+  userId: z.string().nullable(),
+  favorites: IdListSchema,
+  groups: z.record(z.string(), IdListSchema),
+  /** 旧版本没有记录分组属性 */
+  groupInfo: z.record(z.string(), GroupSchema.pick({ name: true, icon: true, color: true, sortOrder: true })).default({}),
+  syncedAt: z.number().nullable()
+});
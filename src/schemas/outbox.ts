@@ -0,0 +1,117 @@
+/**
+ * 同步队列数据结构
+ * 微学宝盒 - 待同步写操作的运行时校验
+ */
+
+import { z } from 'zod';
+import { FeedbackSchema, GroupSchema } from '@/schemas/game';
+import { IdListSchema } from '@/schemas/common';
+
+/**
+ * 分组写操作的目标分组
+ */
+const GroupTargetSchema = z.object({
+  userId: z.string().min(1),
+  /** 孩子档案ID，默认档案不填 */
+  profileId: z.string().optional(),
+  groupId: z.string().min(1)
+});
+
+/**
+ * 写操作
+ * 按 type 区分载荷
+ */
+export const OutboxMutationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('feedback'),
+    payload: FeedbackSchema
+  }),
+  z.object({
+    type: z.literal('favorite-add'),
+    payload: z.object({ userId: z.string().min(1), profileId: z.string().optional(), gameId: z.string().min(1) })
+  }),
+  z.object({
+    type: z.literal('favorite-remove'),
+    payload: z.object({ userId: z.string().min(1), profileId: z.string().optional(), gameId: z.string().min(1) })
+  }),
+  z.object({
+    type: z.literal('group-create'),
+    payload: z.object({
+      userId: z.string().min(1),
+      /** 孩子档案ID，默认档案不填 */
+      profileId: z.string().optional(),
+      /** 本地分组ID，同步成功后替换为服务端ID */
+      localId: z.string().optional(),
+      group: GroupSchema.omit({ id: true, createdAt: true })
+    })
+  }),
+  z.object({
+    type: z.literal('group-update'),
+    payload: GroupTargetSchema.extend({
+      changes: GroupSchema.pick({ name: true, icon: true, color: true, sortOrder: true }).partial()
+    })
+  }),
+  z.object({
+    type: z.literal('group-delete'),
+    payload: GroupTargetSchema
+  }),
+  z.object({
+    type: z.literal('group-add-game'),
+    payload: GroupTargetSchema.extend({ gameId: z.string().min(1) })
+  }),
+  z.object({
+    type: z.literal('group-remove-game'),
+    payload: GroupTargetSchema.extend({ gameId: z.string().min(1) })
+  }),
+  z.object({
+    type: z.literal('group-reorder'),
+    payload: GroupTargetSchema.omit({ groupId: true }).extend({ groupIds: IdListSchema })
+  }),
+  z.object({
+    type: z.literal('group-reorder-games'),
+    payload: GroupTargetSchema.extend({ gameIds: IdListSchema })
+  }),
+  z.object({
+    type: z.literal('rating'),
+    payload: z.object({
+      gameId: z.string().min(1),
+      rating: z.number().min(1).max(5),
+      comment: z.string().optional()
+    })
+  }),
+  z.object({
+    type: z.literal('session-end'),
+    payload: z.object({
+      /** 服务端会话ID，开始时创建失败则在同步时补建 */
+      sessionId: z.string().optional(),
+      gameId: z.string().min(1),
+      duration: z.number().nonnegative(),
+      feedback: FeedbackSchema.optional()
+    })
+  }),
+  z.object({
+    type: z.literal('report'),
+    payload: z.object({
+      gameId: z.string().min(1),
+      reason: z.string().min(1),
+      details: z.string().optional()
+    })
+  })
+]);
+
+/**
+ * 同步队列条目
+ */
+export const OutboxEntrySchema = z.intersection(
+  OutboxMutationSchema,
+  z.object({
+    id: z.string().min(1),
+    idempotencyKey: z.string().min(1),
+    dedupeKey: z.string().optional(),
+    status: z.enum(['pending', 'failed']),
+    attempts: z.number().int().nonnegative(),
+    nextAttemptAt: z.number(),
+    createdAt: z.number(),
+    lastError: z.string().optional()
+  })
+);
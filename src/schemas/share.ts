@@ -0,0 +1,42 @@
+/**
+ * 分享数据结构
+ * 微学宝盒 - 分组分享载荷和服务端签名结果的运行时校验
+ */
+
+import { z } from 'zod';
+import { IdListSchema } from '@/schemas/common';
+
+/**
+ * 分组分享载荷（第 1 版）
+ * 使用单字母字段名，让链接和二维码尽量短
+ */
+export const GroupSharePayloadV1Schema = z.object({
+  /** 版本 */
+  v: z.literal(1),
+  /** 分组名称 */
+  n: z.string().min(1).max(40),
+  /** 游戏ID */
+  g: IdListSchema.min(1).max(50),
+  /** 图标 */
+  i: z.string().max(8).optional(),
+  /** 颜色 */
+  c: z.string().max(16).optional(),
+  /** 分享人昵称 */
+  a: z.string().max(20).optional(),
+  /** 分享时间（秒） */
+  t: z.number().int().nonnegative()
+});
+
+/**
+ * 分享签名结果
+ */
+export const ShareSignatureSchema = z.object({
+  signature: z.string().regex(/^[A-Za-z0-9_-]+$/)
+});
+
+/**
+ * 分享签名验证结果
+ */
+export const ShareVerificationSchema = z.object({
+  valid: z.boolean()
+});
@@ -0,0 +1,104 @@
+/**
+ * 信任标识数据结构
+ * 微学宝盒 - 校验服务端返回的信任标识，并把旧版本字段升级为当前结构
+ */
+
+import { z } from 'zod';
+import type { TrustBadge } from '@/types/game';
+
+/**
+ * 当前信任标识结构版本
+ * v1: 安全检查字段名为 securityChecks
+ * v2: 安全检查字段名为 securityCheck，并带 schemaVersion
+ */
+export const TRUST_BADGE_SCHEMA_VERSION = 2;
+
+/**
+ * 安全检查结构
+ */
+export const SecurityStatusSchema = z.object({
+  hasAds: z.boolean(),
+  hasTracking: z.boolean(),
+  hasExternalLinks: z.boolean(),
+  contentModerated: z.boolean()
+});
+
+/**
+ * 当前版本的信任标识结构
+ */
+export const TrustBadgeSchema = z.object({
+  schemaVersion: z.literal(TRUST_BADGE_SCHEMA_VERSION),
+  level: z.enum(['verified', 'featured', 'hall']),
+  verifiedAt: z.number().int().nonnegative().optional(),
+  parentRating: z.number().min(0).max(5),
+  totalRatings: z.number().int().nonnegative(),
+  securityCheck: SecurityStatusSchema
+});
+
+/**
+ * 旧版本升级函数，键为升级前的版本号
+ */
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  1: ({ securityChecks, ...rest }) => ({
+    ...rest,
+    securityCheck: rest.securityCheck ?? securityChecks,
+    schemaVersion: 2
+  })
+};
+
+/**
+ * 推断数据版本
+ * 未标记版本时按字段名判断
+ */
+function detectVersion(raw: Record<string, unknown>): number {
+  if (typeof raw.schemaVersion === 'number') {
+    return raw.schemaVersion;
+  }
+  return 'securityChecks' in raw && !('securityCheck' in raw) ? 1 : TRUST_BADGE_SCHEMA_VERSION;
+}
+
+/**
+ * 把任意版本的数据升级到当前版本
+ */
+function migrate(input: unknown): unknown {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return input;
+  }
+
+  let raw = input as Record<string, unknown>;
+  let version = detectVersion(raw);
+
+  // 高于当前版本的数据原样交给校验，由 schemaVersion 字段报错
+  while (version < TRUST_BADGE_SCHEMA_VERSION) {
+    const upgrade = MIGRATIONS[version];
+    if (!upgrade) break;
+    raw = upgrade(raw);
+    version = detectVersion(raw);
+  }
+
+  return version === TRUST_BADGE_SCHEMA_VERSION ? { ...raw, schemaVersion: version } : raw;
+}
+
+/**
+ * 兼容旧版本的信任标识结构
+ */
+export const VersionedTrustBadgeSchema = z.preprocess(migrate, TrustBadgeSchema);
+
+/**
+ * 解析信任标识
+ * @param input 服务端或本地存储中的原始数据
+ * @returns 当前版本的信任标识
+ * @throws {z.ZodError} 数据不合法时
+ */
+export function parseTrustBadge(input: unknown): TrustBadge {
+  return VersionedTrustBadgeSchema.parse(input);
+}
+
+/**
+ * 安全解析信任标识
+ * @param input 原始数据
+ * @returns 解析结果，不抛出异常
+ */
+export function safeParseTrustBadge(input: unknown) {
+  return VersionedTrustBadgeSchema.safeParse(input);
+}
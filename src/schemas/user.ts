@@ -0,0 +1,129 @@
+/**
+ * 用户相关数据结构
+ * 微学宝盒 - 用户偏好和信任偏好的运行时校验
+ */
+
+import { z } from 'zod';
+import { AgeRangeSchema } from '@/schemas/common';
+
+/**
+ * 用户偏好
+ */
+export const UserPreferencesSchema = z.object({
+  ageRange: AgeRangeSchema,
+  strictMode: z.boolean(),
+  autoPlay: z.boolean(),
+  notifications: z.boolean(),
+  language: z.string().min(1)
+});
+
+/**
+ * 信任偏好
+ */
+export const TrustPreferencesSchema = z.object({
+  minTrustScore: z.number().min(0).max(5),
+  requireVerified: z.boolean(),
+  blockAds: z.boolean(),
+  blockTracking: z.boolean()
+});
+
+/**
+ * 本地保存的用户信息
+ */
+export const StoredUserInfoSchema = z.record(z.string(), z.unknown());
+
+/**
+ * 孩子档案
+ * 早期版本保存的是出生日期（YYYY-MM-DD），读取时只保留年月
+ */
+export const ChildProfileSchema = z.preprocess(
+  value => {
+    if (!value || typeof value !== 'object' || !('birthDate' in value) || 'birthMonth' in value) {
+      return value;
+    }
+    const { birthDate, ...rest } = value as Record<string, unknown>;
+    return typeof birthDate === 'string' ? { ...rest, birthMonth: birthDate.slice(0, 7) } : rest;
+  },
+  z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    avatar: z.string().optional(),
+    birthMonth: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/).optional(),
+    interests: z.array(z.string()).default([]),
+    createdAt: z.number(),
+    updatedAt: z.number().optional()
+  })
+);
+
+/**
+ * 允许游戏的时间段
+ */
+export const TimeWindowSchema = z.object({
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+  end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+});
+
+/**
+ * 游戏时间限制
+ */
+export const ScreenTimeSettingsSchema = z.object({
+  enabled: z.boolean(),
+  dailyLimitMinutes: z.number().positive().nullable(),
+  sessionLimitMinutes: z.number().positive().nullable(),
+  allowedWindows: z.array(TimeWindowSchema),
+  restReminderMinutes: z.number().positive().nullable(),
+  windDownSeconds: z.number().int().nonnegative()
+});
+
+/**
+ * 游戏时长记录
+ */
+export const ScreenTimeUsageSchema = z.object({
+  daily: z.record(z.string(), z.number().nonnegative()),
+  overrideUntil: z.number().optional(),
+  session: z.object({
+    usedMs: z.number().nonnegative(),
+    restAtMs: z.number().nonnegative(),
+    lastActiveAt: z.number()
+  }).optional()
+});
+
+/**
+ * 家长密码（只保存加盐哈希）
+ */
+export const ParentPinSchema = z.object({
+  salt: z.string().min(1),
+  hash: z.string().min(1)
+});
+
+/**
+ * 家长验证状态
+ */
+export const ParentalGateStateSchema = z.object({
+  failures: z.number().int().nonnegative(),
+  lockedUntil: z.number().optional(),
+  unlockedUntil: z.number().optional()
+});
+
+/**
+ * 用户
+ */
+export const UserSchema = z.object({
+  id: z.string().min(1),
+  nickname: z.string().optional(),
+  avatar: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().optional(),
+  createdAt: z.number(),
+  lastLoginAt: z.number().optional(),
+  children: z.array(ChildProfileSchema).optional()
+});
+
+/**
+ * 登录结果
+ */
+export const AuthResultSchema = z.object({
+  token: z.string().min(1),
+  refreshToken: z.string().min(1).optional(),
+  user: UserSchema
+});
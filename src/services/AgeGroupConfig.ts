@@ -0,0 +1,227 @@
+/**
+ * 年龄段配置
+ * 微学宝盒 - 年龄段划分的唯一来源，可由服务端下发或本地配置
+ */
+
+import { STORAGE_KEYS } from '@/types/user';
+import { DEFAULT_AGE_GROUP_TAXONOMY } from '@/types/game';
+import type { AgeGroup, AgeGroupTaxonomy } from '@/types/game';
+import { storageManager } from '@/services/StorageManager';
+import { apiClient } from '@/services/ApiClient';
+import { AgeGroupTaxonomySchema } from '@/schemas/game';
+
+/**
+ * 年龄段配置类
+ * 配置保存在本地，校验不通过的配置不会生效，始终回退到内置划分
+ */
+export class AgeGroupConfig {
+  private static instance: AgeGroupConfig;
+  private readonly STORAGE_KEY = STORAGE_KEYS.AGE_GROUPS;
+  private cache: AgeGroupTaxonomy | null = null;
+  private loading: Promise<boolean> | null = null;
+  private listeners: Set<(groups: AgeGroup[]) => void> = new Set();
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): AgeGroupConfig {
+    if (!AgeGroupConfig.instance) {
+      AgeGroupConfig.instance = new AgeGroupConfig();
+    }
+    return AgeGroupConfig.instance;
+  }
+
+  constructor() {
+    // 本页或其他标签页更新配置后重新读取
+    storageManager.onChange(this.STORAGE_KEY, () => {
+      this.cache = null;
+      this.notifyListeners();
+    });
+  }
+
+  /**
+   * 获取当前年龄段划分
+   */
+  getTaxonomy(): AgeGroupTaxonomy {
+    if (!this.cache) {
+      this.cache = storageManager.getValidatedItem(this.STORAGE_KEY, AgeGroupTaxonomySchema, DEFAULT_AGE_GROUP_TAXONOMY);
+    }
+    return this.cache;
+  }
+
+  /**
+   * 获取全部年龄段
+   * @returns 按最小年龄升序排列
+   */
+  getGroups(): AgeGroup[] {
+    return this.getTaxonomy().groups;
+  }
+
+  /**
+   * 按ID获取年龄段
+   * @param id 年龄段ID，如 "6-9"
+   */
+  getGroup(id: string): AgeGroup | undefined {
+    return this.getGroups().find(group => group.id === id);
+  }
+
+  /**
+   * 获取默认年龄段
+   */
+  getDefaultGroup(): AgeGroup {
+    const groups = this.getGroups();
+    return groups.find(group => group.default) ?? groups[0];
+  }
+
+  /**
+   * 查找与年龄段完全一致的配置
+   * @param ageRange 年龄段
+   */
+  findByRange(ageRange: [number, number]): AgeGroup | undefined {
+    return this.getGroups().find(group => group.ageRange[0] === ageRange[0] && group.ageRange[1] === ageRange[1]);
+  }
+
+  /**
+   * 查找孩子年龄所在的年龄段
+   * 年龄段按 [最小年龄, 最大年龄) 划分；小于最小年龄段时归入最小年龄段，超出时归入最大年龄段
+   * @param age 年龄（可以带小数）
+   */
+  findByAge(age: number): AgeGroup {
+    const groups = this.getGroups();
+    return groups.find(group => age >= group.ageRange[0] && age < group.ageRange[1])
+      ?? (age < groups[0].ageRange[0] ? groups[0] : groups[groups.length - 1]);
+  }
+
+  /**
+   * 将游戏的适龄范围归入年龄段
+   * 按适龄范围的中点归类，"12岁+"这类开放范围只取起点后三年
+   * @param ageRange 游戏适龄范围
+   */
+  findForGameRange(ageRange: [number, number]): AgeGroup {
+    const [minAge, maxAge] = ageRange;
+    return this.findByAge((minAge + Math.min(maxAge, minAge + 3)) / 2);
+  }
+
+  /**
+   * 获取相邻年龄段
+   * @param group 年龄段
+   * @param direction -1 为更小的年龄段，1 为更大的年龄段
+   * @returns 相邻年龄段，已是最小/最大年龄段时返回 null
+   */
+  getAdjacent(group: AgeGroup, direction: -1 | 1): AgeGroup | null {
+    const groups = this.getGroups();
+    const index = groups.findIndex(item => item.id === group.id);
+    if (index < 0) return null;
+
+    return groups[index + direction] ?? null;
+  }
+
+  /**
+   * 校验年龄段划分
+   * @param taxonomy 待校验的配置
+   * @returns 问题描述列表，为空表示通过
+   */
+  validate(taxonomy: unknown): string[] {
+    const result = AgeGroupTaxonomySchema.safeParse(taxonomy);
+    return result.success ? [] : result.error.issues.map(issue => issue.message);
+  }
+
+  /**
+   * 设置本地年龄段划分
+   * @param taxonomy 年龄段划分
+   * @returns 是否已生效，校验不通过时不保存
+   */
+  setTaxonomy(taxonomy: AgeGroupTaxonomy): boolean {
+    const issues = this.validate(taxonomy);
+    if (issues.length > 0) {
+      console.warn('年龄段配置无效:', issues);
+      return false;
+    }
+
+    storageManager.setItem(this.STORAGE_KEY, taxonomy);
+    return true;
+  }
+
+  /**
+   * 恢复内置年龄段划分
+   */
+  reset(): void {
+    storageManager.removeItem(this.STORAGE_KEY);
+  }
+
+  /**
+   * 从服务端拉取年龄段划分
+   * 服务端配置版本不高于本地时保持不变
+   * @returns 是否有更新
+   */
+  async refresh(): Promise<boolean> {
+    try {
+      return await this.fetchAndApply();
+    } catch (error) {
+      console.warn('获取年龄段配置失败:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 启动后拉取一次服务端配置，重复调用共用同一次请求
+   * 拉取失败时下次调用会重试
+   * @returns 是否有更新
+   */
+  load(): Promise<boolean> {
+    if (!this.loading) {
+      this.loading = this.fetchAndApply().catch(error => {
+        console.warn('获取年龄段配置失败:', error);
+        this.loading = null;
+        return false;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * 订阅年龄段变化
+   * @param callback 回调函数
+   * @returns 取消订阅函数
+   */
+  subscribe(callback: (groups: AgeGroup[]) => void): () => void {
+    this.listeners.add(callback);
+
+    // 立即通知当前配置
+    callback(this.getGroups());
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * 拉取服务端配置，版本更新时保存
+   */
+  private async fetchAndApply(): Promise<boolean> {
+    const taxonomy = await apiClient.getAgeGroups();
+    if (taxonomy.version <= this.getTaxonomy().version) {
+      return false;
+    }
+    return this.setTaxonomy(taxonomy);
+  }
+
+  /**
+   * 通知所有监听器
+   */
+  private notifyListeners(): void {
+    const groups = this.getGroups();
+    this.listeners.forEach(callback => {
+      try {
+        callback(groups);
+      } catch (error) {
+        console.warn('通知年龄段监听器失败:', error);
+      }
+    });
+  }
+}
+
+// 导出单例实例
+export const ageGroupConfig = AgeGroupConfig.getInstance();
+
+export default ageGroupConfig;
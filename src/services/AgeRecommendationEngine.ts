@@ -3,8 +3,39 @@
  * 微学宝盒 - 根据用户行为智能推荐最合适的内容
  */
 
-import type { UserHistory } from '@/types/game';
-import { AGE_GROUPS } from '@/types/game';
+import type { UserHistory, PlayRecord, AgeRecommendation, AgeGroup } from '@/types/game';
+import { ageGroupConfig } from '@/services/AgeGroupConfig';
+
+/**
+ * 孩子年龄与游戏适龄范围的关系
+ * too-young：孩子还小于游戏的适龄范围；too-old：孩子已超过游戏的适龄范围
+ */
+export type AgeFit = 'fit' | 'too-young' | 'too-old';
+
+/**
+ * 适龄关系显示文本
+ */
+export const AGE_FIT_TEXT: Record<AgeFit, string> = {
+  fit: '适龄',
+  'too-young': '年龄偏小',
+  'too-old': '年龄偏大'
+};
+
+/** 记录权重的半衰期：两周前的记录权重减半 */
+const HALF_LIFE_MS = 14 * 24 * 60 * 60 * 1000;
+
+/** 不满一分钟且没玩完的记录只算很弱的信号 */
+const SHORT_PLAY_MS = 60 * 1000;
+
+/** 最近一次手动选择的权重，相当于一次普通游戏记录 */
+const SELECTION_WEIGHT = 1;
+
+/** 总权重达到此值左右时推荐才算有把握 */
+const CONFIDENT_WEIGHT = 3;
+
+/** 最多保留的游戏记录和选择记录条数 */
+const MAX_PLAY_RECORDS = 50;
+const MAX_AGE_SELECTIONS = 20;
 
 /**
  * 年龄段推荐引擎类
@@ -29,65 +60,119 @@ export class AgeRecommendationEngine {
    * @returns 推荐的年龄段 [最小年龄, 最大年龄]
    */
   recommendAge(userHistory?: UserHistory): [number, number] {
-    // 无历史记录时返回默认推荐
-    if (!userHistory || !userHistory.recentGames || userHistory.recentGames.length === 0) {
-      return this.getDefaultAge();
+    return this.recommend(userHistory).ageRange;
+  }
+
+  /**
+   * 根据游戏行为推荐年龄段
+   * 每条游戏记录为其所在年龄段投票：越近、玩完、孩子喜欢的记录权重越高；
+   * 反馈"难度太高/太低"的记录改投相邻的更小/更大年龄段。
+   * 最近一次手动选择只作为一票参考，不会直接决定结果。
+   * @param userHistory 用户历史记录
+   * @param now 当前时间
+   * @returns 推荐结果，包含推荐把握
+   */
+  recommend(userHistory?: UserHistory, now: number = Date.now()): AgeRecommendation {
+    const votes = new Map<string, { ageRange: [number, number]; weight: number }>();
+    const vote = (ageRange: [number, number], weight: number) => {
+      const key = this.getAgeKey(ageRange);
+      const existing = votes.get(key);
+      if (existing) {
+        existing.weight += weight;
+      } else {
+        votes.set(key, { ageRange, weight });
+      }
+    };
+
+    const plays = userHistory?.recentGames ?? [];
+    plays.forEach(play => {
+      const group = ageGroupConfig.findForGameRange(play.ageRange);
+      const weight = this.getRecencyWeight(play.playedAt, now) * this.getPlayWeight(play);
+
+      if (play.reason === 'too-hard') {
+        vote((ageGroupConfig.getAdjacent(group, -1) ?? group).ageRange, weight);
+      } else if (play.reason === 'too-easy') {
+        vote((ageGroupConfig.getAdjacent(group, 1) ?? group).ageRange, weight);
+      } else {
+        vote(group.ageRange, weight);
+      }
+    });
+
+    const selection = userHistory?.ageSelections?.[0];
+    const preferredAge = selection?.ageRange ?? userHistory?.preferredAge;
+    if (preferredAge) {
+      const recency = selection ? this.getRecencyWeight(selection.selectedAt, now) : 1;
+      vote(ageGroupConfig.findForGameRange(preferredAge).ageRange, SELECTION_WEIGHT * recency);
     }
 
-    // 如果用户有首选年龄段，直接返回
-    if (userHistory.preferredAge) {
-      return userHistory.preferredAge;
+    const ranked = Array.from(votes.values()).sort((a, b) => b.weight - a.weight);
+    const total = ranked.reduce((sum, entry) => sum + entry.weight, 0);
+    if (ranked.length === 0 || total <= 0) {
+      return { ageRange: this.getDefaultAge(), confidence: 0, source: 'default', playCount: 0 };
     }
 
-    // 分析最近游戏记录，找出最常使用的年龄段
-    const recentAges = userHistory.recentGames.map(g => g.ageRange);
-    const mostCommon = this.getMostCommonAgeRange(recentAges);
+    // 把握 = 领先年龄段的得票占比 × 证据充足程度
+    const share = ranked[0].weight / total;
+    const evidence = 1 - Math.exp(-total / CONFIDENT_WEIGHT);
 
-    return mostCommon || this.getDefaultAge();
+    return {
+      ageRange: ranked[0].ageRange,
+      confidence: Math.round(share * evidence * 100) / 100,
+      source: plays.length > 0 ? 'behavior' : 'selection',
+      playCount: plays.length
+    };
   }
 
   /**
    * 获取默认年龄段
-   * @returns 默认年龄段 [6, 9]
+   * @returns 年龄段配置中的默认年龄段
    */
   getDefaultAge(): [number, number] {
-    return [6, 9];
+    return ageGroupConfig.getDefaultGroup().ageRange;
   }
 
   /**
-   * 获取所有年龄段配置
-   * @returns 年龄段配置对象
+   * 获取所有年龄段
+   * @returns 按最小年龄升序排列的年龄段
    */
-  getAgeGroups(): typeof AGE_GROUPS {
-    return AGE_GROUPS;
+  getAgeGroups(): AgeGroup[] {
+    return ageGroupConfig.getGroups();
   }
 
   /**
    * 获取年龄段标签
+   * 与配置完全一致时使用配置的标签，否则按范围生成
    * @param ageRange 年龄段
    * @returns 标签字符串，如 "6-9岁"
    */
   getAgeLabel(ageRange: [number, number]): string {
-    const key = `${ageRange[0]}-${ageRange[1]}`;
-    return AGE_GROUPS[key]?.label || `${ageRange[0]}-${ageRange[1]}岁`;
+    const group = ageGroupConfig.findByRange(ageRange);
+    if (group) return group.label;
+
+    return ageRange[1] >= 99 ? `${ageRange[0]}岁+` : `${ageRange[0]}-${ageRange[1]}岁`;
   }
 
   /**
    * 获取年龄段颜色
+   * 与配置不完全一致时使用其所属年龄段的颜色
    * @param ageRange 年龄段
    * @returns 颜色代码
    */
   getAgeColor(ageRange: [number, number]): string {
-    const key = `${ageRange[0]}-${ageRange[1]}`;
-    return AGE_GROUPS[key]?.color || '#3B82F6';
+    return (ageGroupConfig.findByRange(ageRange) ?? ageGroupConfig.findForGameRange(ageRange)).color;
   }
 
   /**
    * 解析年龄段字符串
-   * @param ageStr 年龄段字符串，如 "6-9"
+   * @param ageStr 年龄段ID或字符串，如 "6-9"、"12+"
    * @returns 年龄段数组
    */
   parseAgeRange(ageStr: string): [number, number] | null {
+    const group = ageGroupConfig.getGroup(ageStr);
+    if (group) {
+      return group.ageRange;
+    }
+
     const match = ageStr.match(/^(\d+)-(\d+)$/);
     if (match) {
       return [parseInt(match[1], 10), parseInt(match[2], 10)];
@@ -130,38 +215,9 @@ export class AgeRecommendationEngine {
     return 0.3;
   }
 
-  /**
-   * 获取最常用的年龄段
-   * @param ageRanges 年龄段数组
-   * @returns 最常见的年龄段
-   */
-  private getMostCommonAgeRange(ageRanges: [number, number][]): [number, number] | null {
-    if (ageRanges.length === 0) {
-      return null;
-    }
-
-    // 统计各年龄段出现次数
-    const counts = new Map<string, { count: number; ageRange: [number, number] }>();
-
-    ageRanges.forEach(ageRange => {
-      const key = `${ageRange[0]}-${ageRange[1]}`;
-      const existing = counts.get(key);
-      
-      if (existing) {
-        existing.count++;
-      } else {
-        counts.set(key, { count: 1, ageRange });
-      }
-    });
-
-    // 找出出现次数最多的年龄段
-    const sorted = Array.from(counts.values()).sort((a, b) => b.count - a.count);
-    
-    return sorted[0]?.ageRange || null;
-  }
-
   /**
    * 记录年龄段选择
+   * 选择记录与游戏记录分开保存，不计入游戏记录
    * @param userHistory 用户历史
    * @param ageRange 选择的年龄段
    * @returns 更新后的用户历史
@@ -171,39 +227,135 @@ export class AgeRecommendationEngine {
     ageRange: [number, number]
   ): UserHistory {
     const history: UserHistory = userHistory || { recentGames: [] };
-    
+
     return {
       ...history,
       preferredAge: ageRange,
-      recentGames: [
-        {
-          gameId: 'age-selection',
-          ageRange,
-          playedAt: Date.now()
-        },
-        ...history.recentGames.slice(0, 49) // 保留最近50条记录
+      ageSelections: [
+        { ageRange, selectedAt: Date.now() },
+        ...(history.ageSelections ?? []).slice(0, MAX_AGE_SELECTIONS - 1)
       ]
     };
   }
 
+  /**
+   * 记录一次游戏
+   * @param userHistory 用户历史
+   * @param play 游戏记录
+   * @returns 更新后的用户历史
+   */
+  recordPlay(userHistory: UserHistory | undefined, play: PlayRecord): UserHistory {
+    const history: UserHistory = userHistory || { recentGames: [] };
+
+    return {
+      ...history,
+      recentGames: [play, ...history.recentGames.slice(0, MAX_PLAY_RECORDS - 1)]
+    };
+  }
+
+  /**
+   * 获取年龄段键
+   * @param ageRange 年龄段
+   * @returns 如 "6-9"
+   */
+  private getAgeKey(ageRange: [number, number]): string {
+    return `${ageRange[0]}-${ageRange[1]}`;
+  }
+
+  /**
+   * 按时间衰减的权重
+   */
+  private getRecencyWeight(timestamp: number, now: number): number {
+    const elapsed = Math.max(0, now - timestamp);
+    return Math.pow(0.5, elapsed / HALF_LIFE_MS);
+  }
+
+  /**
+   * 按游戏完成情况和反馈计算的权重
+   */
+  private getPlayWeight(play: PlayRecord): number {
+    let weight = 1;
+
+    if (play.completed) {
+      weight *= 1.5;
+    } else if (play.duration !== undefined && play.duration < SHORT_PLAY_MS) {
+      weight *= 0.3;
+    }
+
+    if (play.feedback === 'positive') {
+      weight *= 1.5;
+    } else if (play.feedback === 'negative' && play.reason !== 'too-hard' && play.reason !== 'too-easy') {
+      // 内容不当、不好玩等问题与年龄段关系不大
+      weight *= 0.5;
+    }
+
+    return weight;
+  }
+
   /**
    * 根据孩子年龄推荐游戏
-   * @param childAge 孩子实际年龄
+   * 年龄段按 [最小年龄, 最大年龄) 划分，刚满6岁的孩子归入6-9岁
+   * @param childAge 孩子实际年龄（可以带小数）
    * @returns 推荐的游戏年龄段
    */
   recommendByChildAge(childAge: number): [number, number] {
-    if (childAge >= 3 && childAge <= 6) {
-      return [3, 6];
-    } else if (childAge >= 6 && childAge <= 9) {
-      return [6, 9];
-    } else if (childAge >= 9 && childAge <= 12) {
-      return [9, 12];
-    } else if (childAge >= 12) {
-      return [12, 99];
-    }
-    
-    // 默认返回3-6岁
-    return [3, 6];
+    return ageGroupConfig.findByAge(childAge).ageRange;
+  }
+
+  /**
+   * 根据月龄推荐游戏年龄段
+   * @param ageInMonths 月龄
+   * @returns 推荐的游戏年龄段
+   */
+  recommendByAgeInMonths(ageInMonths: number): [number, number] {
+    return this.recommendByChildAge(ageInMonths / 12);
+  }
+
+  /**
+   * 计算月龄
+   * @param birthMonth 出生年月（YYYY-MM）
+   * @param now 当前时间
+   * @returns 月龄，出生年月无效或晚于当前时间时返回 null
+   */
+  getAgeInMonths(birthMonth: string, now: number = Date.now()): number | null {
+    const match = birthMonth.match(/^(\d{4})-(\d{2})$/);
+    if (!match) return null;
+
+    const year = parseInt(match[1], 10);
+    const month = parseInt(match[2], 10);
+    if (month < 1 || month > 12) return null;
+
+    const today = new Date(now);
+    const months = (today.getFullYear() - year) * 12 + (today.getMonth() + 1 - month);
+    return months >= 0 ? months : null;
+  }
+
+  /**
+   * 月龄显示文本
+   * @param ageInMonths 月龄
+   * @returns 如 "8个月"、"5岁"、"5岁3个月"
+   */
+  formatAge(ageInMonths: number): string {
+    const years = Math.floor(ageInMonths / 12);
+    const months = ageInMonths % 12;
+
+    if (years === 0) return `${months}个月`;
+    return months === 0 ? `${years}岁` : `${years}岁${months}个月`;
+  }
+
+  /**
+   * 判断游戏是否适合孩子的实际年龄
+   * 游戏适龄 [6, 9] 表示从满6岁到不满10岁
+   * @param gameAgeRange 游戏年龄段
+   * @param ageInMonths 孩子月龄
+   * @returns 适龄关系
+   */
+  getAgeFit(gameAgeRange: [number, number], ageInMonths: number): AgeFit {
+    const [minAge, maxAge] = gameAgeRange;
+
+    if (ageInMonths < minAge * 12) return 'too-young';
+    if (ageInMonths >= (maxAge + 1) * 12) return 'too-old';
+    return 'fit';
   }
 }
 
@@ -0,0 +1,792 @@
+/**
+ * API客户端
+ * 微学宝盒 - 基于 API_ENDPOINTS 实现全部接口声明的统一请求客户端
+ */
+
+import type { z } from 'zod';
+import { API_ENDPOINTS } from '@/types/api';
+import type {
+  PaginationParams,
+  PaginationResponse,
+  GameListAPI,
+  TrustAPI,
+  FavoriteAPI,
+  FeedbackAPI,
+  PublishAPI,
+  UserAPI,
+  ShareAPI,
+  MonitoringAPI
+} from '@/types/api';
+import type {
+  GameCard,
+  GameSession,
+  TrustBadge,
+  Feedback,
+  FeedbackStats,
+  Group,
+  GameSubmission,
+  GameStatus,
+  GameAnalysis,
+  AgeGroupTaxonomy
+} from '@/types/game';
+import type { User, UserPreferences } from '@/types/user';
+import { storageManager } from '@/services/StorageManager';
+import { ApiErrorHandler, ApiRequestError, NETWORK_ERROR_CODE, INVALID_RESPONSE_ERROR_CODE } from '@/utils/ApiErrorHandler';
+import { reportValidationIssue } from '@/utils/validation';
+import { ApiResponseSchema, paginationResponseSchema } from '@/schemas/api';
+import { IdListSchema, lenientArray, toFieldErrors } from '@/schemas/common';
+import {
+  AgeGroupTaxonomySchema,
+  FeedbackSchema,
+  FeedbackStatsSchema,
+  GameCardSchema,
+  GameSessionSchema,
+  GameStatusSchema,
+  GameSubmissionSchema,
+  GroupSchema
+} from '@/schemas/game';
+import { ShareSignatureSchema, ShareVerificationSchema } from '@/schemas/share';
+import { VersionedTrustBadgeSchema } from '@/schemas/trustBadge';
+import { AuthResultSchema, UserPreferencesSchema, UserSchema } from '@/schemas/user';
+import { isMockEnabled } from '@/utils/env';
+
+/**
+ * HTTP请求方法
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * 查询参数
+ */
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * 请求选项
+ */
+export interface RequestOptions {
+  /** 请求方法，默认GET */
+  method?: HttpMethod;
+  /** 查询参数 */
+  query?: QueryParams;
+  /** 请求体，将被序列化为JSON */
+  body?: unknown;
+  /** 页面卸载后仍继续发送 */
+  keepalive?: boolean;
+  /** 是否携带登录Token，默认true */
+  auth?: boolean;
+  /** 幂等键，重试同一个写操作时服务端据此去重 */
+  idempotencyKey?: string;
+}
+
+/**
+ * 写操作选项
+ */
+export type MutationOptions = Pick<RequestOptions, 'idempotencyKey'>;
+
+/**
+ * 登录结果
+ */
+export interface AuthResult {
+  token: string;
+  refreshToken?: string;
+  user: User;
+}
+
+/**
+ * Token刷新结果
+ */
+interface RefreshResult {
+  token: string;
+  refreshToken?: string;
+}
+
+/**
+ * 业务成功码
+ */
+const SUCCESS_CODES = [0, 200];
+
+/**
+ * API客户端类
+ * 统一处理鉴权、响应解包和错误转换
+ */
+export class ApiClient implements
+  GameListAPI,
+  TrustAPI,
+  FavoriteAPI,
+  FeedbackAPI,
+  PublishAPI,
+  UserAPI,
+  ShareAPI,
+  MonitoringAPI {
+  private static instance: ApiClient;
+  /** 进行中的Token刷新，401请求在此排队等待 */
+  private refreshPromise: Promise<string> | null = null;
+  /** 模拟后端安装状态 */
+  private mockBackendReady: Promise<void> | null = null;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): ApiClient {
+    if (!ApiClient.instance) {
+      ApiClient.instance = new ApiClient();
+    }
+    return ApiClient.instance;
+  }
+
+  // ==================== 通用请求 ====================
+
+  /**
+   * 发送请求并解包 ApiResponse
+   * 遇到401时刷新Token并重放请求
+   * @param url 接口地址
+   * @param options 请求选项
+   * @returns 响应数据
+   * @throws ApiRequestError 网络失败、HTTP错误或业务错误码
+   */
+  async request<T>(url: string, options: RequestOptions = {}): Promise<T> {
+    const token = options.auth === false ? null : storageManager.getUserToken();
+
+    try {
+      return await this.send<T>(url, options, token);
+    } catch (error) {
+      if (!this.shouldRefresh(error, token)) {
+        throw error;
+      }
+
+      // 其他请求已完成刷新时直接重放，否则等待（或发起）刷新
+      const currentToken = storageManager.getUserToken();
+      const newToken = currentToken && currentToken !== token
+        ? currentToken
+        : await this.refreshAccessToken();
+
+      return this.send<T>(url, options, newToken);
+    }
+  }
+
+  /**
+   * 发送请求并校验响应数据
+   * @param schema 响应数据结构
+   * @param url 接口地址
+   * @param options 请求选项
+   * @returns 校验后的响应数据
+   * @throws ApiRequestError 响应数据不符合结构时
+   */
+  async requestValidated<S extends z.ZodType>(
+    schema: S,
+    url: string,
+    options: RequestOptions = {}
+  ): Promise<z.output<S>> {
+    const data = await this.request<unknown>(url, options);
+    const result = schema.safeParse(data);
+
+    if (!result.success) {
+      throw this.createInvalidResponseError(url, result.error);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * 发送单次请求
+   */
+  private async send<T>(url: string, options: RequestOptions, token: string | null): Promise<T> {
+    const { method = 'GET', query, body, keepalive, idempotencyKey } = options;
+
+    await this.ensureMockBackend();
+
+    let response: Response;
+    try {
+      response = await fetch(this.buildUrl(url, query), {
+        method,
+        headers: this.buildHeaders(token, idempotencyKey),
+        body: body === undefined ? undefined : JSON.stringify(body),
+        keepalive
+      });
+    } catch (error) {
+      console.warn(`网络请求失败 [${method} ${url}]:`, error);
+      throw new ApiRequestError({
+        code: NETWORK_ERROR_CODE,
+        message: '网络连接失败，请检查网络后重试'
+      });
+    }
+
+    const json = await this.parseBody(response);
+    const envelope = json === null ? null : ApiResponseSchema.safeParse(json);
+    const payload = envelope?.success ? envelope.data : null;
+
+    if (!response.ok) {
+      throw new ApiRequestError({
+        code: payload?.code ?? response.status,
+        statusCode: response.status,
+        message: payload?.message || response.statusText || '请求失败',
+        details: payload?.details
+      });
+    }
+
+    // 无响应体（如 204）
+    if (!envelope) {
+      return undefined as T;
+    }
+
+    if (!payload) {
+      throw this.createInvalidResponseError(url, envelope.error!, response.status);
+    }
+
+    if (!SUCCESS_CODES.includes(payload.code)) {
+      throw new ApiRequestError({
+        code: payload.code,
+        statusCode: response.status,
+        message: payload.message || '请求失败'
+      });
+    }
+
+    return payload.data as T;
+  }
+
+  /**
+   * 是否需要刷新Token后重放
+   */
+  private shouldRefresh(error: unknown, token: string | null): boolean {
+    return !!token
+      && error instanceof ApiRequestError
+      && error.statusCode === 401;
+  }
+
+  // ==================== Token刷新 ====================
+
+  /**
+   * 刷新访问Token
+   * 同一时间只发起一次刷新，并发的401请求共享同一结果
+   * @returns 新的访问Token
+   */
+  private refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * 调用刷新接口
+   * 刷新被服务端拒绝时登出；网络错误时保留登录状态
+   */
+  private async performRefresh(): Promise<string> {
+    const refreshToken = storageManager.getRefreshToken();
+
+    if (!refreshToken) {
+      ApiErrorHandler.handleUnauthorized();
+      throw this.createSessionExpiredError();
+    }
+
+    try {
+      const result = await this.send<RefreshResult>(API_ENDPOINTS.AUTH_REFRESH, {
+        method: 'POST',
+        body: { refreshToken }
+      }, null);
+
+      storageManager.setUserToken(result.token);
+      if (result.refreshToken) {
+        storageManager.setRefreshToken(result.refreshToken);
+      }
+
+      return result.token;
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.isNetworkError) {
+        throw error;
+      }
+
+      console.warn('刷新登录状态失败:', error);
+      ApiErrorHandler.handleUnauthorized();
+      throw this.createSessionExpiredError();
+    }
+  }
+
+  /**
+   * 创建响应数据格式错误并上报诊断
+   */
+  private createInvalidResponseError(url: string, error: z.ZodError, statusCode?: number): ApiRequestError {
+    const details = toFieldErrors(error);
+    reportValidationIssue({ source: 'network', key: url, action: 'rejected', issues: details });
+
+    return new ApiRequestError({
+      code: INVALID_RESPONSE_ERROR_CODE,
+      statusCode,
+      message: '响应数据格式错误',
+      details
+    });
+  }
+
+  /**
+   * 创建登录过期错误
+   */
+  private createSessionExpiredError(): ApiRequestError {
+    return new ApiRequestError({
+      code: 401,
+      statusCode: 401,
+      message: '登录已过期，请重新登录'
+    });
+  }
+
+  /**
+   * 按需安装模拟后端
+   * 仅在非正式环境且显式设置 MOCK_API=true 时生效，模拟数据按需加载，不进入正式包
+   */
+  private ensureMockBackend(): Promise<void> {
+    if (!isMockEnabled()) {
+      return Promise.resolve();
+    }
+
+    if (!this.mockBackendReady) {
+      this.mockBackendReady = import('@/mocks').then(({ installMockBackend }) => {
+        installMockBackend();
+      });
+    }
+
+    return this.mockBackendReady;
+  }
+
+  /**
+   * 构建请求头
+   */
+  private buildHeaders(token: string | null, idempotencyKey?: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    return headers;
+  }
+
+  /**
+   * 拼接查询参数
+   */
+  private buildUrl(url: string, query?: QueryParams): string {
+    if (!query) return url;
+
+    const search = Object.entries(query)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+      .join('&');
+
+    return search ? `${url}?${search}` : url;
+  }
+
+  /**
+   * 解析响应体
+   */
+  private async parseBody(response: Response): Promise<unknown> {
+    const text = await response.text().catch(() => '');
+    if (!text) return null;
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ApiRequestError({
+        code: response.status,
+        statusCode: response.status,
+        message: '响应数据格式错误'
+      });
+    }
+  }
+
+  // ==================== 游戏列表 ====================
+
+  getGames(params: Parameters<GameListAPI['getGames']>[0]): Promise<PaginationResponse<GameCard>> {
+    const { ageRange, category, sortBy, page, pageSize } = params;
+    return this.requestValidated(paginationResponseSchema(GameCardSchema, API_ENDPOINTS.GAMES), API_ENDPOINTS.GAMES, {
+      query: {
+        minAge: ageRange?.[0],
+        maxAge: ageRange?.[1],
+        category,
+        sortBy,
+        page,
+        pageSize
+      }
+    });
+  }
+
+  getGameDetail(gameId: string): Promise<GameCard> {
+    return this.requestValidated(GameCardSchema, API_ENDPOINTS.GAME_DETAIL(gameId));
+  }
+
+  searchGames(keyword: string, params: PaginationParams): Promise<PaginationResponse<GameCard>> {
+    return this.requestValidated(paginationResponseSchema(GameCardSchema, API_ENDPOINTS.GAME_SEARCH), API_ENDPOINTS.GAME_SEARCH, {
+      query: { keyword, page: params.page, pageSize: params.pageSize }
+    });
+  }
+
+  getRecommendedGames(userId: string, limit: number): Promise<GameCard[]> {
+    return this.requestValidated(lenientArray(GameCardSchema, API_ENDPOINTS.GAME_RECOMMENDED), API_ENDPOINTS.GAME_RECOMMENDED, {
+      query: { userId, limit }
+    });
+  }
+
+  // ==================== 配置 ====================
+
+  getAgeGroups(): Promise<AgeGroupTaxonomy> {
+    return this.requestValidated(AgeGroupTaxonomySchema, API_ENDPOINTS.CONFIG_AGE_GROUPS, { auth: false });
+  }
+
+  // ==================== 信任度 ====================
+
+  getGameTrustScore(gameId: string): Promise<TrustBadge> {
+    return this.requestValidated(VersionedTrustBadgeSchema, API_ENDPOINTS.GAME_TRUST(gameId));
+  }
+
+  submitParentRating(gameId: string, rating: number, comment?: string, options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.GAME_RATINGS(gameId), {
+      method: 'POST',
+      body: { rating, comment },
+      ...options
+    });
+  }
+
+  getTrustRanking(ageGroup: string, limit: number): Promise<GameCard[]> {
+    return this.requestValidated(lenientArray(GameCardSchema, API_ENDPOINTS.TRUST_RANKING), API_ENDPOINTS.TRUST_RANKING, {
+      query: { ageGroup, limit }
+    });
+  }
+
+  // ==================== 游戏会话 ====================
+
+  startGameSession(gameId: string): Promise<GameSession> {
+    return this.requestValidated(GameSessionSchema, API_ENDPOINTS.GAME_SESSION, {
+      method: 'POST',
+      body: { gameId }
+    });
+  }
+
+  /**
+   * 结束游戏会话
+   * @param sessionId 会话ID
+   * @param duration 前台游戏时长（毫秒）
+   * @param feedback 退出时的反馈
+   * @param options 写操作选项
+   */
+  endGameSession(sessionId: string, duration: number, feedback?: Feedback, options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.GAME_SESSION_END(sessionId), {
+      method: 'POST',
+      body: { duration, feedback },
+      ...options
+    });
+  }
+
+  // ==================== 收藏 ====================
+
+  getUserFavorites(userId: string, profileId?: string): Promise<string[]> {
+    return this.requestValidated(IdListSchema, API_ENDPOINTS.USER_FAVORITES(userId), { query: { profileId } });
+  }
+
+  addToFavorites(userId: string, gameId: string, profileId?: string, options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.USER_FAVORITES(userId), {
+      method: 'POST',
+      query: { profileId },
+      body: { gameId },
+      ...options
+    });
+  }
+
+  removeFromFavorites(userId: string, gameId: string, profileId?: string, options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.USER_FAVORITE(userId, gameId), {
+      method: 'DELETE',
+      query: { profileId },
+      ...options
+    });
+  }
+
+  createGroup(
+    userId: string,
+    group: Omit<Group, 'id' | 'createdAt'>,
+    profileId?: string,
+    options: MutationOptions = {}
+  ): Promise<Group> {
+    return this.requestValidated(GroupSchema, API_ENDPOINTS.USER_GROUPS(userId), {
+      method: 'POST',
+      query: { profileId },
+      body: group,
+      ...options
+    });
+  }
+
+  getUserGroups(userId: string, profileId?: string): Promise<Group[]> {
+    const url = API_ENDPOINTS.USER_GROUPS(userId);
+    return this.requestValidated(lenientArray(GroupSchema, url), url, { query: { profileId } });
+  }
+
+  updateGroup(
+    userId: string,
+    groupId: string,
+    changes: Partial<Pick<Group, 'name' | 'icon' | 'color' | 'sortOrder'>>,
+    profileId?: string,
+    options: MutationOptions = {}
+  ): Promise<Group> {
+    return this.requestValidated(GroupSchema, API_ENDPOINTS.USER_GROUP(userId, groupId), {
+      method: 'PATCH',
+      query: { profileId },
+      body: changes,
+      ...options
+    });
+  }
+
+  deleteGroup(userId: string, groupId: string, profileId?: string, options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.USER_GROUP(userId, groupId), {
+      method: 'DELETE',
+      query: { profileId },
+      ...options
+    });
+  }
+
+  addGameToGroup(userId: string, groupId: string, gameId: string, profileId?: string, options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.USER_GROUP_GAMES(userId, groupId), {
+      method: 'POST',
+      query: { profileId },
+      body: { gameId },
+      ...options
+    });
+  }
+
+  removeGameFromGroup(userId: string, groupId: string, gameId: string, profileId?: string, options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.USER_GROUP_GAME(userId, groupId, gameId), {
+      method: 'DELETE',
+      query: { profileId },
+      ...options
+    });
+  }
+
+  reorderGroups(userId: string, groupIds: string[], profileId?: string, options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.USER_GROUPS_ORDER(userId), {
+      method: 'PUT',
+      query: { profileId },
+      body: { groupIds },
+      ...options
+    });
+  }
+
+  reorderGamesInGroup(userId: string, groupId: string, gameIds: string[], profileId?: string, options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.USER_GROUP_ORDER(userId, groupId), {
+      method: 'PUT',
+      query: { profileId },
+      body: { gameIds },
+      ...options
+    });
+  }
+
+  // ==================== 反馈 ====================
+
+  submitFeedback(feedback: Feedback, options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.GAME_FEEDBACK(feedback.gameId), {
+      method: 'POST',
+      body: feedback,
+      ...options
+    });
+  }
+
+  submitFeedbackBatch(feedbacks: Feedback[], options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.FEEDBACK_BATCH, {
+      method: 'POST',
+      body: { feedbacks },
+      ...options
+    });
+  }
+
+  /**
+   * 举报游戏
+   * @param gameId 游戏ID
+   * @param reason 举报原因
+   * @param details 补充说明
+   * @param options 写操作选项
+   */
+  reportGame(gameId: string, reason: string, details?: string, options: MutationOptions = {}): Promise<void> {
+    return this.request(API_ENDPOINTS.GAME_REPORTS(gameId), {
+      method: 'POST',
+      body: { reason, details },
+      ...options
+    });
+  }
+
+  getFeedbackStats(gameId: string): Promise<FeedbackStats> {
+    return this.requestValidated(FeedbackStatsSchema, API_ENDPOINTS.GAME_FEEDBACK_STATS(gameId));
+  }
+
+  getUserFeedbackHistory(userId: string): Promise<Feedback[]> {
+    const url = API_ENDPOINTS.USER_FEEDBACK(userId);
+    return this.requestValidated(lenientArray(FeedbackSchema, url), url);
+  }
+
+  // ==================== 发布 ====================
+
+  submitGame(gameData: GameSubmission): Promise<GameSubmission> {
+    return this.requestValidated(GameSubmissionSchema, API_ENDPOINTS.PUBLISH, {
+      method: 'POST',
+      body: gameData
+    });
+  }
+
+  getGameStatus(gameId: string): Promise<GameStatus> {
+    return this.requestValidated(GameStatusSchema, API_ENDPOINTS.PUBLISH_STATUS(gameId));
+  }
+
+  getUserGames(userId: string): Promise<GameSubmission[]> {
+    const url = API_ENDPOINTS.USER_GAMES(userId);
+    return this.requestValidated(lenientArray(GameSubmissionSchema, url), url);
+  }
+
+  crawlGameInfo(url: string): Promise<Partial<GameSubmission>> {
+    return this.requestValidated(GameSubmissionSchema.partial(), API_ENDPOINTS.AI_CRAWL, {
+      method: 'POST',
+      body: { url }
+    });
+  }
+
+  /**
+   * 更新提交信息
+   * @param gameId 游戏ID
+   * @param data 更新数据
+   */
+  updateSubmission(gameId: string, data: Partial<GameSubmission>): Promise<GameSubmission> {
+    return this.request(API_ENDPOINTS.PUBLISH_DETAIL(gameId), {
+      method: 'PATCH',
+      body: data
+    });
+  }
+
+  /**
+   * 取消提交
+   * @param gameId 游戏ID
+   */
+  cancelSubmission(gameId: string): Promise<void> {
+    return this.request(API_ENDPOINTS.PUBLISH_DETAIL(gameId), {
+      method: 'DELETE'
+    });
+  }
+
+  /**
+   * AI分析游戏内容
+   * @param url 游戏URL
+   */
+  analyzeGameContent(url: string): Promise<GameAnalysis> {
+    return this.request(API_ENDPOINTS.AI_ANALYZE, {
+      method: 'POST',
+      body: { url }
+    });
+  }
+
+  /**
+   * 服务端校验游戏URL
+   * @param url 游戏URL
+   */
+  validateGameUrl(url: string): Promise<{ valid: boolean; message?: string }> {
+    return this.request(API_ENDPOINTS.AI_VALIDATE_URL, {
+      method: 'POST',
+      body: { url }
+    });
+  }
+
+  // ==================== 用户 ====================
+
+  async login(code: string): Promise<AuthResult> {
+    const result = await this.requestValidated(AuthResultSchema, API_ENDPOINTS.AUTH_LOGIN, {
+      method: 'POST',
+      body: { code },
+      auth: false
+    });
+
+    storageManager.setUserToken(result.token);
+    if (result.refreshToken) {
+      storageManager.setRefreshToken(result.refreshToken);
+    }
+    ApiErrorHandler.resetUnauthorized();
+
+    return result;
+  }
+
+  getUserInfo(userId: string): Promise<User> {
+    return this.requestValidated(UserSchema, API_ENDPOINTS.USER_DETAIL(userId));
+  }
+
+  updateUserInfo(userId: string, data: Partial<User>): Promise<User> {
+    return this.requestValidated(UserSchema, API_ENDPOINTS.USER_DETAIL(userId), {
+      method: 'PATCH',
+      body: data
+    });
+  }
+
+  getUserPreferences(userId: string): Promise<UserPreferences> {
+    return this.requestValidated(UserPreferencesSchema, API_ENDPOINTS.USER_PREFERENCES(userId));
+  }
+
+  updateUserPreferences(userId: string, preferences: UserPreferences): Promise<void> {
+    return this.request(API_ENDPOINTS.USER_PREFERENCES(userId), {
+      method: 'PUT',
+      body: preferences
+    });
+  }
+
+  // ==================== 分享 ====================
+
+  /**
+   * 服务端签名分享内容
+   * @param content 待签名内容（令牌中签名之前的部分）
+   */
+  signShare(content: string): Promise<{ signature: string }> {
+    return this.requestValidated(ShareSignatureSchema, API_ENDPOINTS.SHARE_SIGN, {
+      method: 'POST',
+      body: { content }
+    });
+  }
+
+  /**
+   * 服务端验证分享签名
+   * 未登录也可以预览别人分享的分组，因此不需要鉴权
+   * @param content 签名内容
+   * @param signature 签名
+   */
+  verifyShare(content: string, signature: string): Promise<{ valid: boolean }> {
+    return this.requestValidated(ShareVerificationSchema, API_ENDPOINTS.SHARE_VERIFY, {
+      method: 'POST',
+      body: { content, signature },
+      auth: false
+    });
+  }
+
+  // ==================== 监控 ====================
+
+  reportError(data: Parameters<MonitoringAPI['reportError']>[0]): Promise<void> {
+    return this.request(API_ENDPOINTS.MONITORING_ERRORS, {
+      method: 'POST',
+      body: data,
+      keepalive: true
+    });
+  }
+
+  reportPerformance(data: Parameters<MonitoringAPI['reportPerformance']>[0]): Promise<void> {
+    return this.request(API_ENDPOINTS.MONITORING_PERFORMANCE, {
+      method: 'POST',
+      body: data,
+      keepalive: true
+    });
+  }
+
+  trackEvent(data: Parameters<MonitoringAPI['trackEvent']>[0]): Promise<void> {
+    return this.request(API_ENDPOINTS.MONITORING_ANALYTICS, {
+      method: 'POST',
+      body: data,
+      keepalive: true
+    });
+  }
+}
+
+// 导出单例实例
+export const apiClient = ApiClient.getInstance();
+
+export default apiClient;
@@ -1,21 +1,44 @@
 /**
  * 收藏管理器
- * 微学宝盒 - 允许用户收藏感兴趣的游戏，提供分组管理功能
+ * 微学宝盒 - 允许用户收藏感兴趣的游戏，提供分组管理功能，并与其他设备上的收藏合并
  */
 
-import { STORAGE_KEYS } from '@/types/user';
-import { DEFAULT_GROUPS, type Group } from '@/types/game';
-import type { GameCard } from '@/types/game';
+import { STORAGE_KEYS, DEFAULT_PROFILE_ID } from '@/types/user';
+import { DEFAULT_GROUPS, LOCAL_GROUP_ID_PREFIX, SYSTEM_GROUP_IDS, type Group } from '@/types/game';
+import type { GameCard, GroupSortOrder } from '@/types/game';
+import { apiClient } from '@/services/ApiClient';
+import { storageManager } from '@/services/StorageManager';
+import { syncOutbox } from '@/services/SyncOutbox';
+import { feedbackManager } from '@/services/FeedbackManager';
+import { parentalGate } from '@/services/ParentalGate';
+import { playHistory } from '@/services/PlayHistory';
+import {
+  EMPTY_FAVORITE_SYNC_STATE,
+  applyOrder,
+  getGroupInfo,
+  isSameOrder,
+  mergeGroups,
+  mergeIdSet
+} from '@/services/FavoriteSync';
+import type { FavoriteSyncState } from '@/services/FavoriteSync';
+import { z } from 'zod';
+import { FavoriteSyncStateSchema, GroupSchema } from '@/schemas/game';
+import { IdListSchema, repairArray, repairIdList } from '@/schemas/common';
 
 /**
  * 收藏管理器类
- * 管理用户的收藏列表和分组
+ * 管理用户的收藏列表和分组，是收藏数据的唯一来源，应用状态和各组件都通过 subscribe 获取收藏
  */
 export class FavoriteManager {
   private static instance: FavoriteManager;
   private readonly STORAGE_KEY = STORAGE_KEYS.FAVORITES;
-  private readonly GROUPS_KEY = 'user_groups';
+  private readonly GROUPS_KEY = STORAGE_KEYS.USER_GROUPS;
+  private readonly SYNC_STATE_KEY = STORAGE_KEYS.FAVORITES_SYNC;
   private listeners: Set<(favorites: string[]) => void> = new Set();
+  private groupListeners: Set<(groups: Group[]) => void> = new Set();
+  /** 进行中的合并，同一档案的并发调用共享同一次 */
+  private syncPromise: Promise<void> | null = null;
+  private syncProfileId: string | null = null;
 
   /**
    * 获取单例实例
@@ -27,6 +50,98 @@ export class FavoriteManager {
     return FavoriteManager.instance;
   }
 
+  constructor() {
+    // 写操作到达服务端后更新基准，下次合并时不会被误判为远端删除
+    syncOutbox.onSynced('favorite-add', entry => {
+      if (entry.type !== 'favorite-add') return;
+      const { userId, profileId = DEFAULT_PROFILE_ID, gameId } = entry.payload;
+      this.updateSyncBase(userId, profileId, gameId, true);
+    });
+    syncOutbox.onSynced('favorite-remove', entry => {
+      if (entry.type !== 'favorite-remove') return;
+      const { userId, profileId = DEFAULT_PROFILE_ID, gameId } = entry.payload;
+      this.updateSyncBase(userId, profileId, gameId, false);
+    });
+    syncOutbox.onSynced('group-create', (entry, result) => {
+      if (entry.type !== 'group-create') return;
+      const { userId, profileId = DEFAULT_PROFILE_ID, localId } = entry.payload;
+      this.handleGroupCreated(userId, profileId, localId, result);
+    });
+    syncOutbox.onSynced('group-update', entry => {
+      if (entry.type !== 'group-update') return;
+      const { userId, profileId = DEFAULT_PROFILE_ID, groupId, changes } = entry.payload;
+      this.updateGroupSyncBase(userId, profileId, groupId, state => ({
+        ...state,
+        groupInfo: { ...state.groupInfo, [groupId]: { ...state.groupInfo[groupId], ...changes } }
+      }));
+    });
+    syncOutbox.onSynced('group-delete', entry => {
+      if (entry.type !== 'group-delete') return;
+      const { userId, profileId = DEFAULT_PROFILE_ID, groupId } = entry.payload;
+      this.updateGroupSyncBase(userId, profileId, groupId, state => {
+        const { [groupId]: _gameIds, ...groups } = state.groups;
+        const { [groupId]: _info, ...groupInfo } = state.groupInfo;
+        return { ...state, groups, groupInfo };
+      });
+    });
+    (['group-add-game', 'group-remove-game'] as const).forEach(type => {
+      syncOutbox.onSynced(type, entry => {
+        if (entry.type !== 'group-add-game' && entry.type !== 'group-remove-game') return;
+        const { userId, profileId = DEFAULT_PROFILE_ID, groupId, gameId } = entry.payload;
+        const added = entry.type === 'group-add-game';
+        this.updateGroupSyncBase(userId, profileId, groupId, state => {
+          const gameIds = state.groups[groupId].filter(id => id !== gameId);
+          return { ...state, groups: { ...state.groups, [groupId]: added ? [...gameIds, gameId] : gameIds } };
+        });
+      });
+    });
+    syncOutbox.onSynced('group-reorder', entry => {
+      if (entry.type !== 'group-reorder') return;
+      const { userId, profileId = DEFAULT_PROFILE_ID, groupIds } = entry.payload;
+      const state = this.getSyncState(profileId);
+      if (state.userId !== userId) return;
+
+      // 基准中分组的顺序即对象键的顺序
+      const ids = applyOrder(Object.keys(state.groups), groupIds);
+      this.saveSyncState({
+        ...state,
+        groups: Object.fromEntries(ids.map(id => [id, state.groups[id]]))
+      }, profileId);
+    });
+    syncOutbox.onSynced('group-reorder-games', entry => {
+      if (entry.type !== 'group-reorder-games') return;
+      const { userId, profileId = DEFAULT_PROFILE_ID, groupId, gameIds } = entry.payload;
+      this.updateGroupSyncBase(userId, profileId, groupId, state => ({
+        ...state,
+        groups: { ...state.groups, [groupId]: applyOrder(state.groups[groupId], gameIds) }
+      }));
+    });
+
+    // 其他标签页修改收藏时同步到本页的订阅者
+    storageManager.onExternalChange(this.STORAGE_KEY, () => {
+      this.notifyListeners(this.getFavorites());
+    });
+
+    // 切换孩子档案后换成该档案的收藏，并与服务端合并
+    storageManager.onChange(STORAGE_KEYS.ACTIVE_PROFILE, () => {
+      this.notifyListeners(this.getFavorites());
+      if (storageManager.getUserId()) {
+        this.syncWithServer();
+      }
+    });
+
+    // 分组及系统分组的来源变化时通知分组订阅者
+    [this.GROUPS_KEY, this.STORAGE_KEY, STORAGE_KEYS.RECENT_GAMES, STORAGE_KEYS.LIKED_GAMES].forEach(key => {
+      storageManager.onChange(key, () => this.notifyGroupListeners());
+    });
+
+    storageManager.whenReady().then(() => {
+      if (storageManager.getUserId()) {
+        this.syncWithServer();
+      }
+    });
+  }
+
   /**
    * 添加到收藏
    * @param gameId 游戏ID
@@ -38,11 +153,8 @@ export class FavoriteManager {
       favorites.push(gameId);
       
       // 保存到本地存储
-      try {
-        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(favorites));
-      } catch (error) {
-        console.warn('保存收藏到本地存储失败:', error);
-      }
+      storageManager.setItem(this.STORAGE_KEY, favorites);
+      playHistory.recordFavorite(gameId);
 
       // 触发收藏动画事件
       this.triggerFavoriteAnimation(gameId);
@@ -51,7 +163,7 @@ export class FavoriteManager {
       this.notifyListeners(favorites);
 
       // 同步到服务器
-      await this.syncToServer(favorites);
+      await this.syncToServer('add', [gameId]);
     }
   }
 
@@ -64,17 +176,32 @@ export class FavoriteManager {
     const updatedFavorites = favorites.filter(id => id !== gameId);
 
     // 保存到本地存储
-    try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(updatedFavorites));
-    } catch (error) {
-      console.warn('保存收藏到本地存储失败:', error);
-    }
+    storageManager.setItem(this.STORAGE_KEY, updatedFavorites);
 
     // 通知监听器
     this.notifyListeners(updatedFavorites);
 
     // 同步到服务器
-    await this.syncToServer(updatedFavorites);
+    if (favorites.includes(gameId)) {
+      await this.syncToServer('remove', [gameId]);
+    }
+  }
+
+  /**
+   * 批量从收藏移除
+   * @param gameIds 游戏ID数组
+   */
+  async removeManyFromFavorites(gameIds: string[]): Promise<void> {
+    const favorites = this.getFavorites();
+    const removed = favorites.filter(id => gameIds.includes(id));
+    if (removed.length === 0) return;
+
+    const updatedFavorites = favorites.filter(id => !gameIds.includes(id));
+
+    storageManager.setItem(this.STORAGE_KEY, updatedFavorites);
+
+    this.notifyListeners(updatedFavorites);
+    await this.syncToServer('remove', removed);
   }
 
   /**
@@ -99,12 +226,7 @@ export class FavoriteManager {
    * @returns 游戏ID数组
    */
   getFavorites(): string[] {
-    try {
-      const favorites = localStorage.getItem(this.STORAGE_KEY);
-      return favorites ? JSON.parse(favorites) : [];
-    } catch {
-      return [];
-    }
+    return storageManager.getValidatedItem(this.STORAGE_KEY, IdListSchema, [], repairIdList);
   }
 
   /**
@@ -126,16 +248,18 @@ export class FavoriteManager {
 
   /**
    * 清空收藏
+   * 需要先通过家长验证
+   * @throws ParentalGateError 未通过家长验证时抛出
    */
   async clearFavorites(): Promise<void> {
-    try {
-      localStorage.removeItem(this.STORAGE_KEY);
-    } catch (error) {
-      console.warn('清空收藏失败:', error);
-    }
+    parentalGate.assertUnlocked();
+
+    const favorites = this.getFavorites();
+
+    storageManager.removeItem(this.STORAGE_KEY);
 
     this.notifyListeners([]);
-    await this.syncToServer([]);
+    await this.syncToServer('remove', favorites);
   }
 
   /**
@@ -182,40 +306,364 @@ export class FavoriteManager {
 
   /**
    * 同步到服务器
+   * 写操作进入同步队列，失败后自动重试；同一游戏尚未同步的操作只保留最后一次
+   * @param action 同步动作
+   * @param gameIds 涉及的游戏ID
    */
-  private async syncToServer(favorites: string[]): Promise<void> {
-    try {
-      // 模拟API调用
-      const response = await fetch('/api/user/favorites', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
+  private async syncToServer(action: 'add' | 'remove', gameIds: string[]): Promise<void> {
+    const userId = storageManager.getUserId();
+
+    // 未登录时仅保存在本地
+    if (!userId || gameIds.length === 0) return;
+
+    const profileId = storageManager.getActiveProfileId();
+    gameIds.forEach(gameId => {
+      syncOutbox.enqueue(
+        {
+          type: action === 'add' ? 'favorite-add' : 'favorite-remove',
+          payload: { userId, profileId: this.getServerProfileId(profileId), gameId }
         },
-        body: JSON.stringify({ favorites })
-      });
+        { dedupeKey: `favorite:${userId}:${profileId}:${gameId}` }
+      );
+    });
+
+    await syncOutbox.flush();
+  }
 
-      if (!response.ok) {
-        throw new Error('同步收藏到服务器失败');
+  // ==================== 多设备合并 ====================
+
+  /**
+   * 与服务端合并收藏和分组
+   * 以上次同步时观察到的服务端状态为基准做三方合并，合并结果中服务端缺少或多出的收藏通过同步队列补齐。
+   * 首次登录时本地匿名收藏全部视为新增并入账号；切换到其他账号时以服务端为准。
+   * 每个孩子档案在服务端有各自的收藏和分组，只合并当前档案。
+   */
+  syncWithServer(): Promise<void> {
+    const profileId = storageManager.getActiveProfileId();
+    if (this.syncPromise && this.syncProfileId === profileId) {
+      return this.syncPromise;
+    }
+
+    // 上一个档案的合并完成后再合并当前档案
+    const previous = this.syncPromise ?? Promise.resolve();
+    const promise = previous.then(() => this.performSync(profileId)).finally(() => {
+      if (this.syncPromise === promise) {
+        this.syncPromise = null;
+        this.syncProfileId = null;
       }
+    });
+
+    this.syncPromise = promise;
+    this.syncProfileId = profileId;
+    return promise;
+  }
+
+  /**
+   * 执行合并
+   */
+  private async performSync(profileId: string): Promise<void> {
+    await storageManager.whenReady();
+
+    const userId = storageManager.getUserId();
+    if (!userId || storageManager.getActiveProfileId() !== profileId) return;
+
+    let remoteFavorites: string[];
+    let remoteGroups: Group[];
+    try {
+      const serverProfileId = this.getServerProfileId(profileId);
+      [remoteFavorites, remoteGroups] = await Promise.all([
+        apiClient.getUserFavorites(userId, serverProfileId),
+        apiClient.getUserGroups(userId, serverProfileId)
+      ]);
     } catch (error) {
-      console.warn('同步收藏到服务器失败:', error);
-      // 失败时不抛出错误，因为本地已保存
+      console.warn('获取服务端收藏失败:', error);
+      return;
+    }
+
+    // 请求期间切换了档案，留给新档案的合并处理
+    if (storageManager.getActiveProfileId() !== profileId) return;
+
+    const state = this.getSyncState();
+    const switchedAccount = state.userId !== null && state.userId !== userId;
+    const base = switchedAccount ? EMPTY_FAVORITE_SYNC_STATE : state;
+
+    const favorites = switchedAccount
+      ? remoteFavorites
+      : mergeIdSet(base.favorites, this.getFavorites(), remoteFavorites);
+    const groups = switchedAccount
+      ? remoteGroups
+      : mergeGroups(base, this.getStoredGroups(), remoteGroups);
+
+    storageManager.setItem(this.STORAGE_KEY, favorites);
+    if (groups.length > 0) {
+      this.saveGroups(groups);
+    } else {
+      storageManager.removeItem(this.GROUPS_KEY);
+    }
+    this.saveSyncState({
+      userId,
+      favorites: remoteFavorites,
+      groups: Object.fromEntries(remoteGroups.map(group => [group.id, group.gameIds])),
+      groupInfo: Object.fromEntries(remoteGroups.map(group => [group.id, getGroupInfo(group)])),
+      syncedAt: Date.now()
+    });
+    this.notifyListeners(favorites);
+
+    // 补齐服务端差异
+    const remoteSet = new Set(remoteFavorites);
+    const mergedSet = new Set(favorites);
+    const added = favorites.filter(id => !remoteSet.has(id));
+    const removed = remoteFavorites.filter(id => !mergedSet.has(id));
+    const remoteGroupsById = new Map(remoteGroups.map(group => [group.id, group]));
+    const mergedGroupIds = new Set(groups.map(group => group.id));
+
+    groups.forEach(group => {
+      const remoteGroup = remoteGroupsById.get(group.id);
+      if (remoteGroup) {
+        this.enqueueGroupDiff(userId, remoteGroup, group);
+      } else if (!DEFAULT_GROUPS.some(({ id }) => id === group.id)) {
+        // 默认分组由服务端创建，不重复提交
+        this.enqueueGroupCreate(userId, group);
+      }
+    });
+    remoteGroups
+      .filter(group => !mergedGroupIds.has(group.id) && !this.isSystemGroup(group.id))
+      .forEach(group => this.enqueueGroupDelete(userId, group.id));
+    if (!isSameOrder(groups.map(group => group.id), remoteGroups.map(group => group.id))) {
+      this.enqueueGroupReorder(userId, groups.map(group => group.id));
+    }
+
+    if (added.length > 0) await this.syncToServer('add', added);
+    if (removed.length > 0) await this.syncToServer('remove', removed);
+  }
+
+  /**
+   * 获取服务端使用的档案ID
+   * 默认档案对应账号原有的收藏，不传档案ID
+   */
+  private getServerProfileId(profileId: string): string | undefined {
+    return profileId === DEFAULT_PROFILE_ID ? undefined : profileId;
+  }
+
+  /**
+   * 获取同步状态
+   * @param profileId 档案ID，默认为当前档案
+   */
+  private getSyncState(profileId?: string): FavoriteSyncState {
+    return storageManager.getValidatedItem(
+      storageManager.getProfileKey(this.SYNC_STATE_KEY, profileId),
+      FavoriteSyncStateSchema,
+      EMPTY_FAVORITE_SYNC_STATE
+    );
+  }
+
+  /**
+   * 保存同步状态
+   * @param profileId 档案ID，默认为当前档案
+   */
+  private saveSyncState(state: FavoriteSyncState, profileId?: string): void {
+    storageManager.setItem(storageManager.getProfileKey(this.SYNC_STATE_KEY, profileId), state);
+  }
+
+  /**
+   * 收藏写操作同步成功后更新基准
+   */
+  private updateSyncBase(userId: string, profileId: string, gameId: string, favorited: boolean): void {
+    const state = this.getSyncState(profileId);
+    if (state.userId !== userId) return;
+
+    const favorites = state.favorites.filter(id => id !== gameId);
+    this.saveSyncState({
+      ...state,
+      favorites: favorited ? [...favorites, gameId] : favorites
+    }, profileId);
+  }
+
+  /**
+   * 分组创建成功后换用服务端ID并记入基准
+   */
+  private handleGroupCreated(userId: string, profileId: string, localId: string | undefined, result: unknown): void {
+    const parsed = GroupSchema.safeParse(result);
+    if (!parsed.success) return;
+
+    const created = parsed.data;
+    if (localId && localId !== created.id) {
+      const groups = this.getStoredGroups(profileId)
+        .map(group => (group.id === localId ? { ...group, id: created.id } : group));
+      this.saveGroups(groups, profileId);
+    }
+
+    const state = this.getSyncState(profileId);
+    if (state.userId === userId) {
+      this.saveSyncState({
+        ...state,
+        groups: { ...state.groups, [created.id]: created.gameIds },
+        groupInfo: { ...state.groupInfo, [created.id]: getGroupInfo(created) }
+      }, profileId);
+    }
+  }
+
+  /**
+   * 分组写操作同步成功后更新基准
+   * 基准中没有的分组（如已被其他设备删除）不再记入
+   */
+  private updateGroupSyncBase(
+    userId: string,
+    profileId: string,
+    groupId: string,
+    update: (state: FavoriteSyncState) => FavoriteSyncState
+  ): void {
+    const state = this.getSyncState(profileId);
+    if (state.userId !== userId || !(groupId in state.groups)) return;
+
+    this.saveSyncState(update(state), profileId);
+  }
+
+  /**
+   * 分组创建进入同步队列
+   * 幂等键由本地分组ID生成，重复入队也只会创建一次
+   */
+  private enqueueGroupCreate(userId: string, group: Group): void {
+    const { id, createdAt: _createdAt, ...data } = group;
+    const profileId = storageManager.getActiveProfileId();
+    const key = `group:${userId}:${profileId}:${id}`;
+    syncOutbox.enqueue(
+      {
+        type: 'group-create',
+        payload: { userId, profileId: this.getServerProfileId(profileId), localId: id, group: data }
+      },
+      { idempotencyKey: key, dedupeKey: key }
+    );
+  }
+
+  /**
+   * 分组属性修改进入同步队列
+   * 提交分组当前的全部属性，同一分组尚未同步的修改只保留最后一次
+   */
+  private enqueueGroupUpdate(userId: string, group: Group): void {
+    const profileId = storageManager.getActiveProfileId();
+    syncOutbox.enqueue(
+      {
+        type: 'group-update',
+        payload: { userId, profileId: this.getServerProfileId(profileId), groupId: group.id, changes: getGroupInfo(group) }
+      },
+      { dedupeKey: `group-update:${userId}:${profileId}:${group.id}` }
+    );
+  }
+
+  /**
+   * 分组删除进入同步队列
+   */
+  private enqueueGroupDelete(userId: string, groupId: string): void {
+    const profileId = storageManager.getActiveProfileId();
+    syncOutbox.enqueue(
+      {
+        type: 'group-delete',
+        payload: { userId, profileId: this.getServerProfileId(profileId), groupId }
+      },
+      { dedupeKey: `group-delete:${userId}:${profileId}:${groupId}` }
+    );
+  }
+
+  /**
+   * 组内游戏的加入或移出进入同步队列
+   * 同一分组同一游戏尚未同步的操作只保留最后一次
+   */
+  private enqueueGroupMembership(userId: string, groupId: string, gameId: string, added: boolean): void {
+    const profileId = storageManager.getActiveProfileId();
+    syncOutbox.enqueue(
+      {
+        type: added ? 'group-add-game' : 'group-remove-game',
+        payload: { userId, profileId: this.getServerProfileId(profileId), groupId, gameId }
+      },
+      { dedupeKey: `group-game:${userId}:${profileId}:${groupId}:${gameId}` }
+    );
+  }
+
+  /**
+   * 合并后的分组与服务端不同的部分进入同步队列
+   * 系统分组的游戏在本地生成，只同步属性
+   */
+  private enqueueGroupDiff(userId: string, remote: Group, merged: Group): void {
+    const remoteInfo = getGroupInfo(remote);
+    const mergedInfo = getGroupInfo(merged);
+    if ((Object.keys(mergedInfo) as Array<keyof typeof mergedInfo>).some(field => mergedInfo[field] !== remoteInfo[field])) {
+      this.enqueueGroupUpdate(userId, merged);
+    }
+
+    if (this.isSystemGroup(merged.id)) return;
+
+    merged.gameIds
+      .filter(id => !remote.gameIds.includes(id))
+      .forEach(id => this.enqueueGroupMembership(userId, merged.id, id, true));
+    remote.gameIds
+      .filter(id => !merged.gameIds.includes(id))
+      .forEach(id => this.enqueueGroupMembership(userId, merged.id, id, false));
+    if (!isSameOrder(merged.gameIds, remote.gameIds)) {
+      this.enqueueGameReorder(userId, merged.id, merged.gameIds);
     }
   }
 
+  /**
+   * 分组顺序进入同步队列
+   */
+  private enqueueGroupReorder(userId: string, groupIds: string[]): void {
+    const profileId = storageManager.getActiveProfileId();
+    syncOutbox.enqueue(
+      {
+        type: 'group-reorder',
+        payload: { userId, profileId: this.getServerProfileId(profileId), groupIds }
+      },
+      { dedupeKey: `group-reorder:${userId}:${profileId}` }
+    );
+  }
+
+  /**
+   * 组内游戏顺序进入同步队列
+   * 排在同一分组尚未同步的游戏加入操作之后，服务端按顺序处理
+   */
+  private enqueueGameReorder(userId: string, groupId: string, gameIds: string[]): void {
+    const profileId = storageManager.getActiveProfileId();
+    syncOutbox.enqueue(
+      {
+        type: 'group-reorder-games',
+        payload: { userId, profileId: this.getServerProfileId(profileId), groupId, gameIds }
+      },
+      { dedupeKey: `group-reorder-games:${userId}:${profileId}:${groupId}` }
+    );
+  }
+
   // ==================== 分组管理 ====================
 
   /**
    * 获取用户分组
-   * @returns 分组列表
+   * 系统分组的游戏实时生成：我的收藏来自收藏列表，最近玩过来自游戏记录，点亮过来自好评反馈
+   * @returns 分组列表（按展示顺序）
    */
   getGroups(): Group[] {
-    try {
-      const groups = localStorage.getItem(this.GROUPS_KEY);
-      return groups ? JSON.parse(groups) : [...DEFAULT_GROUPS];
-    } catch {
-      return [...DEFAULT_GROUPS];
-    }
+    return this.getStoredGroups().map(group => {
+      if (!SYSTEM_GROUP_IDS.includes(group.id)) {
+        return group;
+      }
+      return { ...group, gameIds: this.getSystemGroupGameIds(group.id), system: true };
+    });
+  }
+
+  /**
+   * 获取分组
+   * @param groupId 分组ID
+   * @returns 分组，不存在时返回 undefined
+   */
+  getGroup(groupId: string): Group | undefined {
+    return this.getGroups().find(group => group.id === groupId);
+  }
+
+  /**
+   * 是否为系统分组
+   * @param groupId 分组ID
+   */
+  isSystemGroup(groupId: string): boolean {
+    return SYSTEM_GROUP_IDS.includes(groupId);
   }
 
   /**
@@ -224,56 +672,140 @@ export class FavoriteManager {
    * @returns 创建的分组
    */
   async createGroup(group: Omit<Group, 'id' | 'createdAt'>): Promise<Group> {
-    const groups = this.getGroups();
+    const groups = this.getStoredGroups();
     const newGroup: Group = {
       ...group,
-      id: `group_${Date.now()}`,
+      id: this.generateGroupId(),
       createdAt: Date.now()
     };
+    delete newGroup.system;
 
     groups.push(newGroup);
 
-    try {
-      localStorage.setItem(this.GROUPS_KEY, JSON.stringify(groups));
-    } catch (error) {
-      console.warn('保存分组失败:', error);
+    this.saveGroups(groups);
+
+    const userId = storageManager.getUserId();
+    if (userId) {
+      this.enqueueGroupCreate(userId, newGroup);
     }
 
     return newGroup;
   }
 
+  /**
+   * 修改分组名称、图标或颜色
+   * @param groupId 分组ID
+   * @param changes 修改内容
+   * @returns 是否已修改
+   */
+  updateGroup(groupId: string, changes: Partial<Pick<Group, 'name' | 'icon' | 'color'>>): boolean {
+    const name = changes.name?.trim();
+    if (changes.name !== undefined && !name) {
+      console.warn('分组名称不能为空');
+      return false;
+    }
+
+    const updated = this.updateStoredGroup(groupId, group => ({
+      ...group,
+      ...changes,
+      ...(name ? { name } : {})
+    }));
+
+    const userId = storageManager.getUserId();
+    if (updated && userId) {
+      this.enqueueGroupUpdate(userId, this.getStoredGroups().find(group => group.id === groupId)!);
+    }
+
+    return updated;
+  }
+
   /**
    * 删除分组
+   * 系统分组不可删除
    * @param groupId 分组ID
+   * @param options.unfavorite 是否同时取消收藏分组中的游戏
+   * @returns 是否已删除
    */
-  async deleteGroup(groupId: string): Promise<void> {
-    const groups = this.getGroups();
-    const updatedGroups = groups.filter(g => g.id !== groupId);
+  async deleteGroup(groupId: string, options: { unfavorite?: boolean } = {}): Promise<boolean> {
+    if (this.isSystemGroup(groupId)) {
+      console.warn(`系统分组不可删除 [${groupId}]`);
+      return false;
+    }
 
-    try {
-      localStorage.setItem(this.GROUPS_KEY, JSON.stringify(updatedGroups));
-    } catch (error) {
-      console.warn('删除分组失败:', error);
+    const groups = this.getStoredGroups();
+    const group = groups.find(g => g.id === groupId);
+    if (!group) return false;
+
+    this.saveGroups(groups.filter(g => g.id !== groupId));
+
+    const userId = storageManager.getUserId();
+    if (userId) {
+      this.enqueueGroupDelete(userId, groupId);
+    }
+
+    if (options.unfavorite && group.gameIds.length > 0) {
+      await this.removeManyFromFavorites(group.gameIds);
+    }
+
+    return true;
+  }
+
+  /**
+   * 调整分组顺序（如拖拽排序后）
+   * 未列出的分组保持原有相对顺序排在末尾
+   * @param groupIds 新的分组ID顺序
+   */
+  reorderGroups(groupIds: string[]): void {
+    const groups = this.getStoredGroups();
+    const byId = new Map(groups.map(group => [group.id, group]));
+    const ordered = groupIds
+      .filter((id, index) => byId.has(id) && groupIds.indexOf(id) === index)
+      .map(id => byId.get(id)!);
+    const rest = groups.filter(group => !groupIds.includes(group.id));
+    const reordered = [...ordered, ...rest];
+
+    this.saveGroups(reordered);
+
+    const userId = storageManager.getUserId();
+    if (userId) {
+      this.enqueueGroupReorder(userId, reordered.map(group => group.id));
     }
   }
 
+  /**
+   * 移动分组位置
+   * @param fromIndex 原位置
+   * @param toIndex 新位置
+   */
+  moveGroup(fromIndex: number, toIndex: number): void {
+    const ids = this.getStoredGroups().map(group => group.id);
+    if (fromIndex < 0 || fromIndex >= ids.length) return;
+
+    const [moved] = ids.splice(fromIndex, 1);
+    ids.splice(Math.max(0, Math.min(toIndex, ids.length)), 0, moved);
+    this.reorderGroups(ids);
+  }
+
   /**
    * 添加游戏到分组
+   * 系统分组的内容自动生成，不能手动添加
    * @param groupId 分组ID
    * @param gameId 游戏ID
    */
   async addGameToGroup(groupId: string, gameId: string): Promise<void> {
-    const groups = this.getGroups();
-    const group = groups.find(g => g.id === groupId);
+    if (this.isSystemGroup(groupId)) {
+      console.warn(`系统分组不可手动添加游戏 [${groupId}]`);
+      return;
+    }
 
-    if (group && !group.gameIds.includes(gameId)) {
-      group.gameIds.push(gameId);
+    const group = this.getStoredGroups().find(g => g.id === groupId);
+    if (!group || group.gameIds.includes(gameId)) return;
 
-      try {
-        localStorage.setItem(this.GROUPS_KEY, JSON.stringify(groups));
-      } catch (error) {
-        console.warn('添加游戏到分组失败:', error);
-      }
+    this.updateStoredGroup(groupId, g => ({ ...g, gameIds: [...g.gameIds, gameId] }));
+
+    const userId = storageManager.getUserId();
+    if (userId) {
+      this.enqueueGroupMembership(userId, groupId, gameId, true);
     }
   }
 
@@ -283,33 +815,223 @@ export class FavoriteManager {
    * @param gameId 游戏ID
    */
   async removeGameFromGroup(groupId: string, gameId: string): Promise<void> {
-    const groups = this.getGroups();
-    const group = groups.find(g => g.id === groupId);
+    if (this.isSystemGroup(groupId)) {
+      console.warn(`系统分组不可手动移除游戏 [${groupId}]`);
+      return;
+    }
 
-    if (group) {
-      group.gameIds = group.gameIds.filter(id => id !== gameId);
+    const group = this.getStoredGroups().find(g => g.id === groupId);
+    if (!group?.gameIds.includes(gameId)) return;
 
-      try {
-        localStorage.setItem(this.GROUPS_KEY, JSON.stringify(groups));
-      } catch (error) {
-        console.warn('从分组移除游戏失败:', error);
+    this.updateStoredGroup(groupId, g => ({
+      ...g,
+      gameIds: g.gameIds.filter(id => id !== gameId)
+    }));
+
+    const userId = storageManager.getUserId();
+    if (userId) {
+      this.enqueueGroupMembership(userId, groupId, gameId, false);
+    }
+  }
+
+  /**
+   * 将游戏从一个分组移到另一个分组
+   * @param gameId 游戏ID
+   * @param fromGroupId 原分组ID
+   * @param toGroupId 目标分组ID
+   * @returns 是否已移动
+   */
+  moveGameToGroup(gameId: string, fromGroupId: string, toGroupId: string): boolean {
+    if (fromGroupId === toGroupId) return false;
+
+    if (this.isSystemGroup(fromGroupId) || this.isSystemGroup(toGroupId)) {
+      console.warn('系统分组不可移入或移出游戏');
+      return false;
+    }
+
+    const groups = this.getStoredGroups();
+    const from = groups.find(group => group.id === fromGroupId);
+    const to = groups.find(group => group.id === toGroupId);
+    if (!from || !to || !from.gameIds.includes(gameId)) return false;
+
+    this.saveGroups(groups.map(group => {
+      if (group.id === fromGroupId) {
+        return { ...group, gameIds: group.gameIds.filter(id => id !== gameId) };
+      }
+      if (group.id === toGroupId && !group.gameIds.includes(gameId)) {
+        return { ...group, gameIds: [...group.gameIds, gameId] };
       }
+      return group;
+    }));
+
+    const userId = storageManager.getUserId();
+    if (userId) {
+      this.enqueueGroupMembership(userId, fromGroupId, gameId, false);
+      if (!to.gameIds.includes(gameId)) {
+        this.enqueueGroupMembership(userId, toGroupId, gameId, true);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 调整分组内游戏的顺序，并切换为手动排序
+   * @param groupId 分组ID
+   * @param gameIds 新的游戏顺序
+   */
+  reorderGamesInGroup(groupId: string, gameIds: string[]): void {
+    if (this.isSystemGroup(groupId)) {
+      console.warn(`系统分组不可调整顺序 [${groupId}]`);
+      return;
+    }
+
+    const updated = this.updateStoredGroup(groupId, group => {
+      const current = new Set(group.gameIds);
+      const ordered = gameIds.filter((id, index) => current.has(id) && gameIds.indexOf(id) === index);
+      const rest = group.gameIds.filter(id => !ordered.includes(id));
+      return { ...group, gameIds: [...ordered, ...rest], sortOrder: 'manual' };
+    });
+
+    const userId = storageManager.getUserId();
+    if (updated && userId) {
+      const group = this.getStoredGroups().find(g => g.id === groupId)!;
+      this.enqueueGameReorder(userId, groupId, group.gameIds);
+      this.enqueueGroupUpdate(userId, group);
+    }
+  }
+
+  /**
+   * 设置分组内游戏的排序方式
+   * @param groupId 分组ID
+   * @param sortOrder 排序方式
+   */
+  setGroupSortOrder(groupId: string, sortOrder: GroupSortOrder): void {
+    const updated = this.updateStoredGroup(groupId, group => ({ ...group, sortOrder }));
+
+    const userId = storageManager.getUserId();
+    if (updated && userId) {
+      this.enqueueGroupUpdate(userId, this.getStoredGroups().find(group => group.id === groupId)!);
     }
   }
 
   /**
    * 获取分组中的游戏
+   * 按分组的排序方式排列
    * @param groupId 分组ID
    * @param allGames 所有游戏列表
    * @returns 分组中的游戏列表
    */
   getGamesInGroup(groupId: string, allGames: GameCard[]): GameCard[] {
-    const groups = this.getGroups();
-    const group = groups.find(g => g.id === groupId);
+    const group = this.getGroup(groupId);
 
     if (!group) return [];
 
-    return allGames.filter(game => group.gameIds.includes(game.id));
+    const gamesById = new Map(allGames.map(game => [game.id, game]));
+    const games = group.gameIds
+      .map(id => gamesById.get(id))
+      .filter((game): game is GameCard => !!game);
+
+    switch (group.sortOrder) {
+      case 'title':
+        return games.sort((a, b) => a.title.localeCompare(b.title, 'zh-CN'));
+      case 'trust':
+        return games.sort((a, b) => b.trustScore - a.trustScore);
+      default:
+        return games;
+    }
+  }
+
+  /**
+   * 订阅分组变化
+   * 收藏、最近玩过、好评反馈变化时系统分组也会更新
+   * @param callback 回调函数
+   * @returns 取消订阅函数
+   */
+  subscribeGroups(callback: (groups: Group[]) => void): () => void {
+    this.groupListeners.add(callback);
+
+    // 立即通知当前状态
+    callback(this.getGroups());
+
+    return () => {
+      this.groupListeners.delete(callback);
+    };
+  }
+
+  /**
+   * 通知分组监听器
+   */
+  private notifyGroupListeners(): void {
+    if (this.groupListeners.size === 0) return;
+
+    const groups = this.getGroups();
+    this.groupListeners.forEach(callback => {
+      try {
+        callback(groups);
+      } catch (error) {
+        console.warn('通知分组监听器失败:', error);
+      }
+    });
+  }
+
+  /**
+   * 读取保存的分组
+   * 系统分组只保存名称、图标、顺序等属性
+   */
+  private getStoredGroups(profileId?: string): Group[] {
+    return storageManager.getValidatedItem(
+      storageManager.getProfileKey(this.GROUPS_KEY, profileId),
+      z.array(GroupSchema),
+      DEFAULT_GROUPS.map(group => ({ ...group, gameIds: [] })),
+      repairArray(GroupSchema)
+    );
+  }
+
+  /**
+   * 保存分组
+   */
+  private saveGroups(groups: Group[], profileId?: string): void {
+    const stored = groups.map(({ system: _system, ...group }) => (
+      SYSTEM_GROUP_IDS.includes(group.id) ? { ...group, gameIds: [] } : group
+    ));
+    storageManager.setItem(storageManager.getProfileKey(this.GROUPS_KEY, profileId), stored);
+  }
+
+  /**
+   * 修改单个保存的分组
+   * @returns 分组是否存在
+   */
+  private updateStoredGroup(groupId: string, update: (group: Group) => Group): boolean {
+    const groups = this.getStoredGroups();
+    if (!groups.some(group => group.id === groupId)) return false;
+
+    this.saveGroups(groups.map(group => (group.id === groupId ? update(group) : group)));
+    return true;
+  }
+
+  /**
+   * 生成本地分组ID
+   * 同一毫秒内（如批量导入）创建的分组也不会重复
+   */
+  private generateGroupId(): string {
+    return `${LOCAL_GROUP_ID_PREFIX}${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * 生成系统分组的游戏
+   */
+  private getSystemGroupGameIds(groupId: string): string[] {
+    switch (groupId) {
+      case 'favorites':
+        return this.getFavorites();
+      case 'recent':
+        return storageManager.getRecentGames();
+      case 'liked':
+        return feedbackManager.getLikedGameIds();
+      default:
+        return [];
+    }
   }
 }
 
@@ -0,0 +1,193 @@
+/**
+ * 收藏合并
+ * 微学宝盒 - 以上次同步的服务端状态为基准，对收藏和分组做三方合并
+ *
+ * 合并遵循 OR-set 语义：删除只作用于已观察到的添加，并发的添加与删除以添加为准。
+ * 合并结果只取决于三份输入，与设备和执行顺序无关。
+ */
+
+import type { Group } from '@/types/game';
+
+/**
+ * 分组属性
+ * 与组内游戏分开合并
+ */
+export type GroupInfo = Pick<Group, 'name' | 'icon' | 'color' | 'sortOrder'>;
+
+/**
+ * 收藏同步状态
+ */
+export interface FavoriteSyncState {
+  /** 上次同步的用户，null 表示尚未登录同步过 */
+  userId: string | null;
+  /** 上次观察到的服务端收藏 */
+  favorites: string[];
+  /** 上次观察到的服务端分组（分组ID到游戏ID列表） */
+  groups: Record<string, string[]>;
+  /** 上次观察到的服务端分组属性 */
+  groupInfo: Record<string, GroupInfo>;
+  /** 上次同步时间 */
+  syncedAt: number | null;
+}
+
+/**
+ * 初始同步状态
+ */
+export const EMPTY_FAVORITE_SYNC_STATE: FavoriteSyncState = {
+  userId: null,
+  favorites: [],
+  groups: {},
+  groupInfo: {},
+  syncedAt: null
+};
+
+/**
+ * 合并ID集合
+ * 保持本地顺序，远端新增的ID追加在末尾
+ * @param base 上次同步时的服务端集合
+ * @param local 本地集合
+ * @param remote 当前服务端集合
+ * @returns 合并结果
+ */
+export function mergeIdSet(base: string[], local: string[], remote: string[]): string[] {
+  const baseSet = new Set(base);
+  const localSet = new Set(local);
+  const remoteSet = new Set(remote);
+  const merged: string[] = [];
+
+  // 本地项：服务端仍保留，或是本地新增（服务端的删除无法作用于未观察到的添加）
+  local.forEach(id => {
+    if (remoteSet.has(id) || !baseSet.has(id)) {
+      merged.push(id);
+    }
+  });
+
+  // 服务端新增：本地从未观察到，因此也不可能删除过
+  remote.forEach(id => {
+    if (!localSet.has(id) && !baseSet.has(id)) {
+      merged.push(id);
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * 两个列表中共有项的相对顺序是否一致
+ */
+export function isSameOrder(a: string[], b: string[]): boolean {
+  const aSet = new Set(a);
+  const bSet = new Set(b);
+  const common = a.filter(id => bSet.has(id));
+  return b.filter(id => aSet.has(id)).every((id, index) => id === common[index]);
+}
+
+/**
+ * 按指定顺序排列ID
+ * @param ids 要排列的ID
+ * @param order 目标顺序
+ * @returns 排序后的ID，order 中没有的保持原有相对顺序排在末尾
+ */
+export function applyOrder(ids: string[], order: string[]): string[] {
+  const idSet = new Set(ids);
+  const listed = order.filter(id => idSet.has(id));
+  const listedSet = new Set(listed);
+  return [...listed, ...ids.filter(id => !listedSet.has(id))];
+}
+
+/**
+ * 合并顺序
+ * 本地没有调整过顺序（与基准中共有项的相对顺序一致）时采用服务端的顺序，否则保持本地顺序
+ * @param base 上次同步时的服务端顺序
+ * @param local 本地顺序
+ * @param remote 当前服务端顺序
+ * @param ids 合并后的ID，按本地顺序排列
+ * @returns 排序后的ID，服务端没有的排在末尾
+ */
+export function mergeOrder(base: string[], local: string[], remote: string[], ids: string[]): string[] {
+  return isSameOrder(base, local) ? applyOrder(ids, remote) : ids;
+}
+
+/**
+ * 获取分组属性
+ * @param group 分组
+ */
+export function getGroupInfo(group: Group): GroupInfo {
+  return {
+    name: group.name,
+    icon: group.icon,
+    color: group.color,
+    sortOrder: group.sortOrder
+  };
+}
+
+/**
+ * 合并分组属性
+ * 本地未改过的属性采用服务端的值；没有基准时（如旧版本的同步状态）以本地为准
+ */
+function mergeGroupInfo(base: GroupInfo | undefined, local: Group, remote: Group): GroupInfo {
+  const pick = <K extends keyof GroupInfo>(field: K): GroupInfo[K] => (
+    base && local[field] === base[field] ? remote[field] : local[field]
+  );
+
+  return {
+    name: pick('name'),
+    icon: pick('icon'),
+    color: pick('color'),
+    sortOrder: pick('sortOrder')
+  };
+}
+
+/**
+ * 合并分组
+ * 分组内的游戏按 mergeIdSet 合并，名称、图标等属性逐项三方合并，双方都改过的以本地为准。
+ * 任一方删除了基准中的分组，合并结果中都不再包含该分组。分组顺序和组内游戏顺序按 mergeOrder 合并。
+ * @param base 上次同步时的服务端分组和分组属性
+ * @param local 本地分组
+ * @param remote 当前服务端分组
+ * @returns 合并结果
+ */
+export function mergeGroups(
+  base: Pick<FavoriteSyncState, 'groups' | 'groupInfo'>,
+  local: Group[],
+  remote: Group[]
+): Group[] {
+  const localIds = new Set(local.map(group => group.id));
+  const remoteById = new Map(remote.map(group => [group.id, group]));
+  const merged: Group[] = [];
+
+  local.forEach(group => {
+    const remoteGroup = remoteById.get(group.id);
+
+    if (remoteGroup) {
+      const baseGameIds = base.groups[group.id] ?? [];
+      merged.push({
+        ...group,
+        ...mergeGroupInfo(base.groupInfo[group.id], group, remoteGroup),
+        gameIds: mergeOrder(
+          baseGameIds,
+          group.gameIds,
+          remoteGroup.gameIds,
+          mergeIdSet(baseGameIds, group.gameIds, remoteGroup.gameIds)
+        )
+      });
+    } else if (!(group.id in base.groups)) {
+      // 本地新建、尚未同步的分组
+      merged.push(group);
+    }
+  });
+
+  remote.forEach(group => {
+    if (!localIds.has(group.id) && !(group.id in base.groups)) {
+      merged.push(group);
+    }
+  });
+
+  const mergedById = new Map(merged.map(group => [group.id, group]));
+  return mergeOrder(
+    Object.keys(base.groups),
+    local.map(group => group.id),
+    remote.map(group => group.id),
+    merged.map(group => group.id)
+  ).map(id => mergedById.get(id)!);
+}
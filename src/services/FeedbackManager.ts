@@ -5,6 +5,12 @@
 
 import { STORAGE_KEYS } from '@/types/user';
 import type { Feedback, FeedbackStats, FeedbackType } from '@/types/game';
+import { apiClient } from '@/services/ApiClient';
+import { storageManager } from '@/services/StorageManager';
+import { syncOutbox } from '@/services/SyncOutbox';
+import { z } from 'zod';
+import { FeedbackSchema } from '@/schemas/game';
+import { IdListSchema, repairArray, repairIdList } from '@/schemas/common';
 
 /**
  * 反馈管理器类
@@ -13,6 +19,11 @@ import type { Feedback, FeedbackStats, FeedbackType } from '@/types/game';
 export class FeedbackManager {
   private static instance: FeedbackManager;
   private readonly QUEUE_KEY = STORAGE_KEYS.FEEDBACK_QUEUE;
+  private readonly LIKED_KEY = STORAGE_KEYS.LIKED_GAMES;
+  /** 点亮过的游戏最多保留数量 */
+  private readonly MAX_LIKED = 100;
+  /** 已同步反馈的保留时间 */
+  private readonly SYNCED_RETENTION = 7 * 24 * 60 * 60 * 1000;
   private listeners: Set<(queue: Feedback[]) => void> = new Set();
 
   /**
@@ -25,11 +36,27 @@ export class FeedbackManager {
     return FeedbackManager.instance;
   }
 
+  constructor() {
+    syncOutbox.onSynced('feedback', entry => {
+      if (entry.type === 'feedback' && entry.payload.id) {
+        this.markSynced(entry.payload.id);
+      }
+    });
+
+    // 反馈队列保存在 IndexedDB，加载完成后通知订阅者，并补交升级前未同步的反馈
+    storageManager.whenReady().then(() => {
+      this.notifyListeners(this.getFeedbackQueue());
+      this.syncToServer();
+    });
+  }
+
   /**
    * 提交反馈
    * @param feedback 反馈数据
    */
   async submitFeedback(feedback: Omit<Feedback, 'id' | 'timestamp' | 'status'>): Promise<void> {
+    await storageManager.whenReady();
+
     // 添加到本地队列
     const queue = this.getFeedbackQueue();
     const newFeedback: Feedback = {
@@ -42,11 +69,8 @@ export class FeedbackManager {
     queue.push(newFeedback);
 
     // 保存到本地存储
-    try {
-      localStorage.setItem(this.QUEUE_KEY, JSON.stringify(queue));
-    } catch (error) {
-      console.warn('保存反馈到本地存储失败:', error);
-    }
+    storageManager.setItem(this.QUEUE_KEY, queue);
+    this.updateLikedGames([newFeedback]);
 
     // 通知监听器
     this.notifyListeners(queue);
@@ -60,6 +84,8 @@ export class FeedbackManager {
    * @param feedbacks 反馈数据数组
    */
   async submitFeedbackBatch(feedbacks: Omit<Feedback, 'id' | 'timestamp' | 'status'>[]): Promise<void> {
+    await storageManager.whenReady();
+
     const queue = this.getFeedbackQueue();
     
     const newFeedbacks: Feedback[] = feedbacks.map(feedback => ({
@@ -72,11 +98,8 @@ export class FeedbackManager {
     queue.push(...newFeedbacks);
 
     // 保存到本地存储
-    try {
-      localStorage.setItem(this.QUEUE_KEY, JSON.stringify(queue));
-    } catch (error) {
-      console.warn('保存反馈到本地存储失败:', error);
-    }
+    storageManager.setItem(this.QUEUE_KEY, queue);
+    this.updateLikedGames(newFeedbacks);
 
     // 通知监听器
     this.notifyListeners(queue);
@@ -90,11 +113,35 @@ export class FeedbackManager {
    * @returns 反馈数组
    */
   getFeedbackQueue(): Feedback[] {
-    try {
-      const queue = localStorage.getItem(this.QUEUE_KEY);
-      return queue ? JSON.parse(queue) : [];
-    } catch {
-      return [];
+    return storageManager.getValidatedItem(this.QUEUE_KEY, z.array(FeedbackSchema), [], repairArray(FeedbackSchema));
+  }
+
+  /**
+   * 获取点亮过（给过好评）的游戏
+   * 最近点亮的在前，之后给出差评的游戏会被移除
+   * @returns 游戏ID数组
+   */
+  getLikedGameIds(): string[] {
+    return storageManager.getValidatedItem(this.LIKED_KEY, IdListSchema, [], repairIdList);
+  }
+
+  /**
+   * 按新反馈更新点亮过的游戏
+   */
+  private updateLikedGames(feedbacks: Feedback[]): void {
+    let liked = this.getLikedGameIds();
+    const before = liked;
+
+    feedbacks.forEach(feedback => {
+      if (feedback.type === 'positive') {
+        liked = [feedback.gameId, ...liked.filter(id => id !== feedback.gameId)];
+      } else if (feedback.type === 'negative') {
+        liked = liked.filter(id => id !== feedback.gameId);
+      }
+    });
+
+    if (liked !== before) {
+      storageManager.setItem(this.LIKED_KEY, liked.slice(0, this.MAX_LIKED));
     }
   }
 
@@ -116,15 +163,33 @@ export class FeedbackManager {
     return queue.filter(f => f.status === 'synced');
   }
 
+  /**
+   * 提交家长评分
+   * 进入同步队列，离线时联网后自动发送
+   * @param gameId 游戏ID
+   * @param rating 评分（1-5）
+   * @param comment 评语
+   */
+  submitRating(gameId: string, rating: number, comment?: string): void {
+    syncOutbox.enqueue({ type: 'rating', payload: { gameId, rating, comment } });
+  }
+
+  /**
+   * 举报游戏
+   * 进入同步队列，离线时联网后自动发送
+   * @param gameId 游戏ID
+   * @param reason 举报原因
+   * @param details 补充说明
+   */
+  reportGame(gameId: string, reason: string, details?: string): void {
+    syncOutbox.enqueue({ type: 'report', payload: { gameId, reason, details } });
+  }
+
   /**
    * 清空反馈队列
    */
   clearQueue(): void {
-    try {
-      localStorage.removeItem(this.QUEUE_KEY);
-    } catch (error) {
-      console.warn('清空反馈队列失败:', error);
-    }
+    storageManager.removeItem(this.QUEUE_KEY);
     this.notifyListeners([]);
   }
 
@@ -135,13 +200,7 @@ export class FeedbackManager {
    */
   async getFeedbackStats(gameId: string): Promise<FeedbackStats> {
     try {
-      const response = await fetch(`/api/games/${gameId}/feedback/stats`);
-      
-      if (!response.ok) {
-        throw new Error('获取反馈统计失败');
-      }
-
-      return await response.json();
+      return await apiClient.getFeedbackStats(gameId);
     } catch (error) {
       console.warn('获取反馈统计失败:', error);
       
@@ -164,13 +223,7 @@ export class FeedbackManager {
    */
   async getUserFeedbackHistory(userId: string): Promise<Feedback[]> {
     try {
-      const response = await fetch(`/api/users/${userId}/feedback`);
-      
-      if (!response.ok) {
-        throw new Error('获取用户反馈历史失败');
-      }
-
-      return await response.json();
+      return await apiClient.getUserFeedbackHistory(userId);
     } catch (error) {
       console.warn('获取用户反馈历史失败:', error);
       return [];
@@ -208,47 +261,35 @@ export class FeedbackManager {
 
   /**
    * 同步到服务器
+   * 待同步的反馈以反馈ID作为幂等键进入同步队列，重复提交不会产生重复记录
    */
   async syncToServer(): Promise<void> {
-    const queue = this.getFeedbackQueue();
-    const pendingFeedback = queue.filter(f => f.status === 'pending');
-
-    if (pendingFeedback.length === 0) return;
-
-    try {
-      const response = await fetch('/api/feedback/batch', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ feedbacks: pendingFeedback })
-      });
-
-      if (!response.ok) {
-        throw new Error('同步反馈到服务器失败');
-      }
-
-      // 更新本地队列状态
-      const updatedQueue = queue.map(f => {
-        if (f.status === 'pending') {
-          return { ...f, status: 'synced' as const, syncedAt: Date.now() };
-        }
-        return f;
+    await storageManager.whenReady();
+
+    this.getPendingFeedback()
+      .filter(feedback => feedback.id && !syncOutbox.has(`feedback:${feedback.id}`))
+      .forEach(feedback => {
+        syncOutbox.enqueue(
+          { type: 'feedback', payload: feedback },
+          { idempotencyKey: feedback.id, dedupeKey: `feedback:${feedback.id}` }
+        );
       });
 
-      try {
-        localStorage.setItem(this.QUEUE_KEY, JSON.stringify(updatedQueue));
-      } catch (error) {
-        console.warn('更新反馈队列状态失败:', error);
-      }
+    await syncOutbox.flush();
+  }
 
-      // 通知监听器
-      this.notifyListeners(updatedQueue);
+  /**
+   * 标记反馈已同步，并清理超过保留时间的已同步反馈
+   * @param feedbackId 反馈ID
+   */
+  private markSynced(feedbackId: string): void {
+    const now = Date.now();
+    const queue = this.getFeedbackQueue()
+      .map(f => (f.id === feedbackId ? { ...f, status: 'synced' as const, syncedAt: now } : f))
+      .filter(f => f.status !== 'synced' || now - (f.syncedAt ?? 0) < this.SYNCED_RETENTION);
 
-    } catch (error) {
-      console.warn('同步反馈到服务器失败:', error);
-      // 失败时不抛出错误，因为本地已保存
-    }
+    storageManager.setItem(this.QUEUE_KEY, queue);
+    this.notifyListeners(queue);
   }
 
   /**
@@ -0,0 +1,422 @@
+/**
+ * 游戏目录服务
+ * 微学宝盒 - 分页加载游戏列表，按筛选条件缓存并在后台重新验证
+ */
+
+import type { PaginationParams, PaginationResponse } from '@/types/api';
+import type { GameCard } from '@/types/game';
+import { apiClient } from '@/services/ApiClient';
+import { gameSearchIndex } from '@/services/GameSearchIndex';
+import { trustFilter } from '@/services/TrustFilter';
+import { ApiRequestError } from '@/utils/ApiErrorHandler';
+
+/**
+ * 游戏列表筛选条件
+ */
+export interface GameListFilter {
+  ageRange?: [number, number];
+  category?: string;
+  sortBy?: 'trust' | 'recent' | 'popular';
+}
+
+/**
+ * 游戏列表状态
+ */
+export interface GameListState {
+  /** 已加载的游戏（按ID去重） */
+  games: GameCard[];
+  /** 服务端总数 */
+  total: number;
+  /** 已加载到的页码，0表示尚未加载 */
+  page: number;
+  /** 是否还有更多 */
+  hasMore: boolean;
+  /** 是否正在加载首屏或下一页 */
+  loading: boolean;
+  /** 是否正在后台重新验证 */
+  revalidating: boolean;
+  /** 最近一次错误 */
+  error: Error | null;
+  /** 最近一次成功加载时间 */
+  updatedAt: number;
+}
+
+/**
+ * 初始列表状态
+ */
+const EMPTY_STATE: GameListState = {
+  games: [],
+  total: 0,
+  page: 0,
+  hasMore: true,
+  loading: false,
+  revalidating: false,
+  error: null,
+  updatedAt: 0
+};
+
+/**
+ * 游戏目录类
+ * 每个筛选条件对应一份缓存，过期后先返回旧数据再后台刷新
+ */
+export class GameCatalog {
+  private static instance: GameCatalog;
+  /** 每页数量 */
+  readonly PAGE_SIZE = 20;
+  /** 缓存新鲜期（毫秒） */
+  readonly STALE_TIME = 60 * 1000;
+  /** 翻页去重后为空时最多连续补拉的页数 */
+  private readonly MAX_SKIP_PAGES = 3;
+
+  private cache: Map<string, GameListState> = new Map();
+  private pending: Map<string, Promise<void>> = new Map();
+  private details: Map<string, GameCard> = new Map();
+  private listeners: Map<string, Set<(state: GameListState) => void>> = new Map();
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): GameCatalog {
+    if (!GameCatalog.instance) {
+      GameCatalog.instance = new GameCatalog();
+    }
+    return GameCatalog.instance;
+  }
+
+  /**
+   * 生成筛选条件缓存键
+   * @param filter 筛选条件
+   * @returns 稳定的缓存键
+   */
+  getFilterKey(filter: GameListFilter): string {
+    return JSON.stringify([
+      filter.ageRange ?? null,
+      filter.category ?? null,
+      filter.sortBy ?? 'trust'
+    ]);
+  }
+
+  /**
+   * 获取列表状态
+   * @param filter 筛选条件
+   * @returns 当前缓存的列表状态
+   */
+  getState(filter: GameListFilter): GameListState {
+    return this.cache.get(this.getFilterKey(filter)) || EMPTY_STATE;
+  }
+
+  /**
+   * 加载首屏
+   * 无缓存时加载第一页；缓存过期时保留旧数据并后台重新验证
+   * @param filter 筛选条件
+   */
+  async load(filter: GameListFilter): Promise<void> {
+    const state = this.getState(filter);
+
+    if (state.page === 0) {
+      return this.fetchPage(filter, 1, 'replace');
+    }
+
+    if (Date.now() - state.updatedAt > this.STALE_TIME) {
+      return this.revalidate(filter);
+    }
+  }
+
+  /**
+   * 加载下一页
+   * @param filter 筛选条件
+   */
+  async loadMore(filter: GameListFilter): Promise<void> {
+    const state = this.getState(filter);
+
+    if (state.page === 0) {
+      return this.load(filter);
+    }
+
+    if (!state.hasMore || state.loading) return;
+
+    return this.fetchPage(filter, state.page + 1, 'append');
+  }
+
+  /**
+   * 强制刷新
+   * 等进行中的翻页或重新验证结束后再拉取第一页，避免拿到翻页的结果
+   * @param filter 筛选条件
+   */
+  async refresh(filter: GameListFilter): Promise<void> {
+    const inflight = this.pending.get(this.getFilterKey(filter));
+    if (inflight) await inflight;
+
+    return this.fetchPage(filter, 1, 'replace');
+  }
+
+  /**
+   * 使缓存失效
+   * @param filter 筛选条件，不传则清空全部
+   */
+  invalidate(filter?: GameListFilter): void {
+    if (filter) {
+      const key = this.getFilterKey(filter);
+      const state = this.cache.get(key);
+      if (state) {
+        this.setState(key, { ...state, updatedAt: 0 });
+      }
+    } else {
+      this.cache.forEach((state, key) => this.setState(key, { ...state, updatedAt: 0 }));
+    }
+  }
+
+  /**
+   * 订阅列表变化
+   * @param filter 筛选条件
+   * @param callback 回调函数
+   * @returns 取消订阅函数
+   */
+  subscribe(filter: GameListFilter, callback: (state: GameListState) => void): () => void {
+    const key = this.getFilterKey(filter);
+
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+    this.listeners.get(key)!.add(callback);
+
+    // 立即通知当前状态
+    callback(this.getState(filter));
+
+    return () => {
+      this.listeners.get(key)?.delete(callback);
+    };
+  }
+
+  /**
+   * 获取游戏详情
+   * 优先使用列表中已加载的数据
+   * @param gameId 游戏ID
+   * @returns 游戏详情
+   */
+  async getGameDetail(gameId: string): Promise<GameCard> {
+    const cached = this.details.get(gameId);
+    if (cached) return cached;
+
+    const game = await apiClient.getGameDetail(gameId);
+    this.rememberDetails([game]);
+    return game;
+  }
+
+  /**
+   * 获取已缓存的游戏
+   * @param gameId 游戏ID
+   */
+  getCachedGame(gameId: string): GameCard | undefined {
+    return this.details.get(gameId);
+  }
+
+  /**
+   * 搜索游戏
+   * 离线或网络请求失败时使用本地搜索索引
+   * @param keyword 关键词
+   * @param params 分页参数
+   */
+  async searchGames(keyword: string, params: PaginationParams): Promise<PaginationResponse<GameCard>> {
+    if (!this.isOnline()) {
+      return gameSearchIndex.searchPage(keyword, params);
+    }
+
+    try {
+      const result = await apiClient.searchGames(keyword, params);
+      this.rememberDetails(result.list);
+      return result;
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.isNetworkError) {
+        console.warn('在线搜索失败，使用本地索引:', error);
+        return gameSearchIndex.searchPage(keyword, params);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 获取推荐游戏
+   * 按家长信任偏好过滤，结果可能少于请求数量
+   * @param userId 用户ID
+   * @param limit 数量
+   */
+  async getRecommendedGames(userId: string, limit: number): Promise<GameCard[]> {
+    const games = await apiClient.getRecommendedGames(userId, limit);
+    this.rememberDetails(games);
+    return trustFilter.filter(games).allowed;
+  }
+
+  /**
+   * 获取信任度排行榜
+   * 按家长信任偏好过滤，结果可能少于请求数量
+   * @param ageGroup 年龄段
+   * @param limit 数量
+   */
+  async getTrustRanking(ageGroup: string, limit: number): Promise<GameCard[]> {
+    const games = await apiClient.getTrustRanking(ageGroup, limit);
+    this.rememberDetails(games);
+    return trustFilter.filter(games).allowed;
+  }
+
+  /**
+   * 拉取指定页
+   * 同一筛选条件同时只有一个请求
+   */
+  private fetchPage(filter: GameListFilter, page: number, mode: 'replace' | 'append'): Promise<void> {
+    const key = this.getFilterKey(filter);
+    const inflight = this.pending.get(key);
+    if (inflight) return inflight;
+
+    const current = this.cache.get(key) || EMPTY_STATE;
+    this.setState(key, { ...current, loading: true, error: null });
+
+    const task = this.fetchUntilNew(filter, page, mode === 'append' ? current.games : [])
+      .then(({ games, response, lastPage }) => {
+        this.setState(key, {
+          games,
+          total: response.total,
+          page: lastPage,
+          hasMore: response.hasMore,
+          loading: false,
+          revalidating: false,
+          error: null,
+          updatedAt: Date.now()
+        });
+      })
+      .catch((error: unknown) => {
+        console.warn('加载游戏列表失败:', error);
+        this.setState(key, {
+          ...(this.cache.get(key) || EMPTY_STATE),
+          loading: false,
+          error: error instanceof Error ? error : new Error('加载游戏列表失败')
+        });
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+
+    this.pending.set(key, task);
+    return task;
+  }
+
+  /**
+   * 拉取页面并与已有列表合并去重
+   * 服务端数据插入导致分页后移时，新页可能全是已加载的游戏，此时继续补拉后续页
+   */
+  private async fetchUntilNew(
+    filter: GameListFilter,
+    page: number,
+    existing: GameCard[]
+  ): Promise<{ games: GameCard[]; response: PaginationResponse<GameCard>; lastPage: number }> {
+    let currentPage = page;
+    let games = existing;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await apiClient.getGames({
+        ...filter,
+        page: currentPage,
+        pageSize: this.PAGE_SIZE
+      });
+
+      this.rememberDetails(response.list);
+      const merged = this.mergeUnique(games, response.list);
+      const addedNew = merged.length > games.length;
+      games = merged;
+
+      if (addedNew || !response.hasMore || attempt >= this.MAX_SKIP_PAGES) {
+        return { games, response, lastPage: currentPage };
+      }
+
+      currentPage++;
+    }
+  }
+
+  /**
+   * 后台重新验证
+   * 重新拉取第一页，新数据置前，已加载的后续数据去重保留
+   */
+  private revalidate(filter: GameListFilter): Promise<void> {
+    const key = this.getFilterKey(filter);
+    const inflight = this.pending.get(key);
+    if (inflight) return inflight;
+
+    const current = this.cache.get(key) || EMPTY_STATE;
+    this.setState(key, { ...current, revalidating: true });
+
+    const task = apiClient.getGames({ ...filter, page: 1, pageSize: this.PAGE_SIZE })
+      .then(response => {
+        this.rememberDetails(response.list);
+        const latest = this.cache.get(key) || EMPTY_STATE;
+        this.setState(key, {
+          ...latest,
+          games: this.mergeUnique(response.list, latest.games),
+          total: response.total,
+          hasMore: latest.page > 1 ? latest.hasMore : response.hasMore,
+          revalidating: false,
+          error: null,
+          updatedAt: Date.now()
+        });
+      })
+      .catch((error: unknown) => {
+        // 重新验证失败时保留旧数据
+        console.warn('刷新游戏列表失败:', error);
+        this.setState(key, { ...(this.cache.get(key) || EMPTY_STATE), revalidating: false });
+      })
+      .finally(() => {
+        this.pending.delete(key);
+      });
+
+    this.pending.set(key, task);
+    return task;
+  }
+
+  /**
+   * 按ID合并去重，保留首次出现的位置，数据取最新
+   */
+  private mergeUnique(first: GameCard[], second: GameCard[]): GameCard[] {
+    const merged = new Map<string, GameCard>();
+
+    // Map 覆盖已有键时保持原插入位置
+    [...first, ...second].forEach(game => {
+      merged.set(game.id, this.details.get(game.id) ?? game);
+    });
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * 记录游戏详情并加入本地搜索索引
+   */
+  private rememberDetails(games: GameCard[]): void {
+    games.forEach(game => this.details.set(game.id, game));
+    gameSearchIndex.upsert(games);
+  }
+
+  /**
+   * 是否在线
+   */
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  /**
+   * 更新状态并通知监听器
+   */
+  private setState(key: string, state: GameListState): void {
+    this.cache.set(key, state);
+
+    this.listeners.get(key)?.forEach(callback => {
+      try {
+        callback(state);
+      } catch (error) {
+        console.warn('通知游戏列表监听器失败:', error);
+      }
+    });
+  }
+}
+
+// 导出单例实例
+export const gameCatalog = GameCatalog.getInstance();
+
+export default gameCatalog;
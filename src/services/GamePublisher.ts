@@ -4,6 +4,8 @@
  */
 
 import type { GameSubmission, GameStatus } from '@/types/game';
+import { apiClient } from '@/services/ApiClient';
+import { ApiErrorHandler } from '@/utils/ApiErrorHandler';
 
 /**
  * 游戏发布管理器类
@@ -29,25 +31,10 @@ export class GamePublisher {
    */
   async submitGame(gameData: Omit<GameSubmission, 'id' | 'createdAt'>): Promise<GameSubmission> {
     try {
-      const response = await fetch('/api/publish', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(gameData)
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || '提交游戏失败');
-      }
-
-      return await response.json();
+      return await apiClient.submitGame(gameData);
     } catch (error) {
-      console.error('提交游戏失败:', error);
-      
-      // 开发环境返回模拟数据
-      return this.getMockSubmission(gameData);
+      ApiErrorHandler.handleApiError(error, '提交游戏');
+      throw error;
     }
   }
 
@@ -58,18 +45,10 @@ export class GamePublisher {
    */
   async getGameStatus(gameId: string): Promise<GameStatus> {
     try {
-      const response = await fetch(`/api/publish/${gameId}/status`);
-
-      if (!response.ok) {
-        throw new Error('获取游戏状态失败');
-      }
-
-      return await response.json();
+      return await apiClient.getGameStatus(gameId);
     } catch (error) {
-      console.error('获取游戏状态失败:', error);
-      
-      // 返回模拟状态
-      return this.getMockStatus(gameId);
+      ApiErrorHandler.handleApiError(error, '获取游戏状态');
+      throw error;
     }
   }
 
@@ -80,16 +59,10 @@ export class GamePublisher {
    */
   async getUserGames(userId: string): Promise<GameSubmission[]> {
     try {
-      const response = await fetch(`/api/users/${userId}/games`);
-
-      if (!response.ok) {
-        throw new Error('获取用户作品列表失败');
-      }
-
-      return await response.json();
+      return await apiClient.getUserGames(userId);
     } catch (error) {
-      console.error('获取用户作品列表失败:', error);
-      return [];
+      ApiErrorHandler.handleApiError(error, '获取用户作品列表');
+      throw error;
     }
   }
 
@@ -99,15 +72,9 @@ export class GamePublisher {
    */
   async cancelSubmission(gameId: string): Promise<void> {
     try {
-      const response = await fetch(`/api/publish/${gameId}`, {
-        method: 'DELETE'
-      });
-
-      if (!response.ok) {
-        throw new Error('取消提交失败');
-      }
+      await apiClient.cancelSubmission(gameId);
     } catch (error) {
-      console.error('取消提交失败:', error);
+      ApiErrorHandler.handleApiError(error, '取消提交');
       throw error;
     }
   }
@@ -122,57 +89,12 @@ export class GamePublisher {
     data: Partial<GameSubmission>
   ): Promise<GameSubmission> {
     try {
-      const response = await fetch(`/api/publish/${gameId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(data)
-      });
-
-      if (!response.ok) {
-        throw new Error('更新提交信息失败');
-      }
-
-      return await response.json();
+      return await apiClient.updateSubmission(gameId, data);
     } catch (error) {
-      console.error('更新提交信息失败:', error);
+      ApiErrorHandler.handleApiError(error, '更新提交信息');
       throw error;
     }
   }
-
-  /**
-   * 获取模拟提交数据
-   */
-  private getMockSubmission(
-    gameData: Omit<GameSubmission, 'id' | 'createdAt'>
-  ): GameSubmission {
-    return {
-      ...gameData,
-      id: `game_${Date.now()}`,
-      createdAt: Date.now(),
-      status: 'pending'
-    };
-  }
-
-  /**
-   * 获取模拟状态
-   */
-  private getMockStatus(gameId: string): GameStatus {
-    const statuses: GameStatus['status'][] = ['pending', 'approved', 'rejected'];
-    const status = statuses[Math.floor(Math.random() * statuses.length)];
-
-    return {
-      id: gameId,
-      status,
-      reviewProgress: {
-        current: status === 'pending' ? 2 : 3,
-        total: 3
-      },
-      estimatedCompletion: Date.now() + 24 * 60 * 60 * 1000,
-      previewUrl: status === 'approved' ? `https://preview.example.com/${gameId}` : undefined
-    };
-  }
 }
 
 // 导出单例实例
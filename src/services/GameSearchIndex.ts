@@ -0,0 +1,550 @@
+/**
+ * 游戏搜索索引
+ * 微学宝盒 - 本地全文搜索，支持中文分词、拼音/首字母匹配和容错
+ */
+
+import { pinyin } from 'pinyin-pro';
+import { z } from 'zod';
+import type { PaginationParams, PaginationResponse } from '@/types/api';
+import type { GameCard } from '@/types/game';
+import { STORAGE_KEYS } from '@/types/user';
+import { storageManager } from '@/services/StorageManager';
+import { GameCardSchema } from '@/schemas/game';
+import { repairArray } from '@/schemas/common';
+
+/**
+ * 可搜索字段
+ */
+export type SearchField = 'title' | 'skills' | 'creator' | 'description';
+
+/**
+ * 搜索结果
+ */
+export interface SearchResult {
+  game: GameCard;
+  /** 综合得分（相关度 × 信任加权） */
+  score: number;
+  /** 命中的字段 */
+  matchedFields: SearchField[];
+}
+
+/**
+ * 输入联想
+ */
+export interface SearchSuggestion {
+  /** 联想文本 */
+  text: string;
+  /** 联想来源 */
+  type: 'game' | 'skill' | 'creator';
+  /** 对应游戏ID（仅 type 为 game 时） */
+  gameId?: string;
+}
+
+/**
+ * 单个字段的索引数据
+ */
+interface IndexedField {
+  /** 规范化后的原文 */
+  text: string;
+  /** 中文单字、双字及英文单词 */
+  terms: Set<string>;
+  /** 全拼（无声调、无分隔） */
+  pinyinFull: string;
+  /** 拼音首字母 */
+  pinyinInitials: string;
+}
+
+/**
+ * 索引文档
+ */
+interface IndexedDocument {
+  game: GameCard;
+  fields: Record<SearchField, IndexedField>;
+}
+
+/**
+ * 字段权重
+ */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  skills: 2,
+  creator: 1.5,
+  description: 1
+};
+
+/**
+ * 参与拼音匹配的字段（描述过长，只做文字匹配）
+ */
+const PINYIN_FIELDS: SearchField[] = ['title', 'skills', 'creator'];
+
+const CJK_PATTERN = /[\u3400-\u9fff]/;
+const SEGMENT_PATTERN = /[\u3400-\u9fff]+|[a-z0-9]+/g;
+
+/**
+ * 文本规范化：全角转半角、转小写
+ */
+function normalize(text: string): string {
+  return text.normalize('NFKC').toLowerCase().trim();
+}
+
+/**
+ * 分词
+ * 中文按单字和相邻双字切分，英文和数字按单词切分
+ */
+function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const segment of normalize(text).match(SEGMENT_PATTERN) || []) {
+    if (!CJK_PATTERN.test(segment)) {
+      terms.push(segment);
+      continue;
+    }
+
+    const chars = Array.from(segment);
+    chars.forEach((char, index) => {
+      terms.push(char);
+      if (index < chars.length - 1) {
+        terms.push(char + chars[index + 1]);
+      }
+    });
+  }
+
+  return terms;
+}
+
+/**
+ * 查询分词
+ * 中文片段只取双字（单字片段取单字），减少单字误命中
+ */
+function tokenizeQuery(query: string): string[] {
+  const terms: string[] = [];
+
+  for (const segment of query.match(SEGMENT_PATTERN) || []) {
+    const chars = Array.from(segment);
+    if (!CJK_PATTERN.test(segment) || chars.length === 1) {
+      terms.push(segment);
+      continue;
+    }
+
+    for (let i = 0; i < chars.length - 1; i++) {
+      terms.push(chars[i] + chars[i + 1]);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * 转换为拼音音节
+ */
+function toSyllables(text: string): string[] {
+  if (!CJK_PATTERN.test(text)) return [];
+  return pinyin(text, { toneType: 'none', type: 'array', nonZh: 'removed', v: true })
+    .filter(syllable => syllable.length > 0);
+}
+
+/**
+ * 编辑距离（含相邻字符交换），超过上限时提前返回
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+/**
+ * 按查询长度允许的拼写错误数
+ */
+function allowedEdits(query: string): number {
+  if (query.length >= 8) return 2;
+  if (query.length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * 游戏搜索索引类
+ * 索引游戏标题、描述、技能和创作者，并持久化以便离线搜索
+ */
+export class GameSearchIndex {
+  private static instance: GameSearchIndex;
+  /** 本地最多保留的游戏数量 */
+  private readonly MAX_DOCUMENTS = 500;
+  /** 持久化防抖时间（毫秒） */
+  private readonly PERSIST_DELAY = 1000;
+  /** 信任分加权系数：满分游戏得分提升 50% */
+  private readonly TRUST_BOOST = 0.5;
+  /** 中文查询至少命中的双字比例 */
+  private readonly MIN_COVERAGE = 0.5;
+
+  private documents: Map<string, IndexedDocument> = new Map();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private restored: Promise<void>;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): GameSearchIndex {
+    if (!GameSearchIndex.instance) {
+      GameSearchIndex.instance = new GameSearchIndex();
+    }
+    return GameSearchIndex.instance;
+  }
+
+  constructor() {
+    // 游戏缓存保存在 IndexedDB，加载完成后再恢复
+    this.restored = storageManager.whenReady().then(() => this.restore());
+  }
+
+  /**
+   * 已索引的游戏数量
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  // ==================== 索引维护 ====================
+
+  /**
+   * 添加或更新游戏
+   * @param games 游戏列表
+   */
+  upsert(games: GameCard[]): void {
+    if (games.length === 0) return;
+
+    games.forEach(game => {
+      // 重新插入以保持最近使用的游戏在末尾
+      this.documents.delete(game.id);
+      this.documents.set(game.id, this.createDocument(game));
+    });
+
+    this.evict();
+    this.schedulePersist();
+  }
+
+  /**
+   * 移除游戏
+   * @param gameId 游戏ID
+   */
+  remove(gameId: string): void {
+    if (this.documents.delete(gameId)) {
+      this.schedulePersist();
+    }
+  }
+
+  /**
+   * 清空索引
+   */
+  clear(): void {
+    this.documents.clear();
+    storageManager.removeItem(STORAGE_KEYS.GAME_CACHE);
+  }
+
+  // ==================== 搜索 ====================
+
+  /**
+   * 搜索游戏
+   * @param keyword 关键词
+   * @param limit 最多返回数量
+   * @returns 按得分排序的结果
+   */
+  search(keyword: string, limit?: number): SearchResult[] {
+    const query = normalize(keyword);
+    if (!query) return [];
+
+    const queryTerms = tokenizeQuery(query);
+    const compactQuery = query.replace(/\s+/g, '');
+    const isLatinQuery = /^[a-z]+$/.test(compactQuery);
+    const queryPinyin = isLatinQuery ? compactQuery : toSyllables(query).join('');
+
+    const results: SearchResult[] = [];
+
+    this.documents.forEach(doc => {
+      let relevance = 0;
+      const matchedFields: SearchField[] = [];
+
+      (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+        const indexed = doc.fields[field];
+        const textScore = this.scoreText(indexed, query, queryTerms);
+        const pinyinScore = PINYIN_FIELDS.includes(field) && queryPinyin
+          ? this.scorePinyin(indexed, queryPinyin, isLatinQuery)
+          : 0;
+        const fieldScore = Math.max(textScore, pinyinScore);
+
+        if (fieldScore > 0) {
+          relevance += FIELD_WEIGHTS[field] * fieldScore;
+          matchedFields.push(field);
+        }
+      });
+
+      if (relevance > 0) {
+        const trust = Math.min(Math.max(doc.game.trustScore, 0), 5) / 5;
+        results.push({
+          game: doc.game,
+          score: relevance * (1 + this.TRUST_BOOST * trust),
+          matchedFields
+        });
+      }
+    });
+
+    results.sort((a, b) =>
+      b.score - a.score ||
+      b.game.trustScore - a.game.trustScore ||
+      a.game.title.localeCompare(b.game.title, 'zh-CN')
+    );
+
+    return limit !== undefined ? results.slice(0, limit) : results;
+  }
+
+  /**
+   * 分页搜索，返回与 GameListAPI.searchGames 一致的结构
+   * @param keyword 关键词
+   * @param params 分页参数
+   */
+  searchPage(keyword: string, params: PaginationParams): PaginationResponse<GameCard> {
+    const results = this.search(keyword);
+    const start = (params.page - 1) * params.pageSize;
+    const list = results.slice(start, start + params.pageSize).map(result => result.game);
+
+    return {
+      list,
+      total: results.length,
+      page: params.page,
+      pageSize: params.pageSize,
+      hasMore: start + list.length < results.length
+    };
+  }
+
+  /**
+   * 输入联想
+   * @param input 当前输入
+   * @param limit 最多返回数量
+   * @returns 游戏标题、技能和创作者联想
+   */
+  suggest(input: string, limit: number = 8): SearchSuggestion[] {
+    const query = normalize(input);
+    if (!query) return [];
+
+    const suggestions: SearchSuggestion[] = [];
+    const seen = new Set<string>();
+    const add = (suggestion: SearchSuggestion) => {
+      if (seen.has(suggestion.text) || suggestions.length >= limit) return;
+      seen.add(suggestion.text);
+      suggestions.push(suggestion);
+    };
+
+    const results = this.search(query, limit);
+    const titleMatches = results.filter(result => result.matchedFields.includes('title'));
+    const otherMatches = results.filter(result => !result.matchedFields.includes('title'));
+
+    // 标题命中的游戏优先，其次技能和创作者，最后是其他字段命中的游戏
+    titleMatches.forEach(result => {
+      add({ text: result.game.title, type: 'game', gameId: result.game.id });
+    });
+
+    // 技能和创作者按前缀匹配（原文、全拼或首字母）
+    const compactQuery = query.replace(/\s+/g, '');
+    const matchesPrefix = (text: string) => {
+      const normalized = normalize(text);
+      if (normalized.startsWith(query)) return true;
+      const syllables = toSyllables(normalized);
+      return syllables.length > 0 && (
+        syllables.join('').startsWith(compactQuery) ||
+        syllables.map(s => s[0]).join('').startsWith(compactQuery)
+      );
+    };
+
+    this.documents.forEach(doc => {
+      doc.game.skills.forEach(skill => {
+        if (matchesPrefix(skill)) add({ text: skill, type: 'skill' });
+      });
+      if (matchesPrefix(doc.game.creator.name)) {
+        add({ text: doc.game.creator.name, type: 'creator' });
+      }
+    });
+
+    otherMatches.forEach(result => {
+      add({ text: result.game.title, type: 'game', gameId: result.game.id });
+    });
+
+    return suggestions;
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 文字匹配得分
+   * 整句命中得满分，否则按查询词命中比例计分，英文单词允许少量拼写错误
+   */
+  private scoreText(field: IndexedField, query: string, queryTerms: string[]): number {
+    if (!field.text || queryTerms.length === 0) return 0;
+    if (field.text.includes(query)) return 1;
+
+    let matched = 0;
+    let hasCjk = false;
+
+    queryTerms.forEach(term => {
+      if (CJK_PATTERN.test(term)) {
+        hasCjk = true;
+        if (field.terms.has(term)) matched++;
+        return;
+      }
+
+      if (field.terms.has(term)) {
+        matched++;
+        return;
+      }
+
+      const maxEdits = allowedEdits(term);
+      for (const candidate of field.terms) {
+        if (CJK_PATTERN.test(candidate)) continue;
+        if (candidate.startsWith(term) || (maxEdits > 0 && editDistance(term, candidate, maxEdits) <= maxEdits)) {
+          matched += 0.7;
+          break;
+        }
+      }
+    });
+
+    const coverage = matched / queryTerms.length;
+    if (hasCjk && coverage < this.MIN_COVERAGE) return 0;
+
+    return coverage * 0.8;
+  }
+
+  /**
+   * 拼音匹配得分
+   * 支持全拼、首字母前缀/包含匹配；中文查询转拼音后可容忍同音字
+   */
+  private scorePinyin(field: IndexedField, queryPinyin: string, isLatinQuery: boolean): number {
+    const { pinyinFull, pinyinInitials } = field;
+    if (!pinyinFull) return 0;
+
+    if (isLatinQuery) {
+      if (pinyinInitials.startsWith(queryPinyin) || pinyinFull.startsWith(queryPinyin)) return 0.9;
+      if (queryPinyin.length >= 2 && (pinyinInitials.includes(queryPinyin) || pinyinFull.includes(queryPinyin))) {
+        return 0.7;
+      }
+    } else if (pinyinFull.includes(queryPinyin)) {
+      // 中文同音字
+      return 0.7;
+    }
+
+    const maxEdits = allowedEdits(queryPinyin);
+    if (maxEdits === 0) return 0;
+
+    const fullPrefix = pinyinFull.slice(0, queryPinyin.length);
+    if (editDistance(queryPinyin, fullPrefix, maxEdits) <= maxEdits) return 0.5;
+
+    if (isLatinQuery && editDistance(queryPinyin, pinyinInitials, 1) <= 1) return 0.5;
+
+    return 0;
+  }
+
+  /**
+   * 构建索引文档
+   */
+  private createDocument(game: GameCard): IndexedDocument {
+    return {
+      game,
+      fields: {
+        title: this.indexField(game.title, true),
+        skills: this.indexField(game.skills.join(' '), true),
+        creator: this.indexField(game.creator?.name || '', true),
+        description: this.indexField(game.description || '', false)
+      }
+    };
+  }
+
+  /**
+   * 构建字段索引
+   */
+  private indexField(text: string, withPinyin: boolean): IndexedField {
+    const normalized = normalize(text);
+    const syllables = withPinyin ? toSyllables(normalized) : [];
+
+    return {
+      text: normalized,
+      terms: new Set(tokenize(normalized)),
+      pinyinFull: syllables.join(''),
+      pinyinInitials: syllables.map(syllable => syllable[0]).join('')
+    };
+  }
+
+  /**
+   * 超出容量时移除最早加入的游戏
+   */
+  private evict(): void {
+    const overflow = this.documents.size - this.MAX_DOCUMENTS;
+    if (overflow <= 0) return;
+
+    Array.from(this.documents.keys())
+      .slice(0, overflow)
+      .forEach(id => this.documents.delete(id));
+  }
+
+  /**
+   * 延迟持久化，合并短时间内的多次更新
+   */
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      // 恢复完成前写入会覆盖尚未读取的缓存
+      this.restored.then(() => {
+        const games = Array.from(this.documents.values()).map(doc => doc.game);
+        storageManager.setItem(STORAGE_KEYS.GAME_CACHE, games);
+      });
+    }, this.PERSIST_DELAY);
+  }
+
+  /**
+   * 从本地存储恢复索引
+   * 恢复前已加入的游戏更新，保留在末尾
+   */
+  private restore(): void {
+    const games = storageManager.getValidatedItem(
+      STORAGE_KEYS.GAME_CACHE,
+      z.array(GameCardSchema),
+      [],
+      repairArray(GameCardSchema)
+    );
+    if (games.length === 0) return;
+
+    const documents: Map<string, IndexedDocument> = new Map();
+    games.forEach(game => documents.set(game.id, this.createDocument(game)));
+    this.documents.forEach((doc, id) => {
+      documents.delete(id);
+      documents.set(id, doc);
+    });
+
+    this.documents = documents;
+    this.evict();
+  }
+}
+
+// 导出单例实例
+export const gameSearchIndex = GameSearchIndex.getInstance();
+
+export default gameSearchIndex;
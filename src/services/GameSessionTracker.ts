@@ -0,0 +1,289 @@
+/**
+ * 游戏会话记录
+ * 微学宝盒 - 只累计前台游戏时长，刷新页面后继续计时，退出时连同反馈一起上报并记入游戏日志
+ */
+
+import Taro from '@tarojs/taro';
+import { STORAGE_KEYS } from '@/types/user';
+import type { ActiveGameSession, Feedback } from '@/types/game';
+import { apiClient } from '@/services/ApiClient';
+import { storageManager } from '@/services/StorageManager';
+import { syncOutbox } from '@/services/SyncOutbox';
+import { playHistory } from '@/services/PlayHistory';
+import { ActiveGameSessionSchema } from '@/schemas/game';
+import { isMiniProgram } from '@/utils/env';
+
+/**
+ * 游戏信息，记入游戏日志
+ */
+export type GameSessionDetails = Pick<ActiveGameSession, 'title' | 'skills'>;
+
+/**
+ * 已结束的会话
+ */
+export interface EndedGameSession {
+  gameId: string;
+  startTime: number;
+  /** 前台游戏时长（毫秒） */
+  duration: number;
+}
+
+/** 保存累计时长的间隔，刷新页面最多丢失这么久 */
+const CHECKPOINT_MS = 15 * 1000;
+
+/** 超过这么久没有累计的会话视为已中断，不再继续 */
+const RESUME_WINDOW_MS = 30 * 60 * 1000;
+
+/**
+ * 游戏会话记录类
+ * 同一时间只有一个进行中的会话；页面隐藏、应用切到后台或调用方暂停时不计时
+ */
+export class GameSessionTracker {
+  private static instance: GameSessionTracker;
+  private readonly STORAGE_KEY = STORAGE_KEYS.ACTIVE_SESSION;
+
+  /** 本次计时的起点，未在计时时为 null */
+  private runningSince: number | null = null;
+  /** 页面是否在前台 */
+  private foreground = true;
+  /** 调用方是否允许计时（如弹窗遮挡游戏时暂停） */
+  private active = true;
+  private checkpointTimer: ReturnType<typeof setInterval> | null = null;
+  /** 进行中的会话创建请求，按本地ID区分 */
+  private starting: Map<string, Promise<void>> = new Map();
+  /** 已创建成功的服务端会话ID，按本地ID区分 */
+  private remoteIds: Map<string, string> = new Map();
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): GameSessionTracker {
+    if (!GameSessionTracker.instance) {
+      GameSessionTracker.instance = new GameSessionTracker();
+    }
+    return GameSessionTracker.instance;
+  }
+
+  constructor() {
+    this.listenForForeground();
+  }
+
+  // ==================== 会话 ====================
+
+  /**
+   * 开始游戏会话
+   * 同一游戏未中断的会话（如刷新页面前的）继续计时，其他游戏或已中断的会话先结束
+   * @param gameId 游戏ID
+   * @param details 游戏信息
+   * @param now 当前时间
+   * @returns 进行中的会话
+   */
+  start(gameId: string, details: GameSessionDetails = {}, now: number = Date.now()): ActiveGameSession {
+    const current = this.getCurrent();
+    if (current && current.gameId === gameId && now - current.lastSeenAt < RESUME_WINDOW_MS) {
+      this.save({ ...current, lastSeenAt: now });
+      this.updateRunning(now);
+      if (!current.sessionId) {
+        this.createRemote(current);
+      }
+      return this.getCurrent()!;
+    }
+
+    if (current) {
+      this.end();
+    }
+
+    const session: ActiveGameSession = {
+      localId: `${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      gameId,
+      startTime: now,
+      activeMs: 0,
+      lastSeenAt: now,
+      ...details
+    };
+    this.save(session);
+    this.updateRunning(now);
+    this.createRemote(session);
+
+    return session;
+  }
+
+  /**
+   * 暂停或恢复计时
+   * @param active 是否允许计时
+   */
+  setActive(active: boolean): void {
+    this.active = active;
+    this.updateRunning();
+  }
+
+  /**
+   * 获取进行中的会话
+   */
+  getCurrent(): ActiveGameSession | null {
+    return storageManager.getValidatedItem(this.STORAGE_KEY, ActiveGameSessionSchema.nullable(), null);
+  }
+
+  /**
+   * 获取进行中会话的前台时长
+   * @param now 当前时间
+   * @returns 毫秒，没有进行中的会话时为 0
+   */
+  getActiveMs(now: number = Date.now()): number {
+    const current = this.getCurrent();
+    if (!current) return 0;
+
+    return current.activeMs + (this.runningSince !== null ? now - this.runningSince : 0);
+  }
+
+  /**
+   * 结束游戏会话并上报
+   * 会话创建请求尚未返回时，等其返回后再上报
+   * @param feedback 退出时的反馈
+   * @param now 当前时间
+   * @returns 已结束的会话，没有进行中的会话时返回 null
+   */
+  end(feedback?: Feedback, now: number = Date.now()): EndedGameSession | null {
+    const current = this.getCurrent();
+    if (!current) return null;
+
+    const duration = this.getActiveMs(now);
+    this.stopRunning();
+    storageManager.removeItem(this.STORAGE_KEY);
+
+    playHistory.addSession({
+      id: current.localId,
+      gameId: current.gameId,
+      title: current.title,
+      skills: current.skills,
+      startTime: current.startTime,
+      duration,
+      feedback: feedback?.type
+    });
+
+    const enqueue = () => {
+      syncOutbox.enqueue(
+        {
+          type: 'session-end',
+          payload: {
+            sessionId: this.getRemoteId(current),
+            gameId: current.gameId,
+            duration,
+            feedback
+          }
+        },
+        { dedupeKey: `session:${current.localId}` }
+      );
+    };
+    const starting = this.starting.get(current.localId);
+    if (starting) {
+      starting.then(enqueue);
+    } else {
+      enqueue();
+    }
+
+    return { gameId: current.gameId, startTime: current.startTime, duration };
+  }
+
+  // ==================== 私有方法 ====================
+
+  private getRemoteId(session: ActiveGameSession): string | undefined {
+    return session.sessionId ?? this.remoteIds.get(session.localId);
+  }
+
+  /**
+   * 在服务端创建会话
+   * 失败（如离线、未登录）时不影响本地计时，结束时由同步队列补建
+   */
+  private createRemote(session: ActiveGameSession): void {
+    if (this.starting.has(session.localId)) return;
+
+    const request = apiClient.startGameSession(session.gameId)
+      .then(remote => {
+        this.remoteIds.set(session.localId, remote.id);
+        const current = this.getCurrent();
+        if (current?.localId === session.localId) {
+          this.save({ ...current, sessionId: remote.id });
+        }
+      })
+      .catch(error => {
+        console.warn('创建游戏会话失败:', error);
+      })
+      .finally(() => {
+        this.starting.delete(session.localId);
+      });
+
+    this.starting.set(session.localId, request);
+  }
+
+  /**
+   * 按前台状态和调用方状态开始或停止计时
+   */
+  private updateRunning(now: number = Date.now()): void {
+    const shouldRun = this.foreground && this.active && this.getCurrent() !== null;
+
+    if (shouldRun && this.runningSince === null) {
+      this.runningSince = now;
+      this.checkpointTimer = setInterval(() => this.checkpoint(), CHECKPOINT_MS);
+    } else if (!shouldRun && this.runningSince !== null) {
+      this.checkpoint(now);
+      this.stopRunning();
+    }
+  }
+
+  /**
+   * 把正在计时的时长写入会话
+   */
+  private checkpoint(now: number = Date.now()): void {
+    const current = this.getCurrent();
+    if (!current || this.runningSince === null) return;
+
+    this.save({ ...current, activeMs: current.activeMs + now - this.runningSince, lastSeenAt: now });
+    this.runningSince = now;
+  }
+
+  private stopRunning(): void {
+    if (this.checkpointTimer) {
+      clearInterval(this.checkpointTimer);
+      this.checkpointTimer = null;
+    }
+    this.runningSince = null;
+  }
+
+  private save(session: ActiveGameSession): void {
+    storageManager.setItem(this.STORAGE_KEY, session);
+  }
+
+  /**
+   * 页面隐藏、应用切到后台时暂停计时
+   */
+  private listenForForeground(): void {
+    const setForeground = (foreground: boolean) => {
+      this.foreground = foreground;
+      this.updateRunning();
+    };
+
+    if (isMiniProgram()) {
+      Taro.onAppHide(() => setForeground(false));
+      Taro.onAppShow(() => setForeground(true));
+      return;
+    }
+
+    if (typeof document === 'undefined') return;
+
+    this.foreground = document.visibilityState !== 'hidden';
+    document.addEventListener('visibilitychange', () => {
+      setForeground(document.visibilityState !== 'hidden');
+    });
+
+    // 关闭或刷新页面前保存已累计的时长
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.checkpoint());
+    }
+  }
+}
+
+// 导出单例实例
+export const gameSessionTracker = GameSessionTracker.getInstance();
+
+export default gameSessionTracker;
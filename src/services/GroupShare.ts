@@ -0,0 +1,430 @@
+/**
+ * 分组分享服务
+ * 微学宝盒 - 把收藏分组导出为服务端签名的链接或二维码，并预览、导入别人分享的分组
+ */
+
+import QRCode from 'qrcode';
+import { z } from 'zod';
+import type { GameCard, Group } from '@/types/game';
+import { apiClient } from '@/services/ApiClient';
+import { favoriteManager } from '@/services/FavoriteManager';
+import { gameCatalog } from '@/services/GameCatalog';
+import { storageManager } from '@/services/StorageManager';
+import { trustFilter, type TrustExclusionReason } from '@/services/TrustFilter';
+import { GroupSharePayloadV1Schema } from '@/schemas/share';
+import { base64UrlDecode, base64UrlEncode, utf8Decode, utf8Encode } from '@/utils/crypto';
+
+/**
+ * 分享载荷
+ */
+export type GroupSharePayload = z.infer<typeof GroupSharePayloadV1Schema>;
+
+/**
+ * 分享令牌前缀，后接版本号
+ */
+const TOKEN_PREFIX = 'wx';
+
+/**
+ * 当前载荷版本
+ */
+const CURRENT_VERSION = 1;
+
+/**
+ * 链接中的令牌参数名
+ */
+const TOKEN_PARAM = 's';
+
+/**
+ * 分享令牌错误原因
+ */
+export type GroupShareErrorReason =
+  | 'malformed'
+  | 'unsupported-version'
+  | 'bad-signature'
+  | 'invalid-payload'
+  | 'empty-group'
+  | 'sign-failed'
+  | 'verify-failed';
+
+/**
+ * 分享令牌错误原因显示文本
+ */
+export const GROUP_SHARE_ERROR_TEXT: Record<GroupShareErrorReason, string> = {
+  malformed: '分享链接格式不正确',
+  'unsupported-version': '分享链接版本过新，请升级应用后再试',
+  'bad-signature': '分享链接已被修改或损坏',
+  'invalid-payload': '分享内容无法识别',
+  'empty-group': '分组中没有游戏，无法分享',
+  'sign-failed': '暂时无法生成分享链接，请联网后重试',
+  'verify-failed': '暂时无法验证分享链接，请联网后重试'
+};
+
+/**
+ * 分享令牌错误
+ */
+export class GroupShareError extends Error {
+  /** 错误原因 */
+  readonly reason: GroupShareErrorReason;
+
+  constructor(reason: GroupShareErrorReason) {
+    super(GROUP_SHARE_ERROR_TEXT[reason]);
+    this.name = 'GroupShareError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * 分享链接
+ */
+export interface GroupShareLink {
+  /** 分享令牌 */
+  token: string;
+  /** 分享链接（无法确定分享地址时与令牌相同） */
+  url: string;
+  /** 载荷 */
+  payload: GroupSharePayload;
+}
+
+/**
+ * 预览中的游戏
+ */
+export interface GroupSharePreviewItem {
+  gameId: string;
+  /** 游戏详情，无法获取时为空 */
+  game?: GameCard;
+  /** allowed：符合信任偏好；blocked：不符合；unavailable：无法获取详情 */
+  status: 'allowed' | 'blocked' | 'unavailable';
+  /** 不符合信任偏好的原因 */
+  reasons: TrustExclusionReason[];
+}
+
+/**
+ * 导入预览
+ */
+export interface GroupSharePreview {
+  payload: GroupSharePayload;
+  items: GroupSharePreviewItem[];
+  allowedCount: number;
+  blockedCount: number;
+  unavailableCount: number;
+}
+
+/**
+ * 导入选项
+ */
+export interface GroupShareImportOptions {
+  /** 自定义分组名称，默认使用分享的名称 */
+  name?: string;
+  /** 是否导入不符合信任偏好的游戏 */
+  includeBlocked?: boolean;
+  /** 是否导入无法获取详情的游戏 */
+  includeUnavailable?: boolean;
+}
+
+/**
+ * 二维码模块矩阵
+ */
+export interface QRCodeMatrix {
+  /** 边长（模块数） */
+  size: number;
+  /** 按行排列，true 为深色 */
+  modules: boolean[][];
+}
+
+/**
+ * 解析后的分享令牌
+ */
+interface ParsedShareToken {
+  /** 签名内容：wx<版本>.<载荷> */
+  content: string;
+  payload: GroupSharePayload;
+  signature: string;
+}
+
+/**
+ * 分组分享服务类
+ * 令牌格式：wx<版本>.<载荷>.<签名>，载荷为 Base64URL 编码的 JSON
+ * 签名由服务端用自有密钥生成和验证，应用中不保存密钥；载荷不依赖网络即可解析
+ */
+export class GroupShare {
+  private static instance: GroupShare;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): GroupShare {
+    if (!GroupShare.instance) {
+      GroupShare.instance = new GroupShare();
+    }
+    return GroupShare.instance;
+  }
+
+  // ==================== 导出 ====================
+
+  /**
+   * 创建分组分享链接
+   * @param groupId 分组ID
+   * @returns 分享链接，分组不存在时返回 null
+   * @throws GroupShareError 分组中没有游戏或签名失败时抛出
+   */
+  async createShare(groupId: string): Promise<GroupShareLink | null> {
+    const group = favoriteManager.getGroup(groupId);
+    if (!group) return null;
+
+    return this.createShareFromGroup(group);
+  }
+
+  /**
+   * 根据分组创建分享链接
+   * @param group 分组
+   * @throws GroupShareError 分组中没有游戏或签名失败时抛出
+   */
+  async createShareFromGroup(group: Group): Promise<GroupShareLink> {
+    if (group.gameIds.length === 0) {
+      throw new GroupShareError('empty-group');
+    }
+
+    const nickname = storageManager.getUserInfo()?.nickname;
+    const payload: GroupSharePayload = {
+      v: CURRENT_VERSION,
+      n: group.name.slice(0, 40),
+      g: group.gameIds.slice(0, 50),
+      ...(group.icon ? { i: group.icon } : {}),
+      ...(group.color ? { c: group.color } : {}),
+      ...(typeof nickname === 'string' && nickname ? { a: nickname.slice(0, 20) } : {}),
+      t: Math.floor(Date.now() / 1000)
+    };
+
+    const token = await this.encode(payload);
+    return { token, url: this.buildUrl(token), payload };
+  }
+
+  /**
+   * 编码分享载荷并请求服务端签名
+   * @param payload 载荷
+   * @returns 分享令牌
+   * @throws GroupShareError 签名失败时抛出
+   */
+  async encode(payload: GroupSharePayload): Promise<string> {
+    const content = `${TOKEN_PREFIX}${payload.v}.${base64UrlEncode(utf8Encode(JSON.stringify(payload)))}`;
+
+    let signature: string;
+    try {
+      ({ signature } = await apiClient.signShare(content));
+    } catch (error) {
+      console.warn('分享签名失败:', error);
+      throw new GroupShareError('sign-failed');
+    }
+
+    return `${content}.${signature}`;
+  }
+
+  /**
+   * 生成二维码模块矩阵
+   * 各平台都可以按矩阵绘制，不依赖 canvas
+   * @param text 二维码内容，一般为分享链接
+   */
+  getQRCodeMatrix(text: string): QRCodeMatrix {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+    const rows: boolean[][] = [];
+
+    for (let row = 0; row < modules.size; row++) {
+      const cells: boolean[] = [];
+      for (let col = 0; col < modules.size; col++) {
+        cells.push(!!modules.get(row, col));
+      }
+      rows.push(cells);
+    }
+
+    return { size: modules.size, modules: rows };
+  }
+
+  /**
+   * 生成二维码 SVG
+   * @param text 二维码内容，一般为分享链接
+   */
+  getQRCodeSvg(text: string): Promise<string> {
+    return QRCode.toString(text, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+  }
+
+  // ==================== 导入 ====================
+
+  /**
+   * 解析分享令牌或链接
+   * 只解析载荷，不验证签名，离线也可使用；导入前需通过 verify 验证
+   * @param input 令牌、分享链接或包含链接的文本
+   * @returns 载荷
+   * @throws GroupShareError 格式错误或版本不支持时抛出
+   */
+  decode(input: string): GroupSharePayload {
+    return this.parse(input).payload;
+  }
+
+  /**
+   * 解析分享令牌或链接，并由服务端验证签名
+   * @param input 令牌、分享链接或包含链接的文本
+   * @returns 载荷
+   * @throws GroupShareError 令牌无效、签名不匹配或无法验证时抛出
+   */
+  async verify(input: string): Promise<GroupSharePayload> {
+    const { content, payload, signature } = this.parse(input);
+
+    let valid: boolean;
+    try {
+      ({ valid } = await apiClient.verifyShare(content, signature));
+    } catch (error) {
+      console.warn('分享签名验证失败:', error);
+      throw new GroupShareError('verify-failed');
+    }
+
+    if (!valid) {
+      throw new GroupShareError('bad-signature');
+    }
+
+    return payload;
+  }
+
+  /**
+   * 预览分享的分组
+   * 逐个获取游戏详情，并按当前信任偏好检查
+   * @param input 令牌或分享链接
+   * @throws GroupShareError 令牌无效时抛出
+   */
+  async preview(input: string): Promise<GroupSharePreview> {
+    const payload = await this.verify(input);
+    const options = trustFilter.getOptions();
+
+    const details = await Promise.allSettled(
+      payload.g.map(gameId => gameCatalog.getGameDetail(gameId))
+    );
+
+    const items = payload.g.map((gameId, index): GroupSharePreviewItem => {
+      const detail = details[index];
+      if (detail.status === 'rejected') {
+        return { gameId, status: 'unavailable', reasons: [] };
+      }
+
+      const reasons = trustFilter.getExclusionReasons(detail.value, options);
+      return {
+        gameId,
+        game: detail.value,
+        status: reasons.length > 0 ? 'blocked' : 'allowed',
+        reasons
+      };
+    });
+
+    return {
+      payload,
+      items,
+      allowedCount: items.filter(item => item.status === 'allowed').length,
+      blockedCount: items.filter(item => item.status === 'blocked').length,
+      unavailableCount: items.filter(item => item.status === 'unavailable').length
+    };
+  }
+
+  /**
+   * 将预览的分组保存为新分组
+   * 默认只导入符合信任偏好的游戏；重名时自动加序号
+   * @param preview 导入预览
+   * @param options 导入选项
+   * @returns 新建的分组
+   */
+  async importShare(preview: GroupSharePreview, options: GroupShareImportOptions = {}): Promise<Group> {
+    const { includeBlocked = false, includeUnavailable = false } = options;
+
+    const gameIds = preview.items
+      .filter(item => (
+        item.status === 'allowed' ||
+        (item.status === 'blocked' && includeBlocked) ||
+        (item.status === 'unavailable' && includeUnavailable)
+      ))
+      .map(item => item.gameId);
+
+    return favoriteManager.createGroup({
+      name: this.getAvailableName(options.name?.trim() || preview.payload.n),
+      gameIds,
+      ...(preview.payload.i ? { icon: preview.payload.i } : {}),
+      ...(preview.payload.c ? { color: preview.payload.c } : {})
+    });
+  }
+
+  // ==================== 内部方法 ====================
+
+  /**
+   * 拆分令牌并解析载荷
+   * @throws GroupShareError 格式错误或版本不支持时抛出
+   */
+  private parse(input: string): ParsedShareToken {
+    const token = this.extractToken(input);
+    const match = token?.match(/^wx(\d+)\.([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)$/);
+    if (!match) {
+      throw new GroupShareError('malformed');
+    }
+
+    const [, version, body, signature] = match;
+    if (Number(version) !== CURRENT_VERSION) {
+      throw new GroupShareError(Number(version) > CURRENT_VERSION ? 'unsupported-version' : 'malformed');
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(utf8Decode(base64UrlDecode(body)));
+    } catch {
+      throw new GroupShareError('malformed');
+    }
+
+    const result = GroupSharePayloadV1Schema.safeParse(json);
+    if (!result.success) {
+      throw new GroupShareError('invalid-payload');
+    }
+
+    return {
+      content: `${TOKEN_PREFIX}${version}.${body}`,
+      payload: result.data,
+      signature
+    };
+  }
+
+  /**
+   * 生成分享链接
+   * 未配置 SHARE_BASE_URL 时在 H5 使用当前站点的分享页；小程序中无法确定地址，直接返回令牌
+   */
+  private buildUrl(token: string): string {
+    const base = process.env.SHARE_BASE_URL ||
+      (typeof window !== 'undefined' && window.location ? `${window.location.origin}/share` : '');
+
+    return base ? `${base}?${TOKEN_PARAM}=${token}` : token;
+  }
+
+  /**
+   * 从输入中提取令牌
+   */
+  private extractToken(input: string): string | null {
+    const text = input.trim();
+
+    const param = text.match(new RegExp(`[?&]${TOKEN_PARAM}=(wx[^&#\\s]+)`));
+    if (param) return param[1];
+
+    const token = text.match(/wx\d+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/);
+    return token ? token[0] : null;
+  }
+
+  /**
+   * 获取不与现有分组重名的名称
+   */
+  private getAvailableName(name: string): string {
+    const names = new Set(favoriteManager.getGroups().map(group => group.name));
+    if (!names.has(name)) return name;
+
+    let index = 2;
+    while (names.has(`${name}（${index}）`)) {
+      index++;
+    }
+    return `${name}（${index}）`;
+  }
+}
+
+// 导出单例实例
+export const groupShare = GroupShare.getInstance();
+
+export default groupShare;
@@ -0,0 +1,268 @@
+/**
+ * 家长验证
+ * 微学宝盒 - 修改设置、清空数据、放宽游戏时间等操作前确认是家长本人
+ */
+
+import { STORAGE_KEYS } from '@/types/user';
+import type { ParentalGateState } from '@/types/user';
+import { storageManager } from '@/services/StorageManager';
+import { ParentPinSchema } from '@/schemas/user';
+import { sha256, utf8Encode, base64UrlEncode } from '@/utils/crypto';
+
+/**
+ * 家长验证错误原因
+ */
+export type ParentalGateErrorReason = 'not-verified' | 'locked-out';
+
+/**
+ * 家长验证错误原因显示文本
+ */
+export const PARENTAL_GATE_ERROR_TEXT: Record<ParentalGateErrorReason, string> = {
+  'not-verified': '此操作需要家长验证',
+  'locked-out': '验证失败次数过多，请稍后再试'
+};
+
+/**
+ * 家长验证错误
+ */
+export class ParentalGateError extends Error {
+  /** 错误原因 */
+  readonly reason: ParentalGateErrorReason;
+
+  constructor(reason: ParentalGateErrorReason) {
+    super(PARENTAL_GATE_ERROR_TEXT[reason]);
+    this.name = 'ParentalGateError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * 算术题
+ */
+export interface ParentalChallenge {
+  /** 题目ID，提交答案时使用 */
+  id: string;
+  /** 题目，如 "7 × 8 = ?" */
+  question: string;
+}
+
+/**
+ * 验证凭据：家长密码，或未设置密码时的算术题答案
+ */
+export type ParentalGateCredential =
+  | { pin: string }
+  | { challengeId: string; answer: string };
+
+/**
+ * 验证结果
+ */
+export interface ParentalGateResult {
+  /** 是否通过 */
+  success: boolean;
+  /** 锁定剩余时间（毫秒），未锁定时为 0 */
+  lockoutMs: number;
+  /** 锁定前还能尝试的次数 */
+  attemptsLeft: number;
+}
+
+/** 家长密码格式：4-6位数字 */
+const PIN_PATTERN = /^\d{4,6}$/;
+
+/** 连续失败多少次后锁定 */
+const MAX_FAILURES = 5;
+
+/** 锁定时长 */
+const LOCKOUT_MS = 5 * 60 * 1000;
+
+/** 验证通过后的有效期，期间的受保护操作无需重复验证 */
+const UNLOCK_MS = 2 * 60 * 1000;
+
+/**
+ * 家长验证类
+ * 设置了家长密码时必须输入密码；未设置时退回到算术题
+ */
+export class ParentalGate {
+  private static instance: ParentalGate;
+  private challenges: Map<string, number> = new Map();
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): ParentalGate {
+    if (!ParentalGate.instance) {
+      ParentalGate.instance = new ParentalGate();
+    }
+    return ParentalGate.instance;
+  }
+
+  // ==================== 家长密码 ====================
+
+  /**
+   * 是否已设置家长密码
+   */
+  hasPin(): boolean {
+    return this.getStoredPin() !== null;
+  }
+
+  /**
+   * 设置家长密码
+   * 首次设置需要先通过算术题验证，避免孩子抢先设置密码
+   * @param pin 新密码，4-6位数字
+   * @param currentPin 已设置过密码时需要提供原密码
+   * @returns 是否设置成功
+   */
+  setPin(pin: string, currentPin?: string): boolean {
+    if (!PIN_PATTERN.test(pin)) {
+      console.warn('家长密码需为4-6位数字');
+      return false;
+    }
+    if (this.hasPin()) {
+      if (!this.verify({ pin: currentPin ?? '' }).success) {
+        return false;
+      }
+    } else if (!this.isUnlocked()) {
+      console.warn('设置家长密码需要先通过家长验证');
+      return false;
+    }
+
+    const salt = base64UrlEncode(sha256(utf8Encode(`${Date.now()}:${Math.random()}`))).slice(0, 16);
+    storageManager.setItem(STORAGE_KEYS.PARENT_PIN, { salt, hash: this.hashPin(pin, salt) });
+    return true;
+  }
+
+  // ==================== 验证 ====================
+
+  /**
+   * 生成一道算术题
+   * 未设置家长密码时用于验证
+   */
+  createChallenge(): ParentalChallenge {
+    const a = 3 + Math.floor(Math.random() * 7);
+    const b = 6 + Math.floor(Math.random() * 4);
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+    this.challenges.set(id, a * b);
+    return { id, question: `${a} × ${b} = ?` };
+  }
+
+  /**
+   * 验证家长身份
+   * 通过后在有效期内 isUnlocked 返回 true；连续失败过多会锁定一段时间
+   * @param credential 家长密码或算术题答案
+   * @param now 当前时间
+   */
+  verify(credential: ParentalGateCredential, now: number = Date.now()): ParentalGateResult {
+    const state = this.getState(now);
+    if ((state.lockedUntil ?? 0) > now) {
+      return { success: false, lockoutMs: state.lockedUntil! - now, attemptsLeft: 0 };
+    }
+
+    if (this.check(credential)) {
+      storageManager.setParentalGateState({ failures: 0, unlockedUntil: now + UNLOCK_MS });
+      return { success: true, lockoutMs: 0, attemptsLeft: MAX_FAILURES };
+    }
+
+    const failures = state.failures + 1;
+    if (failures >= MAX_FAILURES) {
+      storageManager.setParentalGateState({ failures, lockedUntil: now + LOCKOUT_MS });
+      return { success: false, lockoutMs: LOCKOUT_MS, attemptsLeft: 0 };
+    }
+
+    storageManager.setParentalGateState({ failures });
+    return { success: false, lockoutMs: 0, attemptsLeft: MAX_FAILURES - failures };
+  }
+
+  /**
+   * 是否处于验证有效期内
+   */
+  isUnlocked(): boolean {
+    return storageManager.isParentUnlocked();
+  }
+
+  /**
+   * 受保护操作前调用，未验证时抛出错误
+   * @throws ParentalGateError 未验证或已锁定时抛出
+   */
+  assertUnlocked(): void {
+    if (this.isUnlocked()) return;
+
+    throw new ParentalGateError(this.getLockoutRemaining() > 0 ? 'locked-out' : 'not-verified');
+  }
+
+  /**
+   * 提前结束验证有效期
+   */
+  lock(): void {
+    const state = this.getState();
+    if (state.unlockedUntil) {
+      storageManager.setParentalGateState({ ...state, unlockedUntil: undefined });
+    }
+  }
+
+  /**
+   * 锁定剩余时间
+   * @param now 当前时间
+   * @returns 毫秒，未锁定时为 0
+   */
+  getLockoutRemaining(now: number = Date.now()): number {
+    return Math.max(0, (this.getState(now).lockedUntil ?? 0) - now);
+  }
+
+  /**
+   * 订阅验证状态和家长密码变化
+   * @param callback 回调函数
+   * @returns 取消订阅函数
+   */
+  subscribe(callback: () => void): () => void {
+    const unsubscribeState = storageManager.onChange(STORAGE_KEYS.PARENTAL_GATE, callback);
+    const unsubscribePin = storageManager.onChange(STORAGE_KEYS.PARENT_PIN, callback);
+
+    return () => {
+      unsubscribeState();
+      unsubscribePin();
+    };
+  }
+
+  // ==================== 私有方法 ====================
+
+  /**
+   * 读取验证状态，锁定已过期时重新计数
+   */
+  private getState(now: number = Date.now()): ParentalGateState {
+    const state = storageManager.getParentalGateState();
+    if (state.lockedUntil && state.lockedUntil <= now) {
+      return { failures: 0 };
+    }
+    return state;
+  }
+
+  /**
+   * 校验凭据，算术题只能作答一次
+   */
+  private check(credential: ParentalGateCredential): boolean {
+    const stored = this.getStoredPin();
+
+    if ('pin' in credential) {
+      return stored !== null && this.hashPin(credential.pin, stored.salt) === stored.hash;
+    }
+
+    const expected = this.challenges.get(credential.challengeId);
+    this.challenges.delete(credential.challengeId);
+
+    // 设置了家长密码后不再接受算术题
+    return stored === null && expected !== undefined && Number(credential.answer.trim()) === expected;
+  }
+
+  private getStoredPin() {
+    return storageManager.getValidatedItem(STORAGE_KEYS.PARENT_PIN, ParentPinSchema.nullable(), null);
+  }
+
+  private hashPin(pin: string, salt: string): string {
+    return base64UrlEncode(sha256(utf8Encode(`${salt}:${pin}`)));
+  }
+}
+
+// 导出单例实例
+export const parentalGate = ParentalGate.getInstance();
+
+export default parentalGate;
@@ -0,0 +1,209 @@
+/**
+ * 游戏日志
+ * 微学宝盒 - 按孩子档案记录玩过的游戏，生成给家长看的周报
+ */
+
+import { STORAGE_KEYS } from '@/types/user';
+import type { PlayLog, PlayLogEntry, FavoriteAddedRecord, FeedbackType } from '@/types/game';
+import { storageManager } from '@/services/StorageManager';
+import { gameCatalog } from '@/services/GameCatalog';
+import { PlayLogSchema } from '@/schemas/game';
+
+/**
+ * 周报
+ */
+export interface WeeklyReport {
+  /** 统计起点（含），本地零点 */
+  from: number;
+  /** 统计终点（不含） */
+  to: number;
+  /** 总游戏时长（毫秒） */
+  totalMs: number;
+  /** 游戏次数 */
+  sessionCount: number;
+  /** 每天的游戏时长，按日期升序 */
+  daily: Array<{ date: string; ms: number }>;
+  /** 各技能的游戏时长，按时长降序；一个游戏练习多个技能时每个技能都计入全部时长 */
+  skills: Array<{ skill: string; ms: number }>;
+  /** 本周第一次玩的游戏 */
+  newGames: Array<{ gameId: string; title?: string }>;
+  /** 本周新增的收藏 */
+  favoritesAdded: FavoriteAddedRecord[];
+  /** 本周退出游戏时给出的反馈 */
+  feedback: Record<FeedbackType, number>;
+}
+
+/** 日志保留天数，"本周第一次玩"也只在这段时间内判断 */
+const RETENTION_DAYS = 60;
+
+/** 最多保留的游戏会话数 */
+const MAX_ENTRIES = 300;
+
+/** 最多保留的收藏记录数 */
+const MAX_FAVORITES = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EMPTY_LOG: PlayLog = { entries: [], favoritesAdded: [] };
+
+/**
+ * 游戏日志类
+ * 日志按孩子档案隔离并保存在 IndexedDB，由游戏会话结束时写入
+ */
+export class PlayHistory {
+  private static instance: PlayHistory;
+  private readonly STORAGE_KEY = STORAGE_KEYS.PLAY_LOG;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): PlayHistory {
+    if (!PlayHistory.instance) {
+      PlayHistory.instance = new PlayHistory();
+    }
+    return PlayHistory.instance;
+  }
+
+  // ==================== 记录 ====================
+
+  /**
+   * 获取当前档案的游戏日志
+   */
+  getLog(): PlayLog {
+    return storageManager.getValidatedItem(this.STORAGE_KEY, PlayLogSchema, EMPTY_LOG);
+  }
+
+  /**
+   * 获取游戏会话
+   * @returns 最近的在前
+   */
+  getEntries(): PlayLogEntry[] {
+    return this.getLog().entries;
+  }
+
+  /**
+   * 记入一次已结束的游戏会话
+   * @param entry 游戏会话
+   * @param now 当前时间
+   */
+  async addSession(entry: PlayLogEntry, now: number = Date.now()): Promise<void> {
+    if (entry.duration <= 0) return;
+
+    // 日志加载完成前读到的是空日志，等加载后再写入，避免覆盖
+    await storageManager.whenReady();
+    const log = this.getLog();
+    const oldest = now - RETENTION_DAYS * DAY_MS;
+    const entries = [entry, ...log.entries.filter(item => item.id !== entry.id)]
+      .filter(item => item.startTime >= oldest)
+      .sort((a, b) => b.startTime - a.startTime)
+      .slice(0, MAX_ENTRIES);
+
+    this.saveLog({ ...log, entries });
+  }
+
+  /**
+   * 记入新增的收藏
+   * @param gameId 游戏ID
+   * @param now 当前时间
+   */
+  async recordFavorite(gameId: string, now: number = Date.now()): Promise<void> {
+    await storageManager.whenReady();
+    const log = this.getLog();
+    const oldest = now - RETENTION_DAYS * DAY_MS;
+    const favoritesAdded = [{ gameId, addedAt: now }, ...log.favoritesAdded.filter(item => item.gameId !== gameId)]
+      .filter(item => item.addedAt >= oldest)
+      .slice(0, MAX_FAVORITES);
+
+    this.saveLog({ ...log, favoritesAdded });
+  }
+
+  // ==================== 周报 ====================
+
+  /**
+   * 生成最近7天（含今天）的周报
+   * @param now 当前时间
+   */
+  getWeeklyReport(now: number = Date.now()): WeeklyReport {
+    const { entries, favoritesAdded } = this.getLog();
+    const today = new Date(now);
+    const to = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1).getTime();
+    const from = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6).getTime();
+    const inWeek = entries.filter(entry => entry.startTime >= from && entry.startTime < to);
+
+    const daily = new Map<string, number>();
+    for (let day = 0; day < 7; day++) {
+      daily.set(this.getDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6 + day).getTime()), 0);
+    }
+
+    const skills = new Map<string, number>();
+    const feedback: Record<FeedbackType, number> = { positive: 0, neutral: 0, negative: 0 };
+    let totalMs = 0;
+
+    inWeek.forEach(entry => {
+      totalMs += entry.duration;
+
+      const date = this.getDateKey(entry.startTime);
+      daily.set(date, (daily.get(date) ?? 0) + entry.duration);
+
+      (entry.skills ?? gameCatalog.getCachedGame(entry.gameId)?.skills ?? []).forEach(skill => {
+        skills.set(skill, (skills.get(skill) ?? 0) + entry.duration);
+      });
+
+      if (entry.feedback) {
+        feedback[entry.feedback]++;
+      }
+    });
+
+    // 本周之前玩过的游戏不算新游戏
+    const playedBefore = new Set(entries.filter(entry => entry.startTime < from).map(entry => entry.gameId));
+    const newGames = new Map<string, string | undefined>();
+    [...inWeek].reverse().forEach(entry => {
+      if (!playedBefore.has(entry.gameId) && !newGames.has(entry.gameId)) {
+        newGames.set(entry.gameId, entry.title);
+      }
+    });
+
+    return {
+      from,
+      to,
+      totalMs,
+      sessionCount: inWeek.length,
+      daily: Array.from(daily, ([date, ms]) => ({ date, ms })),
+      skills: Array.from(skills, ([skill, ms]) => ({ skill, ms })).sort((a, b) => b.ms - a.ms),
+      newGames: Array.from(newGames, ([gameId, title]) => ({ gameId, title })),
+      favoritesAdded: favoritesAdded.filter(item => item.addedAt >= from && item.addedAt < to),
+      feedback
+    };
+  }
+
+  /**
+   * 订阅游戏日志变化
+   * 切换档案时也会触发
+   * @param callback 回调函数
+   * @returns 取消订阅函数
+   */
+  subscribe(callback: (log: PlayLog) => void): () => void {
+    return storageManager.onChange(this.STORAGE_KEY, () => callback(this.getLog()));
+  }
+
+  // ==================== 私有方法 ====================
+
+  private saveLog(log: PlayLog): void {
+    storageManager.setItem(this.STORAGE_KEY, log);
+  }
+
+  /**
+   * 本地日期键
+   */
+  private getDateKey(time: number): string {
+    const date = new Date(time);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
+
+// 导出单例实例
+export const playHistory = PlayHistory.getInstance();
+
+export default playHistory;
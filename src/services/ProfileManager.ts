@@ -0,0 +1,306 @@
+/**
+ * 孩子档案管理器
+ * 微学宝盒 - 一个家长账号下管理多个孩子，年龄段、收藏、历史等数据按档案隔离
+ */
+
+import { z } from 'zod';
+import { STORAGE_KEYS, DEFAULT_PROFILE_ID } from '@/types/user';
+import type { ChildProfile } from '@/types/user';
+import { storageManager } from '@/services/StorageManager';
+import { ageRecommendationEngine } from '@/services/AgeRecommendationEngine';
+import { ChildProfileSchema } from '@/schemas/user';
+import { AgeRangeSchema, repairArray } from '@/schemas/common';
+
+/**
+ * 档案最多数量
+ */
+export const MAX_CHILD_PROFILES = 6;
+
+/**
+ * 新建档案的信息
+ */
+export type ChildProfileInput = Pick<ChildProfile, 'name'> & Partial<Pick<ChildProfile, 'avatar' | 'birthMonth' | 'interests'>>;
+
+/**
+ * 生日后的年龄段升级提示
+ */
+export interface AgeProgression {
+  profileId: string;
+  /** 当前月龄 */
+  ageInMonths: number;
+  /** 当前选择的年龄段 */
+  from: [number, number];
+  /** 按月龄推荐的年龄段 */
+  to: [number, number];
+}
+
+/**
+ * 孩子档案管理器类
+ * 档案列表保存在全局键中；切换档案后 StorageManager 中按档案隔离的键自动指向新档案
+ */
+export class ProfileManager {
+  private static instance: ProfileManager;
+  private readonly STORAGE_KEY = STORAGE_KEYS.CHILD_PROFILES;
+  private listeners: Set<(profile: ChildProfile, profiles: ChildProfile[]) => void> = new Set();
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): ProfileManager {
+    if (!ProfileManager.instance) {
+      ProfileManager.instance = new ProfileManager();
+    }
+    return ProfileManager.instance;
+  }
+
+  constructor() {
+    // 保存的当前档案已被删除（如在其他标签页）时回退到第一个档案
+    const profiles = this.getProfiles();
+    if (!profiles.some(profile => profile.id === storageManager.getActiveProfileId())) {
+      storageManager.setActiveProfileId(profiles[0].id);
+    }
+
+    storageManager.onChange(this.STORAGE_KEY, () => this.notifyListeners());
+    storageManager.onChange(STORAGE_KEYS.ACTIVE_PROFILE, () => this.notifyListeners());
+  }
+
+  /**
+   * 获取全部档案
+   * 从未创建过档案时返回默认档案
+   * @returns 档案列表（按创建顺序）
+   */
+  getProfiles(): ChildProfile[] {
+    const profiles = storageManager.getValidatedItem(
+      this.STORAGE_KEY,
+      z.array(ChildProfileSchema),
+      [],
+      repairArray(ChildProfileSchema)
+    );
+
+    return profiles.length > 0 ? profiles : [this.createDefaultProfile()];
+  }
+
+  /**
+   * 获取档案
+   * @param profileId 档案ID
+   */
+  getProfile(profileId: string): ChildProfile | undefined {
+    return this.getProfiles().find(profile => profile.id === profileId);
+  }
+
+  /**
+   * 获取当前档案
+   * 保存的当前档案已被删除时回退到第一个档案
+   */
+  getActiveProfile(): ChildProfile {
+    const profiles = this.getProfiles();
+    return profiles.find(profile => profile.id === storageManager.getActiveProfileId()) ?? profiles[0];
+  }
+
+  /**
+   * 获取当前档案ID
+   */
+  getActiveProfileId(): string {
+    return this.getActiveProfile().id;
+  }
+
+  /**
+   * 新建档案
+   * @param input 档案信息
+   * @returns 新建的档案，已达到数量上限时返回 null
+   */
+  createProfile(input: ChildProfileInput): ChildProfile | null {
+    const profiles = this.getProfiles();
+    if (profiles.length >= MAX_CHILD_PROFILES) {
+      console.warn(`孩子档案最多 ${MAX_CHILD_PROFILES} 个`);
+      return null;
+    }
+
+    const profile: ChildProfile = {
+      ...input,
+      id: `child_${Date.now()}`,
+      name: input.name.trim(),
+      interests: input.interests ?? [],
+      createdAt: Date.now()
+    };
+
+    this.applyBirthMonth(profile);
+    this.saveProfiles([...profiles, profile]);
+    return profile;
+  }
+
+  /**
+   * 修改档案
+   * @param profileId 档案ID
+   * @param changes 修改内容
+   * @returns 修改后的档案，档案不存在时返回 null
+   */
+  updateProfile(profileId: string, changes: Partial<ChildProfileInput>): ChildProfile | null {
+    const profiles = this.getProfiles();
+    const current = profiles.find(profile => profile.id === profileId);
+    if (!current) return null;
+
+    const updated: ChildProfile = {
+      ...current,
+      ...changes,
+      name: changes.name?.trim() || current.name,
+      updatedAt: Date.now()
+    };
+
+    // 先写年龄段再保存档案，档案变化通知时应用状态读到的已是新年龄段
+    if (changes.birthMonth && changes.birthMonth !== current.birthMonth) {
+      this.applyBirthMonth(updated);
+    }
+    this.saveProfiles(profiles.map(profile => (profile.id === profileId ? updated : profile)));
+    return updated;
+  }
+
+  // ==================== 月龄 ====================
+
+  /**
+   * 获取孩子当前月龄
+   * @param profile 档案，默认为当前档案
+   * @returns 月龄，未填写出生年月时返回 null
+   */
+  getAgeInMonths(profile: ChildProfile = this.getActiveProfile()): number | null {
+    return profile.birthMonth ? ageRecommendationEngine.getAgeInMonths(profile.birthMonth) : null;
+  }
+
+  /**
+   * 检查当前档案是否需要升级年龄段
+   * 孩子过生日进入更大的年龄段后返回提示；家长确认或忽略过的年龄段不再提示
+   * @returns 升级提示，无需升级时返回 null
+   */
+  getAgeProgression(): AgeProgression | null {
+    const profile = this.getActiveProfile();
+    const ageInMonths = this.getAgeInMonths(profile);
+    if (ageInMonths === null) return null;
+
+    const from = storageManager.getAgeSelection();
+    const to = ageRecommendationEngine.recommendByAgeInMonths(ageInMonths);
+    // 只向大的年龄段升级，家长手动选了更大的年龄段时不提示
+    if (to[0] <= from[0]) return null;
+
+    const handled = storageManager.getValidatedItem(STORAGE_KEYS.AGE_PROMPT, AgeRangeSchema.nullable(), null);
+    if (handled && handled[0] === to[0] && handled[1] === to[1]) return null;
+
+    return { profileId: profile.id, ageInMonths, from, to };
+  }
+
+  /**
+   * 记录已处理的升级提示，同一年龄段不再提示
+   * 确认升级时由调用方设置年龄段（经应用状态写入，保证界面同步）
+   * @param progression 升级提示
+   */
+  resolveAgeProgression(progression: AgeProgression): void {
+    storageManager.setItem(storageManager.getProfileKey(STORAGE_KEYS.AGE_PROMPT, progression.profileId), progression.to);
+  }
+
+  /**
+   * 删除档案及其全部数据
+   * 至少保留一个档案；删除当前档案时切换到剩余的第一个档案
+   * @param profileId 档案ID
+   * @returns 是否已删除
+   */
+  deleteProfile(profileId: string): boolean {
+    const profiles = this.getProfiles();
+    if (profiles.length <= 1 || !profiles.some(profile => profile.id === profileId)) {
+      return false;
+    }
+
+    const remaining = profiles.filter(profile => profile.id !== profileId);
+    if (this.getActiveProfileId() === profileId) {
+      this.switchProfile(remaining[0].id);
+    }
+
+    this.saveProfiles(remaining);
+    storageManager.removeProfileData(profileId);
+    return true;
+  }
+
+  /**
+   * 切换当前档案
+   * @param profileId 档案ID
+   * @returns 是否已切换
+   */
+  switchProfile(profileId: string): boolean {
+    if (!this.getProfile(profileId)) {
+      console.warn(`孩子档案不存在 [${profileId}]`);
+      return false;
+    }
+
+    storageManager.setActiveProfileId(profileId);
+    return true;
+  }
+
+  /**
+   * 订阅档案变化
+   * 切换档案、修改档案信息时触发
+   * @param callback 回调函数，参数为当前档案和全部档案
+   * @returns 取消订阅函数
+   */
+  subscribe(callback: (profile: ChildProfile, profiles: ChildProfile[]) => void): () => void {
+    this.listeners.add(callback);
+
+    // 立即通知当前状态
+    callback(this.getActiveProfile(), this.getProfiles());
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * 通知监听器
+   */
+  private notifyListeners(): void {
+    const profile = this.getActiveProfile();
+    const profiles = this.getProfiles();
+
+    this.listeners.forEach(callback => {
+      try {
+        callback(profile, profiles);
+      } catch (error) {
+        console.warn('通知档案监听器失败:', error);
+      }
+    });
+  }
+
+  /**
+   * 按出生年月设置档案的年龄段
+   * 新建档案或家长修改出生年月时直接生效，不需要确认
+   */
+  private applyBirthMonth(profile: ChildProfile): void {
+    const ageInMonths = this.getAgeInMonths(profile);
+    if (ageInMonths === null) return;
+
+    const ageRange = ageRecommendationEngine.recommendByAgeInMonths(ageInMonths);
+    storageManager.setItem(storageManager.getProfileKey(STORAGE_KEYS.AGE_SELECTION, profile.id), ageRange);
+    storageManager.setItem(storageManager.getProfileKey(STORAGE_KEYS.AGE_PROMPT, profile.id), ageRange);
+  }
+
+  /**
+   * 保存档案列表
+   */
+  private saveProfiles(profiles: ChildProfile[]): void {
+    storageManager.setItem(this.STORAGE_KEY, profiles);
+  }
+
+  /**
+   * 生成默认档案
+   * 老用户升级后原有数据都归入此档案
+   */
+  private createDefaultProfile(): ChildProfile {
+    return {
+      id: DEFAULT_PROFILE_ID,
+      name: '宝贝',
+      interests: [],
+      createdAt: 0
+    };
+  }
+}
+
+// 导出单例实例
+export const profileManager = ProfileManager.getInstance();
+
+export default profileManager;
@@ -0,0 +1,351 @@
+/**
+ * 游戏时间管理器
+ * 微学宝盒 - 按孩子档案限制每日、单次游戏时长和允许游戏的时间段，家长验证后可临时放宽
+ */
+
+import { STORAGE_KEYS, DEFAULT_SCREEN_TIME_SETTINGS } from '@/types/user';
+import type { ScreenTimeSession, ScreenTimeSettings, ScreenTimeUsage, TimeWindow } from '@/types/user';
+import { storageManager } from '@/services/StorageManager';
+import { parentalGate } from '@/services/ParentalGate';
+import { ScreenTimeSettingsSchema, ScreenTimeUsageSchema } from '@/schemas/user';
+
+/**
+ * 限制原因
+ */
+export type ScreenTimeBlockReason = 'daily-limit' | 'session-limit' | 'outside-window';
+
+/**
+ * 限制原因显示文本
+ */
+export const SCREEN_TIME_BLOCK_TEXT: Record<ScreenTimeBlockReason, string> = {
+  'daily-limit': '今天的游戏时间用完啦',
+  'session-limit': '这次玩得够久啦，休息一下吧',
+  'outside-window': '现在不是游戏时间哦'
+};
+
+/**
+ * 当前游戏时间状态
+ */
+export interface ScreenTimeStatus {
+  /** 是否允许继续游戏 */
+  allowed: boolean;
+  /** 不允许游戏的原因 */
+  reason: ScreenTimeBlockReason | null;
+  /** 距离下一个限制还剩多少毫秒，null 表示不受限 */
+  remainingMs: number | null;
+  /** 下一个将触发的限制 */
+  nextReason: ScreenTimeBlockReason | null;
+  /** 今天已玩时长（毫秒） */
+  usedTodayMs: number;
+  /** 是否处于家长临时放宽期间 */
+  overridden: boolean;
+  /** 不在允许时间段内时，下次可以游戏的时间（HH:MM） */
+  resumeAt: string | null;
+}
+
+/** 每日记录保留天数 */
+const USAGE_RETENTION_DAYS = 30;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+/** 距上次游戏超过这么久算作新的一次，单次时长和休息提醒重新计算 */
+const SESSION_GAP_MS = 15 * MINUTE_MS;
+
+/**
+ * 游戏时间管理器类
+ * 设置和时长记录按孩子档案隔离
+ */
+export class ScreenTimeManager {
+  private static instance: ScreenTimeManager;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): ScreenTimeManager {
+    if (!ScreenTimeManager.instance) {
+      ScreenTimeManager.instance = new ScreenTimeManager();
+    }
+    return ScreenTimeManager.instance;
+  }
+
+  // ==================== 设置 ====================
+
+  /**
+   * 获取当前档案的时间限制
+   */
+  getSettings(): ScreenTimeSettings {
+    return storageManager.getValidatedItem(STORAGE_KEYS.SCREEN_TIME, ScreenTimeSettingsSchema, DEFAULT_SCREEN_TIME_SETTINGS);
+  }
+
+  /**
+   * 修改当前档案的时间限制
+   * 需要先通过家长验证
+   * @param changes 修改内容
+   * @returns 修改后的设置
+   * @throws ParentalGateError 未通过家长验证时抛出
+   */
+  updateSettings(changes: Partial<ScreenTimeSettings>): ScreenTimeSettings {
+    parentalGate.assertUnlocked();
+
+    const settings = { ...this.getSettings(), ...changes };
+    storageManager.setItem(STORAGE_KEYS.SCREEN_TIME, settings);
+    return settings;
+  }
+
+  // ==================== 时长记录 ====================
+
+  /**
+   * 获取今天已玩时长
+   * @param now 当前时间
+   * @returns 毫秒
+   */
+  getUsedToday(now: number = Date.now()): number {
+    return this.getUsage().daily[this.getDateKey(now)] ?? 0;
+  }
+
+  /**
+   * 获取本次游戏
+   * 换游戏、刷新页面后继续累计，距上次游戏超过一段时间才算作新的一次
+   * @param now 当前时间
+   */
+  getSession(now: number = Date.now()): ScreenTimeSession {
+    const { session } = this.getUsage();
+    return session && now - session.lastActiveAt < SESSION_GAP_MS
+      ? session
+      : { usedMs: 0, restAtMs: 0, lastActiveAt: now };
+  }
+
+  /**
+   * 记录休息，休息提醒从当前时长重新计算
+   * @param now 当前时间
+   */
+  markRest(now: number = Date.now()): void {
+    const session = this.getSession(now);
+    this.saveUsage({ ...this.getUsage(), session: { ...session, restAtMs: session.usedMs, lastActiveAt: now } });
+  }
+
+  /**
+   * 累加游戏时长
+   * 同时计入今天和本次游戏
+   * @param ms 新增时长（毫秒）
+   * @param now 当前时间
+   */
+  addUsage(ms: number, now: number = Date.now()): void {
+    if (ms <= 0) return;
+
+    const usage = this.getUsage();
+    const session = this.getSession(now);
+    const today = this.getDateKey(now);
+    const oldest = this.getDateKey(now - USAGE_RETENTION_DAYS * DAY_MINUTES * MINUTE_MS);
+
+    const daily: Record<string, number> = {};
+    Object.entries(usage.daily).forEach(([date, used]) => {
+      if (date >= oldest) daily[date] = used;
+    });
+    daily[today] = (daily[today] ?? 0) + ms;
+
+    this.saveUsage({
+      ...usage,
+      daily,
+      session: { ...session, usedMs: session.usedMs + ms, lastActiveAt: now }
+    });
+  }
+
+  /**
+   * 获取最近每天的游戏时长
+   * @param days 天数
+   * @param now 当前时间
+   * @returns 按日期升序排列
+   */
+  getDailyUsage(days: number = 7, now: number = Date.now()): Array<{ date: string; ms: number }> {
+    const usage = this.getUsage();
+    return Array.from({ length: days }, (_, index) => {
+      const date = this.getDateKey(now - (days - 1 - index) * DAY_MINUTES * MINUTE_MS);
+      return { date, ms: usage.daily[date] ?? 0 };
+    });
+  }
+
+  // ==================== 状态 ====================
+
+  /**
+   * 计算当前游戏时间状态
+   * @param sessionMs 本次已玩时长（毫秒）
+   * @param now 当前时间
+   * @param unsavedMs 已玩但尚未写入记录的时长（毫秒）
+   */
+  getStatus(sessionMs: number = 0, now: number = Date.now(), unsavedMs: number = 0): ScreenTimeStatus {
+    const settings = this.getSettings();
+    const usedTodayMs = this.getUsedToday(now) + unsavedMs;
+    const base = { usedTodayMs, resumeAt: null };
+
+    if (!settings.enabled) {
+      return { ...base, allowed: true, reason: null, remainingMs: null, nextReason: null, overridden: false };
+    }
+
+    const limits: Array<{ reason: ScreenTimeBlockReason; remainingMs: number }> = [];
+    if (settings.dailyLimitMinutes !== null) {
+      limits.push({ reason: 'daily-limit', remainingMs: settings.dailyLimitMinutes * MINUTE_MS - usedTodayMs });
+    }
+    if (settings.sessionLimitMinutes !== null) {
+      limits.push({ reason: 'session-limit', remainingMs: settings.sessionLimitMinutes * MINUTE_MS - sessionMs });
+    }
+    const windowRemaining = this.getWindowRemaining(settings.allowedWindows, now);
+    if (windowRemaining !== null) {
+      limits.push({ reason: 'outside-window', remainingMs: windowRemaining });
+    }
+    limits.sort((a, b) => a.remainingMs - b.remainingMs);
+
+    const next = limits[0] ?? null;
+    const blocked = next && next.remainingMs <= 0 ? next : null;
+    const overrideUntil = this.getUsage().overrideUntil ?? 0;
+
+    // 家长放宽期间不拦截，期间到达的限制在放宽结束时生效
+    if (overrideUntil > now) {
+      const overrideRemaining = overrideUntil - now;
+      const remainingMs = next && next.remainingMs > overrideRemaining ? next.remainingMs : overrideRemaining;
+      return { ...base, allowed: true, reason: null, remainingMs, nextReason: next?.reason ?? null, overridden: true };
+    }
+
+    if (blocked) {
+      return {
+        ...base,
+        allowed: false,
+        reason: blocked.reason,
+        remainingMs: 0,
+        nextReason: blocked.reason,
+        overridden: false,
+        resumeAt: blocked.reason === 'outside-window' ? this.getNextWindowStart(settings.allowedWindows, now) : null
+      };
+    }
+
+    return {
+      ...base,
+      allowed: true,
+      reason: null,
+      remainingMs: next ? next.remainingMs : null,
+      nextReason: next?.reason ?? null,
+      overridden: false
+    };
+  }
+
+  /**
+   * 是否该提醒休息
+   * @param sessionMs 本次已玩时长（毫秒）
+   * @param lastRestAtMs 上次休息时的本次已玩时长（毫秒）
+   */
+  isRestDue(sessionMs: number, lastRestAtMs: number = 0): boolean {
+    const { enabled, restReminderMinutes } = this.getSettings();
+    if (!enabled || restReminderMinutes === null) return false;
+
+    return sessionMs - lastRestAtMs >= restReminderMinutes * MINUTE_MS;
+  }
+
+  // ==================== 家长放宽 ====================
+
+  /**
+   * 家长临时放宽限制
+   * 需要先通过家长验证
+   * @param minutes 放宽时长（分钟）
+   * @returns 是否已放宽
+   */
+  grantOverride(minutes: number = 15): boolean {
+    if (!parentalGate.isUnlocked()) {
+      console.warn('放宽游戏时间需要先通过家长验证');
+      return false;
+    }
+
+    this.saveUsage({ ...this.getUsage(), overrideUntil: Date.now() + minutes * MINUTE_MS });
+    return true;
+  }
+
+  /**
+   * 订阅设置和时长记录变化
+   * 切换档案时也会触发
+   * @param callback 回调函数
+   * @returns 取消订阅函数
+   */
+  subscribe(callback: () => void): () => void {
+    const unsubscribeSettings = storageManager.onChange(STORAGE_KEYS.SCREEN_TIME, callback);
+    const unsubscribeUsage = storageManager.onChange(STORAGE_KEYS.SCREEN_TIME_USAGE, callback);
+
+    return () => {
+      unsubscribeSettings();
+      unsubscribeUsage();
+    };
+  }
+
+  // ==================== 私有方法 ====================
+
+  private getUsage(): ScreenTimeUsage {
+    return storageManager.getValidatedItem(STORAGE_KEYS.SCREEN_TIME_USAGE, ScreenTimeUsageSchema, { daily: {} });
+  }
+
+  private saveUsage(usage: ScreenTimeUsage): void {
+    storageManager.setItem(STORAGE_KEYS.SCREEN_TIME_USAGE, usage);
+  }
+
+  /**
+   * 本地日期键
+   */
+  private getDateKey(time: number): string {
+    const date = new Date(time);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * 当前所在时间段还剩多少毫秒
+   * @returns 不在任何时间段内时返回 0，未限制时间段时返回 null
+   */
+  private getWindowRemaining(windows: TimeWindow[], now: number): number | null {
+    if (windows.length === 0) return null;
+
+    const date = new Date(now);
+    const current = date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+    let remaining = 0;
+
+    windows.forEach(window => {
+      const start = this.parseTime(window.start);
+      const end = this.parseTime(window.end);
+      const inside = start <= end
+        ? current >= start && current < end
+        : current >= start || current < end;
+
+      if (inside) {
+        const minutes = (end - current + DAY_MINUTES) % DAY_MINUTES;
+        remaining = Math.max(remaining, minutes * MINUTE_MS);
+      }
+    });
+
+    return Math.round(remaining);
+  }
+
+  /**
+   * 下一个时间段的开始时间
+   */
+  private getNextWindowStart(windows: TimeWindow[], now: number): string | null {
+    const date = new Date(now);
+    const current = date.getHours() * 60 + date.getMinutes();
+
+    const next = windows
+      .map(window => ({ start: window.start, wait: (this.parseTime(window.start) - current + DAY_MINUTES) % DAY_MINUTES }))
+      .sort((a, b) => a.wait - b.wait)[0];
+
+    return next?.start ?? null;
+  }
+
+  /**
+   * HH:MM 转为当天分钟数
+   */
+  private parseTime(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
+
+// 导出单例实例
+export const screenTimeManager = ScreenTimeManager.getInstance();
+
+export default screenTimeManager;
@@ -0,0 +1,313 @@
+/**
+ * 存储后端
+ * 微学宝盒 - 屏蔽 H5 localStorage 与小程序本地缓存的差异，大数据量的键保存在 IndexedDB
+ */
+
+import Taro from '@tarojs/taro';
+import { isMiniProgram } from '@/utils/env';
+
+/**
+ * 存储后端接口
+ * 只存取字符串，序列化由 StorageManager 负责
+ */
+export interface StorageBackend {
+  /** 后端名称 */
+  readonly name: 'localStorage' | 'taro' | 'memory';
+  /** 读取，不存在时返回null */
+  getItem(key: string): string | null;
+  /** 写入，失败（如容量不足）时抛出异常 */
+  setItem(key: string, value: string): void;
+  /** 删除 */
+  removeItem(key: string): void;
+  /** 列出所有键 */
+  keys(): string[];
+}
+
+/**
+ * 异步存储后端接口
+ * 用于反馈队列、游戏缓存等可能超出同步存储容量的数据
+ */
+export interface AsyncStorageBackend {
+  /** 后端名称 */
+  readonly name: 'indexedDB' | 'memory';
+  /** 读取，不存在时返回null */
+  getItem(key: string): Promise<string | null>;
+  /** 写入，容量不足时以 QuotaExceededError 拒绝 */
+  setItem(key: string, value: string): Promise<void>;
+  /** 删除 */
+  removeItem(key: string): Promise<void>;
+  /** 列出所有键 */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * 判断是否为存储容量不足错误
+ * 兼容各浏览器的 DOMException 和小程序的错误信息
+ * @param error 错误对象
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+
+  const { name, code, message, errMsg } = error as {
+    name?: string;
+    code?: number;
+    message?: string;
+    errMsg?: string;
+  };
+
+  return name === 'QuotaExceededError'
+    || name === 'NS_ERROR_DOM_QUOTA_REACHED'
+    || code === 22
+    || code === 1014
+    || /quota|exceed/i.test(message || errMsg || '');
+}
+
+/**
+ * 浏览器 localStorage 后端
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'localStorage' as const;
+
+  /**
+   * 当前环境是否可用
+   * 隐私模式等情况下 localStorage 存在但写入会抛出异常
+   */
+  static isAvailable(): boolean {
+    try {
+      const probe = '__storage_probe__';
+      localStorage.setItem(probe, probe);
+      localStorage.removeItem(probe);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getItem(key: string): string | null {
+    return localStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    localStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    localStorage.removeItem(key);
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
+
+/**
+ * Taro 本地缓存后端（小程序）
+ */
+export class TaroStorageBackend implements StorageBackend {
+  readonly name = 'taro' as const;
+
+  getItem(key: string): string | null {
+    // 不存在的键返回空字符串
+    const value = Taro.getStorageSync(key);
+    if (value === '' || value === undefined || value === null) {
+      return null;
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  setItem(key: string, value: string): void {
+    Taro.setStorageSync(key, value);
+  }
+
+  removeItem(key: string): void {
+    Taro.removeStorageSync(key);
+  }
+
+  keys(): string[] {
+    return Taro.getStorageInfoSync().keys;
+  }
+}
+
+/**
+ * 内存后端
+ * 用于测试和无持久化存储的环境，刷新后数据丢失
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name = 'memory' as const;
+  private store: Map<string, string> = new Map();
+
+  getItem(key: string): string | null {
+    return this.store.has(key) ? this.store.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.store.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.store.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.store.keys());
+  }
+}
+
+/**
+ * IndexedDB 后端
+ * 所有键值保存在同一个对象仓库中，可传入 IDBFactory 以便在测试中使用 fake-indexeddb
+ */
+export class IndexedDBStorageBackend implements AsyncStorageBackend {
+  readonly name = 'indexedDB' as const;
+  private static readonly DB_NAME = 'weixue_storage';
+  private static readonly DB_VERSION = 1;
+  private static readonly STORE_NAME = 'kv';
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private factory: IDBFactory = indexedDB) {}
+
+  /**
+   * 当前环境是否可用
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.run<unknown>('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.run<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.filter((key): key is string => typeof key === 'string');
+  }
+
+  /**
+   * 打开数据库，连接在实例内复用
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = this.factory.open(IndexedDBStorageBackend.DB_NAME, IndexedDBStorageBackend.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(IndexedDBStorageBackend.STORE_NAME)) {
+            db.createObjectStore(IndexedDBStorageBackend.STORE_NAME);
+          }
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // 其他标签页升级数据库时释放连接
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB 被其他连接阻塞'));
+      });
+
+      // 打开失败时允许下次重试
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  /**
+   * 在单个事务中执行请求，事务提交后返回结果
+   * 写入的容量错误在事务 abort 时才抛出，因此以事务完成为准
+   */
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(IndexedDBStorageBackend.STORE_NAME, mode);
+      const request = operation(transaction.objectStore(IndexedDBStorageBackend.STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error || request.error);
+      transaction.onabort = () => reject(transaction.error || new Error('IndexedDB 事务已中止'));
+    });
+  }
+}
+
+/**
+ * 异步内存后端
+ * 用于测试和不支持 IndexedDB 的环境
+ */
+export class MemoryAsyncStorageBackend implements AsyncStorageBackend {
+  readonly name = 'memory' as const;
+  private store: Map<string, string> = new Map();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.store.has(key) ? this.store.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.store.keys());
+  }
+}
+
+/**
+ * 按运行平台创建存储后端
+ * 小程序使用 Taro 缓存，H5 使用 localStorage，都不可用时退回内存
+ * @returns 存储后端
+ */
+export function createStorageBackend(): StorageBackend {
+  if (isMiniProgram()) {
+    return new TaroStorageBackend();
+  }
+
+  if (typeof localStorage !== 'undefined' && LocalStorageBackend.isAvailable()) {
+    return new LocalStorageBackend();
+  }
+
+  console.warn('本地存储不可用，数据将仅保存在内存中');
+  return new MemoryStorageBackend();
+}
+
+/**
+ * 创建大数据量存储后端
+ * 小程序本地缓存容量较大且没有 IndexedDB，返回 null 表示大数据量的键也保存在同步后端
+ * @returns 异步存储后端
+ */
+export function createBulkStorageBackend(): AsyncStorageBackend | null {
+  if (isMiniProgram() || !IndexedDBStorageBackend.isAvailable()) {
+    return null;
+  }
+
+  return new IndexedDBStorageBackend();
+}
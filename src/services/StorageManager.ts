@@ -1,17 +1,62 @@
 /**
  * 存储管理器
- * 微学宝盒 - 管理本地数据存储
+ * 微学宝盒 - 管理本地数据存储，按键把数据分配到同步存储或 IndexedDB
  */
 
-import { STORAGE_KEYS, DEFAULT_USER_PREFERENCES, DEFAULT_TRUST_PREFERENCES } from '@/types/user';
-import type { UserPreferences, TrustPreferences } from '@/types/user';
+import {
+  STORAGE_KEYS,
+  STORAGE_KEY_PREFIXES,
+  SENSITIVE_STORAGE_KEYS,
+  PRESERVED_STORAGE_KEYS,
+  BULK_STORAGE_KEYS,
+  EVICTABLE_STORAGE_KEYS,
+  PROFILE_STORAGE_KEYS,
+  DEFAULT_PROFILE_ID,
+  DEFAULT_USER_PREFERENCES,
+  DEFAULT_TRUST_PREFERENCES
+} from '@/types/user';
+import type { UserPreferences, TrustPreferences, ParentalGateState } from '@/types/user';
+import type { UserHistory } from '@/types/game';
+import type { z } from 'zod';
+import { AgeRangeSchema, IdListSchema, repairIdList, repairObject, toFieldErrors } from '@/schemas/common';
+import { UserPreferencesSchema, TrustPreferencesSchema, StoredUserInfoSchema, ParentalGateStateSchema } from '@/schemas/user';
+import { UserHistorySchema } from '@/schemas/game';
+import { reportValidationIssue } from '@/utils/validation';
+import { STORAGE_MIGRATIONS, STORAGE_SCHEMA_VERSION } from '@/services/StorageMigrations';
+import type { MigrationContext } from '@/services/StorageMigrations';
+import { createStorageBackend, createBulkStorageBackend, isQuotaExceededError } from '@/services/StorageBackend';
+import type { StorageBackend, AsyncStorageBackend } from '@/services/StorageBackend';
 
 /**
  * 存储管理器类
- * 统一管理应用的本地存储操作
+ * 统一管理应用的本地存储操作，应用写入的所有键都在 STORAGE_KEYS / STORAGE_KEY_PREFIXES 中登记
+ *
+ * BULK_STORAGE_KEYS 中的键保存在 IndexedDB：启动时加载到内存副本，读写都是同步的，
+ * 写入在后台按顺序落盘。依赖这些键的服务应在 whenReady() 之后再读取。
+ *
+ * PROFILE_STORAGE_KEYS 中的键按孩子档案隔离：读写时自动换成 `键名:当前档案ID`，
+ * 切换档案后这些键的订阅者都会收到变化通知。
  */
 export class StorageManager {
   private static instance: StorageManager;
+  private backend: StorageBackend = createStorageBackend();
+  private bulkBackend: AsyncStorageBackend | null = createBulkStorageBackend();
+  /** 大数据量键的内存副本 */
+  private bulkCache: Map<string, string> = new Map();
+  /** 加载完成前已被写入或删除的键，加载时不覆盖 */
+  private bulkTouched: Set<string> = new Set();
+  /** 等待落盘的键 */
+  private pendingBulkKeys: Set<string> = new Set();
+  private bulkWrites: Promise<void> = Promise.resolve();
+  private bulkLoaded = false;
+  private ready: Promise<void> = Promise.resolve();
+  /** 其他标签页修改存储项时的回调 */
+  private externalListeners: Map<string, Set<() => void>> = new Map();
+  /** 存储项变化（包括本页写入）时的回调 */
+  private changeListeners: Map<string, Set<() => void>> = new Map();
+  private storageEventInstalled = false;
+  /** 当前孩子档案ID（缓存） */
+  private activeProfileId: string | null = null;
 
   /**
    * 获取单例实例
@@ -23,6 +68,455 @@ export class StorageManager {
     return StorageManager.instance;
   }
 
+  constructor() {
+    this.runMigrations();
+    this.ready = this.loadBulkData();
+  }
+
+  // ==================== 存储后端 ====================
+
+  /**
+   * 获取当前存储后端
+   */
+  getBackend(): StorageBackend {
+    return this.backend;
+  }
+
+  /**
+   * 切换存储后端（如测试中使用内存后端）
+   * 切换后对新后端执行迁移并重新加载大数据量的键
+   * @param backend 存储后端
+   * @param bulkBackend 大数据量存储后端，为 null 时所有键都保存在 backend
+   * @returns 加载完成的 Promise
+   */
+  setBackend(backend: StorageBackend, bulkBackend: AsyncStorageBackend | null = null): Promise<void> {
+    this.backend = backend;
+    this.bulkBackend = bulkBackend;
+    this.bulkCache.clear();
+    this.bulkTouched.clear();
+    this.pendingBulkKeys.clear();
+    this.activeProfileId = null;
+    this.runMigrations();
+    this.ready = this.loadBulkData();
+    return this.ready;
+  }
+
+  /**
+   * 等待大数据量的键加载完成
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * 等待已写入的大数据量键全部落盘
+   */
+  async flush(): Promise<void> {
+    await this.ready;
+    await this.bulkWrites;
+  }
+
+  /**
+   * 获取各存储层的后端名称
+   */
+  getStorageTiers(): { sync: StorageBackend['name']; bulk: AsyncStorageBackend['name'] | null } {
+    return {
+      sync: this.backend.name,
+      bulk: this.bulkBackend?.name ?? null
+    };
+  }
+
+  // ==================== 存储分层 ====================
+
+  /**
+   * 检查键是否保存在大数据量存储中
+   * @param key 键名，按档案隔离的键可以带档案后缀
+   */
+  isBulkKey(key: string): boolean {
+    return this.bulkBackend !== null && BULK_STORAGE_KEYS.includes(this.getLogicalKey(key));
+  }
+
+  /**
+   * 加载大数据量的键到内存副本
+   * 旧版本保存在同步存储中的数据会被移动到 IndexedDB；IndexedDB 不可用时退回同步存储。
+   * 加载前读到的是同步存储中的旧数据，只在 IndexedDB 中的键加载后通知订阅者。
+   */
+  private async loadBulkData(): Promise<void> {
+    this.bulkLoaded = false;
+    const bulkBackend = this.bulkBackend;
+
+    if (!bulkBackend) {
+      this.bulkLoaded = true;
+      return;
+    }
+
+    const loaded: string[] = [];
+
+    try {
+      // 按档案隔离的键有多个实际键名，从两个存储中分别列出
+      const legacyKeys = this.backend.keys().filter(key => this.isBulkKey(key));
+      await Promise.all(legacyKeys.map(async key => {
+        const legacy = this.backend.getItem(key);
+        if (legacy === null) return;
+
+        await bulkBackend.setItem(key, legacy);
+        this.backend.removeItem(key);
+        if (!this.bulkTouched.has(key)) {
+          this.bulkCache.set(key, legacy);
+        }
+      }));
+
+      const storedKeys = (await bulkBackend.keys())
+        .filter(key => this.isBulkKey(key) && !legacyKeys.includes(key));
+      await Promise.all(storedKeys.map(async key => {
+        const stored = await bulkBackend.getItem(key);
+        if (stored !== null && !this.bulkTouched.has(key)) {
+          this.bulkCache.set(key, stored);
+          loaded.push(key);
+        }
+      }));
+    } catch (error) {
+      console.warn('加载IndexedDB存储失败，改用本地存储:', error);
+
+      const cached = Array.from(this.bulkCache.entries());
+      this.bulkBackend = null;
+      this.bulkCache.clear();
+      this.pendingBulkKeys.clear();
+      cached.forEach(([key, value]) => {
+        try {
+          this.writeRaw(key, value);
+        } catch (writeError) {
+          console.warn(`保存存储项失败 [${key}]:`, writeError);
+        }
+      });
+    } finally {
+      this.bulkLoaded = true;
+      this.bulkTouched.clear();
+    }
+
+    loaded.forEach(key => this.notifyChange(key));
+  }
+
+  /**
+   * 读取原始字符串
+   * 按档案隔离的键读取当前档案的数据
+   */
+  private readRaw(logicalKey: string): string | null {
+    const key = this.getProfileKey(logicalKey);
+
+    if (this.isBulkKey(key)) {
+      if (this.bulkCache.has(key)) {
+        return this.bulkCache.get(key)!;
+      }
+      // 加载完成前旧数据可能仍在同步存储中
+      return this.bulkLoaded || this.bulkTouched.has(key) ? null : this.backend.getItem(key);
+    }
+
+    return this.backend.getItem(key);
+  }
+
+  /**
+   * 写入原始字符串
+   * 同步存储容量不足时按顺序清除缓存键后重试，仍然不足则抛出异常
+   */
+  private writeRaw(logicalKey: string, value: string): void {
+    const key = this.getProfileKey(logicalKey);
+
+    if (this.isBulkKey(key)) {
+      this.bulkCache.set(key, value);
+      this.scheduleBulkWrite(key);
+      this.notifyChange(key);
+      return;
+    }
+
+    try {
+      this.backend.setItem(key, value);
+      this.notifyChange(key);
+      return;
+    } catch (error) {
+      if (!isQuotaExceededError(error)) throw error;
+
+      for (const evictable of EVICTABLE_STORAGE_KEYS) {
+        if (evictable === key || this.backend.getItem(evictable) === null) continue;
+
+        console.warn(`存储空间不足，清除缓存 [${evictable}]`);
+        this.backend.removeItem(evictable);
+
+        try {
+          this.backend.setItem(key, value);
+          this.notifyChange(key);
+          return;
+        } catch (retryError) {
+          if (!isQuotaExceededError(retryError)) throw retryError;
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * 删除键
+   */
+  private removeRaw(logicalKey: string): void {
+    const key = this.getProfileKey(logicalKey);
+
+    if (this.isBulkKey(key)) {
+      this.bulkCache.delete(key);
+      this.scheduleBulkWrite(key);
+    } else {
+      this.backend.removeItem(key);
+    }
+
+    this.notifyChange(key);
+  }
+
+  /**
+   * 安排大数据量键落盘，同一轮中多次写入同一个键只落盘最后的值
+   */
+  private scheduleBulkWrite(key: string): void {
+    if (!this.bulkLoaded) {
+      this.bulkTouched.add(key);
+    }
+
+    const scheduled = this.pendingBulkKeys.size > 0;
+    this.pendingBulkKeys.add(key);
+    if (scheduled) return;
+
+    // 加载完成后再落盘，避免旧数据覆盖新写入的值
+    this.bulkWrites = this.bulkWrites
+      .then(() => this.ready)
+      .then(() => this.flushBulkWrites());
+  }
+
+  /**
+   * 将等待中的键写入 IndexedDB
+   */
+  private async flushBulkWrites(): Promise<void> {
+    const keys = Array.from(this.pendingBulkKeys);
+    this.pendingBulkKeys.clear();
+
+    const bulkBackend = this.bulkBackend;
+    if (!bulkBackend) return;
+
+    for (const key of keys) {
+      try {
+        await this.persistBulkItem(bulkBackend, key, this.bulkCache.get(key) ?? null);
+      } catch (error) {
+        console.warn(`保存存储项失败 [${key}]:`, error);
+      }
+    }
+  }
+
+  /**
+   * 写入单个键到 IndexedDB
+   * 容量不足时按顺序清除缓存键后重试
+   */
+  private async persistBulkItem(bulkBackend: AsyncStorageBackend, key: string, value: string | null): Promise<void> {
+    if (value === null) {
+      await bulkBackend.removeItem(key);
+      return;
+    }
+
+    try {
+      await bulkBackend.setItem(key, value);
+      return;
+    } catch (error) {
+      if (!isQuotaExceededError(error)) throw error;
+
+      for (const evictable of EVICTABLE_STORAGE_KEYS) {
+        if (evictable === key || !this.bulkCache.has(evictable)) continue;
+
+        console.warn(`存储空间不足，清除缓存 [${evictable}]`);
+        this.bulkCache.delete(evictable);
+        this.pendingBulkKeys.delete(evictable);
+        await bulkBackend.removeItem(evictable);
+
+        try {
+          await bulkBackend.setItem(key, value);
+          return;
+        } catch (retryError) {
+          if (!isQuotaExceededError(retryError)) throw retryError;
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  // ==================== 孩子档案 ====================
+
+  /**
+   * 获取当前孩子档案ID
+   * @returns 档案ID，未设置时为默认档案
+   */
+  getActiveProfileId(): string {
+    if (this.activeProfileId === null) {
+      try {
+        this.activeProfileId = this.backend.getItem(STORAGE_KEYS.ACTIVE_PROFILE) || DEFAULT_PROFILE_ID;
+      } catch {
+        return DEFAULT_PROFILE_ID;
+      }
+    }
+    return this.activeProfileId;
+  }
+
+  /**
+   * 切换当前孩子档案
+   * 按档案隔离的键随之切换，并通知这些键的订阅者
+   * @param profileId 档案ID
+   */
+  setActiveProfileId(profileId: string): void {
+    if (profileId === this.getActiveProfileId()) return;
+
+    try {
+      this.backend.setItem(STORAGE_KEYS.ACTIVE_PROFILE, profileId);
+    } catch (error) {
+      console.warn('保存当前档案失败:', error);
+    }
+    this.activeProfileId = profileId;
+
+    [STORAGE_KEYS.ACTIVE_PROFILE, ...PROFILE_STORAGE_KEYS].forEach(key => this.notifyChange(key));
+  }
+
+  /**
+   * 获取按档案隔离的键实际保存的键名
+   * 用于读写非当前档案的数据，其他键原样返回
+   * @param key 键名
+   * @param profileId 档案ID，默认为当前档案
+   */
+  getProfileKey(key: string, profileId: string = this.getActiveProfileId()): string {
+    return PROFILE_STORAGE_KEYS.includes(key) ? `${key}:${profileId}` : key;
+  }
+
+  /**
+   * 获取键的逻辑键名
+   * 按档案隔离的键去掉档案后缀，其他键原样返回
+   * @param key 实际保存的键名
+   */
+  private getLogicalKey(key: string): string {
+    return PROFILE_STORAGE_KEYS.find(profileKey => key.startsWith(`${profileKey}:`)) ?? key;
+  }
+
+  /**
+   * 删除孩子档案的全部数据
+   * @param profileId 档案ID
+   */
+  removeProfileData(profileId: string): void {
+    PROFILE_STORAGE_KEYS.forEach(key => this.removeItem(this.getProfileKey(key, profileId)));
+  }
+
+  /**
+   * 获取订阅者使用的键名
+   * 当前档案的实际键名换回原键名
+   */
+  private getListenerKey(key: string): string {
+    const separator = key.lastIndexOf(':');
+    if (separator < 0) return key;
+
+    const base = key.slice(0, separator);
+    return PROFILE_STORAGE_KEYS.includes(base) && key.slice(separator + 1) === this.getActiveProfileId()
+      ? base
+      : key;
+  }
+
+  // ==================== 版本迁移 ====================
+
+  /**
+   * 获取存储版本
+   * @returns 版本号，未记录时返回0
+   */
+  getStorageVersion(): number {
+    try {
+      const version = Number(this.readRaw(STORAGE_KEYS.STORAGE_VERSION));
+      return Number.isInteger(version) && version > 0 ? version : 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * 按顺序执行未完成的迁移
+   * 某个迁移失败时停止，已完成的版本会被记录，下次启动从失败处重试
+   * @returns 迁移后的版本号
+   */
+  runMigrations(): number {
+    let version = this.getStorageVersion();
+
+    // 新安装：没有任何旧数据，直接记录为最新版本
+    const hasData = this.getRegisteredKeys().some(key => key !== STORAGE_KEYS.STORAGE_VERSION);
+    if (version === 0 && !hasData) {
+      this.setStorageVersion(STORAGE_SCHEMA_VERSION);
+      return STORAGE_SCHEMA_VERSION;
+    }
+
+    const context: MigrationContext = {
+      getRaw: key => this.backend.getItem(key),
+      setRaw: (key, value) => this.backend.setItem(key, value),
+      remove: key => this.backend.removeItem(key),
+      keys: () => this.getRegisteredKeys()
+    };
+
+    for (const migration of STORAGE_MIGRATIONS) {
+      if (migration.version <= version) continue;
+
+      try {
+        migration.migrate(context);
+      } catch (error) {
+        console.warn(`存储迁移失败 [v${migration.version} ${migration.description}]:`, error);
+        break;
+      }
+
+      version = migration.version;
+      this.setStorageVersion(version);
+    }
+
+    return version;
+  }
+
+  /**
+   * 记录存储版本
+   */
+  private setStorageVersion(version: number): void {
+    try {
+      this.writeRaw(STORAGE_KEYS.STORAGE_VERSION, String(version));
+    } catch (error) {
+      console.warn('保存存储版本失败:', error);
+    }
+  }
+
+  // ==================== 键登记 ====================
+
+  /**
+   * 检查键是否已登记
+   * @param key 键名
+   */
+  isRegisteredKey(key: string): boolean {
+    return (Object.values(STORAGE_KEYS) as string[]).includes(key)
+      || Object.values(STORAGE_KEY_PREFIXES).some(prefix => key.startsWith(prefix))
+      || PROFILE_STORAGE_KEYS.some(profileKey => key.startsWith(`${profileKey}:`));
+  }
+
+  /**
+   * 列出本地存储中所有已登记的键
+   * @returns 键名列表
+   */
+  getRegisteredKeys(): string[] {
+    const keys = new Set<string>(this.bulkCache.keys());
+
+    try {
+      this.backend.keys().forEach(key => {
+        if (this.isRegisteredKey(key)) {
+          keys.add(key);
+        }
+      });
+    } catch (error) {
+      console.warn('读取存储键失败:', error);
+    }
+
+    return Array.from(keys);
+  }
+
   // ==================== 用户偏好 ====================
 
   /**
@@ -30,12 +524,12 @@ export class StorageManager {
    * @returns 用户偏好设置
    */
   getUserPreferences(): UserPreferences {
-    try {
-      const prefs = localStorage.getItem(STORAGE_KEYS.USER_PREFERENCES);
-      return prefs ? { ...DEFAULT_USER_PREFERENCES, ...JSON.parse(prefs) } : DEFAULT_USER_PREFERENCES;
-    } catch {
-      return DEFAULT_USER_PREFERENCES;
-    }
+    return this.getValidatedItem(
+      STORAGE_KEYS.USER_PREFERENCES,
+      UserPreferencesSchema,
+      DEFAULT_USER_PREFERENCES,
+      repairObject(UserPreferencesSchema, DEFAULT_USER_PREFERENCES)
+    );
   }
 
   /**
@@ -46,7 +540,7 @@ export class StorageManager {
     try {
       const current = this.getUserPreferences();
       const updated = { ...current, ...preferences };
-      localStorage.setItem(STORAGE_KEYS.USER_PREFERENCES, JSON.stringify(updated));
+      this.writeRaw(STORAGE_KEYS.USER_PREFERENCES, JSON.stringify(updated));
     } catch (error) {
       console.warn('保存用户偏好失败:', error);
     }
@@ -59,12 +553,12 @@ export class StorageManager {
    * @returns 信任偏好设置
    */
   getTrustPreferences(): TrustPreferences {
-    try {
-      const prefs = localStorage.getItem(STORAGE_KEYS.TRUST_PREFERENCES);
-      return prefs ? { ...DEFAULT_TRUST_PREFERENCES, ...JSON.parse(prefs) } : DEFAULT_TRUST_PREFERENCES;
-    } catch {
-      return DEFAULT_TRUST_PREFERENCES;
-    }
+    return this.getValidatedItem(
+      STORAGE_KEYS.TRUST_PREFERENCES,
+      TrustPreferencesSchema,
+      DEFAULT_TRUST_PREFERENCES,
+      repairObject(TrustPreferencesSchema, DEFAULT_TRUST_PREFERENCES)
+    );
   }
 
   /**
@@ -75,7 +569,7 @@ export class StorageManager {
     try {
       const current = this.getTrustPreferences();
       const updated = { ...current, ...preferences };
-      localStorage.setItem(STORAGE_KEYS.TRUST_PREFERENCES, JSON.stringify(updated));
+      this.writeRaw(STORAGE_KEYS.TRUST_PREFERENCES, JSON.stringify(updated));
     } catch (error) {
       console.warn('保存信任偏好失败:', error);
     }
@@ -88,12 +582,7 @@ export class StorageManager {
    * @returns 年龄段
    */
   getAgeSelection(): [number, number] {
-    try {
-      const age = localStorage.getItem(STORAGE_KEYS.AGE_SELECTION);
-      return age ? JSON.parse(age) : [6, 9];
-    } catch {
-      return [6, 9];
-    }
+    return this.getValidatedItem(STORAGE_KEYS.AGE_SELECTION, AgeRangeSchema, [6, 9]);
   }
 
   /**
@@ -102,66 +591,115 @@ export class StorageManager {
    */
   setAgeSelection(age: [number, number]): void {
     try {
-      localStorage.setItem(STORAGE_KEYS.AGE_SELECTION, JSON.stringify(age));
+      this.writeRaw(STORAGE_KEYS.AGE_SELECTION, JSON.stringify(age));
     } catch (error) {
       console.warn('保存年龄段选择失败:', error);
     }
   }
 
-  // ==================== 收藏列表 ====================
+  // ==================== 最近游戏 ====================
 
   /**
-   * 获取收藏列表
+   * 获取最近游戏
    * @returns 游戏ID数组
    */
-  getFavorites(): string[] {
+  getRecentGames(): string[] {
+    return this.getValidatedItem(STORAGE_KEYS.RECENT_GAMES, IdListSchema, [], repairIdList);
+  }
+
+  /**
+   * 添加最近游戏
+   * @param gameId 游戏ID
+   */
+  addRecentGame(gameId: string): void {
     try {
-      const favorites = localStorage.getItem(STORAGE_KEYS.FAVORITES);
-      return favorites ? JSON.parse(favorites) : [];
-    } catch {
-      return [];
+      const games = this.getRecentGames();
+      // 去重并添加到开头
+      const updated = [gameId, ...games.filter(id => id !== gameId)].slice(0, 20);
+      this.writeRaw(STORAGE_KEYS.RECENT_GAMES, JSON.stringify(updated));
+    } catch (error) {
+      console.warn('添加最近游戏失败:', error);
     }
   }
 
+  // ==================== 家长验证 ====================
+
+  /**
+   * 获取家长验证状态
+   * @returns 验证状态
+   */
+  getParentalGateState(): ParentalGateState {
+    return this.getValidatedItem(STORAGE_KEYS.PARENTAL_GATE, ParentalGateStateSchema, { failures: 0 });
+  }
+
   /**
-   * 保存收藏列表
-   * @param favorites 游戏ID数组
+   * 保存家长验证状态
+   * @param state 验证状态
    */
-  setFavorites(favorites: string[]): void {
+  setParentalGateState(state: ParentalGateState): void {
     try {
-      localStorage.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(favorites));
+      this.writeRaw(STORAGE_KEYS.PARENTAL_GATE, JSON.stringify(state));
     } catch (error) {
-      console.warn('保存收藏列表失败:', error);
+      console.warn('保存家长验证状态失败:', error);
     }
   }
 
-  // ==================== 最近游戏 ====================
+  /**
+   * 家长验证是否在有效期内
+   */
+  isParentUnlocked(): boolean {
+    return (this.getParentalGateState().unlockedUntil ?? 0) > Date.now();
+  }
+
+  // ==================== 用户历史 ====================
 
   /**
-   * 获取最近游戏
-   * @returns 游戏ID数组
+   * 获取当前档案的用户历史（用于年龄段推荐）
+   * @returns 用户历史
    */
-  getRecentGames(): string[] {
+  getUserHistory(): UserHistory {
+    return this.getValidatedItem(STORAGE_KEYS.USER_HISTORY, UserHistorySchema, { recentGames: [] });
+  }
+
+  /**
+   * 保存当前档案的用户历史
+   * @param history 用户历史
+   */
+  setUserHistory(history: UserHistory): void {
     try {
-      const games = localStorage.getItem(STORAGE_KEYS.RECENT_GAMES);
-      return games ? JSON.parse(games) : [];
+      this.writeRaw(STORAGE_KEYS.USER_HISTORY, JSON.stringify(history));
+    } catch (error) {
+      console.warn('保存用户历史失败:', error);
+    }
+  }
+
+  // ==================== 风险提示 ====================
+
+  /**
+   * 获取风险提示确认时间
+   * @param gameId 游戏ID
+   * @returns 确认时间，未确认时返回null
+   */
+  getRiskAlertSeenAt(gameId: string): number | null {
+    try {
+      const seen = this.readRaw(`${STORAGE_KEY_PREFIXES.RISK_ALERT}${gameId}`);
+      const seenAt = seen ? parseInt(seen, 10) : NaN;
+      return Number.isFinite(seenAt) ? seenAt : null;
     } catch {
-      return [];
+      return null;
     }
   }
 
   /**
-   * 添加最近游戏
+   * 记录风险提示确认时间
    * @param gameId 游戏ID
+   * @param seenAt 确认时间
    */
-  addRecentGame(gameId: string): void {
+  setRiskAlertSeenAt(gameId: string, seenAt: number = Date.now()): void {
     try {
-      const games = this.getRecentGames();
-      // 去重并添加到开头
-      const updated = [gameId, ...games.filter(id => id !== gameId)].slice(0, 20);
-      localStorage.setItem(STORAGE_KEYS.RECENT_GAMES, JSON.stringify(updated));
+      this.writeRaw(`${STORAGE_KEY_PREFIXES.RISK_ALERT}${gameId}`, String(seenAt));
     } catch (error) {
-      console.warn('添加最近游戏失败:', error);
+      console.warn('保存风险提示状态失败:', error);
     }
   }
 
@@ -173,7 +711,7 @@ export class StorageManager {
    */
   getUserToken(): string | null {
     try {
-      return localStorage.getItem(STORAGE_KEYS.USER_TOKEN);
+      return this.readRaw(STORAGE_KEYS.USER_TOKEN);
     } catch {
       return null;
     }
@@ -185,7 +723,7 @@ export class StorageManager {
    */
   setUserToken(token: string): void {
     try {
-      localStorage.setItem(STORAGE_KEYS.USER_TOKEN, token);
+      this.writeRaw(STORAGE_KEYS.USER_TOKEN, token);
     } catch (error) {
       console.warn('保存用户Token失败:', error);
     }
@@ -196,32 +734,71 @@ export class StorageManager {
    */
   clearUserToken(): void {
     try {
-      localStorage.removeItem(STORAGE_KEYS.USER_TOKEN);
+      this.removeRaw(STORAGE_KEYS.USER_TOKEN);
     } catch (error) {
       console.warn('清除用户Token失败:', error);
     }
   }
 
   /**
-   * 获取用户信息
-   * @returns 用户信息
+   * 获取刷新Token
+   * @returns 刷新Token字符串
    */
-  getUserInfo(): Record<string, unknown> | null {
+  getRefreshToken(): string | null {
     try {
-      const info = localStorage.getItem(STORAGE_KEYS.USER_INFO);
-      return info ? JSON.parse(info) : null;
+      return this.readRaw(STORAGE_KEYS.REFRESH_TOKEN);
     } catch {
       return null;
     }
   }
 
+  /**
+   * 保存刷新Token
+   * @param token 刷新Token字符串
+   */
+  setRefreshToken(token: string): void {
+    try {
+      this.writeRaw(STORAGE_KEYS.REFRESH_TOKEN, token);
+    } catch (error) {
+      console.warn('保存刷新Token失败:', error);
+    }
+  }
+
+  /**
+   * 清除刷新Token
+   */
+  clearRefreshToken(): void {
+    try {
+      this.removeRaw(STORAGE_KEYS.REFRESH_TOKEN);
+    } catch (error) {
+      console.warn('清除刷新Token失败:', error);
+    }
+  }
+
+  /**
+   * 获取用户信息
+   * @returns 用户信息
+   */
+  getUserInfo(): Record<string, unknown> | null {
+    return this.getValidatedItem(STORAGE_KEYS.USER_INFO, StoredUserInfoSchema.nullable(), null);
+  }
+
+  /**
+   * 获取当前用户ID
+   * @returns 用户ID，未登录时返回null
+   */
+  getUserId(): string | null {
+    const info = this.getUserInfo();
+    return typeof info?.id === 'string' ? info.id : null;
+  }
+
   /**
    * 保存用户信息
    * @param info 用户信息
    */
   setUserInfo(info: Record<string, unknown>): void {
     try {
-      localStorage.setItem(STORAGE_KEYS.USER_INFO, JSON.stringify(info));
+      this.writeRaw(STORAGE_KEYS.USER_INFO, JSON.stringify(info));
     } catch (error) {
       console.warn('保存用户信息失败:', error);
     }
@@ -232,7 +809,7 @@ export class StorageManager {
    */
   clearUserInfo(): void {
     try {
-      localStorage.removeItem(STORAGE_KEYS.USER_INFO);
+      this.removeRaw(STORAGE_KEYS.USER_INFO);
     } catch (error) {
       console.warn('清除用户信息失败:', error);
     }
@@ -246,10 +823,10 @@ export class StorageManager {
    */
   getSessionId(): string {
     try {
-      let sessionId = localStorage.getItem(STORAGE_KEYS.SESSION_ID);
+      let sessionId = this.readRaw(STORAGE_KEYS.SESSION_ID);
       if (!sessionId) {
         sessionId = this.generateSessionId();
-        localStorage.setItem(STORAGE_KEYS.SESSION_ID, sessionId);
+        this.writeRaw(STORAGE_KEYS.SESSION_ID, sessionId);
       }
       return sessionId;
     } catch {
@@ -273,13 +850,66 @@ export class StorageManager {
    */
   getItem<T>(key: string): T | null {
     try {
-      const item = localStorage.getItem(key);
+      const item = this.readRaw(key);
       return item ? JSON.parse(item) : null;
     } catch {
       return null;
     }
   }
 
+  /**
+   * 获取并校验存储项
+   * 校验失败时先尝试修复并写回，无法修复则删除该项并返回默认值，两种情况都会上报诊断
+   * @param key 键名
+   * @param schema 数据结构
+   * @param fallback 默认值
+   * @param repair 修复方法，返回 undefined 表示无法修复
+   * @returns 校验后的值
+   */
+  getValidatedItem<S extends z.ZodType>(
+    key: string,
+    schema: S,
+    fallback: z.output<S>,
+    repair?: (value: unknown) => unknown
+  ): z.output<S> {
+    let raw: string | null;
+    try {
+      raw = this.readRaw(key);
+    } catch {
+      return fallback;
+    }
+
+    if (raw === null) return fallback;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      reportValidationIssue({ source: 'storage', key, action: 'reset', issues: { '(root)': ['JSON解析失败'] } });
+      this.removeItem(key);
+      return fallback;
+    }
+
+    const result = schema.safeParse(value);
+    if (result.success) {
+      return result.data;
+    }
+
+    const issues = toFieldErrors(result.error);
+    const repairedValue = repair?.(value);
+    const repaired = repairedValue === undefined ? null : schema.safeParse(repairedValue);
+
+    if (repaired?.success) {
+      reportValidationIssue({ source: 'storage', key, action: 'repaired', issues });
+      this.setItem(key, repaired.data);
+      return repaired.data;
+    }
+
+    reportValidationIssue({ source: 'storage', key, action: 'reset', issues });
+    this.removeItem(key);
+    return fallback;
+  }
+
   /**
    * 设置存储项
    * @param key 键名
@@ -287,7 +917,7 @@ export class StorageManager {
    */
   setItem<T>(key: string, value: T): void {
     try {
-      localStorage.setItem(key, JSON.stringify(value));
+      this.writeRaw(key, JSON.stringify(value));
     } catch (error) {
       console.warn(`保存存储项失败 [${key}]:`, error);
     }
@@ -299,21 +929,161 @@ export class StorageManager {
    */
   removeItem(key: string): void {
     try {
-      localStorage.removeItem(key);
+      this.removeRaw(key);
     } catch (error) {
       console.warn(`移除存储项失败 [${key}]:`, error);
     }
   }
 
   /**
-   * 清空所有存储
+   * 订阅存储项变化
+   * 本页写入和其他标签页的修改都会触发
+   * @param key 键名
+   * @param callback 回调函数
+   * @returns 取消订阅函数
+   */
+  onChange(key: string, callback: () => void): () => void {
+    this.installStorageEvent();
+    return this.addListener(this.changeListeners, key, callback);
+  }
+
+  /**
+   * 订阅其他标签页对存储项的修改
+   * 依赖浏览器的 storage 事件，只有 localStorage 后端中的键会收到通知
+   * @param key 键名
+   * @param callback 回调函数
+   * @returns 取消订阅函数
+   */
+  onExternalChange(key: string, callback: () => void): () => void {
+    this.installStorageEvent();
+    return this.addListener(this.externalListeners, key, callback);
+  }
+
+  /**
+   * 添加监听器
    */
-  clear(): void {
+  private addListener(listeners: Map<string, Set<() => void>>, key: string, callback: () => void): () => void {
+    if (!listeners.has(key)) {
+      listeners.set(key, new Set());
+    }
+    listeners.get(key)!.add(callback);
+
+    return () => {
+      listeners.get(key)?.delete(callback);
+    };
+  }
+
+  /**
+   * 通知存储项变化
+   * @param key 键名
+   * @param external 是否来自其他标签页
+   */
+  private notifyChange(changedKey: string, external: boolean = false): void {
+    const key = this.getListenerKey(changedKey);
+    const callbacks = [
+      ...(external ? this.externalListeners.get(key) ?? [] : []),
+      ...(this.changeListeners.get(key) ?? [])
+    ];
+
+    callbacks.forEach(callback => {
+      try {
+        callback();
+      } catch (error) {
+        console.warn(`通知存储变化失败 [${key}]:`, error);
+      }
+    });
+  }
+
+  /**
+   * 监听 storage 事件
+   */
+  private installStorageEvent(): void {
+    if (this.storageEventInstalled || typeof window === 'undefined' || !window.addEventListener) return;
+    this.storageEventInstalled = true;
+
+    window.addEventListener('storage', (event: StorageEvent) => {
+      if (this.backend.name !== 'localStorage') return;
+
+      // key 为 null 表示其他标签页清空了存储
+      const keys = event.key === null
+        ? Array.from(new Set([...this.externalListeners.keys(), ...this.changeListeners.keys()]))
+        : [event.key];
+      keys.forEach(key => this.notifyChange(key, true));
+    });
+  }
+
+  // ==================== 导入导出 ====================
+
+  /**
+   * 导出本地数据
+   * 包含所有已登记的键（登录凭证除外）和存储版本
+   * @returns 键名到原始字符串的映射
+   */
+  exportData(): Record<string, string> {
+    const data: Record<string, string> = {};
+
+    this.getRegisteredKeys()
+      .filter(key => !SENSITIVE_STORAGE_KEYS.includes(key))
+      .forEach(key => {
+        const value = this.readRaw(key);
+        if (value !== null) {
+          data[key] = value;
+        }
+      });
+
+    return data;
+  }
+
+  /**
+   * 导入本地数据
+   * 只写入已登记的键，导入后按导出时的版本继续执行迁移
+   * @param data exportData 导出的数据
+   */
+  importData(data: Record<string, string>): void {
+    try {
+      // 旧版本导出的未隔离键导入到当前档案
+      Object.entries(data)
+        .filter(([key, value]) =>
+          this.isRegisteredKey(key) && !SENSITIVE_STORAGE_KEYS.includes(key) && typeof value === 'string'
+        )
+        .forEach(([key, value]) => this.writeRaw(key, value));
+
+      // 旧版本导出的数据可能没有版本号，从头迁移
+      if (!(STORAGE_KEYS.STORAGE_VERSION in data)) {
+        this.writeRaw(STORAGE_KEYS.STORAGE_VERSION, '0');
+      }
+    } catch (error) {
+      console.warn('导入数据失败:', error);
+    }
+
+    this.activeProfileId = null;
+
+    this.runMigrations();
+  }
+
+  /**
+   * 清空应用存储
+   * 只删除已登记的键，不影响同域下其他应用的数据；家长密码和验证状态保留；需要先通过家长验证
+   * @returns 是否已清空
+   */
+  clear(): boolean {
+    if (!this.isParentUnlocked()) {
+      console.warn('清空存储需要先通过家长验证');
+      return false;
+    }
+
     try {
-      localStorage.clear();
+      this.getRegisteredKeys()
+        .filter(key => !PRESERVED_STORAGE_KEYS.includes(key))
+        .forEach(key => this.removeRaw(key));
     } catch (error) {
       console.warn('清空存储失败:', error);
     }
+
+    this.activeProfileId = null;
+
+    this.setStorageVersion(STORAGE_SCHEMA_VERSION);
+    return true;
   }
 }
 
@@ -0,0 +1,129 @@
+/**
+ * 存储迁移
+ * 微学宝盒 - 按版本顺序升级本地存储，保证老用户升级后数据可用
+ */
+
+import { STORAGE_KEYS, STORAGE_KEY_PREFIXES, DEFAULT_PROFILE_ID } from '@/types/user';
+import { repairIdList } from '@/schemas/common';
+import { safeParseTrustBadge } from '@/schemas/trustBadge';
+
+/**
+ * 迁移时可用的存储操作
+ * 迁移在同步存储上执行，早于 IndexedDB 数据加载，旧版本的大数据量键此时仍在同步存储中
+ */
+export interface MigrationContext {
+  /** 读取原始字符串 */
+  getRaw(key: string): string | null;
+  /** 写入原始字符串 */
+  setRaw(key: string, value: string): void;
+  /** 删除键 */
+  remove(key: string): void;
+  /** 列出所有已登记的键 */
+  keys(): string[];
+}
+
+/**
+ * 单个迁移
+ */
+export interface StorageMigration {
+  /** 迁移完成后的版本号 */
+  version: number;
+  /** 迁移说明 */
+  description: string;
+  /** 迁移方法 */
+  migrate(context: MigrationContext): void;
+}
+
+/**
+ * 读取JSON值，无法解析时返回 undefined
+ */
+function readJson(context: MigrationContext, key: string): unknown {
+  const raw = context.getRaw(key);
+  if (raw === null) return undefined;
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 迁移列表，必须按版本号递增排列
+ * 新增迁移只能追加到末尾，已发布的迁移不可修改
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'ID列表统一为数组格式',
+    migrate(context) {
+      [STORAGE_KEYS.FAVORITES, STORAGE_KEYS.RECENT_GAMES].forEach(key => {
+        const value = readJson(context, key);
+        if (value === undefined || Array.isArray(value)) return;
+
+        const ids = repairIdList(value);
+        if (ids) {
+          context.setRaw(key, JSON.stringify(ids));
+        } else {
+          context.remove(key);
+        }
+      });
+    }
+  },
+  {
+    version: 2,
+    description: '游戏缓存中的信任标识升级到当前结构',
+    migrate(context) {
+      const games = readJson(context, STORAGE_KEYS.GAME_CACHE);
+      if (!Array.isArray(games)) return;
+
+      const upgraded = games.flatMap(game => {
+        const result = safeParseTrustBadge(game?.trustBadge);
+        return result.success ? [{ ...game, trustBadge: result.data }] : [];
+      });
+
+      context.setRaw(STORAGE_KEYS.GAME_CACHE, JSON.stringify(upgraded));
+    }
+  },
+  {
+    version: 3,
+    description: '清理过期的风险提示记录',
+    migrate(context) {
+      const expiresBefore = Date.now() - 24 * 60 * 60 * 1000;
+
+      context.keys()
+        .filter(key => key.startsWith(STORAGE_KEY_PREFIXES.RISK_ALERT))
+        .forEach(key => {
+          const seenAt = Number(context.getRaw(key));
+          if (!Number.isFinite(seenAt) || seenAt < expiresBefore) {
+            context.remove(key);
+          }
+        });
+    }
+  },
+  {
+    version: 4,
+    description: '收藏、分组、最近游戏和年龄段选择移到默认孩子档案下',
+    migrate(context) {
+      [
+        STORAGE_KEYS.FAVORITES,
+        STORAGE_KEYS.RECENT_GAMES,
+        STORAGE_KEYS.AGE_SELECTION,
+        STORAGE_KEYS.USER_GROUPS,
+        STORAGE_KEYS.FAVORITES_SYNC,
+        STORAGE_KEYS.LIKED_GAMES
+      ].forEach(key => {
+        const value = context.getRaw(key);
+        if (value === null) return;
+
+        context.setRaw(`${key}:${DEFAULT_PROFILE_ID}`, value);
+        context.remove(key);
+      });
+    }
+  }
+];
+
+/**
+ * 当前存储版本
+ */
+export const STORAGE_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
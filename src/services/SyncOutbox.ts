@@ -0,0 +1,623 @@
+/**
+ * 同步队列
+ * 微学宝盒 - 持久化保存待同步的写操作，联网或回到前台时按指数退避重试
+ */
+
+import Taro from '@tarojs/taro';
+import { z } from 'zod';
+import { STORAGE_KEYS } from '@/types/user';
+import { LOCAL_GROUP_ID_PREFIX } from '@/types/game';
+import { apiClient } from '@/services/ApiClient';
+import { storageManager } from '@/services/StorageManager';
+import { ApiRequestError } from '@/utils/ApiErrorHandler';
+import { isMiniProgram } from '@/utils/env';
+import { OutboxEntrySchema, OutboxMutationSchema } from '@/schemas/outbox';
+import { repairArray } from '@/schemas/common';
+
+/**
+ * 写操作
+ */
+export type OutboxMutation = z.infer<typeof OutboxMutationSchema>;
+
+/**
+ * 写操作类型
+ */
+export type OutboxMutationType = OutboxMutation['type'];
+
+/**
+ * 同步队列条目
+ */
+export type OutboxEntry = z.infer<typeof OutboxEntrySchema>;
+
+/**
+ * 入队选项
+ */
+export interface EnqueueOptions {
+  /** 幂等键，默认自动生成 */
+  idempotencyKey?: string;
+  /** 去重键，入队时替换尚未同步的同键条目（如同一游戏的收藏/取消收藏） */
+  dedupeKey?: string;
+}
+
+/**
+ * 同步状态
+ */
+export interface SyncState {
+  /** 等待同步的条目数 */
+  pending: number;
+  /** 多次重试后仍失败、需要用户处理的条目数 */
+  failed: number;
+  /** 是否正在同步 */
+  syncing: boolean;
+  /** 是否在线 */
+  online: boolean;
+  /** 最近一次同步成功的时间 */
+  lastSyncedAt: number | null;
+  /** 最近一次失败的原因 */
+  lastError: string | null;
+}
+
+/**
+ * 条目同步成功的回调
+ * result 为接口返回的数据（如新建分组）
+ */
+type SyncedHandler = (entry: OutboxEntry, result: unknown) => void;
+
+/**
+ * 同步队列类
+ * 所有写操作经由队列发送，失败后按指数退避重试，同步成功的条目立即移出队列
+ */
+export class SyncOutbox {
+  private static instance: SyncOutbox;
+  private readonly STORAGE_KEY = STORAGE_KEYS.SYNC_OUTBOX;
+  /** 首次重试间隔 */
+  private readonly BASE_DELAY = 2000;
+  /** 最长重试间隔 */
+  private readonly MAX_DELAY = 5 * 60 * 1000;
+  /** 最多尝试次数，超过后标记为失败 */
+  private readonly MAX_ATTEMPTS = 8;
+
+  private entries: OutboxEntry[] = [];
+  private listeners: Set<(state: SyncState) => void> = new Set();
+  private syncedHandlers: Map<OutboxMutationType, Set<SyncedHandler>> = new Map();
+  /** 同步按顺序执行，每次 flush 都排在上一次之后 */
+  private flushChain: Promise<void> = Promise.resolve();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncing = false;
+  private lastSyncedAt: number | null = null;
+  private lastError: string | null = null;
+  private ready: Promise<void>;
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): SyncOutbox {
+    if (!SyncOutbox.instance) {
+      SyncOutbox.instance = new SyncOutbox();
+    }
+    return SyncOutbox.instance;
+  }
+
+  constructor() {
+    // 队列保存在 IndexedDB，加载完成后开始同步
+    this.ready = storageManager.whenReady().then(() => {
+      this.entries = storageManager.getValidatedItem(
+        this.STORAGE_KEY,
+        z.array(OutboxEntrySchema),
+        [],
+        repairArray(OutboxEntrySchema)
+      );
+      this.notifyListeners();
+    });
+
+    this.listenForResume();
+    this.flush(true);
+  }
+
+  // ==================== 入队 ====================
+
+  /**
+   * 加入写操作
+   * @param mutation 写操作
+   * @param options 入队选项
+   * @returns 队列条目
+   */
+  enqueue(mutation: OutboxMutation, options: EnqueueOptions = {}): OutboxEntry {
+    const now = Date.now();
+    const entry = {
+      ...mutation,
+      id: this.generateId(),
+      idempotencyKey: options.idempotencyKey || this.generateId(),
+      dedupeKey: options.dedupeKey,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now
+    } as OutboxEntry;
+
+    // 加载完成前入队的条目排在已保存的条目之后
+    this.ready.then(() => {
+      if (entry.dedupeKey) {
+        this.entries = this.entries.filter(e => e.dedupeKey !== entry.dedupeKey || e.status === 'failed');
+      }
+      this.entries.push(entry);
+      this.save();
+    });
+
+    this.flush();
+    return entry;
+  }
+
+  /**
+   * 是否存在同一去重键的条目
+   * @param dedupeKey 去重键
+   */
+  has(dedupeKey: string): boolean {
+    return this.entries.some(entry => entry.dedupeKey === dedupeKey);
+  }
+
+  /**
+   * 获取队列条目
+   */
+  getEntries(): OutboxEntry[] {
+    return [...this.entries];
+  }
+
+  // ==================== 同步 ====================
+
+  /**
+   * 同步队列
+   * @param force 是否忽略退避时间立即重试
+   * @returns 本轮同步结束的 Promise
+   */
+  flush(force: boolean = false): Promise<void> {
+    this.flushChain = this.flushChain
+      .then(() => this.ready)
+      .then(() => this.processQueue(force))
+      .catch(error => {
+        console.warn('同步队列执行失败:', error);
+      })
+      .finally(() => this.scheduleRetry());
+
+    return this.flushChain;
+  }
+
+  /**
+   * 重试所有失败的条目
+   */
+  retryFailed(): Promise<void> {
+    this.entries = this.entries.map(entry => (
+      entry.status === 'failed'
+        ? { ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), lastError: undefined }
+        : entry
+    ));
+    this.save();
+    return this.flush(true);
+  }
+
+  /**
+   * 丢弃所有失败的条目
+   */
+  discardFailed(): void {
+    this.entries = this.entries.filter(entry => entry.status !== 'failed');
+    this.save();
+  }
+
+  /**
+   * 按顺序发送到期的条目
+   * 可重试的失败会阻塞后续条目，保证同一对象的写操作按入队顺序到达服务端
+   */
+  private async processQueue(force: boolean): Promise<void> {
+    if (!this.isOnline()) {
+      this.notifyListeners();
+      return;
+    }
+
+    if (!this.entries.some(entry => entry.status === 'pending')) return;
+
+    this.setSyncing(true);
+
+    try {
+      // 新建分组同步后，再发送一轮此前等待它的条目
+      let again = true;
+      while (again) {
+        again = await this.processDue(force);
+      }
+    } finally {
+      this.setSyncing(false);
+    }
+  }
+
+  /**
+   * 发送一轮到期的条目
+   * @returns 是否有等待中的条目因新建分组同步而可以发送
+   */
+  private async processDue(force: boolean): Promise<boolean> {
+    const due = this.entries.filter(entry => entry.status === 'pending');
+    let waiting = false;
+
+    for (const { id } of due) {
+      // 同步期间可能已被去重替换，或换用了服务端分组ID
+      const entry = this.entries.find(e => e.id === id);
+      if (!entry) continue;
+
+      if (this.isWaitingForGroup(entry)) {
+        waiting = true;
+        continue;
+      }
+
+      if (!force && entry.nextAttemptAt > Date.now()) break;
+
+      let result: unknown;
+      try {
+        result = await this.send(entry);
+      } catch (error) {
+        if (this.recordFailure(entry, error)) break;
+        continue;
+      }
+
+      this.entries = this.entries.filter(e => e.id !== entry.id);
+      this.lastSyncedAt = Date.now();
+      this.lastError = null;
+      this.save();
+      this.notifySynced(entry, result);
+
+      if (waiting && entry.type === 'group-create') return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * 发送单个条目
+   */
+  private send(entry: OutboxEntry): Promise<unknown> {
+    const options = { idempotencyKey: entry.idempotencyKey };
+
+    switch (entry.type) {
+      case 'feedback':
+        return apiClient.submitFeedback(entry.payload, options);
+      case 'favorite-add':
+        return apiClient.addToFavorites(entry.payload.userId, entry.payload.gameId, entry.payload.profileId, options);
+      case 'favorite-remove':
+        return apiClient.removeFromFavorites(entry.payload.userId, entry.payload.gameId, entry.payload.profileId, options);
+      case 'group-create':
+        return this.sendGroupCreate(entry, options);
+      case 'group-update': {
+        const { userId, groupId, changes, profileId } = entry.payload;
+        return this.ignoreMissingGroup(groupId, apiClient.updateGroup(userId, groupId, changes, profileId, options));
+      }
+      case 'group-delete': {
+        const { userId, groupId, profileId } = entry.payload;
+        return this.ignoreMissingGroup(groupId, apiClient.deleteGroup(userId, groupId, profileId, options));
+      }
+      case 'group-add-game': {
+        const { userId, groupId, gameId, profileId } = entry.payload;
+        return this.ignoreMissingGroup(groupId, apiClient.addGameToGroup(userId, groupId, gameId, profileId, options));
+      }
+      case 'group-remove-game': {
+        const { userId, groupId, gameId, profileId } = entry.payload;
+        return this.ignoreMissingGroup(groupId, apiClient.removeGameFromGroup(userId, groupId, gameId, profileId, options));
+      }
+      case 'group-reorder':
+        return apiClient.reorderGroups(entry.payload.userId, entry.payload.groupIds, entry.payload.profileId, options);
+      case 'group-reorder-games': {
+        const { userId, groupId, gameIds, profileId } = entry.payload;
+        return this.ignoreMissingGroup(groupId, apiClient.reorderGamesInGroup(userId, groupId, gameIds, profileId, options));
+      }
+      case 'rating':
+        return apiClient.submitParentRating(entry.payload.gameId, entry.payload.rating, entry.payload.comment, options);
+      case 'report':
+        return apiClient.reportGame(entry.payload.gameId, entry.payload.reason, entry.payload.details, options);
+      case 'session-end':
+        return this.sendSessionEnd(entry, options);
+    }
+  }
+
+  /**
+   * 分组已不存在（如已被其他设备删除）时，对它的修改无需再同步
+   * 本地分组ID在服务端不存在说明创建没有同步成功，不能当作已删除
+   */
+  private async ignoreMissingGroup(groupId: string, request: Promise<unknown>): Promise<unknown> {
+    try {
+      return await request;
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.statusCode === 404 && !groupId.startsWith(LOCAL_GROUP_ID_PREFIX)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 创建分组
+   * 创建成功后，队列中对本地分组的修改改为发往服务端分组
+   */
+  private async sendGroupCreate(
+    entry: Extract<OutboxEntry, { type: 'group-create' }>,
+    options: { idempotencyKey: string }
+  ): Promise<unknown> {
+    const { userId, group, profileId, localId } = entry.payload;
+    const created = await apiClient.createGroup(userId, group, profileId, options);
+    if (localId && localId !== created.id) {
+      this.replaceGroupId(localId, created.id);
+    }
+    return created;
+  }
+
+  /**
+   * 获取条目修改的分组
+   */
+  private getTargetGroupIds(entry: OutboxEntry): string[] {
+    switch (entry.type) {
+      case 'group-reorder':
+        return entry.payload.groupIds;
+      case 'group-update':
+      case 'group-delete':
+      case 'group-add-game':
+      case 'group-remove-game':
+      case 'group-reorder-games':
+        return [entry.payload.groupId];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * 目标分组是否仍在等待创建
+   * 本地新建的分组在创建同步前没有服务端ID，对它的修改留在队列中等待
+   */
+  private isWaitingForGroup(entry: OutboxEntry): boolean {
+    const targets = this.getTargetGroupIds(entry);
+    if (targets.length === 0) return false;
+
+    return this.entries.some(e => (
+      e.type === 'group-create' && !!e.payload.localId && targets.includes(e.payload.localId)
+    ));
+  }
+
+  /**
+   * 把尚未同步条目中的本地分组ID替换为服务端ID
+   */
+  private replaceGroupId(localId: string, groupId: string): void {
+    const replace = (id: string) => (id === localId ? groupId : id);
+
+    this.entries = this.entries.map(entry => {
+      if (!this.getTargetGroupIds(entry).includes(localId)) return entry;
+
+      const dedupeKey = entry.dedupeKey?.split(':').map(replace).join(':');
+      const payload = entry.type === 'group-reorder'
+        ? { ...entry.payload, groupIds: entry.payload.groupIds.map(replace) }
+        : { ...entry.payload, groupId };
+      return { ...entry, dedupeKey, payload } as OutboxEntry;
+    });
+    this.save();
+  }
+
+  /**
+   * 结束游戏会话
+   * 开始游戏时没能创建会话（如离线）的，先补建再结束；补建的会话ID记入条目，重试时不再重复创建
+   */
+  private async sendSessionEnd(
+    entry: Extract<OutboxEntry, { type: 'session-end' }>,
+    options: { idempotencyKey: string }
+  ): Promise<void> {
+    let { sessionId } = entry.payload;
+    if (!sessionId) {
+      sessionId = (await apiClient.startGameSession(entry.payload.gameId)).id;
+      const payload = { ...entry.payload, sessionId };
+      this.entries = this.entries.map(e => (e.id === entry.id ? { ...entry, payload } : e));
+      this.save();
+    }
+
+    await apiClient.endGameSession(sessionId, entry.payload.duration, entry.payload.feedback, options);
+  }
+
+  /**
+   * 记录失败
+   * @returns 是否为可重试的失败（需要暂停后续条目）
+   */
+  private recordFailure(failed: OutboxEntry, error: unknown): boolean {
+    // 发送过程中条目可能已更新（如补建的会话ID）
+    const entry = this.entries.find(e => e.id === failed.id) ?? failed;
+    const retryable = this.isRetryable(error);
+    const attempts = entry.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+
+    console.warn(`同步失败 [${entry.type}]:`, error);
+
+    const updated: OutboxEntry = retryable && attempts < this.MAX_ATTEMPTS
+      ? { ...entry, attempts, nextAttemptAt: Date.now() + this.getBackoffDelay(attempts), lastError: message }
+      : { ...entry, attempts, status: 'failed', lastError: message };
+
+    this.entries = this.entries.map(e => (e.id === entry.id ? updated : e));
+    this.lastError = message;
+    this.save();
+
+    return updated.status === 'pending';
+  }
+
+  /**
+   * 是否值得重试
+   * 网络错误、服务端错误、超时、限流和登录过期可重试；参数错误等重试也不会成功
+   */
+  private isRetryable(error: unknown): boolean {
+    if (!(error instanceof ApiRequestError)) return true;
+    if (error.isNetworkError) return true;
+
+    const status = error.statusCode;
+    return status === undefined
+      || status >= 500
+      || status === 401
+      || status === 408
+      || status === 429;
+  }
+
+  /**
+   * 计算退避时间（带 ±20% 抖动）
+   * @param attempts 已尝试次数
+   */
+  private getBackoffDelay(attempts: number): number {
+    const delay = Math.min(this.BASE_DELAY * 2 ** (attempts - 1), this.MAX_DELAY);
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  /**
+   * 安排下一次重试
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const next = this.entries.find(entry => entry.status === 'pending' && !this.isWaitingForGroup(entry));
+    if (!next || !this.isOnline()) return;
+
+    const delay = Math.max(0, next.nextAttemptAt - Date.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  /**
+   * 联网或回到前台时立即重试
+   */
+  private listenForResume(): void {
+    const resume = () => {
+      this.notifyListeners();
+      this.flush(true);
+    };
+
+    if (isMiniProgram()) {
+      Taro.onNetworkStatusChange(({ isConnected }) => {
+        if (isConnected) resume();
+      });
+      Taro.onAppShow(resume);
+      return;
+    }
+
+    if (typeof window === 'undefined') return;
+
+    window.addEventListener('online', resume);
+    window.addEventListener('offline', () => this.notifyListeners());
+
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') resume();
+      });
+    }
+  }
+
+  // ==================== 状态 ====================
+
+  /**
+   * 获取同步状态
+   */
+  getState(): SyncState {
+    return {
+      pending: this.entries.filter(entry => entry.status === 'pending').length,
+      failed: this.entries.filter(entry => entry.status === 'failed').length,
+      syncing: this.syncing,
+      online: this.isOnline(),
+      lastSyncedAt: this.lastSyncedAt,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * 订阅同步状态变化
+   * @param callback 回调函数
+   * @returns 取消订阅函数
+   */
+  subscribe(callback: (state: SyncState) => void): () => void {
+    this.listeners.add(callback);
+
+    // 立即通知当前状态
+    callback(this.getState());
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * 订阅某类写操作同步成功
+   * @param type 写操作类型
+   * @param handler 回调函数
+   * @returns 取消订阅函数
+   */
+  onSynced(type: OutboxMutationType, handler: SyncedHandler): () => void {
+    if (!this.syncedHandlers.has(type)) {
+      this.syncedHandlers.set(type, new Set());
+    }
+    this.syncedHandlers.get(type)!.add(handler);
+
+    return () => {
+      this.syncedHandlers.get(type)?.delete(handler);
+    };
+  }
+
+  /**
+   * 通知同步成功
+   */
+  private notifySynced(entry: OutboxEntry, result: unknown): void {
+    this.syncedHandlers.get(entry.type)?.forEach(handler => {
+      try {
+        handler(entry, result);
+      } catch (error) {
+        console.warn('通知同步结果失败:', error);
+      }
+    });
+  }
+
+  /**
+   * 通知所有监听器
+   */
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach(callback => {
+      try {
+        callback(state);
+      } catch (error) {
+        console.warn('通知同步状态监听器失败:', error);
+      }
+    });
+  }
+
+  /**
+   * 更新同步中状态
+   */
+  private setSyncing(syncing: boolean): void {
+    this.syncing = syncing;
+    this.notifyListeners();
+  }
+
+  /**
+   * 保存队列并通知监听器
+   */
+  private save(): void {
+    storageManager.setItem(this.STORAGE_KEY, this.entries);
+    this.notifyListeners();
+  }
+
+  /**
+   * 是否在线
+   */
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  /**
+   * 生成唯一ID
+   */
+  private generateId(): string {
+    return `${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+// 导出单例实例
+export const syncOutbox = SyncOutbox.getInstance();
+
+export default syncOutbox;
@@ -0,0 +1,224 @@
+/**
+ * 信任过滤器
+ * 微学宝盒 - 按家长的信任偏好过滤游戏，并说明每个游戏被隐藏的原因
+ */
+
+import type { GameCard } from '@/types/game';
+import type { TrustPreferences } from '@/types/user';
+import { storageManager } from '@/services/StorageManager';
+import { parentalGate } from '@/services/ParentalGate';
+
+/**
+ * 隐藏原因
+ */
+export type TrustExclusionReason =
+  | 'not-moderated'
+  | 'low-trust-score'
+  | 'not-verified'
+  | 'has-ads'
+  | 'has-tracking';
+
+/**
+ * 隐藏原因显示文本
+ */
+export const TRUST_EXCLUSION_TEXT: Record<TrustExclusionReason, string> = {
+  'not-moderated': '内容未经审核',
+  'low-trust-score': '信任分低于设置',
+  'not-verified': '未通过平台验证',
+  'has-ads': '包含广告',
+  'has-tracking': '包含追踪'
+};
+
+/**
+ * 过滤条件
+ */
+export interface TrustFilterOptions {
+  trustPreferences: TrustPreferences;
+  /** 严格模式：无论偏好如何都屏蔽广告和追踪 */
+  strictMode: boolean;
+}
+
+/**
+ * 被隐藏的游戏
+ */
+export interface TrustExclusion {
+  game: GameCard;
+  reasons: TrustExclusionReason[];
+}
+
+/**
+ * 过滤结果
+ */
+export interface TrustFilterResult {
+  /** 允许展示的游戏（保持原顺序） */
+  allowed: GameCard[];
+  /** 被隐藏的游戏及原因 */
+  excluded: TrustExclusion[];
+  /** 被隐藏的数量 */
+  hiddenCount: number;
+}
+
+/**
+ * 信任过滤器类
+ * 所有游戏列表（列表页、排行榜、推荐）统一经过此过滤
+ */
+export class TrustFilter {
+  private static instance: TrustFilter;
+  private listeners: Set<(options: TrustFilterOptions) => void> = new Set();
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): TrustFilter {
+    if (!TrustFilter.instance) {
+      TrustFilter.instance = new TrustFilter();
+    }
+    return TrustFilter.instance;
+  }
+
+  /**
+   * 获取当前过滤条件
+   * @returns 已保存的信任偏好和严格模式
+   */
+  getOptions(): TrustFilterOptions {
+    return {
+      trustPreferences: storageManager.getTrustPreferences(),
+      strictMode: storageManager.getUserPreferences().strictMode
+    };
+  }
+
+  /**
+   * 更新信任偏好
+   * 需要先通过家长验证
+   * @param preferences 信任偏好
+   * @returns 是否已更新
+   */
+  setTrustPreferences(preferences: Partial<TrustPreferences>): boolean {
+    if (!parentalGate.isUnlocked()) {
+      console.warn('修改信任偏好需要先通过家长验证');
+      return false;
+    }
+
+    storageManager.setTrustPreferences(preferences);
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * 切换严格模式
+   * 需要先通过家长验证
+   * @param strictMode 是否开启
+   * @returns 是否已切换
+   */
+  setStrictMode(strictMode: boolean): boolean {
+    if (!parentalGate.isUnlocked()) {
+      console.warn('切换严格模式需要先通过家长验证');
+      return false;
+    }
+
+    storageManager.setUserPreferences({ strictMode });
+    this.notifyListeners();
+    return true;
+  }
+
+  /**
+   * 获取游戏被隐藏的原因
+   * @param game 游戏
+   * @param options 过滤条件，默认使用已保存的设置
+   * @returns 原因列表，为空表示允许展示
+   */
+  getExclusionReasons(game: GameCard, options: TrustFilterOptions = this.getOptions()): TrustExclusionReason[] {
+    const { trustPreferences, strictMode } = options;
+    const { securityCheck, verifiedAt } = game.trustBadge;
+    const reasons: TrustExclusionReason[] = [];
+
+    // 未审核内容始终隐藏
+    if (!securityCheck.contentModerated) {
+      reasons.push('not-moderated');
+    }
+
+    if (game.trustScore < trustPreferences.minTrustScore) {
+      reasons.push('low-trust-score');
+    }
+
+    if (trustPreferences.requireVerified && !verifiedAt) {
+      reasons.push('not-verified');
+    }
+
+    if (securityCheck.hasAds && (trustPreferences.blockAds || strictMode)) {
+      reasons.push('has-ads');
+    }
+
+    if (securityCheck.hasTracking && (trustPreferences.blockTracking || strictMode)) {
+      reasons.push('has-tracking');
+    }
+
+    return reasons;
+  }
+
+  /**
+   * 检查游戏是否允许展示
+   * @param game 游戏
+   * @param options 过滤条件
+   */
+  isAllowed(game: GameCard, options?: TrustFilterOptions): boolean {
+    return this.getExclusionReasons(game, options).length === 0;
+  }
+
+  /**
+   * 过滤游戏列表
+   * @param games 游戏列表
+   * @param options 过滤条件，默认使用已保存的设置
+   * @returns 允许展示的游戏和被隐藏的游戏
+   */
+  filter(games: GameCard[], options: TrustFilterOptions = this.getOptions()): TrustFilterResult {
+    const allowed: GameCard[] = [];
+    const excluded: TrustExclusion[] = [];
+
+    games.forEach(game => {
+      const reasons = this.getExclusionReasons(game, options);
+      if (reasons.length === 0) {
+        allowed.push(game);
+      } else {
+        excluded.push({ game, reasons });
+      }
+    });
+
+    return { allowed, excluded, hiddenCount: excluded.length };
+  }
+
+  /**
+   * 订阅过滤条件变化
+   * @param callback 回调函数
+   * @returns 取消订阅函数
+   */
+  subscribe(callback: (options: TrustFilterOptions) => void): () => void {
+    this.listeners.add(callback);
+
+    // 立即通知当前条件
+    callback(this.getOptions());
+
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * 通知所有监听器
+   */
+  private notifyListeners(): void {
+    const options = this.getOptions();
+    this.listeners.forEach(callback => {
+      try {
+        callback(options);
+      } catch (error) {
+        console.warn('通知信任过滤监听器失败:', error);
+      }
+    });
+  }
+}
+
+// 导出单例实例
+export const trustFilter = TrustFilter.getInstance();
+
+export default trustFilter;
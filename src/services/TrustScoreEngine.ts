@@ -4,6 +4,8 @@
  */
 
 import type { GameCard, TrustBadge, SecurityStatus } from '@/types/game';
+import { trustFilter } from '@/services/TrustFilter';
+import type { TrustFilterOptions } from '@/services/TrustFilter';
 
 /**
  * 信任度计算引擎类
@@ -103,26 +105,26 @@ export class TrustScoreEngine {
    * @returns 风险等级分数 (0.5-1)
    */
   private getRiskLevelScore(game: GameCard): number {
-    const { securityChecks } = game.trustBadge;
+    const { securityCheck } = game.trustBadge;
     let score = 1.0;
 
     // 广告影响
-    if (securityChecks.hasAds) {
+    if (securityCheck.hasAds) {
       score *= 0.7;
     }
 
     // 追踪影响
-    if (securityChecks.hasTracking) {
+    if (securityCheck.hasTracking) {
       score *= 0.8;
     }
 
     // 外部链接影响
-    if (securityChecks.hasExternalLinks) {
+    if (securityCheck.hasExternalLinks) {
       score *= 0.9;
     }
 
     // 内容审核加分
-    if (securityChecks.contentModerated) {
+    if (securityCheck.contentModerated) {
       score *= 1.0;
     }
 
@@ -231,10 +233,10 @@ export class TrustScoreEngine {
    */
   calculateSecurityStatus(game: GameCard): SecurityStatus {
     return {
-      hasAds: game.trustBadge.securityChecks.hasAds,
-      hasTracking: game.trustBadge.securityChecks.hasTracking,
-      hasExternalLinks: game.trustBadge.securityChecks.hasExternalLinks,
-      contentModerated: game.trustBadge.securityChecks.contentModerated
+      hasAds: game.trustBadge.securityCheck.hasAds,
+      hasTracking: game.trustBadge.securityCheck.hasTracking,
+      hasExternalLinks: game.trustBadge.securityCheck.hasExternalLinks,
+      contentModerated: game.trustBadge.securityCheck.contentModerated
     };
   }
 
@@ -245,16 +247,16 @@ export class TrustScoreEngine {
    * @returns 是否安全
    */
   isGameSafe(game: GameCard, strictMode: boolean = false): boolean {
-    const { securityChecks } = game.trustBadge;
+    const { securityCheck } = game.trustBadge;
 
     // 基础安全检查
-    if (!securityChecks.contentModerated) {
+    if (!securityCheck.contentModerated) {
       return false;
     }
 
     // 严格模式检查
     if (strictMode) {
-      if (securityChecks.hasAds || securityChecks.hasTracking) {
+      if (securityCheck.hasAds || securityCheck.hasTracking) {
         return false;
       }
     }
@@ -264,12 +266,14 @@ export class TrustScoreEngine {
 
   /**
    * 获取信任度排行榜
+   * 先按家长信任偏好过滤，再按信任度排序
    * @param games 游戏列表
    * @param limit 限制数量
+   * @param options 过滤条件，默认使用已保存的设置
    * @returns 排序后的游戏列表
    */
-  getTrustRanking(games: GameCard[], limit: number = 10): GameCard[] {
-    return games
+  getTrustRanking(games: GameCard[], limit: number = 10, options?: TrustFilterOptions): GameCard[] {
+    return trustFilter.filter(games, options).allowed
       .map(game => ({
         game,
         score: this.calculateTrustScore(game)
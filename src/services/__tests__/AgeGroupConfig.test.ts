@@ -0,0 +1,128 @@
+/**
+ * 年龄段配置测试
+ * 微学宝盒 - 年龄段划分必须首尾相接且只有一个默认年龄段，无效配置不生效
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { apiClient } from '@/services/ApiClient';
+import { AgeGroupConfig } from '@/services/AgeGroupConfig';
+import { AgeGroupTaxonomySchema, getAgeGroupIssues } from '@/schemas/game';
+import { DEFAULT_AGE_GROUP_TAXONOMY, type AgeGroup, type AgeGroupTaxonomy } from '@/types/game';
+import { STORAGE_KEYS } from '@/types/user';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+const group = (min: number, max: number, overrides: Partial<AgeGroup> = {}): AgeGroup => ({
+  id: `${min}-${max}`,
+  ageRange: [min, max],
+  label: `${min}-${max}岁`,
+  color: '#10B981',
+  ...overrides
+});
+
+const taxonomy = (groups: AgeGroup[], version = 2): AgeGroupTaxonomy => ({ version, groups });
+
+describe('年龄段划分校验', () => {
+  it('内置划分通过校验', () => {
+    expect(getAgeGroupIssues(DEFAULT_AGE_GROUP_TAXONOMY.groups)).toEqual([]);
+    expect(AgeGroupTaxonomySchema.safeParse(DEFAULT_AGE_GROUP_TAXONOMY).success).toBe(true);
+  });
+
+  it('至少需要一个年龄段', () => {
+    expect(getAgeGroupIssues([])).toEqual(['至少需要一个年龄段']);
+  });
+
+  it('相邻年龄段重叠或留空档', () => {
+    expect(getAgeGroupIssues([group(3, 6, { default: true }), group(5, 9)])).toEqual(['年龄段 3-6岁 与 5-9岁 重叠']);
+    expect(getAgeGroupIssues([group(3, 6, { default: true }), group(7, 9)])).toEqual(['年龄段 3-6岁 与 7-9岁 之间缺少 6-7岁']);
+  });
+
+  it('年龄段需按最小年龄升序排列', () => {
+    expect(getAgeGroupIssues([group(6, 9, { default: true }), group(3, 6)])).toEqual(['年龄段 3-6岁 应排在 6-9岁 之前']);
+  });
+
+  it('ID不能重复，范围不能为空', () => {
+    expect(getAgeGroupIssues([
+      group(3, 6, { default: true }),
+      group(6, 6, { id: '3-6' })
+    ])).toEqual(['年龄段ID重复：3-6', '年龄段 6-6岁 的范围为空']);
+  });
+
+  it('有且只有一个默认年龄段', () => {
+    expect(getAgeGroupIssues([group(3, 6), group(6, 9)])).toEqual(['缺少默认年龄段']);
+    expect(getAgeGroupIssues([group(3, 6, { default: true }), group(6, 9, { default: true })])).toEqual(['默认年龄段只能有一个']);
+  });
+
+  it('结构错误和划分问题都在 schema 中报告', () => {
+    const result = AgeGroupTaxonomySchema.safeParse(taxonomy([group(3, 6), group(7, 9)]));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => issue.message)).toEqual([
+      '年龄段 3-6岁 与 7-9岁 之间缺少 6-7岁',
+      '缺少默认年龄段'
+    ]);
+    expect(AgeGroupTaxonomySchema.safeParse({ version: -1, groups: [] }).success).toBe(false);
+    expect(AgeGroupTaxonomySchema.safeParse({ version: 1, groups: [{ ...group(3, 6, { default: true }), ageRange: [6, 3] }] }).success).toBe(false);
+  });
+});
+
+describe('AgeGroupConfig', () => {
+  let config: AgeGroupConfig;
+
+  beforeEach(async () => {
+    await storageManager.setBackend(new MemoryStorageBackend());
+    config = new AgeGroupConfig();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('保存有效的划分并按新划分归类年龄', () => {
+    const listener = vi.fn();
+    config.subscribe(listener);
+
+    expect(config.setTaxonomy(taxonomy([group(0, 4), group(4, 8, { default: true }), group(8, 99)]))).toBe(true);
+
+    expect(config.getDefaultGroup().id).toBe('4-8');
+    expect(config.findByAge(4).id).toBe('4-8');
+    expect(config.findByAge(120).id).toBe('8-99');
+    expect(listener).toHaveBeenLastCalledWith(config.getGroups());
+  });
+
+  it('无效的划分不保存，继续使用原有划分', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(config.setTaxonomy(taxonomy([group(3, 6), group(5, 9)]))).toBe(false);
+
+    expect(storageManager.getItem(STORAGE_KEYS.AGE_GROUPS)).toBeNull();
+    expect(config.getTaxonomy()).toEqual(DEFAULT_AGE_GROUP_TAXONOMY);
+  });
+
+  it('本地保存的划分无效时回退到内置划分', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    storageManager.setItem(STORAGE_KEYS.AGE_GROUPS, taxonomy([group(3, 6, { default: true }), group(7, 9)]));
+
+    expect(new AgeGroupConfig().getTaxonomy()).toEqual(DEFAULT_AGE_GROUP_TAXONOMY);
+  });
+
+  it('只应用版本更新的服务端划分', async () => {
+    const getAgeGroups = vi.spyOn(apiClient, 'getAgeGroups').mockResolvedValue(DEFAULT_AGE_GROUP_TAXONOMY);
+    expect(await config.refresh()).toBe(false);
+
+    const updated = taxonomy([group(3, 7), group(7, 12, { default: true }), group(12, 99)]);
+    getAgeGroups.mockResolvedValue(updated);
+    expect(await config.refresh()).toBe(true);
+    expect(config.getTaxonomy()).toEqual(updated);
+  });
+
+  it('服务端划分校验失败时保持不变', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(apiClient, 'getAgeGroups').mockResolvedValue(taxonomy([group(3, 6), group(6, 9)], 5));
+
+    expect(await config.refresh()).toBe(false);
+    expect(config.getTaxonomy()).toEqual(DEFAULT_AGE_GROUP_TAXONOMY);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * 年龄段推荐引擎测试
+ * 微学宝盒 - 由出生年月计算月龄，并按月龄归入年龄段
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { AgeRecommendationEngine } from '@/services/AgeRecommendationEngine';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+const NOW = new Date(2025, 5, 15).getTime();
+
+describe('AgeRecommendationEngine 月龄', () => {
+  let engine: AgeRecommendationEngine;
+
+  beforeEach(async () => {
+    await storageManager.setBackend(new MemoryStorageBackend());
+    engine = new AgeRecommendationEngine();
+  });
+
+  it('按自然月计算月龄，出生当月为0个月', () => {
+    expect(engine.getAgeInMonths('2025-06', NOW)).toBe(0);
+    expect(engine.getAgeInMonths('2025-01', NOW)).toBe(5);
+    expect(engine.getAgeInMonths('2019-06', NOW)).toBe(72);
+    expect(engine.getAgeInMonths('2019-07', NOW)).toBe(71);
+  });
+
+  it('跨年时月龄连续', () => {
+    const newYear = new Date(2026, 0, 1).getTime();
+
+    expect(engine.getAgeInMonths('2025-12', newYear)).toBe(1);
+    expect(engine.getAgeInMonths('2020-01', newYear)).toBe(72);
+  });
+
+  it('格式错误、月份越界或晚于当前时间时返回 null', () => {
+    expect(engine.getAgeInMonths('2019-6', NOW)).toBeNull();
+    expect(engine.getAgeInMonths('2019-06-01', NOW)).toBeNull();
+    expect(engine.getAgeInMonths('2019-13', NOW)).toBeNull();
+    expect(engine.getAgeInMonths('2019-00', NOW)).toBeNull();
+    expect(engine.getAgeInMonths('2025-07', NOW)).toBeNull();
+  });
+
+  it('满6岁当月归入6-9岁，超出范围时归入最小或最大年龄段', () => {
+    expect(engine.recommendByAgeInMonths(71)).toEqual([3, 6]);
+    expect(engine.recommendByAgeInMonths(72)).toEqual([6, 9]);
+    expect(engine.recommendByAgeInMonths(12)).toEqual([3, 6]);
+    expect(engine.recommendByAgeInMonths(20 * 12)).toEqual([12, 99]);
+  });
+
+  it('游戏适龄范围包含最大年龄的整年', () => {
+    expect(engine.getAgeFit([6, 9], 71)).toBe('too-young');
+    expect(engine.getAgeFit([6, 9], 72)).toBe('fit');
+    expect(engine.getAgeFit([6, 9], 119)).toBe('fit');
+    expect(engine.getAgeFit([6, 9], 120)).toBe('too-old');
+  });
+
+  it('月龄显示文本', () => {
+    expect(engine.formatAge(8)).toBe('8个月');
+    expect(engine.formatAge(60)).toBe('5岁');
+    expect(engine.formatAge(63)).toBe('5岁3个月');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * API客户端测试
+ * 微学宝盒 - 接口响应经过结构校验；登录过期时并发请求共享一次Token刷新
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, vi, type MockInstance } from 'vitest';
+import { installMockBackend, mockServer } from '@/mocks';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { apiClient } from '@/services/ApiClient';
+import { ApiErrorHandler, INVALID_RESPONSE_ERROR_CODE } from '@/utils/ApiErrorHandler';
+import { API_ENDPOINTS } from '@/types/api';
+
+const reLaunch = vi.hoisted(() => vi.fn(() => Promise.resolve()));
+
+vi.mock('@tarojs/taro', () => ({ default: { reLaunch } }));
+
+describe('ApiClient 响应校验', () => {
+  let uninstall: () => void;
+
+  beforeAll(() => {
+    uninstall = installMockBackend();
+  });
+
+  afterAll(() => {
+    uninstall();
+  });
+
+  beforeEach(async () => {
+    mockServer.reset();
+    await storageManager.setBackend(new MemoryStorageBackend());
+  });
+
+  it('登录、用户信息、收藏和发布接口的响应通过校验', async () => {
+    const { user } = await apiClient.login('code');
+
+    expect(storageManager.getUserToken()).toBeTruthy();
+    expect((await apiClient.getUserInfo(user.id)).id).toBe(user.id);
+    expect((await apiClient.updateUserInfo(user.id, { nickname: '小明' })).nickname).toBe('小明');
+    expect(await apiClient.getUserFavorites(user.id)).toEqual(mockServer.getDatabase().favorites[user.id]);
+
+    const submission = await apiClient.submitGame({
+      title: '数字拼图',
+      description: '练习加法',
+      url: 'https://example.com/puzzle',
+      ageRecommendation: [4, 6],
+      skills: ['数学'],
+      estimatedDuration: 10,
+      uploadMethod: 'link',
+      isOriginal: true,
+      creatorId: user.id,
+      status: 'draft'
+    });
+
+    expect(submission.status).toBe('pending');
+    expect((await apiClient.getGameStatus(submission.id!)).status).toBe('pending');
+    expect((await apiClient.getUserGames(user.id)).map(game => game.id)).toContain(submission.id);
+    expect((await apiClient.crawlGameInfo('https://example.com/puzzle')).url).toBe('https://example.com/puzzle');
+  });
+
+  it('反馈统计的响应通过校验', async () => {
+    const gameId = mockServer.getDatabase().games[0].id;
+
+    const stats = await apiClient.getFeedbackStats(gameId);
+
+    expect(stats.total).toBe(stats.positive + stats.neutral + stats.negative);
+  });
+
+  it('不合法的响应抛出校验错误', async () => {
+    const user = mockServer.getDatabase().users[0];
+    mockServer.getDatabase().favorites[user.id] = [123 as unknown as string];
+
+    await expect(apiClient.getUserFavorites(user.id)).rejects.toMatchObject({
+      code: INVALID_RESPONSE_ERROR_CODE
+    });
+  });
+});
+
+describe('ApiClient 登录过期', () => {
+  let uninstall: () => void;
+  let fetchSpy: MockInstance<typeof fetch>;
+
+  /**
+   * 让携带指定Token的请求返回401
+   */
+  const expireToken = (token: string) => {
+    const mockFetch = globalThis.fetch;
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation((input, init) => {
+      if (new Headers(init?.headers).get('Authorization') === `Bearer ${token}`) {
+        return Promise.resolve(new Response(JSON.stringify({ code: 401, message: '登录已过期' }), {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+      return mockFetch(input, init);
+    });
+  };
+
+  const refreshCalls = () => fetchSpy.mock.calls.filter(([input]) => String(input).includes(API_ENDPOINTS.AUTH_REFRESH));
+
+  beforeAll(() => {
+    uninstall = installMockBackend();
+  });
+
+  afterAll(() => {
+    uninstall();
+  });
+
+  beforeEach(async () => {
+    mockServer.reset();
+    reLaunch.mockClear();
+    await storageManager.setBackend(new MemoryStorageBackend());
+    await apiClient.login('code');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    ApiErrorHandler.resetUnauthorized();
+  });
+
+  it('并发的401请求只刷新一次Token，刷新后全部重放成功', async () => {
+    const expired = storageManager.getUserToken()!;
+    expireToken(expired);
+
+    const games = await Promise.all(['game_001', 'game_002', 'game_003'].map(id => apiClient.getGameDetail(id)));
+
+    expect(games.map(game => game.id)).toEqual(['game_001', 'game_002', 'game_003']);
+    expect(refreshCalls()).toHaveLength(1);
+    expect(storageManager.getUserToken()).not.toBe(expired);
+    expect(reLaunch).not.toHaveBeenCalled();
+  });
+
+  it('刷新被拒绝时登出，并发请求只跳转一次登录页', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    expireToken(storageManager.getUserToken()!);
+    mockServer.getDatabase().refreshTokens = {};
+
+    const results = await Promise.allSettled(['game_001', 'game_002'].map(id => apiClient.getGameDetail(id)));
+    vi.advanceTimersByTime(1500);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect(refreshCalls()).toHaveLength(1);
+    expect(storageManager.getUserToken()).toBeNull();
+    expect(reLaunch).toHaveBeenCalledTimes(1);
+    expect(reLaunch).toHaveBeenCalledWith({ url: '/pages/login/index' });
+  });
+
+  it('重新登录后再次过期时仍会跳转登录页', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+
+    for (let round = 0; round < 2; round++) {
+      await apiClient.login('code');
+      expireToken(storageManager.getUserToken()!);
+      mockServer.getDatabase().refreshTokens = {};
+
+      await expect(apiClient.getGameDetail('game_001')).rejects.toThrow();
+      vi.advanceTimersByTime(1500);
+      vi.mocked(globalThis.fetch).mockRestore();
+    }
+
+    expect(reLaunch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * 收藏管理器测试
+ * 微学宝盒 - 两台设备通过模拟后端同步分组
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { installMockBackend, mockServer } from '@/mocks';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { favoriteManager } from '@/services/FavoriteManager';
+import { syncOutbox } from '@/services/SyncOutbox';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+/**
+ * 模拟一台设备的本地存储
+ * 切换设备前同步队列需已清空，队列只在启动时从存储加载
+ */
+class Device {
+  readonly backend = new MemoryStorageBackend();
+
+  constructor(private userId: string) {}
+
+  async use(): Promise<void> {
+    await syncOutbox.flush(true);
+    await storageManager.setBackend(this.backend);
+    storageManager.setUserInfo({ id: this.userId });
+  }
+
+  async sync(): Promise<void> {
+    await this.use();
+    await favoriteManager.syncWithServer();
+    await syncOutbox.flush(true);
+  }
+}
+
+describe('FavoriteManager 分组同步', () => {
+  let uninstall: () => void;
+  let userId: string;
+  let deviceA: Device;
+  let deviceB: Device;
+  let groupId: string;
+
+  const serverGroup = () => mockServer.getDatabase().groups[userId].find(group => group.id === groupId);
+  const localGroup = () => favoriteManager.getGroup(groupId);
+
+  beforeAll(() => {
+    uninstall = installMockBackend();
+  });
+
+  afterAll(() => {
+    uninstall();
+  });
+
+  beforeEach(async () => {
+    mockServer.reset();
+    userId = mockServer.getDatabase().users[0].id;
+    deviceA = new Device(userId);
+    deviceB = new Device(userId);
+
+    // 设备A新建分组，设备B同步后两边都有
+    await deviceA.sync();
+    await favoriteManager.createGroup({ name: '周末', gameIds: ['game_001'] });
+    await syncOutbox.flush(true);
+    groupId = favoriteManager.getGroups().find(group => group.name === '周末')!.id;
+    await deviceB.sync();
+    expect(localGroup()?.name).toBe('周末');
+  });
+
+  it('设备A改名后设备B同步得到新名称', async () => {
+    await deviceA.use();
+    favoriteManager.updateGroup(groupId, { name: '周末练习' });
+    await syncOutbox.flush(true);
+    expect(serverGroup()?.name).toBe('周末练习');
+
+    await deviceB.sync();
+    expect(localGroup()?.name).toBe('周末练习');
+    expect(serverGroup()?.name).toBe('周末练习');
+
+    // 再次同步也不会被设备A的旧基准改回
+    await deviceA.sync();
+    expect(localGroup()?.name).toBe('周末练习');
+  });
+
+  it('设备A删除分组后设备B同步不再恢复', async () => {
+    await deviceA.use();
+    await favoriteManager.deleteGroup(groupId);
+    await syncOutbox.flush(true);
+    expect(serverGroup()).toBeUndefined();
+
+    await deviceB.sync();
+    expect(localGroup()).toBeUndefined();
+    expect(serverGroup()).toBeUndefined();
+  });
+
+  it('组内游戏的增删在两台设备间合并', async () => {
+    await deviceA.use();
+    await favoriteManager.addGameToGroup(groupId, 'game_002');
+    await deviceB.use();
+    await favoriteManager.removeGameFromGroup(groupId, 'game_001');
+    await syncOutbox.flush(true);
+
+    await deviceA.sync();
+    expect(localGroup()?.gameIds).toEqual(['game_002']);
+    await deviceB.sync();
+    expect(localGroup()?.gameIds).toEqual(['game_002']);
+    expect(serverGroup()?.gameIds).toEqual(['game_002']);
+  });
+
+  it('分组顺序、组内游戏顺序和排序方式同步到另一台设备', async () => {
+    await deviceA.use();
+    await favoriteManager.addGameToGroup(groupId, 'game_002');
+    favoriteManager.reorderGroups([groupId]);
+    favoriteManager.reorderGamesInGroup(groupId, ['game_002', 'game_001']);
+    await syncOutbox.flush(true);
+
+    await deviceB.sync();
+    expect(favoriteManager.getGroups()[0].id).toBe(groupId);
+    expect(localGroup()?.gameIds).toEqual(['game_002', 'game_001']);
+    expect(localGroup()?.sortOrder).toBe('manual');
+
+    favoriteManager.setGroupSortOrder(groupId, 'title');
+    await deviceA.sync();
+    expect(localGroup()?.sortOrder).toBe('title');
+    expect(mockServer.getDatabase().groups[userId][0].id).toBe(groupId);
+  });
+
+  it('另一台设备删除分组后，对该分组的修改不会停留在同步队列', async () => {
+    await deviceA.use();
+    await favoriteManager.deleteGroup(groupId);
+    await syncOutbox.flush(true);
+
+    await deviceB.use();
+    favoriteManager.updateGroup(groupId, { name: '周末练习' });
+    await syncOutbox.flush(true);
+    expect(syncOutbox.getEntries()).toEqual([]);
+
+    await deviceB.sync();
+    expect(localGroup()).toBeUndefined();
+  });
+
+  it('新建分组同步前的修改在创建后发往服务端分组', async () => {
+    await deviceA.use();
+    const created = await favoriteManager.createGroup({ name: '睡前', gameIds: [] });
+    await favoriteManager.addGameToGroup(created.id, 'game_002');
+    favoriteManager.updateGroup(created.id, { name: '睡前故事' });
+    await syncOutbox.flush(true);
+
+    expect(syncOutbox.getEntries()).toEqual([]);
+    const synced = favoriteManager.getGroups().find(group => group.name === '睡前故事')!;
+    expect(synced.id).not.toBe(created.id);
+    expect(mockServer.getDatabase().groups[userId].find(group => group.id === synced.id))
+      .toMatchObject({ name: '睡前故事', gameIds: ['game_002'] });
+  });
+
+  it('同一时刻新建的分组ID不重复', async () => {
+    await deviceA.use();
+    const [first, second] = await Promise.all([
+      favoriteManager.createGroup({ name: '数学', gameIds: [] }),
+      favoriteManager.createGroup({ name: '语文', gameIds: [] })
+    ]);
+
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('移到尚未同步的分组的游戏在创建后发往服务端分组', async () => {
+    await deviceA.use();
+    const created = await favoriteManager.createGroup({ name: '睡前', gameIds: [] });
+    expect(favoriteManager.moveGameToGroup('game_001', groupId, created.id)).toBe(true);
+    await syncOutbox.flush(true);
+
+    expect(syncOutbox.getEntries()).toEqual([]);
+    const synced = favoriteManager.getGroups().find(group => group.name === '睡前')!;
+    expect(mockServer.getDatabase().groups[userId].find(group => group.id === synced.id)?.gameIds)
+      .toEqual(['game_001']);
+    expect(serverGroup()?.gameIds).toEqual([]);
+  });
+
+  it('尚未同步的分组调整的游戏顺序在创建后发往服务端分组', async () => {
+    await deviceA.use();
+    const created = await favoriteManager.createGroup({ name: '睡前', gameIds: ['game_001', 'game_002'] });
+    favoriteManager.reorderGamesInGroup(created.id, ['game_002', 'game_001']);
+    await syncOutbox.flush(true);
+
+    expect(syncOutbox.getEntries()).toEqual([]);
+    const synced = favoriteManager.getGroups().find(group => group.name === '睡前')!;
+    expect(mockServer.getDatabase().groups[userId].find(group => group.id === synced.id))
+      .toMatchObject({ gameIds: ['game_002', 'game_001'], sortOrder: 'manual' });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * 游戏目录测试
+ * 微学宝盒 - 翻页进行中刷新列表时，刷新结果为最新的第一页
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, vi } from 'vitest';
+import { installMockBackend, mockServer } from '@/mocks';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { apiClient } from '@/services/ApiClient';
+import { GameCatalog } from '@/services/GameCatalog';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+describe('GameCatalog 刷新', () => {
+  let uninstall: () => void;
+  let catalog: GameCatalog;
+
+  beforeAll(() => {
+    uninstall = installMockBackend();
+  });
+
+  afterAll(() => {
+    uninstall();
+  });
+
+  beforeEach(async () => {
+    mockServer.reset();
+    await storageManager.setBackend(new MemoryStorageBackend());
+    catalog = new GameCatalog();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('翻页进行中刷新时，等翻页结束后重新拉取第一页', async () => {
+    await catalog.load({});
+    const getGames = vi.spyOn(apiClient, 'getGames');
+
+    const more = catalog.loadMore({});
+    const refreshed = catalog.refresh({});
+    await refreshed;
+
+    const state = catalog.getState({});
+    expect(getGames.mock.calls.map(([params]) => params.page)).toEqual([2, 1]);
+    expect(state.page).toBe(1);
+    expect(state.games).toHaveLength(catalog.PAGE_SIZE);
+    expect(state.hasMore).toBe(true);
+    await more;
+  });
+
+  it('刷新拿到翻页期间服务端新增的游戏', async () => {
+    await catalog.load({});
+    const more = catalog.loadMore({});
+    const [first] = mockServer.getDatabase().games;
+    mockServer.getDatabase().games.unshift({ ...first, id: 'game_new', title: '新游戏', trustScore: 5 });
+
+    await catalog.refresh({});
+
+    expect(catalog.getState({}).games.map(game => game.id)).toContain('game_new');
+    await more;
+  });
+
+  it('没有进行中的请求时直接刷新', async () => {
+    await catalog.load({});
+    await catalog.loadMore({});
+    const getGames = vi.spyOn(apiClient, 'getGames');
+
+    await catalog.refresh({});
+
+    expect(getGames).toHaveBeenCalledTimes(1);
+    expect(catalog.getState({}).page).toBe(1);
+  });
+});
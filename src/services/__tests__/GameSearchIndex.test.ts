@@ -0,0 +1,85 @@
+/**
+ * 游戏搜索索引测试
+ * 微学宝盒 - 全拼、首字母、同音字和拼写容错匹配
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockDatabase } from '@/mocks';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { GameSearchIndex } from '@/services/GameSearchIndex';
+import type { GameCard } from '@/types/game';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+const [base] = createMockDatabase().games;
+
+const game = (id: string, title: string, overrides: Partial<GameCard> = {}): GameCard => ({
+  ...base,
+  id,
+  title,
+  description: '',
+  skills: [],
+  trustScore: 4,
+  creator: { id: 'creator_1', name: '微学工作室' },
+  ...overrides
+});
+
+describe('GameSearchIndex 拼音匹配', () => {
+  let index: GameSearchIndex;
+
+  const ids = (keyword: string) => index.search(keyword).map(result => result.game.id);
+
+  beforeEach(async () => {
+    await storageManager.setBackend(new MemoryStorageBackend());
+    index = new GameSearchIndex();
+    index.upsert([
+      game('math', '数学大冒险', { skills: ['数学', '逻辑思维'] }),
+      game('pinyin', '拼音小火车', { skills: ['语言表达'] }),
+      game('dino', '恐龙博物馆', { skills: ['科学探索'], creator: { id: 'creator_2', name: '自然课堂' } })
+    ]);
+  });
+
+  it('按全拼匹配标题', () => {
+    expect(ids('shuxue')).toEqual(['math']);
+    expect(ids('konglong')).toEqual(['dino']);
+  });
+
+  it('按首字母前缀和包含匹配标题', () => {
+    expect(ids('sxdmx')).toEqual(['math']);
+    expect(ids('sx')).toEqual(['math']);
+    expect(ids('xhc')).toEqual(['pinyin']);
+  });
+
+  it('全拼前缀命中比首字母包含得分高', () => {
+    const [result] = index.search('pinyin');
+    const [contained] = index.search('bwg');
+
+    expect(result.game.id).toBe('pinyin');
+    expect(contained.game.id).toBe('dino');
+    expect(result.score).toBeGreaterThan(contained.score);
+  });
+
+  it('按拼音匹配技能和创作者', () => {
+    expect(index.search('ljsw')[0]).toMatchObject({ game: { id: 'math' }, matchedFields: ['skills'] });
+    expect(index.search('zrkt')[0]).toMatchObject({ game: { id: 'dino' }, matchedFields: ['creator'] });
+  });
+
+  it('中文查询可以命中同音字', () => {
+    expect(ids('恐龙')).toEqual(['dino']);
+    expect(ids('空笼')).toEqual(['dino']);
+  });
+
+  it('较长的全拼允许一处拼写错误', () => {
+    expect(ids('shuxeu')).toEqual(['math']);
+    expect(ids('kongolng')).toEqual(['dino']);
+    expect(ids('sux')).toEqual([]);
+  });
+
+  it('输入联想按全拼或首字母前缀给出技能和创作者', () => {
+    const suggestions = index.suggest('kx');
+
+    expect(suggestions).toContainEqual({ text: '科学探索', type: 'skill' });
+    expect(index.suggest('ziran')).toContainEqual({ text: '自然课堂', type: 'creator' });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * 分组分享测试
+ * 微学宝盒 - 令牌编码、服务端签名验证和按信任偏好导入
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { installMockBackend, mockServer } from '@/mocks';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { apiClient } from '@/services/ApiClient';
+import { groupShare } from '@/services/GroupShare';
+import { trustFilter } from '@/services/TrustFilter';
+import { base64UrlEncode, utf8Encode } from '@/utils/crypto';
+import type { Group } from '@/types/game';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+const group = (gameIds: string[]): Group => ({
+  id: 'group_share',
+  name: '幼小衔接数学',
+  gameIds,
+  createdAt: 0,
+  icon: '🔢'
+});
+
+/**
+ * 替换令牌中的载荷，保留原签名
+ */
+const replacePayload = (token: string, payload: unknown): string => {
+  const [head, , signature] = token.split('.');
+  return `${head}.${base64UrlEncode(utf8Encode(JSON.stringify(payload)))}.${signature}`;
+};
+
+describe('GroupShare', () => {
+  let uninstall: () => void;
+
+  beforeAll(() => {
+    uninstall = installMockBackend();
+  });
+
+  afterAll(() => {
+    uninstall();
+  });
+
+  beforeEach(async () => {
+    mockServer.reset();
+    await storageManager.setBackend(new MemoryStorageBackend());
+  });
+
+  it('编码后可以解析并通过服务端验证', async () => {
+    const link = await groupShare.createShareFromGroup(group(['game_001', 'game_002']));
+
+    expect(link.token).toMatch(/^wx1\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(groupShare.decode(`看看这个分组 ${link.url}`)).toEqual(link.payload);
+    expect(await groupShare.verify(link.token)).toEqual(link.payload);
+    expect(link.payload).toMatchObject({ v: 1, n: '幼小衔接数学', g: ['game_001', 'game_002'], i: '🔢' });
+  });
+
+  it('改动载荷或签名后验证失败', async () => {
+    const { token, payload } = await groupShare.createShareFromGroup(group(['game_001']));
+    const tampered = replacePayload(token, { ...payload, g: ['game_001', 'game_003'] });
+    const badSignature = `${token.slice(0, token.lastIndexOf('.'))}.AAAAAAAAAAAAAAAAAAAAAA`;
+
+    expect(groupShare.decode(tampered).g).toEqual(['game_001', 'game_003']);
+    await expect(groupShare.verify(tampered)).rejects.toMatchObject({ reason: 'bad-signature' });
+    await expect(groupShare.verify(badSignature)).rejects.toMatchObject({ reason: 'bad-signature' });
+    await expect(groupShare.preview(tampered)).rejects.toMatchObject({ reason: 'bad-signature' });
+  });
+
+  it('无法连接服务端时不视为签名错误', async () => {
+    const { token } = await groupShare.createShareFromGroup(group(['game_001']));
+    vi.spyOn(apiClient, 'verifyShare').mockRejectedValueOnce(new Error('offline'));
+
+    await expect(groupShare.verify(token)).rejects.toMatchObject({ reason: 'verify-failed' });
+  });
+
+  it('拒绝更高版本和格式错误的令牌', async () => {
+    const { token } = await groupShare.createShareFromGroup(group(['game_001']));
+
+    expect(() => groupShare.decode(token.replace(/^wx1/, 'wx2'))).toThrow(
+      expect.objectContaining({ reason: 'unsupported-version' })
+    );
+    expect(() => groupShare.decode('wx1.not-json.abc')).toThrow(expect.objectContaining({ reason: 'malformed' }));
+    expect(() => groupShare.decode(replacePayload(token, { v: 1, n: '', g: [] }))).toThrow(
+      expect.objectContaining({ reason: 'invalid-payload' })
+    );
+  });
+
+  it('空分组不能分享', async () => {
+    await expect(groupShare.createShareFromGroup(group([]))).rejects.toMatchObject({ reason: 'empty-group' });
+  });
+
+  it('默认只导入符合信任偏好的游戏，可选导入被屏蔽和无法获取的游戏', async () => {
+    const options = trustFilter.getOptions();
+    const games = mockServer.getDatabase().games;
+    const allowed = games.find(game => trustFilter.getExclusionReasons(game, options).length === 0)!;
+    const blocked = games.find(game => trustFilter.getExclusionReasons(game, options).length > 0)!;
+    expect(allowed).toBeDefined();
+    expect(blocked).toBeDefined();
+
+    const { token } = await groupShare.createShareFromGroup(group([allowed.id, blocked.id, 'game_missing']));
+    const preview = await groupShare.preview(token);
+
+    expect(preview.items.map(item => item.status)).toEqual(['allowed', 'blocked', 'unavailable']);
+    expect(preview.items[1].reasons.length).toBeGreaterThan(0);
+    expect([preview.allowedCount, preview.blockedCount, preview.unavailableCount]).toEqual([1, 1, 1]);
+
+    const imported = await groupShare.importShare(preview);
+    const withBlocked = await groupShare.importShare(preview, { includeBlocked: true });
+    const withUnavailable = await groupShare.importShare(preview, { includeUnavailable: true });
+
+    expect(imported.gameIds).toEqual([allowed.id]);
+    expect(withBlocked.gameIds).toEqual([allowed.id, blocked.id]);
+    expect(withUnavailable.gameIds).toEqual([allowed.id, 'game_missing']);
+    expect([imported.name, withBlocked.name, withUnavailable.name]).toEqual([
+      '幼小衔接数学', '幼小衔接数学（2）', '幼小衔接数学（3）'
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * 家长验证测试
+ * 微学宝盒 - 首次设置密码、验证有效期、失败锁定，以及清空存储后密码仍然有效
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { parentalGate } from '@/services/ParentalGate';
+import { STORAGE_KEYS } from '@/types/user';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+const MINUTE = 60 * 1000;
+const NOW = new Date(2025, 0, 8, 20, 0).getTime();
+
+/**
+ * 答对一道算术题
+ */
+const solveChallenge = () => {
+  const { id, question } = parentalGate.createChallenge();
+  const [a, b] = question.match(/\d+/g)!.map(Number);
+  return parentalGate.verify({ challengeId: id, answer: String(a * b) });
+};
+
+/**
+ * 通过算术题后设置家长密码
+ */
+const setupPin = (pin: string) => {
+  solveChallenge();
+  expect(parentalGate.setPin(pin)).toBe(true);
+  parentalGate.lock();
+};
+
+describe('ParentalGate', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    await storageManager.setBackend(new MemoryStorageBackend());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('首次设置密码需要先答对算术题，设置后不再接受算术题', () => {
+    expect(parentalGate.setPin('1234')).toBe(false);
+
+    const wrong = parentalGate.createChallenge();
+    expect(parentalGate.verify({ challengeId: wrong.id, answer: '0' }).success).toBe(false);
+    expect(solveChallenge().success).toBe(true);
+    expect(parentalGate.setPin('12')).toBe(false);
+    expect(parentalGate.setPin('1234')).toBe(true);
+    expect(parentalGate.hasPin()).toBe(true);
+
+    expect(solveChallenge().success).toBe(false);
+    expect(parentalGate.verify({ pin: '1234' }).success).toBe(true);
+  });
+
+  it('修改密码需要提供原密码', () => {
+    setupPin('1234');
+
+    expect(parentalGate.setPin('5678', '0000')).toBe(false);
+    expect(parentalGate.setPin('5678', '1234')).toBe(true);
+    expect(parentalGate.verify({ pin: '5678' }).success).toBe(true);
+  });
+
+  it('验证通过后2分钟内有效', () => {
+    setupPin('1234');
+    expect(() => parentalGate.assertUnlocked()).toThrow(expect.objectContaining({ reason: 'not-verified' }));
+
+    parentalGate.verify({ pin: '1234' });
+    vi.setSystemTime(NOW + 2 * MINUTE - 1);
+    expect(parentalGate.isUnlocked()).toBe(true);
+    expect(() => parentalGate.assertUnlocked()).not.toThrow();
+
+    vi.setSystemTime(NOW + 2 * MINUTE);
+    expect(parentalGate.isUnlocked()).toBe(false);
+  });
+
+  it('提前锁定后需要重新验证', () => {
+    setupPin('1234');
+    parentalGate.verify({ pin: '1234' });
+
+    parentalGate.lock();
+
+    expect(parentalGate.isUnlocked()).toBe(false);
+  });
+
+  it('连续失败5次后锁定5分钟，期间正确密码也不通过', () => {
+    setupPin('1234');
+
+    const attempts = Array.from({ length: 5 }, () => parentalGate.verify({ pin: '0000' }, NOW));
+    expect(attempts.map(result => result.attemptsLeft)).toEqual([4, 3, 2, 1, 0]);
+    expect(attempts[4].lockoutMs).toBe(5 * MINUTE);
+
+    const locked = parentalGate.verify({ pin: '1234' }, NOW + MINUTE);
+    expect(locked).toEqual({ success: false, lockoutMs: 4 * MINUTE, attemptsLeft: 0 });
+    expect(parentalGate.getLockoutRemaining(NOW + MINUTE)).toBe(4 * MINUTE);
+    expect(() => parentalGate.assertUnlocked()).toThrow(expect.objectContaining({ reason: 'locked-out' }));
+
+    expect(parentalGate.verify({ pin: '1234' }, NOW + 5 * MINUTE).success).toBe(true);
+  });
+
+  it('锁定结束后重新计数', () => {
+    setupPin('1234');
+    for (let i = 0; i < 5; i++) parentalGate.verify({ pin: '0000' }, NOW);
+
+    expect(parentalGate.verify({ pin: '0000' }, NOW + 5 * MINUTE).attemptsLeft).toBe(4);
+  });
+
+  it('验证通过后失败次数清零', () => {
+    setupPin('1234');
+    for (let i = 0; i < 4; i++) parentalGate.verify({ pin: '0000' }, NOW);
+
+    parentalGate.verify({ pin: '1234' }, NOW);
+
+    expect(parentalGate.verify({ pin: '0000' }, NOW).attemptsLeft).toBe(4);
+  });
+
+  it('清空存储保留家长密码和验证状态', () => {
+    setupPin('1234');
+    storageManager.setItem(STORAGE_KEYS.FAVORITES, ['game_001']);
+    parentalGate.verify({ pin: '1234' });
+
+    expect(storageManager.clear()).toBe(true);
+
+    expect(storageManager.getItem(STORAGE_KEYS.FAVORITES)).toBeNull();
+    expect(parentalGate.hasPin()).toBe(true);
+    expect(parentalGate.isUnlocked()).toBe(true);
+    expect(solveChallenge().success).toBe(false);
+  });
+
+  it('未验证时不能清空存储', () => {
+    setupPin('1234');
+
+    expect(storageManager.clear()).toBe(false);
+    expect(parentalGate.hasPin()).toBe(true);
+  });
+});
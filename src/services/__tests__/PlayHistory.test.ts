@@ -0,0 +1,103 @@
+/**
+ * 游戏日志测试
+ * 微学宝盒 - 周报的游戏时长、技能分布、新游戏、收藏和反馈统计
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MemoryAsyncStorageBackend, MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { playHistory } from '@/services/PlayHistory';
+import { STORAGE_KEYS } from '@/types/user';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const NOW = new Date(2025, 0, 8, 12, 0).getTime();
+
+describe('PlayHistory 周报', () => {
+  beforeEach(async () => {
+    await storageManager.setBackend(new MemoryStorageBackend(), new MemoryAsyncStorageBackend());
+  });
+
+  it('日志保存在 IndexedDB', async () => {
+    await playHistory.addSession({ id: 's1', gameId: 'game_001', startTime: NOW - MINUTE, duration: MINUTE }, NOW);
+
+    expect(storageManager.isBulkKey(storageManager.getProfileKey(STORAGE_KEYS.PLAY_LOG))).toBe(true);
+    expect(storageManager.getBackend().getItem(storageManager.getProfileKey(STORAGE_KEYS.PLAY_LOG))).toBeNull();
+    expect(playHistory.getEntries()).toHaveLength(1);
+  });
+
+  it('IndexedDB 加载完成前记入的会话不覆盖已有日志', async () => {
+    const bulk = new MemoryAsyncStorageBackend();
+    await bulk.setItem(storageManager.getProfileKey(STORAGE_KEYS.PLAY_LOG), JSON.stringify({
+      entries: [{ id: 's0', gameId: 'game_001', startTime: NOW - DAY, duration: MINUTE }],
+      favoritesAdded: []
+    }));
+
+    const loading = storageManager.setBackend(new MemoryStorageBackend(), bulk);
+    await playHistory.addSession({ id: 's1', gameId: 'game_002', startTime: NOW - MINUTE, duration: MINUTE }, NOW);
+    await loading;
+
+    expect(playHistory.getEntries().map(entry => entry.id)).toEqual(['s1', 's0']);
+  });
+
+  it('统计最近7天的时长、技能、新游戏、收藏和反馈', async () => {
+    await playHistory.addSession({
+      id: 'old', gameId: 'game_a', skills: ['数学'], startTime: NOW - 10 * DAY, duration: 30 * MINUTE
+    }, NOW);
+    await playHistory.addSession({
+      id: 's1', gameId: 'game_b', title: '拼图', skills: ['数学', '逻辑'], startTime: NOW - 2 * DAY,
+      duration: 20 * MINUTE, feedback: 'negative'
+    }, NOW);
+    await playHistory.addSession({
+      id: 's2', gameId: 'game_a', skills: ['数学'], startTime: NOW - 60 * MINUTE,
+      duration: 10 * MINUTE, feedback: 'positive'
+    }, NOW);
+    await playHistory.recordFavorite('game_x', NOW - DAY);
+    await playHistory.recordFavorite('game_y', NOW - 9 * DAY);
+
+    const report = playHistory.getWeeklyReport(NOW);
+
+    expect(report.totalMs).toBe(30 * MINUTE);
+    expect(report.sessionCount).toBe(2);
+    expect(report.skills).toEqual([
+      { skill: '数学', ms: 30 * MINUTE },
+      { skill: '逻辑', ms: 20 * MINUTE }
+    ]);
+    expect(report.newGames).toEqual([{ gameId: 'game_b', title: '拼图' }]);
+    expect(report.favoritesAdded.map(item => item.gameId)).toEqual(['game_x']);
+    expect(report.feedback).toEqual({ positive: 1, neutral: 0, negative: 1 });
+  });
+
+  it('每天的时长按本地日期汇总，没玩的日子为0', async () => {
+    await playHistory.addSession({ id: 's1', gameId: 'game_a', startTime: NOW - 2 * DAY, duration: 20 * MINUTE }, NOW);
+    await playHistory.addSession({ id: 's2', gameId: 'game_a', startTime: NOW - MINUTE * 90, duration: 10 * MINUTE }, NOW);
+    await playHistory.addSession({ id: 's3', gameId: 'game_b', startTime: NOW - MINUTE * 30, duration: 5 * MINUTE }, NOW);
+
+    const { daily } = playHistory.getWeeklyReport(NOW);
+
+    expect(daily.map(day => day.date)).toEqual([
+      '2025-01-02', '2025-01-03', '2025-01-04', '2025-01-05', '2025-01-06', '2025-01-07', '2025-01-08'
+    ]);
+    expect(daily.map(day => day.ms / MINUTE)).toEqual([0, 0, 0, 0, 20, 0, 15]);
+  });
+
+  it('本周之前玩过的游戏不算新游戏，新游戏按第一次玩的顺序排列', async () => {
+    await playHistory.addSession({ id: 'old', gameId: 'game_a', startTime: NOW - 8 * DAY, duration: MINUTE }, NOW);
+    await playHistory.addSession({ id: 's1', gameId: 'game_c', startTime: NOW - 3 * DAY, duration: MINUTE }, NOW);
+    await playHistory.addSession({ id: 's2', gameId: 'game_a', startTime: NOW - 2 * DAY, duration: MINUTE }, NOW);
+    await playHistory.addSession({ id: 's3', gameId: 'game_b', startTime: NOW - DAY, duration: MINUTE }, NOW);
+    await playHistory.addSession({ id: 's4', gameId: 'game_c', startTime: NOW - MINUTE * 10, duration: MINUTE }, NOW);
+
+    expect(playHistory.getWeeklyReport(NOW).newGames.map(game => game.gameId)).toEqual(['game_c', 'game_b']);
+  });
+
+  it('时长为0的会话和超过保留期的记录不计入', async () => {
+    await playHistory.addSession({ id: 'empty', gameId: 'game_a', startTime: NOW - MINUTE, duration: 0 }, NOW);
+    await playHistory.addSession({ id: 'expired', gameId: 'game_a', startTime: NOW - 61 * DAY, duration: MINUTE }, NOW);
+
+    expect(playHistory.getEntries()).toEqual([]);
+    expect(playHistory.getWeeklyReport(NOW).totalMs).toBe(0);
+  });
+});
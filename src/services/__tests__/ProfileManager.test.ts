@@ -0,0 +1,90 @@
+/**
+ * 孩子档案测试
+ * 微学宝盒 - 按出生年月设置年龄段，过生日进入更大的年龄段后提示升级
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { ProfileManager } from '@/services/ProfileManager';
+import { ChildProfileSchema } from '@/schemas/user';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+describe('ProfileManager 出生年月', () => {
+  let manager: ProfileManager;
+
+  /**
+   * 新建档案并切换过去
+   */
+  const createActive = (birthMonth?: string) => {
+    const profile = manager.createProfile({ name: '小明', birthMonth })!;
+    manager.switchProfile(profile.id);
+    return profile;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 5, 15));
+    await storageManager.setBackend(new MemoryStorageBackend());
+    manager = new ProfileManager();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('新建档案时按出生年月设置年龄段', () => {
+    createActive('2020-03');
+
+    expect(manager.getAgeInMonths()).toBe(63);
+    expect(storageManager.getAgeSelection()).toEqual([3, 6]);
+    expect(manager.getAgeProgression()).toBeNull();
+  });
+
+  it('未填写出生年月时不计算月龄，保留默认年龄段', () => {
+    createActive();
+
+    expect(manager.getAgeInMonths()).toBeNull();
+    expect(storageManager.getAgeSelection()).toEqual([6, 9]);
+    expect(manager.getAgeProgression()).toBeNull();
+  });
+
+  it('修改出生年月时直接更新年龄段', () => {
+    const profile = createActive('2020-03');
+
+    manager.updateProfile(profile.id, { birthMonth: '2018-03' });
+
+    expect(storageManager.getAgeSelection()).toEqual([6, 9]);
+    expect(manager.getAgeProgression()).toBeNull();
+  });
+
+  it('过生日进入更大的年龄段后提示升级，处理后不再提示', () => {
+    const profile = createActive('2019-07');
+    expect(storageManager.getAgeSelection()).toEqual([3, 6]);
+
+    vi.setSystemTime(new Date(2025, 6, 1));
+    const progression = manager.getAgeProgression();
+
+    expect(progression).toEqual({ profileId: profile.id, ageInMonths: 72, from: [3, 6], to: [6, 9] });
+
+    manager.resolveAgeProgression(progression!);
+    expect(manager.getAgeProgression()).toBeNull();
+  });
+
+  it('家长手动选了更大的年龄段时不提示', () => {
+    createActive('2019-07');
+    storageManager.setAgeSelection([9, 12]);
+
+    vi.setSystemTime(new Date(2025, 6, 1));
+
+    expect(manager.getAgeProgression()).toBeNull();
+  });
+
+  it('早期版本保存的出生日期读取时只保留年月', () => {
+    const parsed = ChildProfileSchema.parse({ id: 'child_1', name: '小明', birthDate: '2019-07-23', createdAt: 0 });
+
+    expect(parsed.birthMonth).toBe('2019-07');
+    expect(parsed).not.toHaveProperty('birthDate');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * 游戏时间管理器测试
+ * 微学宝盒 - 每日时长、单次时长和允许时间段（含跨午夜的时间段）的限制
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { ScreenTimeManager } from '@/services/ScreenTimeManager';
+import { STORAGE_KEYS, DEFAULT_SCREEN_TIME_SETTINGS, type ScreenTimeSettings } from '@/types/user';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+const MINUTE = 60 * 1000;
+
+/** 2025-01-08 的本地时间 */
+const at = (hours: number, minutes: number = 0, day: number = 8) => new Date(2025, 0, day, hours, minutes).getTime();
+
+describe('ScreenTimeManager 时间限制', () => {
+  let manager: ScreenTimeManager;
+
+  /**
+   * 直接写入设置，跳过家长验证
+   */
+  const configure = (changes: Partial<ScreenTimeSettings>) => {
+    storageManager.setItem(STORAGE_KEYS.SCREEN_TIME, {
+      ...DEFAULT_SCREEN_TIME_SETTINGS,
+      dailyLimitMinutes: null,
+      sessionLimitMinutes: null,
+      allowedWindows: [],
+      ...changes
+    });
+  };
+
+  beforeEach(async () => {
+    await storageManager.setBackend(new MemoryStorageBackend());
+    manager = new ScreenTimeManager();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('关闭限制时不受限', () => {
+    configure({ enabled: false, dailyLimitMinutes: 10 });
+    manager.addUsage(30 * MINUTE, at(12));
+
+    expect(manager.getStatus(30 * MINUTE, at(12))).toMatchObject({ allowed: true, remainingMs: null, nextReason: null });
+  });
+
+  it('每日时长用完后拦截，第二天重新计算', () => {
+    configure({ dailyLimitMinutes: 60 });
+
+    manager.addUsage(50 * MINUTE, at(12));
+    expect(manager.getStatus(0, at(12))).toMatchObject({
+      allowed: true,
+      remainingMs: 10 * MINUTE,
+      nextReason: 'daily-limit',
+      usedTodayMs: 50 * MINUTE
+    });
+
+    manager.addUsage(10 * MINUTE, at(13));
+    expect(manager.getStatus(0, at(13))).toMatchObject({ allowed: false, reason: 'daily-limit', remainingMs: 0, resumeAt: null });
+
+    expect(manager.getUsedToday(at(8, 0, 9))).toBe(0);
+    expect(manager.getStatus(0, at(8, 0, 9))).toMatchObject({ allowed: true, remainingMs: 60 * MINUTE });
+  });
+
+  it('尚未写入记录的时长也计入每日时长', () => {
+    configure({ dailyLimitMinutes: 60 });
+    manager.addUsage(40 * MINUTE, at(12));
+
+    expect(manager.getStatus(0, at(12), 20 * MINUTE)).toMatchObject({ allowed: false, reason: 'daily-limit' });
+  });
+
+  it('跨午夜玩的时长计入各自的日期', () => {
+    manager.addUsage(20 * MINUTE, at(23, 50));
+    manager.addUsage(10 * MINUTE, at(0, 5, 9));
+
+    expect(manager.getDailyUsage(2, at(0, 5, 9))).toEqual([
+      { date: '2025-01-08', ms: 20 * MINUTE },
+      { date: '2025-01-09', ms: 10 * MINUTE }
+    ]);
+  });
+
+  it('单次时长到达上限后拦截', () => {
+    configure({ sessionLimitMinutes: 30 });
+
+    expect(manager.getStatus(25 * MINUTE, at(12))).toMatchObject({ allowed: true, remainingMs: 5 * MINUTE, nextReason: 'session-limit' });
+    expect(manager.getStatus(30 * MINUTE, at(12))).toMatchObject({ allowed: false, reason: 'session-limit' });
+  });
+
+  it('间隔不久算作同一次游戏，间隔较长后单次时长重新计算', () => {
+    manager.addUsage(20 * MINUTE, at(12));
+
+    expect(manager.getSession(at(12, 10)).usedMs).toBe(20 * MINUTE);
+
+    manager.addUsage(5 * MINUTE, at(12, 10));
+    expect(manager.getSession(at(12, 20)).usedMs).toBe(25 * MINUTE);
+    expect(manager.getSession(at(12, 25)).usedMs).toBe(0);
+  });
+
+  it('多个限制同时存在时，以最先到达的为准', () => {
+    configure({ dailyLimitMinutes: 60, sessionLimitMinutes: 30, allowedWindows: [{ start: '07:00', end: '20:30' }] });
+    manager.addUsage(55 * MINUTE, at(12));
+
+    expect(manager.getStatus(10 * MINUTE, at(12))).toMatchObject({ remainingMs: 5 * MINUTE, nextReason: 'daily-limit' });
+    expect(manager.getStatus(10 * MINUTE, at(20, 28))).toMatchObject({ remainingMs: 2 * MINUTE, nextReason: 'outside-window' });
+  });
+
+  it('在允许时间段内计算剩余时间，段外拦截并给出下次开始时间', () => {
+    configure({ allowedWindows: [{ start: '07:00', end: '20:30' }] });
+
+    expect(manager.getStatus(0, at(20))).toMatchObject({ allowed: true, remainingMs: 30 * MINUTE, nextReason: 'outside-window' });
+    expect(manager.getStatus(0, at(20, 30))).toMatchObject({ allowed: false, reason: 'outside-window', resumeAt: '07:00' });
+    expect(manager.getStatus(0, at(6, 59))).toMatchObject({ allowed: false, resumeAt: '07:00' });
+    expect(manager.getStatus(0, at(7))).toMatchObject({ allowed: true });
+  });
+
+  it('跨午夜的时间段', () => {
+    configure({ allowedWindows: [{ start: '22:00', end: '02:00' }] });
+
+    expect(manager.getStatus(0, at(23, 30))).toMatchObject({ allowed: true, remainingMs: 150 * MINUTE });
+    expect(manager.getStatus(0, at(0, 0))).toMatchObject({ allowed: true, remainingMs: 120 * MINUTE });
+    expect(manager.getStatus(0, at(1, 30))).toMatchObject({ allowed: true, remainingMs: 30 * MINUTE });
+    expect(manager.getStatus(0, at(2, 0))).toMatchObject({ allowed: false, reason: 'outside-window', resumeAt: '22:00' });
+    expect(manager.getStatus(0, at(12))).toMatchObject({ allowed: false, resumeAt: '22:00' });
+  });
+
+  it('多个时间段时给出最近的下一个开始时间', () => {
+    configure({ allowedWindows: [{ start: '18:00', end: '20:00' }, { start: '07:00', end: '08:00' }] });
+
+    expect(manager.getStatus(0, at(9))).toMatchObject({ allowed: false, resumeAt: '18:00' });
+    expect(manager.getStatus(0, at(21))).toMatchObject({ allowed: false, resumeAt: '07:00' });
+    expect(manager.getStatus(0, at(19, 30))).toMatchObject({ allowed: true, remainingMs: 30 * MINUTE });
+  });
+
+  it('家长验证后临时放宽，放宽期间不拦截', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(at(21));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    configure({ allowedWindows: [{ start: '07:00', end: '20:30' }] });
+
+    expect(manager.grantOverride(15)).toBe(false);
+    expect(manager.getStatus()).toMatchObject({ allowed: false });
+
+    storageManager.setParentalGateState({ failures: 0, unlockedUntil: Date.now() + MINUTE });
+    expect(manager.grantOverride(15)).toBe(true);
+
+    expect(manager.getStatus()).toMatchObject({ allowed: true, overridden: true, remainingMs: 15 * MINUTE, nextReason: 'outside-window' });
+    expect(manager.getStatus(0, at(21, 15))).toMatchObject({ allowed: false, reason: 'outside-window' });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * 存储后端测试
+ * 微学宝盒 - 按运行平台选择后端，不可用时退回内存；IndexedDB 后端在 fake-indexeddb 上读写
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  IndexedDBStorageBackend,
+  createStorageBackend,
+  createBulkStorageBackend
+} from '@/services/StorageBackend';
+
+const taroStorage = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('@tarojs/taro', () => ({
+  default: {
+    getStorageSync: (key: string) => taroStorage.get(key) ?? '',
+    setStorageSync: (key: string, value: unknown) => { taroStorage.set(key, value); },
+    removeStorageSync: (key: string) => { taroStorage.delete(key); },
+    getStorageInfoSync: () => ({ keys: Array.from(taroStorage.keys()) })
+  }
+}));
+
+/**
+ * 最简 localStorage 实现，quotaExceeded 时写入抛出容量错误（模拟隐私模式）
+ */
+const createLocalStorage = (quotaExceeded = false): Storage => {
+  const store = new Map<string, string>();
+  return {
+    get length() { return store.size; },
+    key: (index: number) => Array.from(store.keys())[index] ?? null,
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (quotaExceeded) throw new DOMException('写入失败', 'QuotaExceededError');
+      store.set(key, value);
+    },
+    removeItem: (key: string) => { store.delete(key); },
+    clear: () => store.clear()
+  };
+};
+
+describe('存储后端选择', () => {
+  beforeEach(() => {
+    taroStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('小程序使用 Taro 缓存，大数据量的键也保存在同步后端', () => {
+    vi.stubEnv('TARO_ENV', 'weapp');
+    vi.stubGlobal('indexedDB', new IDBFactory());
+
+    const backend = createStorageBackend();
+    backend.setItem('user_favorites', '["game_001"]');
+
+    expect(backend.name).toBe('taro');
+    expect(taroStorage.get('user_favorites')).toBe('["game_001"]');
+    expect(backend.getItem('missing')).toBeNull();
+    expect(createBulkStorageBackend()).toBeNull();
+  });
+
+  it('H5 可写 localStorage 时使用 localStorage，有 IndexedDB 时保存大数据量的键', () => {
+    vi.stubEnv('TARO_ENV', 'h5');
+    vi.stubGlobal('localStorage', createLocalStorage());
+    vi.stubGlobal('indexedDB', new IDBFactory());
+
+    const backend = createStorageBackend();
+    backend.setItem('recent_games', '[]');
+
+    expect(backend.name).toBe('localStorage');
+    expect(localStorage.getItem('recent_games')).toBe('[]');
+    expect(backend.keys()).toEqual(['recent_games']);
+    expect(createBulkStorageBackend()?.name).toBe('indexedDB');
+  });
+
+  it('localStorage 无法写入时退回内存', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('TARO_ENV', 'h5');
+    vi.stubGlobal('localStorage', createLocalStorage(true));
+
+    const backend = createStorageBackend();
+    backend.setItem('user_token', 'token');
+
+    expect(backend.name).toBe('memory');
+    expect(backend.getItem('user_token')).toBe('token');
+    expect(warn).toHaveBeenCalledWith('本地存储不可用，数据将仅保存在内存中');
+  });
+
+  it('没有 localStorage 和 IndexedDB 时退回内存，且不使用大数据量后端', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('TARO_ENV', 'h5');
+    vi.stubGlobal('localStorage', undefined);
+    vi.stubGlobal('indexedDB', undefined);
+
+    expect(createStorageBackend().name).toBe('memory');
+    expect(createBulkStorageBackend()).toBeNull();
+  });
+});
+
+describe('IndexedDBStorageBackend', () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+  });
+
+  it('读写、删除和列出键', async () => {
+    const backend = new IndexedDBStorageBackend(factory);
+
+    await backend.setItem('play_log:child_1', '{"entries":[]}');
+    await backend.setItem('game_cache', '[]');
+    expect(await backend.getItem('play_log:child_1')).toBe('{"entries":[]}');
+    expect((await backend.keys()).sort()).toEqual(['game_cache', 'play_log:child_1']);
+
+    await backend.removeItem('game_cache');
+    expect(await backend.getItem('game_cache')).toBeNull();
+    expect(await backend.keys()).toEqual(['play_log:child_1']);
+  });
+
+  it('数据保存在数据库中，新连接也能读到', async () => {
+    await new IndexedDBStorageBackend(factory).setItem('sync_outbox', '[]');
+
+    expect(await new IndexedDBStorageBackend(factory).getItem('sync_outbox')).toBe('[]');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * 存储管理器测试
+ * 微学宝盒 - 大数据量的键（包括按档案隔离的键）保存在 IndexedDB，容量不足时清除缓存
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { StorageManager } from '@/services/StorageManager';
+import {
+  IndexedDBStorageBackend,
+  MemoryAsyncStorageBackend,
+  MemoryStorageBackend,
+  type AsyncStorageBackend
+} from '@/services/StorageBackend';
+import { STORAGE_KEYS } from '@/types/user';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+const LOG = { entries: [], favoritesAdded: [] };
+
+/**
+ * 总容量有限的异步内存后端
+ */
+class LimitedAsyncStorageBackend implements AsyncStorageBackend {
+  readonly name = 'memory' as const;
+  private store: Map<string, string> = new Map();
+
+  constructor(private limit: number) {}
+
+  async getItem(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const used = Array.from(this.store).reduce((sum, [k, v]) => (k === key ? sum : sum + v.length), 0);
+    if (used + value.length > this.limit) {
+      throw Object.assign(new Error('quota'), { name: 'QuotaExceededError' });
+    }
+    this.store.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.store.keys());
+  }
+}
+
+describe('StorageManager 大数据量存储', () => {
+  let manager: StorageManager;
+  let backend: MemoryStorageBackend;
+
+  beforeEach(() => {
+    manager = new StorageManager();
+    backend = new MemoryStorageBackend();
+  });
+
+  it('按档案隔离的游戏日志保存在 IndexedDB', async () => {
+    const bulk = new MemoryAsyncStorageBackend();
+    await manager.setBackend(backend, bulk);
+    manager.setActiveProfileId('child_1');
+
+    expect(manager.isBulkKey(STORAGE_KEYS.PLAY_LOG)).toBe(true);
+    expect(manager.isBulkKey(manager.getProfileKey(STORAGE_KEYS.PLAY_LOG))).toBe(true);
+    expect(manager.isBulkKey(manager.getProfileKey(STORAGE_KEYS.FAVORITES))).toBe(false);
+
+    manager.setItem(STORAGE_KEYS.PLAY_LOG, LOG);
+    await manager.flush();
+
+    expect(await bulk.getItem('play_log:child_1')).toBe(JSON.stringify(LOG));
+    expect(backend.getItem('play_log:child_1')).toBeNull();
+    expect(manager.getItem(STORAGE_KEYS.PLAY_LOG)).toEqual(LOG);
+  });
+
+  it('启动时把旧版本保存在同步存储中的档案数据移到 IndexedDB', async () => {
+    const bulk = new MemoryAsyncStorageBackend();
+    backend.setItem('play_log:child_1', JSON.stringify(LOG));
+    backend.setItem('play_log:child_2', JSON.stringify(LOG));
+
+    await manager.setBackend(backend, bulk);
+
+    expect(backend.getItem('play_log:child_1')).toBeNull();
+    expect((await bulk.keys()).sort()).toEqual(['play_log:child_1', 'play_log:child_2']);
+    manager.setActiveProfileId('child_2');
+    expect(manager.getItem(STORAGE_KEYS.PLAY_LOG)).toEqual(LOG);
+  });
+
+  it('只在 IndexedDB 中的数据加载完成后通知订阅者', async () => {
+    const bulk = new MemoryAsyncStorageBackend();
+    await bulk.setItem('play_log:child_default', JSON.stringify(LOG));
+    const listener = vi.fn();
+    manager.onChange(STORAGE_KEYS.PLAY_LOG, listener);
+
+    await manager.setBackend(backend, bulk);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(manager.getItem(STORAGE_KEYS.PLAY_LOG)).toEqual(LOG);
+  });
+
+  it('删除档案时一并删除 IndexedDB 中的数据', async () => {
+    const bulk = new MemoryAsyncStorageBackend();
+    await manager.setBackend(backend, bulk);
+    manager.setActiveProfileId('child_1');
+    manager.setItem(STORAGE_KEYS.PLAY_LOG, LOG);
+
+    manager.removeProfileData('child_1');
+    await manager.flush();
+
+    expect(await bulk.getItem('play_log:child_1')).toBeNull();
+  });
+
+  it('IndexedDB 容量不足时清除游戏缓存后重试', async () => {
+    const bulk = new LimitedAsyncStorageBackend(200);
+    await manager.setBackend(backend, bulk);
+    manager.setItem(STORAGE_KEYS.GAME_CACHE, 'x'.repeat(120));
+    await manager.flush();
+
+    const log = { entries: [], favoritesAdded: [], note: 'y'.repeat(100) };
+    manager.setItem(STORAGE_KEYS.PLAY_LOG, log);
+    await manager.flush();
+
+    expect(await bulk.getItem(STORAGE_KEYS.GAME_CACHE)).toBeNull();
+    expect(manager.getItem(STORAGE_KEYS.GAME_CACHE)).toBeNull();
+    expect(await bulk.getItem('play_log:child_default')).toBe(JSON.stringify(log));
+  });
+
+  it('在 fake-indexeddb 上保存，重新加载后数据仍在', async () => {
+    const factory = new IDBFactory();
+    await manager.setBackend(backend, new IndexedDBStorageBackend(factory));
+    manager.setActiveProfileId('child_1');
+    manager.setItem(STORAGE_KEYS.PLAY_LOG, LOG);
+    await manager.flush();
+
+    const reloaded = new StorageManager();
+    await reloaded.setBackend(backend, new IndexedDBStorageBackend(factory));
+
+    expect(reloaded.getActiveProfileId()).toBe('child_1');
+    expect(reloaded.getItem(STORAGE_KEYS.PLAY_LOG)).toEqual(LOG);
+  });
+
+  it('IndexedDB 加载失败时退回同步存储', async () => {
+    const bulk = new MemoryAsyncStorageBackend();
+    vi.spyOn(bulk, 'keys').mockRejectedValue(new Error('打开失败'));
+
+    await manager.setBackend(backend, bulk);
+    manager.setItem(STORAGE_KEYS.PLAY_LOG, LOG);
+
+    expect(manager.getStorageTiers()).toEqual({ sync: 'memory', bulk: null });
+    expect(backend.getItem('play_log:child_default')).toBe(JSON.stringify(LOG));
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * 存储迁移测试
+ * 微学宝盒 - 旧版本数据按顺序升级到当前版本
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StorageManager } from '@/services/StorageManager';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { STORAGE_MIGRATIONS, STORAGE_SCHEMA_VERSION } from '@/services/StorageMigrations';
+import { STORAGE_KEYS, STORAGE_KEY_PREFIXES } from '@/types/user';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date(2025, 0, 8, 12, 0).getTime();
+
+const V1_BADGE = {
+  level: 'verified',
+  parentRating: 4.5,
+  totalRatings: 10,
+  securityChecks: { hasAds: false, hasTracking: false, hasExternalLinks: false, contentModerated: true }
+};
+
+describe('StorageMigrations', () => {
+  let backend: MemoryStorageBackend;
+  let manager: StorageManager;
+
+  const migrate = async () => {
+    await manager.setBackend(backend);
+  };
+
+  const readJson = (key: string) => JSON.parse(backend.getItem(key) ?? 'null');
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    backend = new MemoryStorageBackend();
+    manager = new StorageManager();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('当前版本为 v4', () => {
+    expect(STORAGE_SCHEMA_VERSION).toBe(4);
+    expect(STORAGE_MIGRATIONS.map(migration => migration.version)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('新安装直接记录为最新版本', async () => {
+    await migrate();
+
+    expect(backend.getItem(STORAGE_KEYS.STORAGE_VERSION)).toBe(String(STORAGE_SCHEMA_VERSION));
+    expect(backend.keys()).toEqual([STORAGE_KEYS.STORAGE_VERSION]);
+  });
+
+  it('v1：旧格式的ID列表转为数组，无法修复时删除', async () => {
+    backend.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify({ game_001: true, game_002: false, game_003: 1 }));
+    backend.setItem(STORAGE_KEYS.RECENT_GAMES, '5');
+
+    await migrate();
+
+    expect(readJson(`${STORAGE_KEYS.FAVORITES}:child_default`)).toEqual(['game_001', 'game_003']);
+    expect(backend.getItem(`${STORAGE_KEYS.RECENT_GAMES}:child_default`)).toBeNull();
+    expect(manager.getItem(STORAGE_KEYS.FAVORITES)).toEqual(['game_001', 'game_003']);
+  });
+
+  it('v2：游戏缓存中的旧版信任标识升级，无法升级的游戏丢弃', async () => {
+    backend.setItem(STORAGE_KEYS.GAME_CACHE, JSON.stringify([
+      { id: 'game_001', trustBadge: V1_BADGE },
+      { id: 'game_002', trustBadge: { level: 'unknown' } }
+    ]));
+
+    await migrate();
+
+    expect(readJson(STORAGE_KEYS.GAME_CACHE)).toEqual([{
+      id: 'game_001',
+      trustBadge: {
+        level: 'verified',
+        parentRating: 4.5,
+        totalRatings: 10,
+        securityCheck: V1_BADGE.securityChecks,
+        schemaVersion: 2
+      }
+    }]);
+  });
+
+  it('v3：清理超过一天和无法识别的风险提示记录', async () => {
+    backend.setItem(`${STORAGE_KEY_PREFIXES.RISK_ALERT}old`, String(NOW - 25 * HOUR));
+    backend.setItem(`${STORAGE_KEY_PREFIXES.RISK_ALERT}recent`, String(NOW - HOUR));
+    backend.setItem(`${STORAGE_KEY_PREFIXES.RISK_ALERT}broken`, 'yesterday');
+
+    await migrate();
+
+    expect(backend.keys().filter(key => key.startsWith(STORAGE_KEY_PREFIXES.RISK_ALERT))).toEqual([
+      `${STORAGE_KEY_PREFIXES.RISK_ALERT}recent`
+    ]);
+  });
+
+  it('v4：档案数据移到默认档案下', async () => {
+    backend.setItem(STORAGE_KEYS.STORAGE_VERSION, '3');
+    backend.setItem(STORAGE_KEYS.USER_GROUPS, JSON.stringify([]));
+    backend.setItem(STORAGE_KEYS.AGE_SELECTION, JSON.stringify([3, 6]));
+
+    await migrate();
+
+    expect(backend.getItem(STORAGE_KEYS.USER_GROUPS)).toBeNull();
+    expect(backend.getItem(STORAGE_KEYS.AGE_SELECTION)).toBeNull();
+    expect(readJson(`${STORAGE_KEYS.USER_GROUPS}:child_default`)).toEqual([]);
+    expect(readJson(`${STORAGE_KEYS.AGE_SELECTION}:child_default`)).toEqual([3, 6]);
+  });
+
+  it('只执行高于已记录版本的迁移', async () => {
+    backend.setItem(STORAGE_KEYS.STORAGE_VERSION, '3');
+    backend.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify({ game_001: true }));
+
+    await migrate();
+
+    // v1 已执行过，v4 只移动不修复
+    expect(readJson(`${STORAGE_KEYS.FAVORITES}:child_default`)).toEqual({ game_001: true });
+    expect(backend.getItem(STORAGE_KEYS.STORAGE_VERSION)).toBe('4');
+  });
+
+  it('迁移失败时停在上一个版本，下次启动继续', async () => {
+    backend.setItem(STORAGE_KEYS.STORAGE_VERSION, '1');
+    backend.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(['game_001']));
+    vi.spyOn(STORAGE_MIGRATIONS[2], 'migrate').mockImplementationOnce(() => {
+      throw new Error('迁移失败');
+    });
+
+    await migrate();
+
+    expect(backend.getItem(STORAGE_KEYS.STORAGE_VERSION)).toBe('2');
+    expect(backend.getItem(STORAGE_KEYS.FAVORITES)).toBe(JSON.stringify(['game_001']));
+
+    await migrate();
+
+    expect(backend.getItem(STORAGE_KEYS.STORAGE_VERSION)).toBe('4');
+    expect(readJson(`${STORAGE_KEYS.FAVORITES}:child_default`)).toEqual(['game_001']);
+  });
+});
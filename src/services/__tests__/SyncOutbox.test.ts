@@ -0,0 +1,233 @@
+/**
+ * 同步队列测试
+ * 微学宝盒 - 按指数退避重试，超过次数或不可重试的失败标记为失败；重试时不重复创建服务端数据
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, vi } from 'vitest';
+import { installMockBackend, mockServer } from '@/mocks';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { apiClient } from '@/services/ApiClient';
+import { syncOutbox } from '@/services/SyncOutbox';
+import { ApiRequestError } from '@/utils/ApiErrorHandler';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+describe('SyncOutbox 游戏会话上报', () => {
+  let uninstall: () => void;
+
+  beforeAll(async () => {
+    uninstall = installMockBackend();
+    await storageManager.setBackend(new MemoryStorageBackend());
+  });
+
+  afterAll(() => {
+    uninstall();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('补建的会话ID记入条目，重试时沿用', async () => {
+    mockServer.reset();
+    const startSpy = vi.spyOn(apiClient, 'startGameSession');
+    vi.spyOn(apiClient, 'endGameSession')
+      .mockRejectedValueOnce(new ApiRequestError({ code: 503, message: '服务暂不可用', statusCode: 503 }));
+
+    const entry = syncOutbox.enqueue({
+      type: 'session-end',
+      payload: { gameId: 'game_001', duration: 60000 }
+    });
+    // 首次发送失败后进入退避，不立即重试
+    await syncOutbox.flush();
+
+    const pending = syncOutbox.getEntries().find(e => e.id === entry.id);
+    expect(pending?.type === 'session-end' && pending.payload.sessionId).toBeTruthy();
+    expect(pending?.attempts).toBe(1);
+
+    await syncOutbox.flush(true);
+
+    expect(syncOutbox.getEntries()).toEqual([]);
+    expect(startSpy).toHaveBeenCalledTimes(1);
+    expect(mockServer.getDatabase().sessions).toHaveLength(1);
+    expect(mockServer.getDatabase().sessions[0].duration).toBe(60000);
+  });
+});
+
+describe('SyncOutbox 新建分组', () => {
+  let uninstall: () => void;
+
+  beforeAll(async () => {
+    uninstall = installMockBackend();
+    await storageManager.setBackend(new MemoryStorageBackend());
+  });
+
+  afterAll(() => {
+    uninstall();
+  });
+
+  it('排在创建之前的修改等待创建同步，再发往服务端分组', async () => {
+    mockServer.reset();
+    const userId = mockServer.getDatabase().users[0].id;
+    const localId = 'local_group_test';
+
+    syncOutbox.enqueue({
+      type: 'group-update',
+      payload: { userId, groupId: localId, changes: { name: '睡前故事' } }
+    });
+    syncOutbox.enqueue({
+      type: 'group-create',
+      payload: { userId, localId, group: { name: '睡前', gameIds: [], sortOrder: 'manual' } }
+    });
+    await syncOutbox.flush(true);
+
+    expect(syncOutbox.getEntries()).toEqual([]);
+    const groups = mockServer.getDatabase().groups[userId];
+    expect(groups[groups.length - 1].name).toBe('睡前故事');
+  });
+
+  it('本地分组在服务端不存在时不当作已同步', async () => {
+    mockServer.reset();
+    const userId = mockServer.getDatabase().users[0].id;
+
+    syncOutbox.enqueue({
+      type: 'group-add-game',
+      payload: { userId, groupId: 'local_group_lost', gameId: 'game_001' }
+    });
+    await syncOutbox.flush(true);
+
+    expect(syncOutbox.getEntries()).toMatchObject([{ type: 'group-add-game', status: 'failed' }]);
+    syncOutbox.discardFailed();
+  });
+});
+
+describe('SyncOutbox 重试', () => {
+  const NOW = new Date(2025, 0, 8, 12, 0).getTime();
+  let uninstall: () => void;
+  let userId: string;
+
+  const error = (statusCode: number) => new ApiRequestError({ code: statusCode, message: `请求失败 ${statusCode}`, statusCode });
+
+  const addFavorite = (gameId: string) => syncOutbox.enqueue({
+    type: 'favorite-add',
+    payload: { userId, gameId }
+  });
+
+  const find = (id: string) => syncOutbox.getEntries().find(entry => entry.id === id);
+
+  /**
+   * 固定退避抖动，0.5 时系数为 1
+   * 条目ID也用到随机数，需在入队之后调用
+   */
+  const jitter = (random: number) => vi.spyOn(Math, 'random').mockReturnValue(random);
+
+  beforeAll(async () => {
+    uninstall = installMockBackend();
+    await storageManager.setBackend(new MemoryStorageBackend());
+  });
+
+  afterAll(() => {
+    uninstall();
+  });
+
+  beforeEach(() => {
+    mockServer.reset();
+    userId = mockServer.getDatabase().users[0].id;
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    syncOutbox.discardFailed();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('失败后按指数退避，到期前不重试', async () => {
+    const addSpy = vi.spyOn(apiClient, 'addToFavorites').mockRejectedValue(error(503));
+
+    const entry = addFavorite('game_001');
+    jitter(0.5);
+    await syncOutbox.flush();
+    expect(find(entry.id)).toMatchObject({ status: 'pending', attempts: 1, nextAttemptAt: NOW + 2000 });
+
+    await syncOutbox.flush();
+    expect(addSpy).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(NOW + 2000);
+    await syncOutbox.flush();
+    expect(addSpy).toHaveBeenCalledTimes(2);
+    expect(find(entry.id)).toMatchObject({ attempts: 2, nextAttemptAt: NOW + 2000 + 4000 });
+
+    addSpy.mockRestore();
+    await syncOutbox.flush(true);
+    expect(syncOutbox.getEntries()).toEqual([]);
+  });
+
+  it('退避时间带 ±20% 抖动', async () => {
+    vi.spyOn(apiClient, 'addToFavorites').mockRejectedValue(error(503));
+
+    const entry = addFavorite('game_001');
+    const random = jitter(0);
+    await syncOutbox.flush();
+    expect(find(entry.id)?.nextAttemptAt).toBe(NOW + 1600);
+
+    random.mockReturnValue(0.75);
+    await syncOutbox.flush(true);
+    expect(find(entry.id)?.nextAttemptAt).toBe(NOW + 4400);
+
+    vi.mocked(apiClient.addToFavorites).mockRestore();
+    await syncOutbox.flush(true);
+  });
+
+  it('达到最多尝试次数后标记为失败，可手动重试', async () => {
+    vi.spyOn(apiClient, 'addToFavorites').mockRejectedValue(error(500));
+
+    // 入队时立即发送第一次
+    const entry = addFavorite('game_001');
+    await syncOutbox.flush();
+    expect(find(entry.id)).toMatchObject({ status: 'pending', attempts: 1 });
+
+    for (let attempt = 2; attempt < 8; attempt++) {
+      await syncOutbox.flush(true);
+      expect(find(entry.id)).toMatchObject({ status: 'pending', attempts: attempt });
+    }
+
+    await syncOutbox.flush(true);
+    expect(find(entry.id)).toMatchObject({ status: 'failed', attempts: 8, lastError: '请求失败 500' });
+    expect(syncOutbox.getState()).toMatchObject({ pending: 0, failed: 1 });
+
+    vi.mocked(apiClient.addToFavorites).mockRestore();
+    await syncOutbox.retryFailed();
+    expect(syncOutbox.getEntries()).toEqual([]);
+    expect(mockServer.getDatabase().favorites[userId]).toContain('game_001');
+  });
+
+  it('登录过期的失败保留重试，并暂停后续条目', async () => {
+    const addSpy = vi.spyOn(apiClient, 'addToFavorites').mockRejectedValueOnce(error(401));
+
+    const first = addFavorite('game_001');
+    const second = addFavorite('game_002');
+    await syncOutbox.flush();
+
+    expect(find(first.id)).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(find(second.id)).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(addSpy).toHaveBeenCalledTimes(1);
+
+    await syncOutbox.flush(true);
+    expect(syncOutbox.getEntries()).toEqual([]);
+    expect(addSpy.mock.calls.map(([, gameId]) => gameId)).toEqual(['game_001', 'game_001', 'game_002']);
+  });
+
+  it('参数错误不重试，也不阻塞后续条目', async () => {
+    vi.spyOn(apiClient, 'addToFavorites').mockRejectedValueOnce(error(400));
+
+    const first = addFavorite('game_001');
+    addFavorite('game_002');
+    await syncOutbox.flush();
+
+    expect(syncOutbox.getEntries()).toMatchObject([{ id: first.id, status: 'failed', attempts: 1 }]);
+    expect(mockServer.getDatabase().favorites[userId]).toContain('game_002');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * 信任过滤测试
+ * 微学宝盒 - 按信任偏好和严格模式隐藏游戏，并给出隐藏原因
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockDatabase } from '@/mocks';
+import { MemoryStorageBackend } from '@/services/StorageBackend';
+import { storageManager } from '@/services/StorageManager';
+import { trustFilter, type TrustFilterOptions } from '@/services/TrustFilter';
+import { DEFAULT_TRUST_PREFERENCES, type TrustPreferences } from '@/types/user';
+import type { GameCard, SecurityStatus } from '@/types/game';
+
+vi.mock('@tarojs/taro', () => ({ default: {} }));
+
+const [base] = createMockDatabase().games;
+
+const SAFE: SecurityStatus = {
+  hasAds: false,
+  hasTracking: false,
+  hasExternalLinks: false,
+  contentModerated: true
+};
+
+const game = (
+  id: string,
+  overrides: { trustScore?: number; verified?: boolean; security?: Partial<SecurityStatus> } = {}
+): GameCard => ({
+  ...base,
+  id,
+  trustScore: overrides.trustScore ?? 4.5,
+  trustBadge: {
+    ...base.trustBadge,
+    verifiedAt: overrides.verified === false ? undefined : 1,
+    securityCheck: { ...SAFE, ...overrides.security }
+  }
+});
+
+const options = (preferences: Partial<TrustPreferences> = {}, strictMode = false): TrustFilterOptions => ({
+  trustPreferences: { ...DEFAULT_TRUST_PREFERENCES, ...preferences },
+  strictMode
+});
+
+const PERMISSIVE = { minTrustScore: 0, requireVerified: false, blockAds: false, blockTracking: false };
+
+describe('TrustFilter 隐藏原因', () => {
+  beforeEach(async () => {
+    await storageManager.setBackend(new MemoryStorageBackend());
+  });
+
+  it('符合偏好的游戏没有隐藏原因', () => {
+    expect(trustFilter.getExclusionReasons(game('ok'), options())).toEqual([]);
+  });
+
+  it('未审核内容无论偏好如何都隐藏', () => {
+    const unmoderated = game('unmoderated', { security: { contentModerated: false } });
+
+    expect(trustFilter.getExclusionReasons(unmoderated, options(PERMISSIVE))).toEqual(['not-moderated']);
+  });
+
+  it('信任分低于设置时隐藏，等于设置时保留', () => {
+    expect(trustFilter.getExclusionReasons(game('low', { trustScore: 2.9 }), options())).toEqual(['low-trust-score']);
+    expect(trustFilter.getExclusionReasons(game('edge', { trustScore: 3 }), options())).toEqual([]);
+  });
+
+  it('要求平台验证时隐藏未验证的游戏', () => {
+    const unverified = game('unverified', { verified: false });
+
+    expect(trustFilter.getExclusionReasons(unverified, options())).toEqual([]);
+    expect(trustFilter.getExclusionReasons(unverified, options({ requireVerified: true }))).toEqual(['not-verified']);
+  });
+
+  it('广告和追踪按偏好隐藏，严格模式下总是隐藏', () => {
+    const tracked = game('tracked', { security: { hasAds: true, hasTracking: true } });
+
+    expect(trustFilter.getExclusionReasons(tracked, options())).toEqual(['has-ads', 'has-tracking']);
+    expect(trustFilter.getExclusionReasons(tracked, options({ blockAds: false }))).toEqual(['has-tracking']);
+    expect(trustFilter.getExclusionReasons(tracked, options(PERMISSIVE))).toEqual([]);
+    expect(trustFilter.getExclusionReasons(tracked, options(PERMISSIVE, true))).toEqual(['has-ads', 'has-tracking']);
+  });
+
+  it('列出全部命中的原因', () => {
+    const risky = game('risky', {
+      trustScore: 1,
+      verified: false,
+      security: { contentModerated: false, hasAds: true, hasTracking: true }
+    });
+
+    expect(trustFilter.getExclusionReasons(risky, options({ requireVerified: true }))).toEqual([
+      'not-moderated', 'low-trust-score', 'not-verified', 'has-ads', 'has-tracking'
+    ]);
+  });
+
+  it('过滤列表时保持原顺序并统计隐藏数量', () => {
+    const games = [game('a'), game('b', { trustScore: 1 }), game('c'), game('d', { security: { hasAds: true } })];
+
+    const result = trustFilter.filter(games, options());
+
+    expect(result.allowed.map(g => g.id)).toEqual(['a', 'c']);
+    expect(result.excluded.map(({ game: g, reasons }) => [g.id, reasons])).toEqual([
+      ['b', ['low-trust-score']],
+      ['d', ['has-ads']]
+    ]);
+    expect(result.hiddenCount).toBe(2);
+  });
+
+  it('默认使用已保存的偏好，修改偏好需要家长验证', () => {
+    const listener = vi.fn();
+    const unsubscribe = trustFilter.subscribe(listener);
+    const mid = game('mid', { trustScore: 3.5 });
+
+    expect(trustFilter.isAllowed(mid)).toBe(true);
+    expect(trustFilter.setTrustPreferences({ minTrustScore: 4 })).toBe(false);
+    expect(trustFilter.isAllowed(mid)).toBe(true);
+
+    storageManager.setParentalGateState({ failures: 0, unlockedUntil: Date.now() + 60 * 1000 });
+    expect(trustFilter.setTrustPreferences({ minTrustScore: 4 })).toBe(true);
+
+    expect(trustFilter.getExclusionReasons(mid)).toEqual(['low-trust-score']);
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
+      trustPreferences: expect.objectContaining({ minTrustScore: 4 })
+    }));
+    unsubscribe();
+  });
+});
@@ -3,7 +3,7 @@
  * 微学宝盒 - 接口数据模型
  */
 
-import type { GameCard, TrustBadge, Feedback, FeedbackStats, Group, GameSubmission, GameStatus, GameSession } from './game';
+import type { GameCard, TrustBadge, Feedback, FeedbackStats, Group, GameSubmission, GameStatus, GameSession, AgeGroupTaxonomy } from './game';
 import type { User, UserPreferences } from './user';
 
 // API 响应包装
@@ -38,6 +38,7 @@ export interface PaginationResponse<T> {
 
 // 年龄段选择 API
 export interface AgeSelectionAPI {
+  getAgeGroups(): Promise<AgeGroupTaxonomy>;
   getRecommendedAge(userId: string): Promise<[number, number]>;
   recordAgeSelection(userId: string, age: [number, number]): Promise<void>;
 }
@@ -59,11 +60,18 @@ export interface GameExperienceAPI {
 
 // 收藏相关 API
 export interface FavoriteAPI {
-  getUserFavorites(userId: string): Promise<string[]>;
-  addToFavorites(userId: string, gameId: string): Promise<void>;
-  removeFromFavorites(userId: string, gameId: string): Promise<void>;
-  createGroup(userId: string, group: Omit<Group, 'id' | 'createdAt'>): Promise<Group>;
-  getUserGroups(userId: string): Promise<Group[]>;
+  // profileId 为孩子档案ID，不传时为账号的默认档案
+  getUserFavorites(userId: string, profileId?: string): Promise<string[]>;
+  addToFavorites(userId: string, gameId: string, profileId?: string): Promise<void>;
+  removeFromFavorites(userId: string, gameId: string, profileId?: string): Promise<void>;
+  createGroup(userId: string, group: Omit<Group, 'id' | 'createdAt'>, profileId?: string): Promise<Group>;
+  getUserGroups(userId: string, profileId?: string): Promise<Group[]>;
+  updateGroup(userId: string, groupId: string, changes: Partial<Pick<Group, 'name' | 'icon' | 'color' | 'sortOrder'>>, profileId?: string): Promise<Group>;
+  deleteGroup(userId: string, groupId: string, profileId?: string): Promise<void>;
+  addGameToGroup(userId: string, groupId: string, gameId: string, profileId?: string): Promise<void>;
+  removeGameFromGroup(userId: string, groupId: string, gameId: string, profileId?: string): Promise<void>;
+  reorderGroups(userId: string, groupIds: string[], profileId?: string): Promise<void>;
+  reorderGamesInGroup(userId: string, groupId: string, gameIds: string[], profileId?: string): Promise<void>;
 }
 
 // 反馈相关 API
@@ -91,6 +99,13 @@ export interface UserAPI {
   updateUserPreferences(userId: string, preferences: UserPreferences): Promise<void>;
 }
 
+// 分享相关 API
+// 分享令牌由服务端用自有密钥签名和验证，客户端不保存密钥
+export interface ShareAPI {
+  signShare(content: string): Promise<{ signature: string }>;
+  verifyShare(content: string, signature: string): Promise<{ valid: boolean }>;
+}
+
 // 游戏列表 API
 export interface GameListAPI {
   getGames(params: {
@@ -139,23 +154,54 @@ export const API_ENDPOINTS = {
   GAME_DETAIL: (id: string) => `/api/games/${id}`,
   GAME_TRUST: (id: string) => `/api/games/${id}/trust`,
   GAME_FEEDBACK: (id: string) => `/api/games/${id}/feedback`,
+  GAME_FEEDBACK_STATS: (id: string) => `/api/games/${id}/feedback/stats`,
+  GAME_RATINGS: (id: string) => `/api/games/${id}/ratings`,
+  GAME_REPORTS: (id: string) => `/api/games/${id}/reports`,
+  GAME_SEARCH: '/api/games/search',
+  GAME_RECOMMENDED: '/api/games/recommended',
   GAME_SESSION: '/api/sessions',
+  GAME_SESSION_END: (id: string) => `/api/sessions/${id}/end`,
+  
+  // 配置相关
+  CONFIG_AGE_GROUPS: '/api/config/age-groups',
+
+  // 信任相关
+  TRUST_RANKING: '/api/trust/ranking',
+  
+  // 反馈相关
+  FEEDBACK_BATCH: '/api/feedback/batch',
   
   // 用户相关
   USERS: '/api/users',
+  USER_DETAIL: (id: string) => `/api/users/${id}`,
   USER_FAVORITES: (id: string) => `/api/users/${id}/favorites`,
+  USER_FAVORITE: (id: string, gameId: string) => `/api/users/${id}/favorites/${gameId}`,
   USER_GROUPS: (id: string) => `/api/users/${id}/groups`,
+  USER_GROUPS_ORDER: (id: string) => `/api/users/${id}/groups/order`,
+  USER_GROUP: (id: string, groupId: string) => `/api/users/${id}/groups/${groupId}`,
+  USER_GROUP_GAMES: (id: string, groupId: string) => `/api/users/${id}/groups/${groupId}/games`,
+  USER_GROUP_GAME: (id: string, groupId: string, gameId: string) => `/api/users/${id}/groups/${groupId}/games/${gameId}`,
+  USER_GROUP_ORDER: (id: string, groupId: string) => `/api/users/${id}/groups/${groupId}/order`,
   USER_PREFERENCES: (id: string) => `/api/users/${id}/preferences`,
   USER_HISTORY: (id: string) => `/api/users/${id}/history`,
+  USER_FEEDBACK: (id: string) => `/api/users/${id}/feedback`,
+  USER_GAMES: (id: string) => `/api/users/${id}/games`,
   
   // 认证相关
   AUTH_LOGIN: '/api/auth/login',
   AUTH_REFRESH: '/api/auth/refresh',
+
+  // 分享相关
+  SHARE_SIGN: '/api/shares/sign',
+  SHARE_VERIFY: '/api/shares/verify',
   
   // 发布相关
   PUBLISH: '/api/publish',
+  PUBLISH_DETAIL: (id: string) => `/api/publish/${id}`,
   PUBLISH_STATUS: (id: string) => `/api/publish/${id}/status`,
   AI_CRAWL: '/api/ai/crawl-game',
+  AI_ANALYZE: '/api/ai/analyze-game',
+  AI_VALIDATE_URL: '/api/ai/validate-url',
   
   // 监控相关
   MONITORING_ERRORS: '/api/monitoring/errors',
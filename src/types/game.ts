@@ -16,6 +16,7 @@ export interface SecurityStatus {
 
 // 信任标识
 export interface TrustBadge {
+  schemaVersion?: number;
   level: TrustLevel;
   verifiedAt?: number;
   parentRating: number;
@@ -63,31 +64,77 @@ export interface GameCard {
   lastPlayed?: number;
 }
 
-// 年龄段配置
-export interface AgeGroupConfig {
+// 年龄段
+export interface AgeGroup {
+  /** 年龄段ID，如 "6-9"、"12+" */
+  id: string;
+  /** [最小年龄, 最大年龄)，最大年龄为 99 表示不设上限 */
+  ageRange: [number, number];
   label: string;
   color: string;
-  default: boolean;
+  /** 是否为默认年龄段 */
+  default?: boolean;
 }
 
-// 年龄段配置映射
-export const AGE_GROUPS: Record<string, AgeGroupConfig> = {
-  '3-6': { label: '3-6岁', color: '#10B981', default: false },
-  '6-9': { label: '6-9岁', color: '#3B82F6', default: true },
-  '9-12': { label: '9-12岁', color: '#8B5CF6', default: false },
-  '12+': { label: '12岁+', color: '#F59E0B', default: false }
+// 年龄段划分
+// 按最小年龄升序排列，相邻年龄段首尾相接，不重叠也不留空档，有且只有一个默认年龄段
+export interface AgeGroupTaxonomy {
+  version: number;
+  groups: AgeGroup[];
+}
+
+// 内置年龄段划分，服务端未下发时使用
+export const DEFAULT_AGE_GROUP_TAXONOMY: AgeGroupTaxonomy = {
+  version: 1,
+  groups: [
+    { id: '3-6', ageRange: [3, 6], label: '3-6岁', color: '#10B981' },
+    { id: '6-9', ageRange: [6, 9], label: '6-9岁', color: '#3B82F6', default: true },
+    { id: '9-12', ageRange: [9, 12], label: '9-12岁', color: '#8B5CF6' },
+    { id: '12+', ageRange: [12, 99], label: '12岁+', color: '#F59E0B' }
+  ]
 };
 
+// 游戏记录（用于年龄段推荐）
+export interface PlayRecord {
+  gameId: string;
+  ageRange: [number, number];
+  playedAt: number;
+  /** 游戏时长（毫秒） */
+  duration?: number;
+  /** 是否玩完 */
+  completed?: boolean;
+  /** 退出时的反馈 */
+  feedback?: FeedbackType;
+  /** 反馈原因，如 too-hard、too-easy */
+  reason?: string;
+}
+
+// 年龄段选择记录
+export interface AgeSelectionRecord {
+  ageRange: [number, number];
+  selectedAt: number;
+}
+
 // 用户历史
 export interface UserHistory {
-  recentGames: Array<{
-    gameId: string;
-    ageRange: [number, number];
-    playedAt: number;
-  }>;
+  /** 真实游戏记录，最新的在前 */
+  recentGames: PlayRecord[];
+  /** 家长手动选择年龄段的记录，最新的在前 */
+  ageSelections?: AgeSelectionRecord[];
   preferredAge?: [number, number];
 }
 
+// 年龄段推荐结果
+export interface AgeRecommendation {
+  ageRange: [number, number];
+  /** 推荐把握 (0-1) */
+  confidence: number;
+  /** 推荐依据：游戏行为、家长选择或默认值 */
+  source: 'behavior' | 'selection' | 'default';
+  /** 参与计算的游戏记录数 */
+  playCount: number;
+}
+
 // 游戏会话
 export interface GameSession {
   id: string;
@@ -95,7 +142,56 @@ export interface GameSession {
   userId: string;
   startTime: number;
   endTime?: number;
+  /** 前台游戏时长（毫秒），不含切到后台的时间 */
   duration?: number;
+  /** 退出时的反馈 */
+  feedback?: Feedback;
+}
+
+// 进行中的游戏会话（本地保存，刷新页面后继续计时）
+export interface ActiveGameSession {
+  /** 本地ID */
+  localId: string;
+  /** 服务端会话ID，创建成功后写入 */
+  sessionId?: string;
+  gameId: string;
+  startTime: number;
+  /** 已累计的前台时长（毫秒） */
+  activeMs: number;
+  /** 最近一次累计的时间，用于判断会话是否已中断 */
+  lastSeenAt: number;
+  /** 游戏标题，记入游戏日志 */
+  title?: string;
+  /** 游戏技能，记入游戏日志 */
+  skills?: string[];
+}
+
+// 游戏日志条目（一次已结束的游戏会话）
+export interface PlayLogEntry {
+  /** 会话本地ID */
+  id: string;
+  gameId: string;
+  title?: string;
+  skills?: string[];
+  startTime: number;
+  /** 前台游戏时长（毫秒） */
+  duration: number;
+  /** 退出时的反馈 */
+  feedback?: FeedbackType;
+}
+
+// 收藏记录
+export interface FavoriteAddedRecord {
+  gameId: string;
+  addedAt: number;
+}
+
+// 游戏日志
+export interface PlayLog {
+  /** 游戏会话，最近的在前 */
+  entries: PlayLogEntry[];
+  /** 新增收藏，最近的在前 */
+  favoritesAdded: FavoriteAddedRecord[];
 }
 
 // 反馈类型
@@ -132,8 +228,15 @@ export interface Group {
   createdAt: number;
   icon?: string;
   color?: string;
+  /** 组内游戏排序方式，默认按手动顺序 */
+  sortOrder?: GroupSortOrder;
+  /** 是否为系统分组（内容自动生成，不可删除） */
+  system?: boolean;
 }
 
+// 分组内游戏排序方式
+export type GroupSortOrder = 'manual' | 'title' | 'trust';
+
 // 默认分组
 export const DEFAULT_GROUPS: Group[] = [
   {
@@ -162,6 +265,12 @@ export const DEFAULT_GROUPS: Group[] = [
   }
 ];
 
+// 系统分组：favorites 来自收藏列表，recent 来自最近玩过，liked 来自好评反馈
+export const SYSTEM_GROUP_IDS: string[] = DEFAULT_GROUPS.map(group => group.id);
+
+// 本地新建分组的ID前缀，创建同步到服务端后换用服务端ID
+export const LOCAL_GROUP_ID_PREFIX = 'local_group_';
+
 // 游戏提交
 export interface GameSubmission {
   id?: string;
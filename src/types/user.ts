@@ -37,6 +37,83 @@ export const DEFAULT_TRUST_PREFERENCES: TrustPreferences = {
   blockTracking: true
 };
 
+// 孩子档案
+export interface ChildProfile {
+  id: string;
+  name: string;
+  avatar?: string;
+  // 出生年月（YYYY-MM），用于计算月龄
+  birthMonth?: string;
+  // 兴趣（技能标签）
+  interests: string[];
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// 默认孩子档案ID，老用户的数据迁移到此档案下
+export const DEFAULT_PROFILE_ID = 'child_default';
+
+// 允许游戏的时间段（HH:MM），结束早于开始表示跨过午夜
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+// 游戏时间限制（按孩子档案设置）
+export interface ScreenTimeSettings {
+  enabled: boolean;
+  /** 每日游戏时长上限（分钟），null 表示不限 */
+  dailyLimitMinutes: number | null;
+  /** 单次游戏时长上限（分钟），null 表示不限 */
+  sessionLimitMinutes: number | null;
+  /** 允许游戏的时间段，为空表示全天 */
+  allowedWindows: TimeWindow[];
+  /** 每玩多少分钟提醒休息，null 表示不提醒 */
+  restReminderMinutes: number | null;
+  /** 到达限制前的倒计时（秒） */
+  windDownSeconds: number;
+}
+
+// 默认游戏时间限制
+export const DEFAULT_SCREEN_TIME_SETTINGS: ScreenTimeSettings = {
+  enabled: true,
+  dailyLimitMinutes: 60,
+  sessionLimitMinutes: 30,
+  allowedWindows: [{ start: '07:00', end: '20:30' }],
+  restReminderMinutes: 20,
+  windDownSeconds: 60
+};
+
+// 游戏时长记录
+export interface ScreenTimeUsage {
+  /** 每日已玩时长（毫秒），键为 YYYY-MM-DD */
+  daily: Record<string, number>;
+  /** 家长临时放宽限制的截止时间 */
+  overrideUntil?: number;
+  /** 本次游戏 */
+  session?: ScreenTimeSession;
+}
+
+// 本次游戏时长，换游戏、刷新页面后继续累计
+export interface ScreenTimeSession {
+  /** 本次已玩时长（毫秒） */
+  usedMs: number;
+  /** 上次休息时的本次已玩时长（毫秒） */
+  restAtMs: number;
+  /** 最后一次累计时长的时间 */
+  lastActiveAt: number;
+}
+
+// 家长验证状态
+export interface ParentalGateState {
+  /** 连续验证失败次数 */
+  failures: number;
+  /** 失败过多被锁定的截止时间 */
+  lockedUntil?: number;
+  /** 验证通过后的有效期截止时间 */
+  unlockedUntil?: number;
+}
+
 // 用户信息
 export interface User {
   id: string;
@@ -46,11 +123,14 @@ export interface User {
   email?: string;
   createdAt: number;
   lastLoginAt?: number;
+  // 孩子档案
+  children?: ChildProfile[];
 }
 
 // 应用状态
 export interface AppState {
   user: User | null;
+  activeProfile: ChildProfile;
   currentAge: [number, number] | null;
   favorites: string[];
   recentGames: string[];
@@ -60,9 +140,9 @@ export interface AppState {
 // 应用状态动作类型
 export type AppAction =
   | { type: 'SET_USER'; payload: User }
+  | { type: 'SET_PROFILE'; payload: { profile: ChildProfile; currentAge: [number, number]; favorites: string[]; recentGames: string[] } }
   | { type: 'SET_AGE'; payload: [number, number] }
-  | { type: 'ADD_FAVORITE'; payload: string }
-  | { type: 'REMOVE_FAVORITE'; payload: string }
+  | { type: 'SET_FAVORITES'; payload: string[] }
   | { type: 'SET_RECENT'; payload: string[] }
   | { type: 'UPDATE_TRUST_PREFERENCES'; payload: Partial<TrustPreferences> };
 
@@ -76,5 +156,79 @@ export const STORAGE_KEYS = {
   AGE_SELECTION: 'age_selection',
   SESSION_ID: 'session_id',
   USER_TOKEN: 'user_token',
-  USER_INFO: 'user_info'
+  REFRESH_TOKEN: 'refresh_token',
+  USER_INFO: 'user_info',
+  GAME_CACHE: 'game_cache',
+  USER_GROUPS: 'user_groups',
+  SYNC_OUTBOX: 'sync_outbox',
+  FAVORITES_SYNC: 'favorites_sync',
+  LIKED_GAMES: 'liked_games',
+  USER_HISTORY: 'user_history',
+  CHILD_PROFILES: 'child_profiles',
+  ACTIVE_PROFILE: 'active_profile',
+  AGE_PROMPT: 'age_prompt',
+  AGE_GROUPS: 'age_groups',
+  SCREEN_TIME: 'screen_time',
+  SCREEN_TIME_USAGE: 'screen_time_usage',
+  PARENT_PIN: 'parent_pin',
+  PARENTAL_GATE: 'parental_gate',
+  ACTIVE_SESSION: 'active_session',
+  PLAY_LOG: 'play_log',
+  STORAGE_VERSION: 'storage_version'
+} as const;
+
+// 存储键前缀（按ID区分的一组键）
+export const STORAGE_KEY_PREFIXES = {
+  RISK_ALERT: 'risk_alert_'
 } as const;
+
+// 以纯文本保存的键（其余键均为JSON）
+export const TEXT_STORAGE_KEYS: string[] = [
+  STORAGE_KEYS.SESSION_ID,
+  STORAGE_KEYS.USER_TOKEN,
+  STORAGE_KEYS.REFRESH_TOKEN,
+  STORAGE_KEYS.ACTIVE_PROFILE
+];
+
+// 按孩子档案隔离的键，实际保存为 `键名:档案ID`
+export const PROFILE_STORAGE_KEYS: string[] = [
+  STORAGE_KEYS.FAVORITES,
+  STORAGE_KEYS.RECENT_GAMES,
+  STORAGE_KEYS.AGE_SELECTION,
+  STORAGE_KEYS.USER_GROUPS,
+  STORAGE_KEYS.FAVORITES_SYNC,
+  STORAGE_KEYS.LIKED_GAMES,
+  STORAGE_KEYS.USER_HISTORY,
+  STORAGE_KEYS.AGE_PROMPT,
+  STORAGE_KEYS.SCREEN_TIME,
+  STORAGE_KEYS.SCREEN_TIME_USAGE,
+  STORAGE_KEYS.ACTIVE_SESSION,
+  STORAGE_KEYS.PLAY_LOG
+];
+
+// 数据量较大、保存在 IndexedDB 的键，按档案隔离的键每个档案各保存一份
+export const BULK_STORAGE_KEYS: string[] = [
+  STORAGE_KEYS.FEEDBACK_QUEUE,
+  STORAGE_KEYS.GAME_CACHE,
+  STORAGE_KEYS.SYNC_OUTBOX,
+  STORAGE_KEYS.PLAY_LOG
+];
+
+// 存储容量不足时可以清除的缓存键，按清除顺序排列
+export const EVICTABLE_STORAGE_KEYS: string[] = [
+  STORAGE_KEYS.GAME_CACHE
+];
+
+// 不参与数据导出的敏感键
+export const SENSITIVE_STORAGE_KEYS: string[] = [
+  STORAGE_KEYS.USER_TOKEN,
+  STORAGE_KEYS.REFRESH_TOKEN,
+  STORAGE_KEYS.PARENT_PIN,
+  STORAGE_KEYS.PARENTAL_GATE
+];
+
+// 清空存储时保留的键，清空数据后家长密码和失败锁定仍然有效
+export const PRESERVED_STORAGE_KEYS: string[] = [
+  STORAGE_KEYS.PARENT_PIN,
+  STORAGE_KEYS.PARENTAL_GATE
+];
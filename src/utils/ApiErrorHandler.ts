@@ -3,12 +3,60 @@
  * 微学宝盒 - 统一的API错误处理
  */
 
+import Taro from '@tarojs/taro';
 import { storageManager } from '@/services/StorageManager';
+import type { ApiError } from '@/types/api';
+
+/**
+ * 网络错误码（请求未到达服务器）
+ */
+export const NETWORK_ERROR_CODE = -1;
+
+/**
+ * 响应数据校验失败错误码
+ */
+export const INVALID_RESPONSE_ERROR_CODE = -2;
+
+/**
+ * 登录页地址
+ */
+const LOGIN_PAGE_URL = '/pages/login/index';
+
+/**
+ * API请求错误
+ * 携带业务错误码、HTTP状态码和字段校验详情
+ */
+export class ApiRequestError extends Error implements ApiError {
+  /** 业务错误码 */
+  readonly code: number;
+  /** HTTP状态码 */
+  readonly statusCode?: number;
+  /** 字段校验详情 */
+  readonly details?: Record<string, string[]>;
+
+  constructor(error: ApiError & { statusCode?: number }) {
+    super(error.message);
+    this.name = 'ApiRequestError';
+    this.code = error.code;
+    this.statusCode = error.statusCode;
+    this.details = error.details;
+  }
+
+  /**
+   * 是否为网络错误
+   */
+  get isNetworkError(): boolean {
+    return this.code === NETWORK_ERROR_CODE;
+  }
+}
 
 /**
  * API错误处理类
  */
 export class ApiErrorHandler {
+  /** 是否已在跳转登录页 */
+  private static redirectingToLogin = false;
+
   /**
    * 处理API错误
    * @param error 错误对象
@@ -20,11 +68,8 @@ export class ApiErrorHandler {
     // 解析错误
     const apiError = this.parseError(error);
 
-    // 根据错误类型处理
+    // 根据错误类型处理；401 只提示信息，登出由 ApiClient 在刷新失败后处理
     switch (apiError.statusCode) {
-      case 401:
-        this.handleUnauthorized();
-        break;
       case 403:
         this.handleForbidden();
         break;
@@ -56,6 +101,14 @@ export class ApiErrorHandler {
     message: string;
     details?: Record<string, string[]>;
   } {
+    if (error instanceof ApiRequestError) {
+      return {
+        statusCode: error.statusCode,
+        message: error.message,
+        details: error.details
+      };
+    }
+
     if (error instanceof Response) {
       return {
         statusCode: error.status,
@@ -85,21 +138,35 @@ export class ApiErrorHandler {
 
   /**
    * 处理未授权错误
+   * 仅在Token刷新失败后调用，多个请求同时失败时只跳转一次
    */
-  private static handleUnauthorized(): void {
+  static handleUnauthorized(): void {
+    if (this.redirectingToLogin) return;
+    this.redirectingToLogin = true;
+
     // 清除用户数据
     storageManager.clearUserToken();
+    storageManager.clearRefreshToken();
     storageManager.clearUserInfo();
 
     // 显示提示
     this.showErrorMessage('登录已过期，请重新登录');
 
-    // 跳转到登录页（需要路由支持）
+    // 跳转到登录页，并清空页面栈，避免返回需要登录的页面
     setTimeout(() => {
-      window.location.href = '/login';
+      Taro.reLaunch({ url: LOGIN_PAGE_URL }).catch(error => {
+        console.warn('跳转登录页失败:', error);
+      });
     }, 1500);
   }
 
+  /**
+   * 重新登录后调用，登录再次过期时可以重新跳转
+   */
+  static resetUnauthorized(): void {
+    this.redirectingToLogin = false;
+  }
+
   /**
    * 处理禁止访问错误
    */
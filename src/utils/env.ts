@@ -0,0 +1,58 @@
+/**
+ * 运行环境工具
+ * 微学宝盒 - 统一判断开发/正式环境、运行平台和模拟后端开关
+ */
+
+/**
+ * 运行模式
+ */
+export type AppMode = 'development' | 'production' | 'test';
+
+/**
+ * 获取当前运行模式
+ * @returns 运行模式，未设置时视为开发环境
+ */
+export function getAppMode(): AppMode {
+  const mode = process.env.NODE_ENV;
+  return mode === 'production' || mode === 'test' ? mode : 'development';
+}
+
+/**
+ * 是否为正式环境
+ */
+export function isProduction(): boolean {
+  return getAppMode() === 'production';
+}
+
+/**
+ * 获取 Taro 编译平台
+ * @returns 平台标识（如 h5、weapp），未通过 Taro 编译时视为 h5
+ */
+export function getTaroEnv(): string {
+  return process.env.TARO_ENV || 'h5';
+}
+
+/**
+ * 是否运行在小程序中
+ */
+export function isMiniProgram(): boolean {
+  const env = getTaroEnv();
+  return env !== 'h5' && env !== 'rn' && env !== 'harmony';
+}
+
+/**
+ * 是否启用模拟后端
+ * 必须显式设置 MOCK_API=true，且正式环境下始终关闭
+ */
+export function isMockEnabled(): boolean {
+  if (process.env.MOCK_API !== 'true') {
+    return false;
+  }
+
+  if (isProduction()) {
+    console.warn('正式环境已忽略 MOCK_API 设置');
+    return false;
+  }
+
+  return true;
+}
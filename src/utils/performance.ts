@@ -4,6 +4,7 @@
  */
 
 import { storageManager } from '@/services/StorageManager';
+import { isProduction } from '@/utils/env';
 
 /**
  * 性能监控服务
@@ -118,7 +119,7 @@ export class PerformanceMonitor {
    */
   private sendToMonitoring(metric: string, value: number): void {
     // 只在生产环境发送
-    if (process.env.NODE_ENV === 'production') {
+    if (isProduction()) {
       const sessionId = storageManager.getSessionId();
       
       // 使用 sendBeacon 发送（页面卸载时也能发送）
@@ -0,0 +1,90 @@
+/**
+ * 数据校验诊断
+ * 微学宝盒 - 记录并上报网络响应和本地存储的校验失败
+ */
+
+import { API_ENDPOINTS } from '@/types/api';
+import { isProduction } from '@/utils/env';
+
+/**
+ * 校验失败后的处理方式
+ * - repaired: 修复后继续使用
+ * - reset: 无法修复，已重置为默认值
+ * - dropped: 列表中的不合法条目已丢弃
+ * - rejected: 整个响应被拒绝
+ */
+export type ValidationAction = 'repaired' | 'reset' | 'dropped' | 'rejected';
+
+/**
+ * 校验诊断信息
+ */
+export interface ValidationDiagnostic {
+  /** 数据来源 */
+  source: 'storage' | 'network';
+  /** 存储键名或接口地址 */
+  key: string;
+  /** 处理方式 */
+  action: ValidationAction;
+  /** 字段错误详情 */
+  issues: Record<string, string[]>;
+  /** 发生时间 */
+  timestamp: number;
+}
+
+/**
+ * 处理方式显示文本
+ */
+const ACTION_TEXT: Record<ValidationAction, string> = {
+  repaired: '修复',
+  reset: '重置',
+  dropped: '丢弃',
+  rejected: '拒绝'
+};
+
+/** 内存中保留的诊断条数 */
+const MAX_DIAGNOSTICS = 50;
+
+const diagnostics: ValidationDiagnostic[] = [];
+
+/**
+ * 上报校验失败
+ * 开发环境输出到控制台，正式环境发送到监控接口
+ * @param diagnostic 诊断信息（不含时间）
+ */
+export function reportValidationIssue(diagnostic: Omit<ValidationDiagnostic, 'timestamp'>): void {
+  const entry: ValidationDiagnostic = { ...diagnostic, timestamp: Date.now() };
+
+  diagnostics.push(entry);
+  if (diagnostics.length > MAX_DIAGNOSTICS) {
+    diagnostics.shift();
+  }
+
+  console.warn(`数据校验失败 [${entry.source}:${entry.key}] 已${ACTION_TEXT[entry.action]}:`, entry.issues);
+
+  if (isProduction() && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+    navigator.sendBeacon(
+      API_ENDPOINTS.MONITORING_ERRORS,
+      JSON.stringify({
+        message: `数据校验失败 [${entry.source}:${entry.key}]`,
+        context: { ...entry },
+        timestamp: entry.timestamp,
+        userAgent: navigator.userAgent
+      })
+    );
+  }
+}
+
+/**
+ * 获取最近的校验诊断
+ * @returns 诊断列表（按时间先后）
+ */
+export function getValidationDiagnostics(): ValidationDiagnostic[] {
+  return [...diagnostics];
+}
+
+/**
+ * 清空校验诊断
+ */
+export function clearValidationDiagnostics(): void {
+  diagnostics.length = 0;
+}
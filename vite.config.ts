@@ -7,6 +7,14 @@ import { inspectAttr } from 'kimi-plugin-inspect-react'
 export default defineConfig({
   base: './',
   plugins: [inspectAttr(), react()],
+  define: {
+    // MOCK_API=true 时接口请求由 src/mocks 中的内存后端响应
+    'process.env.MOCK_API': JSON.stringify(process.env.MOCK_API ?? ''),
+    // Vite 只构建 H5，小程序构建由 Taro 注入 TARO_ENV
+    'process.env.TARO_ENV': JSON.stringify('h5'),
+    // 分组分享链接的落地页地址，未设置时使用当前站点
+    'process.env.SHARE_BASE_URL': JSON.stringify(process.env.SHARE_BASE_URL ?? ''),
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),